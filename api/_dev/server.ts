@@ -0,0 +1,56 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { existsSync } from 'fs';
+import { SheetEndpoint } from '../../src/types';
+
+/**
+ * Local API server
+ *
+ * Serves the same handlers Vercel deploys under /api so `npm start` (which
+ * proxies /api to this port) works without the Vercel CLI. Environment
+ * variables are read from API_ENV_FILE (default .env); point it at
+ * api/_dev/stub.env to run against the stub Sheets server instead of Google.
+ *
+ *   npm run api:stub   # terminal 1, stub Google Sheets on :3002
+ *   API_ENV_FILE=api/_dev/stub.env npm run api:dev   # terminal 2, API on :3001
+ */
+
+const envFile = process.env.API_ENV_FILE || '.env';
+if (existsSync(envFile)) {
+  process.loadEnvFile(envFile);
+}
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
+// Required after the environment is loaded, because the handlers read it at import time
+const handlers: Record<SheetEndpoint, Handler> = {
+  'dashboard': require('../dashboard').default,
+  'income': require('../income').default,
+  'bank-details': require('../bank-details').default,
+  'bank-history': require('../bank-history').default,
+  'fund-balance': require('../fund-balance').default,
+  'departments': require('../departments').default,
+  'events': require('../events').default,
+  'kpis': require('../kpis').default
+};
+
+const port = parseInt(process.env.API_PORT || '3001', 10);
+
+createServer((req, res) => {
+  const path = (req.url || '').split('?')[0].replace(/^\/api\//, '').replace(/\/$/, '');
+  const handler = handlers[path as SheetEndpoint];
+
+  if (!handler) {
+    res.statusCode = 404;
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(JSON.stringify({ error: `Unknown endpoint ${req.url}` }));
+    return;
+  }
+
+  handler(req, res).catch(error => {
+    console.error(error);
+    res.statusCode = 500;
+    res.end();
+  });
+}).listen(port, () => {
+  console.log(`API listening on http://localhost:${port}/api (env: ${existsSync(envFile) ? envFile : 'process only'})`);
+});
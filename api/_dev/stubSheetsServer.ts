@@ -0,0 +1,67 @@
+import { createServer, ServerResponse } from 'http';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * Stub Google Sheets API
+ *
+ * Answers GET /v4/spreadsheets/{id}/values/{range}?key=... with the fixture
+ * named after the range's sheet tab ("Bank Details!A:J" → bank-details.json)
+ * from api/_dev/fixtures, in the same { range, majorDimension, values } shape
+ * Google returns, and GET /v4/spreadsheets/{id}/values:batchGet?ranges=...
+ * with one such value range per requested range. Requests without a key get
+ * a 403 like the real API.
+ */
+
+const fixturesDir = join(process.cwd(), 'api', '_dev', 'fixtures');
+const port = parseInt(process.env.STUB_SHEETS_PORT || '3002', 10);
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Value range for a range, from the fixture of its sheet tab; null when there is none
+ */
+const readRange = (range: string) => {
+  const sheetName = range.split('!')[0];
+  const fixture = join(fixturesDir, `${sheetName.trim().toLowerCase().replace(/\s+/g, '-')}.json`);
+
+  if (!existsSync(fixture)) {
+    return null;
+  }
+
+  const { values } = JSON.parse(readFileSync(fixture, 'utf-8'));
+  return { range, majorDimension: 'ROWS', values };
+};
+
+createServer((req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${port}`);
+  const match = url.pathname.match(/^\/v4\/spreadsheets\/([^/]+)\/values(?::batchGet|\/(.+))$/);
+
+  if (req.method !== 'GET' || !match) {
+    send(res, 404, { error: { code: 404, message: 'Not found', status: 'NOT_FOUND' } });
+    return;
+  }
+
+  if (!url.searchParams.get('key')) {
+    send(res, 403, { error: { code: 403, message: 'The request is missing a valid API key.', status: 'PERMISSION_DENIED' } });
+    return;
+  }
+
+  const isBatch = match[2] === undefined;
+  const ranges = isBatch ? url.searchParams.getAll('ranges') : [decodeURIComponent(match[2])];
+  const valueRanges = ranges.map(readRange);
+  const missing = ranges.find((range, index) => !valueRanges[index]);
+
+  if (missing !== undefined || ranges.length === 0) {
+    send(res, 400, { error: { code: 400, message: `Unable to parse range: ${missing ?? ''}`, status: 'INVALID_ARGUMENT' } });
+    return;
+  }
+
+  send(res, 200, isBatch ? { spreadsheetId: match[1], valueRanges } : valueRanges[0]);
+}).listen(port, () => {
+  console.log(`Stub Google Sheets API listening on http://localhost:${port} (fixtures: ${fixturesDir})`);
+});
@@ -0,0 +1,152 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { ApiResponse, ApiErrorResponse, BankDetailsConfig, RequestErrorKind, SheetBatchRanges } from '../../src/types';
+import { RequestError } from '../../src/services/requestErrors';
+import { getSheetSource, getSourceVariables, getBatchRanges, SheetSourceName, CACHE_TTL_SECONDS } from './sheetSources';
+
+interface CacheEntry {
+  body: ApiResponse<unknown>;
+  expiresAt: number;
+}
+
+// Per-instance response cache; warm serverless instances reuse it between requests
+const cache = new Map<string, CacheEntry>();
+
+interface SheetHandlerOptions<T> {
+  source: SheetSourceName;
+  // Optional sheets answer with data: null when not configured instead of an error
+  optional?: boolean;
+  load: (config: BankDetailsConfig) => Promise<T>;
+}
+
+// Status the API answers with for each kind of failed sheet request
+const ERROR_STATUS: Record<RequestErrorKind, number> = {
+  auth: 502,
+  'not-found': 502,
+  quota: 429,
+  network: 503,
+  parse: 502,
+  http: 502
+};
+
+const sendJson = (res: ServerResponse, status: number, body: ApiResponse<unknown> | ApiErrorResponse): void => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Whether the request asks for fresh data (?fresh=1), as manual syncs do
+ */
+const isFreshRequest = (req: IncomingMessage): boolean => {
+  const query = (req.url || '').split('?')[1] || '';
+  return query.split('&').some(parameter => parameter === 'fresh=1' || parameter === 'fresh=true');
+};
+
+interface CachedLoadOptions<T> {
+  // What is read, for error messages, e.g. "the income sheet"
+  description: string;
+  cacheKey: string;
+  // Read the sheet again instead of answering from a cache
+  fresh: boolean;
+  load: () => Promise<T>;
+}
+
+/**
+ * Answer from the response cache, or load, cache and answer; failures are
+ * answered with the status and kind of the request error. Fresh requests
+ * skip the cache (and refill it) and are never cached on the way back.
+ */
+const serveCached = async <T>(res: ServerResponse, { description, cacheKey, fresh, load }: CachedLoadOptions<T>): Promise<void> => {
+  // Let Vercel's edge cache serve repeat requests too
+  res.setHeader(
+    'Cache-Control',
+    fresh ? 'no-store' : `s-maxage=${CACHE_TTL_SECONDS}, stale-while-revalidate=${CACHE_TTL_SECONDS * 5}`
+  );
+
+  const cached = fresh ? undefined : cache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    sendJson(res, 200, cached.body);
+    return;
+  }
+
+  try {
+    const body: ApiResponse<T> = { data: await load(), fetchedAt: new Date().toISOString() };
+    cache.set(cacheKey, { body, expiresAt: Date.now() + CACHE_TTL_SECONDS * 1000 });
+    sendJson(res, 200, body);
+  } catch (error) {
+    console.error(`Error loading ${description}:`, error);
+    // Pass the kind on so the dashboard can show what to fix, and retry only what can succeed later
+    const kind: RequestErrorKind = error instanceof RequestError ? error.kind : 'http';
+    sendJson(res, ERROR_STATUS[kind], {
+      error: `Failed to read ${description}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      kind
+    });
+  }
+};
+
+/**
+ * Build a GET handler that reads one sheet with the server-held API key,
+ * parses it and returns it as JSON, caching the result for CACHE_TTL_SECONDS.
+ * Works both as a Vercel function and under the local dev server.
+ */
+export const createSheetHandler = <T>({ source, optional = false, load }: SheetHandlerOptions<T>) => {
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', 'GET');
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const config = getSheetSource(source);
+    if (!config) {
+      if (optional) {
+        sendJson(res, 200, { data: null, fetchedAt: new Date().toISOString() });
+      } else {
+        sendJson(res, 503, {
+          error: `The ${source} sheet is not configured on the server. Set ${getSourceVariables(source).join(', ')}.`,
+          kind: 'http'
+        });
+      }
+      return;
+    }
+
+    await serveCached(res, {
+      description: `the ${source} sheet`,
+      cacheKey: `${source}:${config.spreadsheetId}:${config.range}`,
+      fresh: isFreshRequest(req),
+      load: () => load(config)
+    });
+  };
+};
+
+/**
+ * Build a GET handler that reads the income sheet, the bank details sheet
+ * and every registered single value in one batch (see getBatchRanges),
+ * cached like the single-sheet handlers
+ */
+export const createBatchHandler = <T>(load: (apiKey: string, ranges: SheetBatchRanges) => Promise<T>) => {
+  return async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', 'GET');
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const batch = getBatchRanges();
+    if (!batch) {
+      const variables = getSourceVariables('income').concat(getSourceVariables('bank').slice(1));
+      sendJson(res, 503, {
+        error: `The income and bank details sheets are not configured on the server. Set ${variables.join(', ')}.`,
+        kind: 'http'
+      });
+      return;
+    }
+
+    await serveCached(res, {
+      description: 'the dashboard sheets',
+      cacheKey: `batch:${JSON.stringify(batch.ranges)}`,
+      fresh: isFreshRequest(req),
+      load: () => load(batch.apiKey, batch.ranges)
+    });
+  };
+};
@@ -0,0 +1,149 @@
+import { BankDetailsConfig, SheetBatchRanges, SheetRange } from '../../src/types';
+
+/**
+ * Sheet Source Configuration (server-side)
+ *
+ * The Google Sheets API key and the spreadsheet IDs/ranges live only in the
+ * serverless functions' environment; none of these variables use the
+ * REACT_APP_ prefix, so they are never embedded into the browser bundle.
+ *
+ * Environment Variables:
+ * - GOOGLE_SHEETS_API_KEY (required)
+ * - INCOME_SPREADSHEET_ID, INCOME_SHEET_RANGE (required)
+ * - INCOME_COLUMNS (optional, income column mapping; see src/config/incomeSheetConfig.ts)
+ * - BANK_SPREADSHEET_ID, BANK_SHEET_RANGE (required)
+ * - BANK_HISTORY_SPREADSHEET_ID, BANK_HISTORY_SHEET_RANGE (optional, ID defaults to the bank spreadsheet)
+ * - ISKCON_EMPOWER_SPREADSHEET_ID, ISKCON_EMPOWER_SHEET_RANGE (optional)
+ * - DEPARTMENTS_SPREADSHEET_ID, DEPARTMENTS_SHEET_RANGE (optional, ID defaults to the income spreadsheet)
+ * - EVENTS_SPREADSHEET_ID, EVENTS_SHEET_RANGE (optional, ID defaults to the income spreadsheet)
+ * - KPIS_SPREADSHEET_ID, KPIS_SHEET_RANGE (optional, ID defaults to the income spreadsheet)
+ * - SHEET_VALUE_RANGES (optional, more single values; see the range registry below)
+ * - VALUES_SPREADSHEET_ID (optional, spreadsheet of SHEET_VALUE_RANGES, defaults to the income spreadsheet)
+ * - SHEETS_API_BASE_URL (optional, e.g. http://localhost:3002 for the local stub)
+ * - SHEETS_CACHE_TTL_SECONDS (optional, default 60)
+ * - REQUEST_TIMEOUT_MS, REQUEST_RETRIES (optional; see src/config/requestConfig.ts)
+ *
+ * The older REACT_APP_*_SPREADSHEET_ID / REACT_APP_*_SHEET_RANGE names are
+ * still read as fallbacks so existing deployments keep working, but the API
+ * key must be moved to GOOGLE_SHEETS_API_KEY.
+ */
+
+export type SheetSourceName = 'income' | 'bank' | 'bankHistory' | 'fund' | 'departments' | 'events' | 'kpis';
+
+const env = (name: string): string => process.env[name] || process.env[`REACT_APP_${name}`] || '';
+
+const SOURCE_VARIABLES: Record<SheetSourceName, { spreadsheetId: string; range: string; fallbackId?: string }> = {
+  income: { spreadsheetId: 'INCOME_SPREADSHEET_ID', range: 'INCOME_SHEET_RANGE' },
+  bank: { spreadsheetId: 'BANK_SPREADSHEET_ID', range: 'BANK_SHEET_RANGE' },
+  bankHistory: { spreadsheetId: 'BANK_HISTORY_SPREADSHEET_ID', range: 'BANK_HISTORY_SHEET_RANGE', fallbackId: 'BANK_SPREADSHEET_ID' },
+  fund: { spreadsheetId: 'ISKCON_EMPOWER_SPREADSHEET_ID', range: 'ISKCON_EMPOWER_SHEET_RANGE' },
+  departments: { spreadsheetId: 'DEPARTMENTS_SPREADSHEET_ID', range: 'DEPARTMENTS_SHEET_RANGE', fallbackId: 'INCOME_SPREADSHEET_ID' },
+  events: { spreadsheetId: 'EVENTS_SPREADSHEET_ID', range: 'EVENTS_SHEET_RANGE', fallbackId: 'INCOME_SPREADSHEET_ID' },
+  kpis: { spreadsheetId: 'KPIS_SPREADSHEET_ID', range: 'KPIS_SHEET_RANGE', fallbackId: 'INCOME_SPREADSHEET_ID' }
+};
+
+/**
+ * Sheet location and key for a source, or null when it is not configured
+ */
+export const getSheetSource = (name: SheetSourceName): BankDetailsConfig | null => {
+  const variables = SOURCE_VARIABLES[name];
+  const source: BankDetailsConfig = {
+    apiKey: process.env.GOOGLE_SHEETS_API_KEY || '',
+    spreadsheetId: env(variables.spreadsheetId) || (variables.fallbackId ? env(variables.fallbackId) : ''),
+    range: env(variables.range)
+  };
+
+  return source.apiKey && source.spreadsheetId && source.range ? source : null;
+};
+
+/**
+ * Environment variables a source needs, for "not configured" error messages
+ */
+export const getSourceVariables = (name: SheetSourceName): string[] => {
+  const variables = SOURCE_VARIABLES[name];
+  return ['GOOGLE_SHEETS_API_KEY', variables.spreadsheetId, variables.range];
+};
+
+/**
+ * Range registry: the single values (KPI cells) served with the dashboard
+ * bundle, by key. The ISKCON Empower fund balance is registered as
+ * "iskconEmpowerFund" when its sheet is configured; more are added without
+ * code changes through SHEET_VALUE_RANGES, as key=range pairs separated by
+ * semicolons:
+ *
+ *   SHEET_VALUE_RANGES=annadanTarget=Targets!B2; corpusFund=Corpus!C:C
+ *
+ * A range is a single cell or a whole column, in which case the last
+ * non-empty value is used. Invalid entries are logged and skipped.
+ */
+export const getValueRanges = (): Record<string, SheetRange> => {
+  const ranges: Record<string, SheetRange> = {};
+
+  const fund = getSheetSource('fund');
+  if (fund) {
+    ranges.iskconEmpowerFund = { spreadsheetId: fund.spreadsheetId, range: fund.range };
+  }
+
+  const spreadsheetId = env('VALUES_SPREADSHEET_ID') || env('INCOME_SPREADSHEET_ID');
+  (process.env.SHEET_VALUE_RANGES || '').split(';').forEach(entry => {
+    if (!entry.trim()) return;
+    const separator = entry.indexOf('=');
+    const key = entry.slice(0, separator).trim();
+    const range = entry.slice(separator + 1).trim();
+    if (separator === -1 || !/^[A-Za-z][\w-]*$/.test(key) || !range || !spreadsheetId) {
+      console.error(`Ignoring SHEET_VALUE_RANGES entry "${entry.trim()}" (expected key=Sheet!A1, with a values or income spreadsheet ID set)`);
+      return;
+    }
+    ranges[key] = { spreadsheetId, range };
+  });
+
+  return ranges;
+};
+
+/**
+ * Ranges of the dashboard bundle, or null when the income or bank details
+ * sheet is not configured
+ */
+export const getBatchRanges = (): { apiKey: string; ranges: SheetBatchRanges } | null => {
+  const income = getSheetSource('income');
+  const bank = getSheetSource('bank');
+  if (!income || !bank) {
+    return null;
+  }
+
+  return {
+    apiKey: income.apiKey,
+    ranges: {
+      income: { spreadsheetId: income.spreadsheetId, range: income.range },
+      bankDetails: { spreadsheetId: bank.spreadsheetId, range: bank.range },
+      values: getValueRanges()
+    }
+  };
+};
+
+export const CACHE_TTL_SECONDS = parseInt(process.env.SHEETS_CACHE_TTL_SECONDS || '60', 10) || 0;
+
+/**
+ * Bank Details Sheet Structure
+ * 
+ * Expected columns in the bank details sheet:
+ * A: Bank Details (e.g., "State Bank of India - Main Branch")
+ * B: IFSC Code (e.g., "SBIN0001234")
+ * C: UPI IDs (comma-separated if multiple, e.g., "bank@upi, bank2@paytm")
+ * D: Account Holder Name (e.g., "Temple Trust")
+ * E: Main Purpose (e.g., "Donations and Offerings")
+ * F: Current Balance (numeric value, e.g., 50000)
+ * G: Account Number (e.g., "1234567890")
+ * H: Last Updated Date (e.g., "2024-01-15")
+ * I: Last Updated Time (e.g., "14:30:00")
+ * J: Bank Name (e.g., "State Bank of India")
+ * K: Account Group (optional, e.g. "Operational", "Corpus", "ISKCON Empower",
+ *    "Project Funds"; see src/config/accountGroupConfig.ts)
+ *
+ * The optional bank history tab (BANK_HISTORY_SHEET_RANGE) has one row per
+ * account per date, with columns found by header name: Date, Account Number,
+ * Balance, and optionally Bank Details and Time.
+ * 
+ * The ISKCON Empower fund range is either a single cell or a whole column
+ * (e.g. 'Fund!B:B'), in which case the last non-empty value is used.
+ */
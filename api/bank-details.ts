@@ -0,0 +1,10 @@
+import { googleSheetsService } from '../src/services/googleSheetsService';
+import { createSheetHandler } from './_lib/createSheetHandler';
+
+/**
+ * GET /api/bank-details → ApiResponse<BankDetails[]>
+ */
+export default createSheetHandler({
+  source: 'bank',
+  load: config => googleSheetsService.fetchBankDetails(config)
+});
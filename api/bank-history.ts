@@ -0,0 +1,12 @@
+import { googleSheetsService } from '../src/services/googleSheetsService';
+import { createSheetHandler } from './_lib/createSheetHandler';
+
+/**
+ * GET /api/bank-history → ApiResponse<BalanceSnapshot[] | null>
+ * (null when no bank history tab is configured, so the client uses only the snapshots it recorded)
+ */
+export default createSheetHandler({
+  source: 'bankHistory',
+  optional: true,
+  load: config => googleSheetsService.fetchBankHistory(config)
+});
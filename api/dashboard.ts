@@ -0,0 +1,8 @@
+import { googleSheetsService } from '../src/services/googleSheetsService';
+import { createBatchHandler } from './_lib/createSheetHandler';
+
+/**
+ * GET /api/dashboard → ApiResponse<DashboardBundle>
+ * (income, bank details and every registered single value, read with one values:batchGet request per spreadsheet)
+ */
+export default createBatchHandler((apiKey, ranges) => googleSheetsService.fetchBatch(apiKey, ranges));
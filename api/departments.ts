@@ -0,0 +1,12 @@
+import { googleSheetsService } from '../src/services/googleSheetsService';
+import { createSheetHandler } from './_lib/createSheetHandler';
+
+/**
+ * GET /api/departments → ApiResponse<DepartmentDefinition[] | null>
+ * (null when no departments tab is configured, so the client falls back to its JSON file or built-ins)
+ */
+export default createSheetHandler({
+  source: 'departments',
+  optional: true,
+  load: config => googleSheetsService.fetchDepartmentDefinitions(config)
+});
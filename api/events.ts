@@ -0,0 +1,12 @@
+import { googleSheetsService } from '../src/services/googleSheetsService';
+import { createSheetHandler } from './_lib/createSheetHandler';
+
+/**
+ * GET /api/events → ApiResponse<TempleEvent[] | null>
+ * (null when no events tab is configured, so the client falls back to its JSON file)
+ */
+export default createSheetHandler({
+  source: 'events',
+  optional: true,
+  load: config => googleSheetsService.fetchEvents(config)
+});
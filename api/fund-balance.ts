@@ -0,0 +1,12 @@
+import { googleSheetsService } from '../src/services/googleSheetsService';
+import { createSheetHandler } from './_lib/createSheetHandler';
+
+/**
+ * GET /api/fund-balance → ApiResponse<number | null>
+ * (ISKCON Empower Prayagraj fund balance; null when the sheet is not configured)
+ */
+export default createSheetHandler({
+  source: 'fund',
+  optional: true,
+  load: config => googleSheetsService.fetchSingleValue(config)
+});
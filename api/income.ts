@@ -0,0 +1,10 @@
+import { googleSheetsService } from '../src/services/googleSheetsService';
+import { createSheetHandler } from './_lib/createSheetHandler';
+
+/**
+ * GET /api/income → ApiResponse<IncomeDataset>
+ */
+export default createSheetHandler({
+  source: 'income',
+  load: config => googleSheetsService.fetchData(config)
+});
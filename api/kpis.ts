@@ -0,0 +1,12 @@
+import { googleSheetsService } from '../src/services/googleSheetsService';
+import { createSheetHandler } from './_lib/createSheetHandler';
+
+/**
+ * GET /api/kpis → ApiResponse<KpiDefinition[] | null>
+ * (null when no KPIs tab is configured, so the client falls back to its JSON file or built-ins)
+ */
+export default createSheetHandler({
+  source: 'kpis',
+  optional: true,
+  load: config => googleSheetsService.fetchKpiDefinitions(config)
+});
@@ -1,22 +1,41 @@
-import React, { useEffect } from 'react';
+import React, { useMemo } from 'react';
 import { DashboardHeader } from './components/DashboardHeader';
 import { DateFilterBar } from './components/DateFilterBar';
 import { KPISection } from './components/KPISection';
 import { DepartmentsSection } from './components/DepartmentsSection';
+import { UnmappedDepartmentsSection } from './components/UnmappedDepartmentsSection';
+import { DataHealthSection } from './components/DataHealthSection';
+import { ReportingCoverageSection } from './components/ReportingCoverageSection';
 import { ChartsSection } from './components/ChartsSection';
 import { AnalyticsSection } from './components/AnalyticsSection';
 import { BankDetailsSection } from './components/BankDetailsSection';
+import { BankStatementsSection } from './components/BankStatementsSection';
+import { BankBalanceHistorySection } from './components/BankBalanceHistorySection';
+import { ReconciliationSection } from './components/ReconciliationSection';
 import { DataTableSection } from './components/DataTableSection';
+import { IncomeImportSection } from './components/IncomeImportSection';
+import { SyncHistorySection } from './components/SyncHistorySection';
 import { ShareModal } from './components/ShareModal';
 import { LoadingOverlay } from './components/LoadingOverlay';
 import { MessageContainer } from './components/MessageContainer';
+import { CachedDataBanner } from './components/CachedDataBanner';
+import { LoadErrorBanner } from './components/LoadErrorBanner';
 import { ThemeProvider } from './contexts/ThemeContext';
-import { useIncomeData } from './hooks/useIncomeData';
+import { useDepartments } from './contexts/DepartmentContext';
+import {
+  useAppData,
+  selectIncome,
+  selectConnection,
+  selectBankDetails,
+  selectLoadStatus,
+  selectRefreshAll
+} from './contexts/AppDataContext';
 import { useFilters } from './hooks/useFilters';
-import { useConnection } from './hooks/useConnection';
 import { useMessages } from './hooks/useMessages';
-import { useBankDetails } from './hooks/useBankDetails';
-import { bankDetailsConfig } from './config/bankDetailsConfig';
+import { dataProcessingService } from './services/dataProcessingService';
+import { reportingCoverageService } from './services/reportingCoverageService';
+import { syncDiffService } from './services/syncDiffService';
+import { dateService } from './services/dateService';
 import styles from './App.module.css';
 
 /**
@@ -31,42 +50,32 @@ import styles from './App.module.css';
  */
 
 function App() {
-  const { data, loading, refresh } = useIncomeData();
-  const { currentFilter, setFilter, setDateRange, filteredData } = useFilters(data);
-  const { connectionState, connect, sync } = useConnection();
+  const { data } = useAppData(selectIncome);
+  const { currentFilter, setFilter, setDateRange, startDate, endDate, filteredData } = useFilters(data);
+  const { connectionState, sync } = useAppData(selectConnection);
   const { messages, addMessage, removeMessage } = useMessages();
-  const { data: bankDetails, loading: bankLoading } = useBankDetails(bankDetailsConfig);
+  const { data: bankDetails } = useAppData(selectBankDetails);
+  const status = useAppData(selectLoadStatus);
+  const refreshAll = useAppData(selectRefreshAll);
 
-  // Auto-connect to Google Sheets on app load
-  useEffect(() => {
-    const autoConnect = async () => {
-      try {
-        const config = {
-          apiKey: process.env.REACT_APP_GOOGLE_SHEETS_API_KEY || '',
-          spreadsheetId: process.env.REACT_APP_INCOME_SPREADSHEET_ID || '',
-          range: process.env.REACT_APP_INCOME_SHEET_RANGE || '',
-          refreshInterval: parseInt(process.env.REACT_APP_REFRESH_INTERVAL || '0', 10)
-        };
-        
-        // Validate required environment variables
-        if (!config.apiKey || !config.spreadsheetId || !config.range || config.refreshInterval <= 0) {
-          console.error('Missing required environment variables: REACT_APP_GOOGLE_SHEETS_API_KEY, REACT_APP_INCOME_SPREADSHEET_ID, REACT_APP_INCOME_SHEET_RANGE, and REACT_APP_REFRESH_INTERVAL');
-          return;
-        }
-        
-        await connect(config);
-      } catch (error) {
-        console.error('Auto-connect failed:', error);
-      }
-    };
-    
-    autoConnect();
-  }, [connect]);
+  // KPI growth versus the previous comparable period for the active filter
+  const comparison = useMemo(
+    () => dataProcessingService.calculatePeriodComparison(data, currentFilter, startDate, endDate),
+    [data, currentFilter, startDate, endDate]
+  );
+
+  // Departments that have not entered yesterday's income; none until data has loaded
+  const { registry } = useDepartments();
+  const pendingEntry = useMemo(() => {
+    if (data.length === 0) return null;
+    const date = dateService.addDays(dateService.today(), -1);
+    return { date, departments: reportingCoverageService.getPendingDepartments(data, date, registry) };
+  }, [data, registry]);
 
   const handleSync = async () => {
     try {
-      await sync();
-      addMessage('Data synchronized successfully!', 'success');
+      const summary = await sync();
+      addMessage(`Data synchronized: ${syncDiffService.describe(summary)}`, 'success');
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Sync failed';
       addMessage(errorMessage, 'error');
@@ -75,7 +84,7 @@ function App() {
 
   const handleRefresh = async () => {
     try {
-      await refresh();
+      await refreshAll();
       addMessage('Data refreshed successfully!', 'success');
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Refresh failed';
@@ -102,17 +111,32 @@ function App() {
         
         <main className={styles.dashboardMain}>
           <div className={styles.container}>
-            <KPISection data={filteredData} bankDetails={bankDetails} />
+            <LoadErrorBanner sources={status.errors} />
+            <CachedDataBanner sources={status.cached} refreshing={status.loading} />
+            <KPISection
+              data={filteredData}
+              bankDetails={bankDetails}
+              comparison={comparison}
+              pendingEntry={pendingEntry}
+            />
             <DepartmentsSection data={filteredData} />
-            <ChartsSection data={filteredData} />
+            <UnmappedDepartmentsSection data={data} />
+            <DataHealthSection />
+            <ReportingCoverageSection data={data} />
+            <ChartsSection data={filteredData} allData={data} />
             <AnalyticsSection data={data} />
             <BankDetailsSection data={bankDetails} />
+            <BankStatementsSection />
+            <BankBalanceHistorySection />
+            <ReconciliationSection />
+            <IncomeImportSection />
+            <SyncHistorySection />
             <DataTableSection data={filteredData} />
           </div>
         </main>
         
         <ShareModal />
-        <LoadingOverlay visible={loading || bankLoading} />
+        <LoadingOverlay visible={status.blocking} />
         <MessageContainer messages={messages} onRemove={removeMessage} />
       </div>
     </ThemeProvider>
@@ -1,49 +1,29 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { IncomeRecord } from '../types';
+import { IncomeRecord, DateRange, LocalDate } from '../types';
 import { dataProcessingService } from '../services/dataProcessingService';
+import { dateService } from '../services/dateService';
+import { useEvents } from '../contexts/EventContext';
 import styles from './AnalyticsSection.module.css';
 
 interface AnalyticsSectionProps {
   data: IncomeRecord[];
 }
 
-type ViewPeriod = 'monthly' | 'yearly' | 'custom';
+type ViewPeriod = 'monthly' | 'yearly' | 'financialYear' | 'custom';
 
 export const AnalyticsSection: React.FC<AnalyticsSectionProps> = ({ data }) => {
+  const { events } = useEvents();
   const [viewPeriod, setViewPeriod] = useState<ViewPeriod>('monthly');
-  const [startDate, setStartDate] = useState<string>('');
-  const [endDate, setEndDate] = useState<string>('');
+  const [startDate, setStartDate] = useState<LocalDate>('');
+  const [endDate, setEndDate] = useState<LocalDate>('');
 
   // Initialize date range inputs when switching to custom
   useEffect(() => {
     if (viewPeriod === 'custom') {
-      const now = new Date();
-      const currentYear = now.getFullYear();
-      const currentMonth = now.getMonth();
-      
-      const formatDateForInput = (date: Date): string => {
-        const year = date.getFullYear();
-        const month = String(date.getMonth() + 1).padStart(2, '0');
-        const day = String(date.getDate()).padStart(2, '0');
-        return `${year}-${month}-${day}`;
-      };
-      
       // Set default to current month if dates are not set
-      setStartDate(prev => {
-        if (!prev) {
-          const startOfMonth = new Date(currentYear, currentMonth, 1);
-          return formatDateForInput(startOfMonth);
-        }
-        return prev;
-      });
-      
-      setEndDate(prev => {
-        if (!prev) {
-          const endOfMonth = new Date(currentYear, currentMonth + 1, 0);
-          return formatDateForInput(endOfMonth);
-        }
-        return prev;
-      });
+      const currentMonth = dataProcessingService.getDateRange('month');
+      setStartDate(prev => prev || currentMonth?.start || '');
+      setEndDate(prev => prev || currentMonth?.end || '');
     }
   }, [viewPeriod]);
 
@@ -51,145 +31,85 @@ export const AnalyticsSection: React.FC<AnalyticsSectionProps> = ({ data }) => {
   const dateLimits = useMemo(() => {
     if (data.length === 0) return null;
 
-    const parseDateString = (dateStr: string): Date => {
-      const [month, day, year] = dateStr.split('/').map(num => parseInt(num, 10));
-      return new Date(year, month - 1, day);
-    };
-
-    const dates = data.map(record => parseDateString(record.date));
-    const minDate = new Date(Math.min(...dates.map(d => d.getTime())));
-    const maxDate = new Date(Math.max(...dates.map(d => d.getTime())));
-
-    const formatDateForInput = (date: Date): string => {
-      const year = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const day = String(date.getDate()).padStart(2, '0');
-      return `${year}-${month}-${day}`;
-    };
+    // Dates are YYYY-MM-DD, so string order is chronological
+    const dates = data.map(record => record.date).sort();
 
     return {
-      min: formatDateForInput(minDate),
-      max: formatDateForInput(maxDate)
+      min: dates[0],
+      max: dates[dates.length - 1]
     };
   }, [data]);
 
-  /**
-   * Filter data based on the selected view period
-   */
-  const filteredData = useMemo(() => {
-    if (data.length === 0) return [];
-
-    const now = new Date();
-    const currentYear = now.getFullYear();
-    const currentMonth = now.getMonth();
-
-    return data.filter(record => {
-      const [month, day, year] = record.date.split('/').map(num => parseInt(num, 10));
-      const recordDate = new Date(year, month - 1, day);
-
-      switch (viewPeriod) {
-        case 'monthly':
-          return recordDate.getFullYear() === currentYear && recordDate.getMonth() === currentMonth;
-        case 'yearly':
-          return recordDate.getFullYear() === currentYear;
-        case 'custom':
-          if (startDate && endDate) {
-            // Parse dates from YYYY-MM-DD format
-            const [startYear, startMonth, startDay] = startDate.split('-').map(num => parseInt(num, 10));
-            const [endYear, endMonth, endDay] = endDate.split('-').map(num => parseInt(num, 10));
-            const startDateObj = new Date(startYear, startMonth - 1, startDay);
-            const endDateObj = new Date(endYear, endMonth - 1, endDay);
-            
-            // Set time to start/end of day for proper comparison
-            startDateObj.setHours(0, 0, 0, 0);
-            endDateObj.setHours(23, 59, 59, 999);
-            recordDate.setHours(0, 0, 0, 0);
-            
-            return recordDate >= startDateObj && recordDate <= endDateObj;
-          }
-          return false;
-        default:
-          return true;
-      }
-    });
-  }, [data, viewPeriod, startDate, endDate]);
-
-  const analytics = dataProcessingService.calculateAnalytics(filteredData);
-
   /**
    * Get the date range for the current view period based on selected period
    */
-  const dateRange = useMemo(() => {
-    const now = new Date();
-    const currentYear = now.getFullYear();
-    const currentMonth = now.getMonth();
-    
-    const formatDate = (date: Date): string => {
-      const year = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const day = String(date.getDate()).padStart(2, '0');
-      return `${year}-${month}-${day}`;
-    };
-
+  const selectedRange = useMemo((): DateRange | null => {
     switch (viewPeriod) {
       case 'monthly':
-        // Show current month's date range
-        const startOfMonth = new Date(currentYear, currentMonth, 1);
-        const endOfMonth = new Date(currentYear, currentMonth + 1, 0);
-        return {
-          start: formatDate(startOfMonth),
-          end: formatDate(endOfMonth)
-        };
-      
+        // Current month's date range
+        return dataProcessingService.getDateRange('month');
       case 'yearly':
-        // Show current year's date range
-        const startOfYear = new Date(currentYear, 0, 1);
-        const endOfYear = new Date(currentYear, 11, 31);
-        return {
-          start: formatDate(startOfYear),
-          end: formatDate(endOfYear)
-        };
-      
+        // Current year's date range
+        return dataProcessingService.getDateRange('year');
+      case 'financialYear':
+        // Current financial year (April-March)
+        return dataProcessingService.getDateRange('financialYear');
       case 'custom':
-        return {
-          start: startDate || '--',
-          end: endDate || '--'
-        };
-      
+        return startDate && endDate ? { start: startDate, end: endDate } : null;
       default:
-        return { start: '--', end: '--' };
+        return null;
     }
   }, [viewPeriod, startDate, endDate]);
 
+  /**
+   * Filter data based on the selected view period
+   */
+  const filteredData = useMemo(() => {
+    if (data.length === 0 || !selectedRange) return [];
+
+    return data.filter(record => dateService.isWithinRange(record.date, selectedRange.start, selectedRange.end));
+  }, [data, selectedRange]);
+
+  const analytics = dataProcessingService.calculateAnalytics(filteredData);
+  const eventAnalytics = useMemo(
+    () => dataProcessingService.calculateEventAnalytics(filteredData, events),
+    [filteredData, events]
+  );
+
+  const dateRange = {
+    start: selectedRange?.start || '--',
+    end: selectedRange?.end || '--'
+  };
+
   const getAverageRevenue = () => {
     if (filteredData.length === 0) return 0;
 
     const totalRevenue = filteredData.reduce((sum, record) => sum + record.cash + record.online, 0);
     
+    if (!selectedRange) {
+      return totalRevenue;
+    }
+
+    // Average per calendar day in the period (+1 to include both start and end days)
+    const days = dateService.daysBetween(selectedRange.start, selectedRange.end) + 1;
+    return days > 0 ? totalRevenue / days : totalRevenue;
+  };
+
+  const getFinancialYearLabel = () => {
+    const financialYear = dateService.getFinancialYear(selectedRange?.start || dateService.today());
+    return dateService.formatFinancialYear(financialYear);
+  };
+
+  const getPeriodLabel = () => {
     switch (viewPeriod) {
       case 'monthly':
-        // For monthly view, calculate average per day in the current month
-        const currentMonthDays = new Date(new Date().getFullYear(), new Date().getMonth() + 1, 0).getDate();
-        return totalRevenue / currentMonthDays;
+        return 'Current Month:';
       case 'yearly':
-        // For yearly view, calculate average per day in the current year
-        const currentYearDays = new Date(new Date().getFullYear(), 11, 31).getTime() - new Date(new Date().getFullYear(), 0, 1).getTime();
-        const daysInYear = Math.ceil(currentYearDays / (1000 * 60 * 60 * 24));
-        return totalRevenue / daysInYear;
-      case 'custom':
-        if (startDate && endDate) {
-          // Calculate days between start and end date
-          const [startYear, startMonth, startDay] = startDate.split('-').map(num => parseInt(num, 10));
-          const [endYear, endMonth, endDay] = endDate.split('-').map(num => parseInt(num, 10));
-          const startDateObj = new Date(startYear, startMonth - 1, startDay);
-          const endDateObj = new Date(endYear, endMonth - 1, endDay);
-          const timeDiff = endDateObj.getTime() - startDateObj.getTime();
-          const daysDiff = Math.ceil(timeDiff / (1000 * 60 * 60 * 24)) + 1; // +1 to include both start and end days
-          return daysDiff > 0 ? totalRevenue / daysDiff : totalRevenue;
-        }
-        return totalRevenue;
+        return 'Current Year:';
+      case 'financialYear':
+        return `Current FY (${getFinancialYearLabel()}):`;
       default:
-        return totalRevenue;
+        return 'Custom Range:';
     }
   };
 
@@ -199,6 +119,8 @@ export const AnalyticsSection: React.FC<AnalyticsSectionProps> = ({ data }) => {
         return 'Average Daily Revenue (This Month)';
       case 'yearly':
         return 'Average Daily Revenue (This Year)';
+      case 'financialYear':
+        return `Average Daily Revenue (${getFinancialYearLabel()})`;
       case 'custom':
         return 'Average Daily Revenue (Selected Range)';
       default:
@@ -238,7 +160,7 @@ export const AnalyticsSection: React.FC<AnalyticsSectionProps> = ({ data }) => {
               <h3>Performance Insights</h3>
               <div className={styles.dateRangeInline}>
                 <span className={styles.dateRangeLabel}>
-                  {viewPeriod === 'monthly' ? 'Current Month:' : viewPeriod === 'yearly' ? 'Current Year:' : 'Custom Range:'}
+                  {getPeriodLabel()}
                 </span>
                 {viewPeriod === 'custom' ? (
                   <div className={styles.customDateInputs}>
@@ -291,6 +213,13 @@ export const AnalyticsSection: React.FC<AnalyticsSectionProps> = ({ data }) => {
               >
                 Yearly
               </button>
+              <button
+                className={`${styles.viewBtn} ${viewPeriod === 'financialYear' ? styles.viewBtnActive : ''}`}
+                onClick={() => setViewPeriod('financialYear')}
+                aria-label="Switch to financial year view (April to March)"
+              >
+                FY
+              </button>
               <button
                 className={`${styles.viewBtn} ${viewPeriod === 'custom' ? styles.viewBtnActive : ''}`}
                 onClick={() => setViewPeriod('custom')}
@@ -326,9 +255,78 @@ export const AnalyticsSection: React.FC<AnalyticsSectionProps> = ({ data }) => {
                   {dataProcessingService.formatCurrency(getAverageRevenue())}
                 </div>
               </div>
+              {viewPeriod === 'custom' && analytics.financialYears.length > 1 && (
+                <div className={styles.insightItem}>
+                  <div className={styles.insightLabel}>Average Revenue per Financial Year</div>
+                  <div className={styles.insightValue} aria-label="Average revenue per financial year">
+                    {dataProcessingService.formatCurrency(analytics.avgYearlyRevenue)}
+                  </div>
+                  <div className={styles.insightBreakdown}>
+                    {analytics.financialYears.map(year => (
+                      <span key={year.financialYear}>
+                        {year.label}: {dataProcessingService.formatCurrency(year.total)}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         </div>
+
+        {events.length > 0 && (
+          <div className={styles.card}>
+            <div className={styles.cardHeader}>
+              <div className={styles.headerLeft}>
+                <h3>Festival Income</h3>
+              </div>
+            </div>
+            <div className={styles.cardBody}>
+              <div className={styles.insightItems}>
+                <div className={styles.insightItem}>
+                  <div className={styles.insightLabel}>
+                    Average Daily Revenue on Festival Days ({eventAnalytics.festivalDays} days)
+                  </div>
+                  <div className={styles.insightValue}>
+                    {dataProcessingService.formatCurrency(eventAnalytics.festivalAvgDailyRevenue)}
+                  </div>
+                </div>
+                <div className={styles.insightItem}>
+                  <div className={styles.insightLabel}>
+                    Average Daily Revenue on Other Days ({eventAnalytics.nonFestivalDays} days)
+                  </div>
+                  <div className={styles.insightValue}>
+                    {dataProcessingService.formatCurrency(eventAnalytics.nonFestivalAvgDailyRevenue)}
+                  </div>
+                </div>
+                {eventAnalytics.events.length === 0 ? (
+                  <div className={styles.insightItem}>
+                    <div className={styles.insightLabel}>No festivals with income in this period</div>
+                  </div>
+                ) : (
+                  eventAnalytics.events.map(income => (
+                    <div key={`${income.event.name}-${income.event.start}`} className={styles.insightItem}>
+                      <div className={styles.insightLabel}>
+                        {income.event.name}
+                        <span className={styles.eventDates}>
+                          {income.event.start === income.event.end
+                            ? dataProcessingService.formatDate(income.event.start)
+                            : `${dataProcessingService.formatDate(income.event.start)} - ${dataProcessingService.formatDate(income.event.end)}`}
+                        </span>
+                      </div>
+                      <div className={styles.insightValue}>
+                        {dataProcessingService.formatCurrency(income.total)}
+                        <span className={styles.eventDates}>
+                          {dataProcessingService.formatCurrency(income.avgDailyRevenue)} / day
+                        </span>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+        )}
       </div>
     </section>
   );
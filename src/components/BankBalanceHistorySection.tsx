@@ -0,0 +1,186 @@
+/**
+ * BANK BALANCE HISTORY SECTION COMPONENT
+ * ======================================
+ *
+ * Shows how the temple's cash position moves: a balance trend chart per
+ * account group or per account, and a table of month-end closing balances
+ * with the change from the month before. Balances come from the bank sheet's
+ * history tab and the snapshots recorded each time bank details are fetched
+ * (see src/config/bankHistoryConfig.ts).
+ *
+ * @author Temple Management System
+ * @lastUpdated 2025
+ */
+
+import React, { useMemo, useState } from 'react';
+import { DateRange } from '../types';
+import { bankHistoryService, BalanceTrendGrouping } from '../services/bankHistoryService';
+import { accountGroupService } from '../services/accountGroupService';
+import { dataProcessingService } from '../services/dataProcessingService';
+import { dateService } from '../services/dateService';
+import { exportService } from '../services/exportService';
+import { useAppData, selectBankDetails, selectBankHistory } from '../contexts/AppDataContext';
+import { useMessages } from '../hooks/useMessages';
+import { bankHistoryMonths } from '../config/bankHistoryConfig';
+import { BankBalanceTrendChart } from './charts/BankBalanceTrendChart';
+import styles from './BankBalanceHistorySection.module.css';
+
+type TrendPeriod = '3m' | '12m' | 'all';
+
+const PERIOD_OPTIONS: { value: TrendPeriod; label: string; months: number | null }[] = [
+  { value: '3m', label: '3 Months', months: 3 },
+  { value: '12m', label: '12 Months', months: 12 },
+  { value: 'all', label: 'All', months: null }
+];
+
+const GROUPING_OPTIONS: { value: BalanceTrendGrouping; label: string }[] = [
+  { value: 'group', label: 'By Group' },
+  { value: 'account', label: 'By Account' }
+];
+
+export const BankBalanceHistorySection: React.FC = () => {
+  const { data: bankDetails } = useAppData(selectBankDetails);
+  const { snapshots } = useAppData(selectBankHistory);
+  const { addMessage } = useMessages();
+  const [grouping, setGrouping] = useState<BalanceTrendGrouping>('group');
+  const [period, setPeriod] = useState<TrendPeriod>('12m');
+
+  const trend = useMemo(() => {
+    const months = PERIOD_OPTIONS.find(option => option.value === period)?.months;
+    const today = dateService.today();
+    const range: DateRange | null = months ? { start: dateService.addMonths(today, -months), end: today } : null;
+    return bankHistoryService.getTrend(snapshots, bankDetails, grouping, range);
+  }, [snapshots, bankDetails, grouping, period]);
+
+  const closings = useMemo(
+    () => bankHistoryService.getMonthEndClosings(snapshots, bankDetails, bankHistoryMonths),
+    [snapshots, bankDetails]
+  );
+
+  // Table columns follow the chart: one per account group or per account
+  const columns = useMemo(() => {
+    const accounts = bankHistoryService.getAccounts(snapshots, bankDetails);
+    return grouping === 'account'
+      ? accounts.map(account => ({ id: account.key, label: account.label, grouped: false }))
+      : accountGroupService.getGroups()
+        .filter(group => accounts.some(account => account.groupId === group.id))
+        .map(group => ({ id: group.id, label: group.label, grouped: true }));
+  }, [snapshots, bankDetails, grouping]);
+
+  if (snapshots.length === 0) {
+    return null;
+  }
+
+  const formatMonth = (month: string) => dateService.format(`${month}-01`, { month: 'short', year: 'numeric' });
+  const firstDate = snapshots[0].date;
+
+  const handleExport = () => {
+    try {
+      exportService.exportGenericToCSV(closings.map(closing => {
+        const row: Record<string, string | number> = { 'Month': formatMonth(closing.month), 'Balance Date': closing.date };
+        columns.forEach(column => {
+          const balance = column.grouped ? closing.groups[column.id] : closing.accounts[column.id];
+          row[column.label] = balance ?? '';
+        });
+        row['Total'] = closing.total;
+        row['Change'] = closing.change ?? '';
+        return row;
+      }), exportService.generateFilename('month_end_bank_balances', 'csv'));
+      addMessage('Month-end balances exported!', 'success');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Export failed';
+      addMessage(errorMessage, 'error');
+    }
+  };
+
+  return (
+    <section className={styles.historySection} aria-labelledby="bank-history-heading">
+      <div className={styles.card}>
+        <div className={styles.cardHeader}>
+          <div>
+            <h3 id="bank-history-heading">📈 Bank Balance History</h3>
+            <p className={styles.summary}>
+              {snapshots.length} balance{snapshots.length !== 1 ? 's' : ''} recorded since {dateService.format(firstDate)}
+            </p>
+          </div>
+          <div className={styles.controls}>
+            <div className={styles.buttonGroup} role="group" aria-label="Show balances">
+              {GROUPING_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  className={`${styles.toggleBtn} ${grouping === option.value ? styles.toggleBtnActive : ''}`}
+                  onClick={() => setGrouping(option.value)}
+                  aria-pressed={grouping === option.value}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div className={styles.buttonGroup} role="group" aria-label="Trend period">
+              {PERIOD_OPTIONS.map(option => (
+                <button
+                  key={option.value}
+                  className={`${styles.toggleBtn} ${period === option.value ? styles.toggleBtnActive : ''}`}
+                  onClick={() => setPeriod(option.value)}
+                  aria-pressed={period === option.value}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+        <div className={styles.cardBody}>
+          <BankBalanceTrendChart trend={trend} />
+
+          <div className={styles.tableHeader}>
+            <h4>Month-End Closing Balances</h4>
+            <button className={styles.exportBtn} onClick={handleExport} aria-label="Export month-end balances">
+              📊 Export
+            </button>
+          </div>
+          <div className={styles.tableContainer}>
+            <table className={styles.dataTable} aria-label="Month-end closing balances">
+              <thead>
+                <tr>
+                  <th scope="col">Month</th>
+                  {columns.map(column => (
+                    <th key={column.id} scope="col">{column.label}</th>
+                  ))}
+                  <th scope="col">Total</th>
+                  <th scope="col">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {closings.map(closing => (
+                  <tr key={closing.month}>
+                    <td>
+                      {formatMonth(closing.month)}
+                      {closing.date !== dateService.addDays(dateService.addMonths(`${closing.month}-01`, 1), -1) && (
+                        <div className={styles.note}>to {dateService.format(closing.date, { day: 'numeric', month: 'short' })}</div>
+                      )}
+                    </td>
+                    {columns.map(column => {
+                      const balance = column.grouped ? closing.groups[column.id] : closing.accounts[column.id];
+                      return (
+                        <td key={column.id} className={styles.currency}>
+                          {balance === undefined || balance === null ? '—' : dataProcessingService.formatCurrency(balance)}
+                        </td>
+                      );
+                    })}
+                    <td className={`${styles.currency} ${styles.total}`}>{dataProcessingService.formatCurrency(closing.total)}</td>
+                    <td className={`${styles.currency} ${closing.change === null ? '' : closing.change < 0 ? styles.negative : styles.positive}`}>
+                      {closing.change === null
+                        ? '—'
+                        : `${closing.change >= 0 ? '+' : '−'}${dataProcessingService.formatCurrency(Math.abs(closing.change))}`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
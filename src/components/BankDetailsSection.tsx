@@ -1,6 +1,8 @@
 import React from 'react';
 import { BankDetails } from '../types';
 import { dataProcessingService } from '../services/dataProcessingService';
+import { dateService } from '../services/dateService';
+import { accountGroupService } from '../services/accountGroupService';
 import { useMessages } from '../hooks/useMessages';
 import styles from './BankDetailsSection.module.css';
 
@@ -11,14 +13,9 @@ interface BankDetailsSectionProps {
 export const BankDetailsSection: React.FC<BankDetailsSectionProps> = ({ data }) => {
   const { addMessage } = useMessages();
   
-  // Calculate total current balance from all bank accounts
-  const totalCurrentBalance = data.reduce((total, bank) => {
-    const balance = bank.currentBalance;
-    if (balance !== undefined && balance !== null && !isNaN(Number(balance))) {
-      return total + Number(balance);
-    }
-    return total;
-  }, 0);
+  // Total and per-group balances, worked out the same way as the KPI cards
+  const totalCurrentBalance = accountGroupService.getBalance(accountGroupService.getAccounts(data));
+  const groupBalances = accountGroupService.summarize(data);
 
   // Get the most recent last updated date and time from the data
   const getLastUpdatedInfo = () => {
@@ -30,23 +27,13 @@ export const BankDetailsSection: React.FC<BankDetailsSectionProps> = ({ data })
     const lastUpdatedEntries = data
       .filter(bank => bank.lastUpdatedDate && bank.lastUpdatedTime)
       .map(bank => {
-        // Parse the date format "27/09/25" to a proper Date object
-        const parseCustomDate = (dateStr: string, timeStr: string) => {
-          // Handle format like "27/09/25" (DD/MM/YY)
-          const [day, month, year] = dateStr.split('/');
-          const [hours, minutes] = timeStr.split(':');
-          
-          // Convert 2-digit year to 4-digit year (assuming 20xx)
-          const fullYear = parseInt(year) < 50 ? 2000 + parseInt(year) : 1900 + parseInt(year);
-          
-          // Create date object (month is 0-indexed in JavaScript)
-          return new Date(fullYear, parseInt(month) - 1, parseInt(day), parseInt(hours), parseInt(minutes));
-        };
-        
-        const parsedDate = parseCustomDate(bank.lastUpdatedDate!, bank.lastUpdatedTime!);
+        // lastUpdatedDate is normalized to YYYY-MM-DD at ingestion; time is "HH:MM"
+        const [hours, minutes] = bank.lastUpdatedTime!.split(':');
+        const parsedDate = dateService.toDate(bank.lastUpdatedDate!);
+        parsedDate.setHours(parseInt(hours), parseInt(minutes));
         
         return {
-          date: bank.lastUpdatedDate!,
+          date: dateService.format(bank.lastUpdatedDate!),
           time: bank.lastUpdatedTime!,
           timestamp: parsedDate.getTime()
         };
@@ -107,6 +94,21 @@ export const BankDetailsSection: React.FC<BankDetailsSectionProps> = ({ data })
                 {dataProcessingService.formatCurrency(totalCurrentBalance)}
               </span>
             </div>
+            {groupBalances.length > 0 && (
+              <div className={styles.groupBalances}>
+                {groupBalances.map(({ group, accounts, balance }) => (
+                  <span
+                    key={group.id}
+                    className={styles.groupBalance}
+                    title={`${accounts.length} account${accounts.length !== 1 ? 's' : ''}${accountGroupService.isCounted(group) ? '' : ', not in totals'}`}
+                  >
+                    <span aria-hidden="true">{group.icon}</span> {group.label}:{' '}
+                    <span className={styles.groupBalanceValue}>{dataProcessingService.formatCurrency(balance)}</span>
+                    {!accountGroupService.isCounted(group) && <span className={styles.groupExcluded}> (not in totals)</span>}
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
           <div className={styles.tableControls}>
             <div className={styles.lastUpdatedInfo}>
@@ -142,6 +144,7 @@ export const BankDetailsSection: React.FC<BankDetailsSectionProps> = ({ data })
                     <th className={styles.headerCell} scope="col">UPI IDs</th>
                     <th className={styles.headerCell} scope="col">Account Holder</th>
                     <th className={styles.headerCell} scope="col">Main Purpose</th>
+                    <th className={styles.headerCell} scope="col">Account Group</th>
                     <th className={styles.headerCell} scope="col">Current Balance</th>
                     <th className={styles.headerCell} scope="col">Actions</th>
                   </tr>
@@ -184,6 +187,11 @@ export const BankDetailsSection: React.FC<BankDetailsSectionProps> = ({ data })
                           {bankDetails.mainPurpose}
                         </div>
                       </td>
+                      <td className={styles.dataCell}>
+                        <div className={styles.groupCell}>
+                          {accountGroupService.getGroup(bankDetails).label}
+                        </div>
+                      </td>
                       <td className={styles.dataCell}>
                         <div className={styles.balanceCell}>
                           {(() => {
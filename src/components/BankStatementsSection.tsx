@@ -0,0 +1,297 @@
+/**
+ * BANK STATEMENTS SECTION COMPONENT
+ * =================================
+ *
+ * Imports the weekly statement downloads (SBI, Bank of Baroda, IDBI and
+ * other CSV or Excel layouts, or OFX) and matches each account's credits to
+ * the department income expected in it, listing matched credits, credits
+ * with no income behind them and income that never arrived. The account is
+ * read from the file where it names one. Statements are kept in the browser
+ * and also feed the Income Reconciliation section (see
+ * src/config/bankStatementConfig.ts).
+ *
+ * @author Temple Management System
+ * @lastUpdated 2025
+ */
+
+import React, { useMemo, useRef, useState } from 'react';
+import { bankStatementService } from '../services/bankStatementService';
+import { statementMatchingService } from '../services/statementMatchingService';
+import { reconciliationService } from '../services/reconciliationService';
+import { bankHistoryService } from '../services/bankHistoryService';
+import { dataProcessingService } from '../services/dataProcessingService';
+import { dateService } from '../services/dateService';
+import { useAppData, selectIncome, selectBankDetails, selectBankHistory, selectBankStatements } from '../contexts/AppDataContext';
+import { useMessages } from '../hooks/useMessages';
+import { statementMatchDays } from '../config/bankStatementConfig';
+import styles from './BankStatementsSection.module.css';
+
+const MAX_LIST_ROWS = 100;
+
+export const BankStatementsSection: React.FC = () => {
+  const { data: records } = useAppData(selectIncome);
+  const { data: bankDetails } = useAppData(selectBankDetails);
+  const { snapshots } = useAppData(selectBankHistory);
+  const { statements, addStatement, removeStatement } = useAppData(selectBankStatements);
+  const { addMessage } = useMessages();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [statementAccount, setStatementAccount] = useState('');
+  const [layoutId, setLayoutId] = useState('');
+  const [viewAccount, setViewAccount] = useState('');
+  const [reading, setReading] = useState(false);
+
+  // Accounts that receive online income first, then every other known account
+  const accounts = useMemo(() => {
+    const known = bankHistoryService.getAccounts(snapshots, bankDetails);
+    const configured = reconciliationService.getConfiguredAccounts();
+    return configured
+      .map(key => ({ key, label: known.find(account => account.key === key)?.label || key }))
+      .concat(known.filter(account => configured.indexOf(account.key) === -1).map(account => ({ key: account.key, label: account.label })));
+  }, [snapshots, bankDetails]);
+
+  const accountLabel = (key: string) => accounts.find(account => account.key === key)?.label || key;
+  const statementAccounts = statements
+    .map(statement => statement.accountKey)
+    .filter((key, index, keys) => keys.indexOf(key) === index);
+  const selectedView = statementAccounts.indexOf(viewAccount) !== -1 ? viewAccount : statementAccounts[0] || '';
+
+  const result = useMemo(
+    () => (selectedView
+      ? statementMatchingService.match(statements, selectedView, reconciliationService.getAccountIncome(records, selectedView))
+      : null),
+    [statements, selectedView, records]
+  );
+
+  const handleFileInput = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow choosing the same file again
+    event.target.value = '';
+    if (!file) return;
+
+    setReading(true);
+    try {
+      const parsed = await bankStatementService.readStatement(file, layoutId || undefined);
+      const accountKey = statementAccount || bankStatementService.findAccount(parsed.accountNumber, accounts.map(account => account.key));
+      if (!accountKey) {
+        throw new Error(
+          parsed.accountNumber
+            ? `No account matches ${parsed.accountNumber} from ${file.name}; choose the account and upload it again`
+            : `${file.name} does not name its account; choose the account and upload it again`
+        );
+      }
+
+      const statement = bankStatementService.createStatement(accountKey, parsed);
+      addStatement(statement);
+      setViewAccount(accountKey);
+      addMessage(
+        `Added ${statement.transactions.length} transactions for ${accountLabel(accountKey)} from ${file.name} (${parsed.layout})`,
+        'success'
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Could not read statement';
+      addMessage(errorMessage, 'error');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const sum = (amounts: number[]) => amounts.reduce((total, amount) => total + amount, 0);
+  const formatDate = (date: string) => dateService.format(date, { day: 'numeric', month: 'short', year: '2-digit' });
+
+  return (
+    <section className={styles.statementsSection} aria-labelledby="bank-statements-heading">
+      <div className={styles.card}>
+        <div className={styles.cardHeader}>
+          <h3 id="bank-statements-heading">🧾 Bank Statements</h3>
+          <p className={styles.summary}>
+            Upload SBI, Bank of Baroda, IDBI or other CSV, Excel or OFX statements to match credits with department income
+            (same amount, within {statementMatchDays} day{statementMatchDays !== 1 ? 's' : ''}).
+          </p>
+        </div>
+        <div className={styles.cardBody}>
+          <div className={styles.upload}>
+            <label className={styles.uploadField}>
+              <span>Account</span>
+              <select className={styles.select} value={statementAccount} onChange={event => setStatementAccount(event.target.value)}>
+                <option value="">Detect from file</option>
+                {accounts.map(account => (
+                  <option key={account.key} value={account.key}>{account.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className={styles.uploadField}>
+              <span>Layout</span>
+              <select className={styles.select} value={layoutId} onChange={event => setLayoutId(event.target.value)}>
+                <option value="">Detect from headers</option>
+                {bankStatementService.getLayouts().map(layout => (
+                  <option key={layout.id} value={layout.id}>{layout.label}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              className={`${styles.btn} ${styles.btnPrimary} ${styles.btnSm}`}
+              onClick={() => fileInputRef.current?.click()}
+              disabled={reading}
+            >
+              {reading ? 'Reading...' : 'Upload Statement'}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx,.ofx,.qfx"
+              className={styles.fileInput}
+              onChange={handleFileInput}
+            />
+          </div>
+
+          {statements.length > 0 && (
+            <ul className={styles.statementList} aria-label="Uploaded statements">
+              {statements.map(statement => (
+                <li key={statement.id} className={styles.statementItem}>
+                  <span>
+                    <strong>{statement.fileName}</strong> — {accountLabel(statement.accountKey)}
+                    {statement.layout && ` (${statement.layout})`}, {dateService.format(statement.period.start)} to{' '}
+                    {dateService.format(statement.period.end)}, {statement.transactions.length} transactions
+                  </span>
+                  <button
+                    className={`${styles.btn} ${styles.btnOutline} ${styles.btnSm}`}
+                    onClick={() => removeStatement(statement.id)}
+                    aria-label={`Remove statement ${statement.fileName}`}
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {result && (
+            <div className={styles.matching}>
+              {statementAccounts.length > 1 && (
+                <div className={styles.buttonGroup} role="group" aria-label="Account">
+                  {statementAccounts.map(key => (
+                    <button
+                      key={key}
+                      className={`${styles.toggleBtn} ${selectedView === key ? styles.toggleBtnActive : ''}`}
+                      onClick={() => setViewAccount(key)}
+                      aria-pressed={selectedView === key}
+                    >
+                      {accountLabel(key)}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              <div className={styles.matchSummary} aria-live="polite">
+                <span className={styles.matched}>
+                  {result.matches.length} matched ({dataProcessingService.formatCurrency(sum(result.matches.map(match => match.transaction.credit)))})
+                </span>
+                <span className={result.unmatchedCredits.length > 0 ? styles.unmatched : ''}>
+                  {result.unmatchedCredits.length} unmatched credit{result.unmatchedCredits.length !== 1 ? 's' : ''} (
+                  {dataProcessingService.formatCurrency(sum(result.unmatchedCredits.map(transaction => transaction.credit)))})
+                </span>
+                <span className={result.unmatchedIncome.length > 0 ? styles.unmatched : ''}>
+                  {result.unmatchedIncome.length} income entr{result.unmatchedIncome.length !== 1 ? 'ies' : 'y'} not credited (
+                  {dataProcessingService.formatCurrency(sum(result.unmatchedIncome.map(entry => entry.amount)))})
+                </span>
+              </div>
+
+              <div className={styles.lists}>
+                <div className={styles.list}>
+                  <h4>Unmatched Credits</h4>
+                  {result.unmatchedCredits.length === 0 ? (
+                    <p className={styles.emptyState}>Every credit matches department income.</p>
+                  ) : (
+                    <div className={styles.tableContainer}>
+                      <table className={styles.dataTable} aria-label="Unmatched credits">
+                        <thead>
+                          <tr>
+                            <th scope="col">Date</th>
+                            <th scope="col">Description</th>
+                            <th scope="col">Credit</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {result.unmatchedCredits.slice(0, MAX_LIST_ROWS).map((transaction, index) => (
+                            <tr key={index}>
+                              <td>{formatDate(transaction.date)}</td>
+                              <td className={styles.description} title={transaction.reference}>{transaction.description || '—'}</td>
+                              <td className={styles.currency}>{dataProcessingService.formatCurrency(transaction.credit)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+
+                <div className={styles.list}>
+                  <h4>Income Not Credited</h4>
+                  {result.unmatchedIncome.length === 0 ? (
+                    <p className={styles.emptyState}>All income in the statement period was credited.</p>
+                  ) : (
+                    <div className={styles.tableContainer}>
+                      <table className={styles.dataTable} aria-label="Income not credited">
+                        <thead>
+                          <tr>
+                            <th scope="col">Date</th>
+                            <th scope="col">Department</th>
+                            <th scope="col">Online</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {result.unmatchedIncome.slice(0, MAX_LIST_ROWS).map(entry => (
+                            <tr key={`${entry.date}|${entry.department}`}>
+                              <td>{formatDate(entry.date)}</td>
+                              <td>{entry.department}</td>
+                              <td className={styles.currency}>{dataProcessingService.formatCurrency(entry.amount)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {result.matches.length > 0 && (
+                <div className={styles.list}>
+                  <h4>Matched Credits</h4>
+                  <div className={styles.tableContainer}>
+                    <table className={styles.dataTable} aria-label="Matched credits">
+                      <thead>
+                        <tr>
+                          <th scope="col">Credited</th>
+                          <th scope="col">Description</th>
+                          <th scope="col">Department</th>
+                          <th scope="col">Income Date</th>
+                          <th scope="col">Amount</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {result.matches.slice(0, MAX_LIST_ROWS).map((match, index) => (
+                          <tr key={index}>
+                            <td>{formatDate(match.transaction.date)}</td>
+                            <td className={styles.description} title={match.transaction.reference}>{match.transaction.description || '—'}</td>
+                            <td>{match.income.department}</td>
+                            <td>
+                              {formatDate(match.income.date)}
+                              {match.dayOffset !== 0 && (
+                                <span className={styles.note}> ({match.dayOffset > 0 ? '+' : ''}{match.dayOffset}d)</span>
+                              )}
+                            </td>
+                            <td className={styles.currency}>{dataProcessingService.formatCurrency(match.transaction.credit)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,66 @@
+/**
+ * CACHED DATA BANNER COMPONENT
+ * ============================
+ * 
+ * Tells the user that some of the dashboard is showing the last payload saved
+ * in the offline cache rather than live data, how old it is, and
+ * whether a background refresh is still running or has failed.
+ * 
+ * @author Temple Management System
+ * @lastUpdated 2025
+ */
+
+import React from 'react';
+import { useDataSource } from '../contexts/DataSourceContext';
+import styles from './CachedDataBanner.module.css';
+
+/**
+ * A data source currently served from the offline cache
+ * 
+ * @interface CachedSource
+ * @property {string} label - Source name shown to the user, e.g. "income"
+ * @property {string|null} cachedAt - ISO fetch time of the cached payload, null when live
+ */
+export interface CachedSource {
+  label: string;
+  cachedAt: string | null;
+}
+
+interface CachedDataBannerProps {
+  sources: CachedSource[];
+  refreshing: boolean;
+}
+
+const formatTimestamp = (timestamp: string): string => {
+  return new Date(timestamp).toLocaleString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+};
+
+export const CachedDataBanner: React.FC<CachedDataBannerProps> = ({ sources, refreshing }) => {
+  const dataSource = useDataSource();
+  const cachedSources = sources.filter(source => source.cachedAt);
+  if (cachedSources.length === 0) return null;
+
+  // Report the oldest payload still on screen
+  const oldest = cachedSources
+    .map(source => source.cachedAt!)
+    .sort()[0];
+
+  return (
+    <div className={styles.banner} role="status" aria-live="polite">
+      <span aria-hidden="true">📦</span>
+      <span>
+        Showing cached data from <strong>{formatTimestamp(oldest)}</strong>
+        {' '}({cachedSources.map(source => source.label).join(', ')})
+      </span>
+      <span className={styles.status}>
+        {refreshing ? 'Refreshing in the background…' : `Could not reach ${dataSource.label}, showing the last saved copy`}
+      </span>
+    </div>
+  );
+};
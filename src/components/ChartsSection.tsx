@@ -3,20 +3,24 @@ import { IncomeRecord } from '../types';
 import { DailyTrendChart } from './charts/DailyTrendChart';
 import { DepartmentIncomeDistributionChart } from './charts/PaymentMethodChart';
 import { DepartmentPerformanceChart } from './charts/DepartmentPerformanceChart';
+import { PaymentChannelChart } from './charts/PaymentChannelChart';
 import styles from './ChartsSection.module.css';
 
 interface ChartsSectionProps {
   data: IncomeRecord[];
+  // All records regardless of the date filter, for year-over-year comparison
+  allData?: IncomeRecord[];
 }
 
-export const ChartsSection: React.FC<ChartsSectionProps> = ({ data }) => {
+export const ChartsSection: React.FC<ChartsSectionProps> = ({ data, allData }) => {
   return (
     <section className={styles.chartsSection} aria-labelledby="charts-heading">
       <h2 id="charts-heading" className="sr-only">Data Visualization Charts</h2>
       <div className={styles.chartsGrid}>
-        <DailyTrendChart data={data} />
+        <DailyTrendChart data={data} comparisonData={allData} />
         {/* <DepartmentChart data={data} /> */}
         <DepartmentIncomeDistributionChart data={data} />
+        <PaymentChannelChart data={data} />
         <DepartmentPerformanceChart data={data} />
       </div>
     </section>
@@ -2,6 +2,8 @@ import React from 'react';
 import { ConnectionState } from '../types';
 import { dataProcessingService } from '../services/dataProcessingService';
 import { ThemeToggle } from './ThemeToggle';
+import { DemoDataBadge } from './DemoDataBadge';
+import { isDemoMode } from '../config/demoConfig';
 import styles from './DashboardHeader.module.css';
 
 interface DashboardHeaderProps {
@@ -18,48 +20,52 @@ export const DashboardHeader: React.FC<DashboardHeaderProps> = ({
   const currentDate = dataProcessingService.getCurrentDate();
 
   return (
-    <header className={styles.dashboardHeader} role="banner">
-      <div className={styles.container}>
-        <div className={styles.headerContent}>
-          <div className={styles.headerLeft}>
-            <h1 className={styles.dashboardTitle}>
-              Income Dashboard
-            </h1>
-            <div className={styles.dashboardDate} aria-live="polite">
-              {currentDate}
+    <>
+      <DemoDataBadge variant="banner" />
+      <header className={styles.dashboardHeader} role="banner">
+        <div className={styles.container}>
+          <div className={styles.headerContent}>
+            <div className={styles.headerLeft}>
+              <h1 className={styles.dashboardTitle}>
+                Income Dashboard
+                {isDemoMode && <span className={styles.demoBadge}><DemoDataBadge /></span>}
+              </h1>
+              <div className={styles.dashboardDate} aria-live="polite">
+                {currentDate}
+              </div>
             </div>
-          </div>
-          <div className={styles.headerRight}>
-            {/* <div className={styles.connectionStatus} role="status" aria-live="polite">
-              <span 
-                className={`${styles.statusIndicator} ${styles[connectionState.status]}`}
-                aria-label={`Connection status: ${connectionState.status}`}
+            <div className={styles.headerRight}>
+              {/* <div className={styles.connectionStatus} role="status" aria-live="polite">
+                <span 
+                  className={`${styles.statusIndicator} ${styles[connectionState.status]}`}
+                  aria-label={`Connection status: ${connectionState.status}`}
+                >
+                  ●
+                </span>
+                <span className={styles.statusText}>
+                  {connectionState.message}
+                </span>
+              </div> */}
+              <ThemeToggle />
+              {/* <button 
+                className={`${styles.btn} ${styles.btnPrimary} ${styles.btnSm}`}
+                onClick={onSync}
+                disabled={connectionState.status !== 'connected' && connectionState.status !== 'paused'}
+                aria-label="Sync data with Google Sheets"
+              >
+                🔄 Sync Now
+              </button> */}
+              {/* <button 
+                className={`${styles.btn} ${styles.btnOutline} ${styles.btnSm}`}
+                onClick={onRefresh}
+                aria-label="Refresh dashboard data"
               >
-                ●
-              </span>
-              <span className={styles.statusText}>
-                {connectionState.message}
-              </span>
-            </div> */}
-            <ThemeToggle />
-            {/* <button 
-              className={`${styles.btn} ${styles.btnPrimary} ${styles.btnSm}`}
-              onClick={onSync}
-              disabled={connectionState.status !== 'connected'}
-              aria-label="Sync data with Google Sheets"
-            >
-              🔄 Sync Now
-            </button> */}
-            {/* <button 
-              className={`${styles.btn} ${styles.btnOutline} ${styles.btnSm}`}
-              onClick={onRefresh}
-              aria-label="Refresh dashboard data"
-            >
-              Refresh
-            </button> */}
+                Refresh
+              </button> */}
+            </div>
           </div>
         </div>
-      </div>
-    </header>
+      </header>
+    </>
   );
 };
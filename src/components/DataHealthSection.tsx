@@ -0,0 +1,149 @@
+/**
+ * DATA HEALTH SECTION COMPONENT
+ * =============================
+ *
+ * Lists the problems found while reading the income sheet and imported
+ * files: missing or unreadable dates, missing departments, amounts that are
+ * not numbers or are negative, future dates, duplicate rows and payment
+ * channels that add up to more than the online amount. Each issue names the
+ * row and the value as entered so it can be corrected at the source, and
+ * the full list can be downloaded as a CSV report.
+ *
+ * @author Temple Management System
+ * @lastUpdated 2025
+ */
+
+import React from 'react';
+import { DataIssueType } from '../types';
+import { dataQualityService, DATA_ISSUE_LABELS } from '../services/dataQualityService';
+import { exportService } from '../services/exportService';
+import { INCOME_FIELD_LABELS } from '../config/incomeSheetConfig';
+import { useMessages } from '../hooks/useMessages';
+import { useAppData, selectIncome } from '../contexts/AppDataContext';
+import styles from './DataHealthSection.module.css';
+
+// Longer lists are left to the downloaded report
+const MAX_LISTED_ISSUES = 200;
+
+export const DataHealthSection: React.FC = () => {
+  const { issues } = useAppData(selectIncome);
+  const { addMessage } = useMessages();
+  const [isExpanded, setIsExpanded] = React.useState(false);
+  const [typeFilter, setTypeFilter] = React.useState<DataIssueType | null>(null);
+
+  const counts = React.useMemo(() => dataQualityService.countByType(issues), [issues]);
+  const excludedRows = issues.filter(issue => issue.severity === 'error').length;
+  const issueTypes = (Object.keys(DATA_ISSUE_LABELS) as DataIssueType[]).filter(type => counts[type] > 0);
+
+  const listedIssues = typeFilter ? issues.filter(issue => issue.type === typeFilter) : issues;
+
+  const handleDownload = () => {
+    try {
+      const filename = exportService.generateFilename('data_health_report', 'csv');
+      exportService.exportGenericToCSV(dataQualityService.toReportRows(issues), filename);
+      addMessage('Data health report downloaded!', 'success');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Export failed';
+      addMessage(errorMessage, 'error');
+    }
+  };
+
+  return (
+    <section className={styles.healthSection} aria-labelledby="data-health-heading">
+      <div className={`${styles.card} ${issues.length > 0 ? styles.hasIssues : ''}`}>
+        <div className={styles.cardHeader}>
+          <div>
+            <h3 id="data-health-heading">🩺 Data Health</h3>
+            <p className={styles.summary}>
+              {issues.length === 0 ? (
+                'No problems found in the income data.'
+              ) : (
+                <>
+                  <strong>{issues.length}</strong> issue{issues.length !== 1 ? 's' : ''} found
+                  {excludedRows > 0 && <>, <strong>{excludedRows}</strong> row{excludedRows !== 1 ? 's' : ''} left out of the dashboard</>}.
+                  {' '}Correct them in the sheet or the imported file and refresh.
+                </>
+              )}
+            </p>
+          </div>
+          {issues.length > 0 && (
+            <div className={styles.headerActions}>
+              <button
+                className={`${styles.btn} ${styles.btnOutline} ${styles.btnSm}`}
+                onClick={handleDownload}
+                aria-label="Download data health report as CSV"
+              >
+                📋 Download Report
+              </button>
+              <button
+                className={`${styles.btn} ${styles.btnOutline} ${styles.btnSm}`}
+                onClick={() => setIsExpanded(expanded => !expanded)}
+                aria-expanded={isExpanded}
+                aria-controls="data-health-details"
+              >
+                {isExpanded ? 'Hide Details' : 'Show Details'}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {issues.length > 0 && (
+          <div className={styles.counts} role="group" aria-label="Issues by type">
+            {issueTypes.map(type => (
+              <button
+                key={type}
+                className={`${styles.countChip} ${typeFilter === type ? styles.countChipActive : ''}`}
+                onClick={() => {
+                  setTypeFilter(current => (current === type ? null : type));
+                  setIsExpanded(true);
+                }}
+                aria-pressed={typeFilter === type}
+              >
+                {DATA_ISSUE_LABELS[type]} <span className={styles.countValue}>{counts[type]}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {issues.length > 0 && isExpanded && (
+          <div className={styles.cardBody} id="data-health-details">
+            <div className={styles.tableContainer}>
+              <table className={styles.dataTable} aria-label="Data issues">
+                <thead>
+                  <tr>
+                    <th scope="col">Source</th>
+                    <th scope="col">Row</th>
+                    <th scope="col">Field</th>
+                    <th scope="col">Problem</th>
+                    <th scope="col">Value As Entered</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {listedIssues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+                    <tr key={`${issue.source || ''}-${issue.row}-${issue.type}-${issue.field || ''}-${index}`}>
+                      <td>{issue.source || 'Income sheet'}</td>
+                      <td>{issue.row}</td>
+                      <td>{issue.field ? INCOME_FIELD_LABELS[issue.field] : 'Whole row'}</td>
+                      <td>
+                        <span className={issue.severity === 'error' ? styles.severityError : styles.severityWarning}>
+                          {DATA_ISSUE_LABELS[issue.type]}
+                        </span>
+                        <div className={styles.message}>{issue.message}</div>
+                      </td>
+                      <td>{issue.rawValue ? <code>"{issue.rawValue}"</code> : <span className={styles.blank}>(blank)</span>}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {listedIssues.length > MAX_LISTED_ISSUES && (
+              <p className={styles.note}>
+                Showing the first {MAX_LISTED_ISSUES} of {listedIssues.length}. Download the report for the full list.
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
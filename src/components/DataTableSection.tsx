@@ -3,6 +3,8 @@ import { IncomeRecord, SortState } from '../types';
 import { dataProcessingService } from '../services/dataProcessingService';
 import { exportService } from '../services/exportService';
 import { useMessages } from '../hooks/useMessages';
+import { useEvents } from '../contexts/EventContext';
+import { PAYMENT_CHANNELS, PAYMENT_CHANNEL_LABELS } from '../config/paymentChannelConfig';
 import styles from './DataTableSection.module.css';
 
 interface DataTableSectionProps {
@@ -13,6 +15,7 @@ export const DataTableSection: React.FC<DataTableSectionProps> = ({ data }) => {
   const [sortState, setSortState] = useState<SortState>({ column: 'date', direction: 'descending' });
   const [isExpanded, setIsExpanded] = useState(false);
   const { addMessage } = useMessages();
+  const { calendar } = useEvents();
 
   const handleSort = (column: string) => {
     setSortState(prev => {
@@ -30,6 +33,9 @@ export const DataTableSection: React.FC<DataTableSectionProps> = ({ data }) => {
     });
   };
 
+  // Channel columns only appear when some record has a channel breakdown
+  const hasChannelData = React.useMemo(() => data.some(record => record.channels), [data]);
+
   const toggleExpanded = () => {
     setIsExpanded(!isExpanded);
   };
@@ -44,11 +50,7 @@ export const DataTableSection: React.FC<DataTableSectionProps> = ({ data }) => {
         bVal = b.cash + b.online;
       }
       
-      if (sortState.column === 'date') {
-        aVal = new Date(aVal);
-        bVal = new Date(bVal);
-      }
-      
+      // Dates are YYYY-MM-DD, so they sort correctly as strings
       if (typeof aVal === 'string') {
         aVal = aVal.toLowerCase();
         bVal = bVal.toLowerCase();
@@ -78,7 +80,7 @@ export const DataTableSection: React.FC<DataTableSectionProps> = ({ data }) => {
       <div className={styles.card}>
         <div className={styles.cardHeader}>
           <div className={styles.headerLeft}>
-            <h3 id="table-heading">Income Records (From Google Sheets)</h3>
+            <h3 id="table-heading">Income Records</h3>
             <button
               className={styles.toggleBtn}
               onClick={toggleExpanded}
@@ -157,6 +159,11 @@ export const DataTableSection: React.FC<DataTableSectionProps> = ({ data }) => {
                     >
                       Online Income
                     </th>
+                    {hasChannelData && PAYMENT_CHANNELS.map(channel => (
+                      <th key={channel} scope="col" role="columnheader">
+                        {PAYMENT_CHANNEL_LABELS[channel]}
+                      </th>
+                    ))}
                     <th 
                       className={`${styles.sortable} ${sortState.column === 'total' ? styles[sortState.direction] : ''}`}
                       onClick={() => handleSort('total')}
@@ -174,14 +181,40 @@ export const DataTableSection: React.FC<DataTableSectionProps> = ({ data }) => {
                     const total = record.cash + record.online;
                     return (
                       <tr key={`${record.date}-${record.department}-${index}`}>
-                        <td>{dataProcessingService.formatDate(record.date)}</td>
-                        <td>{record.department}</td>
+                        <td>
+                          {dataProcessingService.formatDate(record.date)}
+                          {calendar.getEventsForDate(record.date).map(event => (
+                            <span
+                              key={event.name}
+                              className={styles.eventTag}
+                              style={{ background: calendar.getEventColor(event) }}
+                              title={`${event.category}: ${dataProcessingService.formatDate(event.start)} - ${dataProcessingService.formatDate(event.end)}`}
+                            >
+                              {event.name}
+                            </span>
+                          ))}
+                        </td>
+                        <td>
+                          {record.department}
+                          {record.source && (
+                            <span className={styles.sourceTag} title={`Imported from ${record.source}`}>
+                              📥 {record.source}
+                            </span>
+                          )}
+                        </td>
                         <td className={styles.currency}>
                           {dataProcessingService.formatCurrency(record.cash)}
                         </td>
                         <td className={styles.currency}>
                           {dataProcessingService.formatCurrency(record.online)}
                         </td>
+                        {hasChannelData && PAYMENT_CHANNELS.map(channel => (
+                          <td key={channel} className={styles.currency}>
+                            {record.channels?.[channel] !== undefined
+                              ? dataProcessingService.formatCurrency(record.channels[channel]!)
+                              : '—'}
+                          </td>
+                        ))}
                         <td className={styles.currency}>
                           <strong>{dataProcessingService.formatCurrency(total)}</strong>
                         </td>
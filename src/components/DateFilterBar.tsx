@@ -16,7 +16,9 @@
  */
 
 import React from 'react';
-import { DateFilter, IncomeRecord } from '../types';
+import { DateFilter, IncomeRecord, LocalDate } from '../types';
+import { dataProcessingService } from '../services/dataProcessingService';
+import { dateService } from '../services/dateService';
 import styles from './DateFilterBar.module.css';
 
 /**
@@ -31,8 +33,8 @@ import styles from './DateFilterBar.module.css';
  */
 interface DateFilterBarProps {
   currentFilter: DateFilter;
-  onFilterChange: (filter: DateFilter, specificDate?: string) => void;
-  onDateRangeChange: (startDate: string, endDate: string) => void;
+  onFilterChange: (filter: DateFilter, specificDate?: LocalDate) => void;
+  onDateRangeChange: (startDate: LocalDate, endDate: LocalDate) => void;
   dataCount: number;
   allData: IncomeRecord[];
 }
@@ -46,9 +48,21 @@ const FILTER_LABELS: Record<DateFilter, string> = {
   week: 'This Week',
   month: 'This Month',
   year: 'This Year',
+  financialYear: 'This FY',
+  lastFinancialYear: 'Last FY',
+  fyQ1: 'Q1',
+  fyQ2: 'Q2',
+  fyQ3: 'Q3',
+  fyQ4: 'Q4',
   specific: 'Custom Range'
 };
 
+/**
+ * Quick filters for the calendar and the financial year (April-March)
+ */
+const CALENDAR_FILTERS: DateFilter[] = ['all', 'yesterday', 'week', 'month', 'year'];
+const FINANCIAL_YEAR_FILTERS: DateFilter[] = ['financialYear', 'lastFinancialYear', 'fyQ1', 'fyQ2', 'fyQ3', 'fyQ4'];
+
 /**
  * Date Filter Bar Component with Date Range Support
  * 
@@ -66,8 +80,8 @@ export const DateFilterBar: React.FC<DateFilterBarProps> = ({
   allData
 }) => {
   // State for date range inputs
-  const [startDate, setStartDate] = React.useState<string>('');
-  const [endDate, setEndDate] = React.useState<string>('');
+  const [startDate, setStartDate] = React.useState<LocalDate>('');
+  const [endDate, setEndDate] = React.useState<LocalDate>('');
 
   /**
    * Get the first and last dates from all data
@@ -79,83 +93,15 @@ export const DateFilterBar: React.FC<DateFilterBarProps> = ({
       return null;
     }
 
-    // Parse all dates and find min/max
-    const parseDateString = (dateStr: string): Date => {
-      const [month, day, year] = dateStr.split('/').map(num => parseInt(num, 10));
-      return new Date(year, month - 1, day);
-    };
-
-    const dates = allData.map(record => parseDateString(record.date));
-    const minDate = new Date(Math.min(...dates.map(d => d.getTime())));
-    const maxDate = new Date(Math.max(...dates.map(d => d.getTime())));
-
-    // Format date to YYYY-MM-DD for HTML date input
-    const formatDateForInput = (date: Date): string => {
-      const year = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const day = String(date.getDate()).padStart(2, '0');
-      return `${year}-${month}-${day}`;
-    };
+    // Dates are YYYY-MM-DD, so string order is chronological
+    const dates = allData.map(record => record.date).sort();
 
     return {
-      first: formatDateForInput(minDate),
-      last: formatDateForInput(maxDate)
+      first: dates[0],
+      last: dates[dates.length - 1]
     };
   }, [allData]);
 
-  /**
-   * Get date range for a specific filter
-   * 
-   * @param {DateFilter} filter - The filter type
-   * @returns {object|null} Object with start and end dates in YYYY-MM-DD format
-   */
-  const getDateRangeForFilter = (filter: DateFilter): { start: string; end: string } | null => {
-    // Get current local date
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const yesterday = new Date(today);
-    yesterday.setDate(yesterday.getDate() - 1);
-    
-    // Calculate Monday as start of week
-    const startOfWeek = new Date(today);
-    const dayOfWeek = today.getDay();
-    const daysToMonday = dayOfWeek === 0 ? -6 : 1 - dayOfWeek;
-    startOfWeek.setDate(today.getDate() + daysToMonday);
-    
-    // Calculate Sunday as end of week
-    const endOfWeek = new Date(startOfWeek);
-    endOfWeek.setDate(startOfWeek.getDate() + 6);
-    
-    const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
-    const startOfYear = new Date(today.getFullYear(), 0, 1);
-    
-    // Get the last day of the current month
-    const endOfMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0);
-    // Get the last day of the current year
-    const endOfYear = new Date(today.getFullYear(), 11, 31);
-    
-    // Format date to YYYY-MM-DD
-    const formatDate = (date: Date): string => {
-      const year = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const day = String(date.getDate()).padStart(2, '0');
-      return `${year}-${month}-${day}`;
-    };
-    
-    switch (filter) {
-      case 'yesterday':
-        return { start: formatDate(yesterday), end: formatDate(yesterday) };
-      case 'week':
-        return { start: formatDate(startOfWeek), end: formatDate(endOfWeek) };
-      case 'month':
-        return { start: formatDate(startOfMonth), end: formatDate(endOfMonth) };
-      case 'year':
-        return { start: formatDate(startOfYear), end: formatDate(endOfYear) };
-      default:
-        return null;
-    }
-  };
-
   /**
    * Handle quick filter button clicks
    * 
@@ -175,7 +121,8 @@ export const DateFilterBar: React.FC<DateFilterBarProps> = ({
         setEndDate('');
       }
     } else {
-      const dateRange = getDateRangeForFilter(filter);
+      // Same range the data filter uses, in YYYY-MM-DD format
+      const dateRange = dataProcessingService.getDateRange(filter);
       if (dateRange) {
         setStartDate(dateRange.start);
         setEndDate(dateRange.end);
@@ -207,17 +154,10 @@ export const DateFilterBar: React.FC<DateFilterBarProps> = ({
     }
     
     if (date && endDate) {
-      // Convert dates to M/D/YYYY format to match data
-      const [startYear, startMonth, startDay] = date.split('-');
-      const [endYear, endMonth, endDay] = endDate.split('-');
-      const formattedStartDate = `${parseInt(startMonth, 10)}/${parseInt(startDay, 10)}/${startYear}`;
-      const formattedEndDate = `${parseInt(endMonth, 10)}/${parseInt(endDay, 10)}/${endYear}`;
-      onDateRangeChange(formattedStartDate, formattedEndDate);
+      onDateRangeChange(date, endDate);
     } else if (date) {
       // If only start date is set, set it as both start and end for single date filtering
-      const [startYear, startMonth, startDay] = date.split('-');
-      const formattedDate = `${parseInt(startMonth, 10)}/${parseInt(startDay, 10)}/${startYear}`;
-      onDateRangeChange(formattedDate, formattedDate);
+      onDateRangeChange(date, date);
     }
   };
 
@@ -235,17 +175,10 @@ export const DateFilterBar: React.FC<DateFilterBarProps> = ({
     
     setEndDate(date);
     if (startDate && date) {
-      // Convert dates to M/D/YYYY format to match data
-      const [startYear, startMonth, startDay] = startDate.split('-');
-      const [endYear, endMonth, endDay] = date.split('-');
-      const formattedStartDate = `${parseInt(startMonth, 10)}/${parseInt(startDay, 10)}/${startYear}`;
-      const formattedEndDate = `${parseInt(endMonth, 10)}/${parseInt(endDay, 10)}/${endYear}`;
-      onDateRangeChange(formattedStartDate, formattedEndDate);
+      onDateRangeChange(startDate, date);
     } else if (date && !startDate) {
       // If only end date is set, set it as both start and end for single date filtering
-      const [endYear, endMonth, endDay] = date.split('-');
-      const formattedDate = `${parseInt(endMonth, 10)}/${parseInt(endDay, 10)}/${endYear}`;
-      onDateRangeChange(formattedDate, formattedDate);
+      onDateRangeChange(date, date);
     }
   };
 
@@ -256,22 +189,13 @@ export const DateFilterBar: React.FC<DateFilterBarProps> = ({
    */
   const getFilterInfo = () => {
     if (currentFilter === 'specific' && startDate && endDate) {
-      // Convert from YYYY-MM-DD to readable format for display
-      const formatDisplayDate = (dateStr: string) => {
-        const [year, month, day] = dateStr.split('-');
-        return `${parseInt(day, 10)}/${parseInt(month, 10)}/${year}`;
-      };
-      return `Showing data from ${formatDisplayDate(startDate)} to ${formatDisplayDate(endDate)}`;
+      return `Showing data from ${dateService.formatShort(startDate)} to ${dateService.formatShort(endDate)}`;
     }
     
     if (currentFilter === 'specific' && (startDate || endDate)) {
       // Handle single date selection
       const date = startDate || endDate;
-      const formatDisplayDate = (dateStr: string) => {
-        const [year, month, day] = dateStr.split('-');
-        return `${parseInt(day, 10)}/${parseInt(month, 10)}/${year}`;
-      };
-      return `Showing data for ${formatDisplayDate(date!)}`;
+      return `Showing data for ${dateService.formatShort(date)}`;
     }
     
     const filterLabels: Record<DateFilter, string> = {
@@ -279,13 +203,52 @@ export const DateFilterBar: React.FC<DateFilterBarProps> = ({
       'week': 'this week',
       'month': 'this month',
       'year': 'this year',
+      'financialYear': 'this financial year',
+      'lastFinancialYear': 'last financial year',
+      'fyQ1': 'Q1',
+      'fyQ2': 'Q2',
+      'fyQ3': 'Q3',
+      'fyQ4': 'Q4',
       'all': 'all data',
       'specific': 'custom range'
     };
     
+    // Financial-year filters also name the year, e.g. "Q1 of FY 2025-26"
+    const range = dataProcessingService.getDateRange(currentFilter);
+    if (range && FINANCIAL_YEAR_FILTERS.includes(currentFilter)) {
+      const financialYearLabel = dateService.formatFinancialYear(dateService.getFinancialYear(range.start));
+      return currentFilter.startsWith('fyQ')
+        ? `Showing data for ${filterLabels[currentFilter]} of ${financialYearLabel}`
+        : `Showing data for ${filterLabels[currentFilter]} (${financialYearLabel})`;
+    }
+    
     return `Showing data for ${filterLabels[currentFilter] || 'all data'}`;
   };
 
+  /**
+   * Render a quick filter button
+   * 
+   * @param {DateFilter} filter - The filter the button applies
+   * @returns {JSX.Element} Rendered button
+   */
+  const renderFilterButton = (filter: DateFilter) => {
+    const range = FINANCIAL_YEAR_FILTERS.includes(filter) ? dataProcessingService.getDateRange(filter) : null;
+    return (
+      <button
+        key={filter}
+        className={`${styles.btn} ${styles.btnOutline} ${styles.btnSm} ${styles.filterBtn} ${
+          currentFilter === filter ? styles.active : ''
+        }`}
+        onClick={() => handleFilterClick(filter)}
+        aria-pressed={currentFilter === filter}
+        aria-label={`Filter by ${FILTER_LABELS[filter]}`}
+        title={range ? `${dateService.format(range.start)} - ${dateService.format(range.end)}` : undefined}
+      >
+        {FILTER_LABELS[filter]}
+      </button>
+    );
+  };
+
   return (
     <section className={styles.dateFilterBar} role="search" aria-label="Filter data by date range">
       <div className={styles.container}>
@@ -343,19 +306,11 @@ export const DateFilterBar: React.FC<DateFilterBarProps> = ({
           </div>
           
           <div className={styles.quickFilters} role="group" aria-label="Quick date filters">
-            {(['all', 'yesterday', 'week', 'month', 'year'] as DateFilter[]).map((filter) => (
-              <button
-                key={filter}
-                className={`${styles.btn} ${styles.btnOutline} ${styles.btnSm} ${styles.filterBtn} ${
-                  currentFilter === filter ? styles.active : ''
-                }`}
-                onClick={() => handleFilterClick(filter)}
-                aria-pressed={currentFilter === filter}
-                aria-label={`Filter by ${FILTER_LABELS[filter]}`}
-              >
-                {FILTER_LABELS[filter]}
-              </button>
-            ))}
+            {CALENDAR_FILTERS.map((filter) => renderFilterButton(filter))}
+          </div>
+          
+          <div className={styles.quickFilters} role="group" aria-label="Financial year filters (April to March)">
+            {FINANCIAL_YEAR_FILTERS.map((filter) => renderFilterButton(filter))}
           </div>
           
           <div className={styles.filterInfo} aria-live="polite">
@@ -0,0 +1,38 @@
+/**
+ * DEMO DATA BADGE COMPONENT
+ * =========================
+ * 
+ * Watermark shown wherever demo figures could be mistaken for real ones.
+ * Renders nothing unless demo mode is on, so it can be placed freely.
+ * 
+ * @author Temple Management System
+ * @lastUpdated 2025
+ */
+
+import React from 'react';
+import { isDemoMode, DEMO_WATERMARK, DEMO_DESCRIPTION } from '../config/demoConfig';
+import styles from './DemoDataBadge.module.css';
+
+interface DemoDataBadgeProps {
+  // 'banner' spans the full width with the explanation, 'badge' is a compact label
+  variant?: 'banner' | 'badge';
+}
+
+export const DemoDataBadge: React.FC<DemoDataBadgeProps> = ({ variant = 'badge' }) => {
+  if (!isDemoMode) return null;
+
+  if (variant === 'banner') {
+    return (
+      <div className={styles.banner} role="note">
+        <span className={styles.label}>{DEMO_WATERMARK}</span>
+        <span>{DEMO_DESCRIPTION}. Remove <code>?demo</code> from the URL to see live data.</span>
+      </div>
+    );
+  }
+
+  return (
+    <span className={styles.label} title={DEMO_DESCRIPTION}>
+      {DEMO_WATERMARK}
+    </span>
+  );
+};
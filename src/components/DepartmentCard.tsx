@@ -28,10 +28,9 @@ import styles from './DepartmentCard.module.css';
  * @param {DepartmentCardProps} props - Component props containing department name and totals
  * @returns {JSX.Element} Rendered department card
  */
-export const DepartmentCard: React.FC<DepartmentCardProps> = ({ name, totals, index = 0, onClick }) => {
-  // Check if this department should be clickable
-  const clickableDepartments = ['Gaushala', 'Kitchen', 'Hundi', 'Other Donations'];
-  const isClickable = clickableDepartments.includes(name);
+export const DepartmentCard: React.FC<DepartmentCardProps> = ({ name, totals, icon, hasSubSections = false, index = 0, onClick }) => {
+  // Only departments with sub-sections open the details modal
+  const isClickable = hasSubSections;
   // Determine department status based on data availability
   const status = totals.hasData ? 'active' : 'inactive';
   
@@ -55,7 +54,10 @@ export const DepartmentCard: React.FC<DepartmentCardProps> = ({ name, totals, in
       style={{ cursor: isClickable ? 'pointer' : 'default' }}
     >
       <div className={styles.cardHeader}>
-        <h4 className={styles.departmentName}>{name}</h4>
+        <h4 className={styles.departmentName}>
+          {icon && <span className={styles.departmentIcon} aria-hidden="true">{icon}</span>}
+          {name}
+        </h4>
       </div>
       <div className={styles.cardBody}>
         <div className={styles.incomeBreakdown}>
@@ -8,7 +8,7 @@
  * 
  * Features:
  * - Modal overlay with backdrop
- * - Department-specific content area
+ * - Sub-sections rendered from the department registry (any depth)
  * - Close button and escape key handling
  * - Responsive design
  * 
@@ -17,8 +17,9 @@
  */
 
 import React, { useEffect } from 'react';
-import { DepartmentTotals, IncomeRecord } from '../types';
+import { DepartmentNode, DepartmentTotals, IncomeRecord } from '../types';
 import { dataProcessingService } from '../services/dataProcessingService';
+import { useDepartments } from '../contexts/DepartmentContext';
 import styles from './DepartmentModal.module.css';
 
 /**
@@ -54,6 +55,8 @@ export const DepartmentModal: React.FC<DepartmentModalProps> = ({
   isOpen,
   onClose
 }) => {
+  const { registry } = useDepartments();
+
   // Handle escape key to close modal
   useEffect(() => {
     if (!isOpen) return;
@@ -77,48 +80,68 @@ export const DepartmentModal: React.FC<DepartmentModalProps> = ({
   // Don't render if modal is not open
   if (!isOpen) return null;
 
-  // Helper function to calculate totals for sub-sections
+  // Sub-section totals include any nested sub-sections below them
   const getSubSectionTotals = (subSectionName: string): DepartmentTotals => {
-    return dataProcessingService.calculateDepartmentTotals(data, subSectionName);
+    return dataProcessingService.calculateMainDepartmentTotals(data, subSectionName);
   };
 
-  // Get department-specific content
-  const getDepartmentContent = (name: string) => {
-    switch (name) {
-       case 'Gaushala':
-         return {
-           title: 'Gaushala Details',
-           hasSubSections: true
-         };
-       case 'Kitchen':
-         return {
-           title: 'Kitchen Operations',
-           hasSubSections: true
-         };
-      case 'Hundi':
-        return {
-          title: 'Hundi Collections',
-          hasSubSections: true
-        };
-      case 'Other Donations':
-        return {
-          title: 'Other Donations',
-          hasSubSections: true
-        };
-      default:
-        return {
-          title: `${name} Details`
-        };
-    }
+  const department = registry.getDepartment(departmentName);
+  const title = department?.title || `${departmentName} Details`;
+  const subSections = registry.getChildren(departmentName);
+
+  /**
+   * Render a sub-section block, followed by its own sub-sections (if any)
+   */
+  const renderSubSection = (subSection: DepartmentNode): JSX.Element => {
+    const subSectionTotals = getSubSectionTotals(subSection.name);
+    const nestedSubSections = registry.getChildren(subSection.name);
+    const styleClass = subSection.styleKey ? styles[subSection.styleKey] || '' : '';
+
+    return (
+      <div key={subSection.name} className={`${styles.subSection} ${styleClass}`}>
+        <h4 className={styles.sectionTitle}>
+          {subSection.icon && <span aria-hidden="true">{subSection.icon} </span>}
+          {subSection.name}
+        </h4>
+        {subSection.description && (
+          <p className={styles.subSectionDescription}>
+            {subSection.description}
+          </p>
+        )}
+        <div className={styles.subSectionIncomeGrid}>
+          <div className={styles.subIncomeCard}>
+            <span className={styles.incomeLabel}>Cash Income</span>
+            <span className={styles.incomeValue}>
+              {dataProcessingService.formatCurrency(subSectionTotals.cash)}
+            </span>
+          </div>
+          <div className={styles.subIncomeCard}>
+            <span className={styles.incomeLabel}>Online Income</span>
+            <span className={styles.incomeValue}>
+              {dataProcessingService.formatCurrency(subSectionTotals.online)}
+            </span>
+          </div>
+          <div className={styles.subIncomeCard}>
+            <span className={styles.incomeLabel}>Total</span>
+            <span className={`${styles.incomeValue} ${styles.total}`}>
+              {dataProcessingService.formatCurrency(subSectionTotals.total)}
+            </span>
+          </div>
+        </div>
+        {nestedSubSections.length > 0 && (
+          <div className={styles.nestedSubSections}>
+            {nestedSubSections.map(renderSubSection)}
+          </div>
+        )}
+      </div>
+    );
   };
 
-  const content = getDepartmentContent(departmentName);
-
   return (
     <div className={styles.modalOverlay} onClick={onClose}>
       <div className={styles.modalContent} onClick={(e) => e.stopPropagation()}>
         <div className={styles.modalHeader}>
-          <h2 className={styles.modalTitle}>{content.title}</h2>
+          <h2 className={styles.modalTitle}>{title}</h2>
           <button 
             className={styles.closeButton}
             onClick={onClose}
@@ -154,401 +177,8 @@ export const DepartmentModal: React.FC<DepartmentModalProps> = ({
              </div>
            </div>
 
-           {/* Gaushala Sub-sections */}
-           {content.hasSubSections && departmentName === 'Gaushala' && (
-             <>
-               <div className={styles.subSection}>
-                 <h4 className={styles.sectionTitle}>Gaushala Seva Office</h4>
-                 <p className={styles.subSectionDescription}>
-                   Administrative office managing Gaushala operations and services.
-                 </p>
-                 <div className={styles.subSectionIncomeGrid}>
-                   {(() => {
-                     const sevaOfficeTotals = getSubSectionTotals('Gaushala Seva Office');
-                     return (
-                       <>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Cash Income</span>
-                           <span className={styles.incomeValue}>
-                             {dataProcessingService.formatCurrency(sevaOfficeTotals.cash)}
-                           </span>
-                         </div>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Online Income</span>
-                           <span className={styles.incomeValue}>
-                             {dataProcessingService.formatCurrency(sevaOfficeTotals.online)}
-                           </span>
-                         </div>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Total</span>
-                           <span className={`${styles.incomeValue} ${styles.total}`}>
-                             {dataProcessingService.formatCurrency(sevaOfficeTotals.total)}
-                           </span>
-                         </div>
-                       </>
-                     );
-                   })()}
-                 </div>
-               </div>
-
-               <div className={styles.subSection}>
-                 <h4 className={styles.sectionTitle}>Gaushala Hundi</h4>
-                 <p className={styles.subSectionDescription}>
-                   Donation collections specifically for Gaushala operations and maintenance.
-                 </p>
-                 <div className={styles.subSectionIncomeGrid}>
-                   {(() => {
-                     const gaushalaHundiTotals = getSubSectionTotals('Gaushala Hundi');
-                     return (
-                       <>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Cash Income</span>
-                           <span className={styles.incomeValue}>
-                             {dataProcessingService.formatCurrency(gaushalaHundiTotals.cash)}
-                           </span>
-                         </div>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Online Income</span>
-                           <span className={styles.incomeValue}>
-                             {dataProcessingService.formatCurrency(gaushalaHundiTotals.online)}
-                           </span>
-                         </div>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Total</span>
-                           <span className={`${styles.incomeValue} ${styles.total}`}>
-                             {dataProcessingService.formatCurrency(gaushalaHundiTotals.total)}
-                           </span>
-                         </div>
-                       </>
-                     );
-                   })()}
-                 </div>
-               </div>
-             </>
-           )}
-
-           {/* Kitchen Sub-sections */}
-           {content.hasSubSections && departmentName === 'Kitchen' && (
-             <>
-               <div className={styles.subSection}>
-                 <h4 className={styles.sectionTitle}>Journey Prasad</h4>
-                 <p className={styles.subSectionDescription}>
-                   Special prasad preparation and distribution for devotees' spiritual journeys.
-                 </p>
-                 <div className={styles.subSectionIncomeGrid}>
-                   {(() => {
-                     const journeyPrasadTotals = getSubSectionTotals('Journey Prasad');
-                     return (
-                       <>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Cash Income</span>
-                           <span className={styles.incomeValue}>
-                             {dataProcessingService.formatCurrency(journeyPrasadTotals.cash)}
-                           </span>
-                         </div>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Online Income</span>
-                           <span className={styles.incomeValue}>
-                             {dataProcessingService.formatCurrency(journeyPrasadTotals.online)}
-                           </span>
-                         </div>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Total</span>
-                           <span className={`${styles.incomeValue} ${styles.total}`}>
-                             {dataProcessingService.formatCurrency(journeyPrasadTotals.total)}
-                           </span>
-                         </div>
-                       </>
-                     );
-                   })()}
-                 </div>
-               </div>
-
-               <div className={styles.subSection}>
-                 <h4 className={styles.sectionTitle}>Prasadam Coupan</h4>
-                 <p className={styles.subSectionDescription}>
-                   Prasadam coupon sales and collections for temple prasadam distribution.
-                 </p>
-                 <div className={styles.subSectionIncomeGrid}>
-                   {(() => {
-                     const prasadamCoupanTotals = getSubSectionTotals('Prasadam Coupan');
-                     return (
-                       <>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Cash Income</span>
-                           <span className={styles.incomeValue}>
-                             {dataProcessingService.formatCurrency(prasadamCoupanTotals.cash)}
-                           </span>
-                         </div>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Online Income</span>
-                           <span className={styles.incomeValue}>
-                             {dataProcessingService.formatCurrency(prasadamCoupanTotals.online)}
-                           </span>
-                         </div>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Total</span>
-                           <span className={`${styles.incomeValue} ${styles.total}`}>
-                             {dataProcessingService.formatCurrency(prasadamCoupanTotals.total)}
-                           </span>
-                         </div>
-                       </>
-                     );
-                   })()}
-                 </div>
-               </div>
-
-               <div className={styles.subSection}>
-                 <h4 className={styles.sectionTitle}>Vaishnav Bhoj</h4>
-                 <p className={styles.subSectionDescription}>
-                   Collections for Vaishnav Bhoj (devotee meal services) and related kitchen services.
-                 </p>
-                 <div className={styles.subSectionIncomeGrid}>
-                   {(() => {
-                     const vaishnavBhojTotals = getSubSectionTotals('Vaishnav Bhoj');
-                     return (
-                       <>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Cash Income</span>
-                           <span className={styles.incomeValue}>
-                             {dataProcessingService.formatCurrency(vaishnavBhojTotals.cash)}
-                           </span>
-                         </div>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Online Income</span>
-                           <span className={styles.incomeValue}>
-                             {dataProcessingService.formatCurrency(vaishnavBhojTotals.online)}
-                           </span>
-                         </div>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Total</span>
-                           <span className={`${styles.incomeValue} ${styles.total}`}>
-                             {dataProcessingService.formatCurrency(vaishnavBhojTotals.total)}
-                           </span>
-                         </div>
-                       </>
-                     );
-                   })()}
-                 </div>
-               </div>
-
-               <div className={`${styles.subSection} ${styles.kitchenSevaOffice}`}>
-                 <h4 className={styles.sectionTitle}>Kitchen Seva Office</h4>
-                 <p className={styles.subSectionDescription}>
-                   Administrative office managing Kitchen operations and food services.
-                 </p>
-                 <div className={styles.subSectionIncomeGrid}>
-                   {(() => {
-                     const kitchenSevaTotals = getSubSectionTotals('Kitchen Seva Office');
-                     return (
-                       <>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Cash Income</span>
-                           <span className={styles.incomeValue}>
-                             {dataProcessingService.formatCurrency(kitchenSevaTotals.cash)}
-                           </span>
-                         </div>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Online Income</span>
-                           <span className={styles.incomeValue}>
-                             {dataProcessingService.formatCurrency(kitchenSevaTotals.online)}
-                           </span>
-                         </div>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Total</span>
-                           <span className={`${styles.incomeValue} ${styles.total}`}>
-                             {dataProcessingService.formatCurrency(kitchenSevaTotals.total)}
-                           </span>
-                         </div>
-                       </>
-                     );
-                   })()}
-                 </div>
-               </div>
-
-               <div className={`${styles.subSection} ${styles.kitchenHundi}`}>
-                 <h4 className={styles.sectionTitle}>Kitchen Hundi</h4>
-                 <p className={styles.subSectionDescription}>
-                   Donation collections specifically for Kitchen operations and food services.
-                 </p>
-                 <div className={styles.subSectionIncomeGrid}>
-                   {(() => {
-                     const kitchenHundiTotals = getSubSectionTotals('Kitchen Hundi');
-                     return (
-                       <>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Cash Income</span>
-                           <span className={styles.incomeValue}>
-                             {dataProcessingService.formatCurrency(kitchenHundiTotals.cash)}
-                           </span>
-                         </div>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Online Income</span>
-                           <span className={styles.incomeValue}>
-                             {dataProcessingService.formatCurrency(kitchenHundiTotals.online)}
-                           </span>
-                         </div>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Total</span>
-                           <span className={`${styles.incomeValue} ${styles.total}`}>
-                             {dataProcessingService.formatCurrency(kitchenHundiTotals.total)}
-                           </span>
-                         </div>
-                       </>
-                     );
-                   })()}
-                 </div>
-               </div>
-             </>
-           )}
-
-           {/* Hundi Sub-sections */}
-           {content.hasSubSections && departmentName === 'Hundi' && (
-             <>
-               <div className={styles.subSection}>
-                 <h4 className={styles.sectionTitle}>Temple Hundi</h4>
-                 <p className={styles.subSectionDescription}>
-                   General donation collections for temple maintenance and daily operations.
-                 </p>
-                 <div className={styles.subSectionIncomeGrid}>
-                   {(() => {
-                     const templeHundiTotals = getSubSectionTotals('Temple Hundi');
-                     return (
-                       <>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Cash Income</span>
-                           <span className={styles.incomeValue}>
-                             {dataProcessingService.formatCurrency(templeHundiTotals.cash)}
-                           </span>
-                         </div>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Online Income</span>
-                           <span className={styles.incomeValue}>
-                             {dataProcessingService.formatCurrency(templeHundiTotals.online)}
-                           </span>
-                         </div>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Total</span>
-                           <span className={`${styles.incomeValue} ${styles.total}`}>
-                             {dataProcessingService.formatCurrency(templeHundiTotals.total)}
-                           </span>
-                         </div>
-                       </>
-                     );
-                   })()}
-                 </div>
-              </div>
-
-              <div className={styles.subSection}>
-                 <h4 className={styles.sectionTitle}>Yamuna Hundi</h4>
-                 <p className={styles.subSectionDescription}>
-                   Special donation collections for Yamuna River related activities and conservation.
-                 </p>
-                 <div className={styles.subSectionIncomeGrid}>
-                   {(() => {
-                     const yamunaHundiTotals = getSubSectionTotals('Yamuna Hundi');
-                     return (
-                       <>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Cash Income</span>
-                           <span className={styles.incomeValue}>
-                             {dataProcessingService.formatCurrency(yamunaHundiTotals.cash)}
-                           </span>
-                         </div>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Online Income</span>
-                           <span className={styles.incomeValue}>
-                             {dataProcessingService.formatCurrency(yamunaHundiTotals.online)}
-                           </span>
-                         </div>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Total</span>
-                           <span className={`${styles.incomeValue} ${styles.total}`}>
-                             {dataProcessingService.formatCurrency(yamunaHundiTotals.total)}
-                           </span>
-                         </div>
-                       </>
-                     );
-                   })()}
-                 </div>
-               </div>
-             </>
-           )}
-
-           {/* Other Donations Sub-sections */}
-           {content.hasSubSections && departmentName === 'Other Donations' && (
-             <>
-               <div className={styles.subSection}>
-                 <h4 className={styles.sectionTitle}>General</h4>
-                 <p className={styles.subSectionDescription}>
-                   General donation collections for various temple activities and maintenance.
-                 </p>
-                 <div className={styles.subSectionIncomeGrid}>
-                   {(() => {
-                     const generalDonationsTotals = getSubSectionTotals('General');
-                     return (
-                       <>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Cash Income</span>
-                           <span className={styles.incomeValue}>
-                             {dataProcessingService.formatCurrency(generalDonationsTotals.cash)}
-                           </span>
-                         </div>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Online Income</span>
-                           <span className={styles.incomeValue}>
-                             {dataProcessingService.formatCurrency(generalDonationsTotals.online)}
-                           </span>
-                         </div>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Total</span>
-                           <span className={`${styles.incomeValue} ${styles.total}`}>
-                             {dataProcessingService.formatCurrency(generalDonationsTotals.total)}
-                           </span>
-                         </div>
-                       </>
-                     );
-                   })()}
-                 </div>
-               </div>
-
-               <div className={styles.subSection}>
-                 <h4 className={styles.sectionTitle}>PWS</h4>
-                 <p className={styles.subSectionDescription}>
-                   Special donation collections for PWS (Prabhu Wala Seva) related activities and services.
-                 </p>
-                 <div className={styles.subSectionIncomeGrid}>
-                   {(() => {
-                     const pwsDonationsTotals = getSubSectionTotals('PWS');
-                     return (
-                       <>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Cash Income</span>
-                           <span className={styles.incomeValue}>
-                             {dataProcessingService.formatCurrency(pwsDonationsTotals.cash)}
-                           </span>
-                         </div>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Online Income</span>
-                           <span className={styles.incomeValue}>
-                             {dataProcessingService.formatCurrency(pwsDonationsTotals.online)}
-                           </span>
-                         </div>
-                         <div className={styles.subIncomeCard}>
-                           <span className={styles.incomeLabel}>Total</span>
-                           <span className={`${styles.incomeValue} ${styles.total}`}>
-                             {dataProcessingService.formatCurrency(pwsDonationsTotals.total)}
-                           </span>
-                         </div>
-                       </>
-                     );
-                   })()}
-                 </div>
-               </div>
-             </>
-           )}
-
-
+           {/* Sub-sections from the department registry */}
+           {subSections.map(renderSubSection)}
         </div>
 
         <div className={styles.modalFooter}>
@@ -17,8 +17,9 @@
  */
 
 import React, { useState } from 'react';
-import { IncomeRecord, ALL_DEPARTMENTS, DepartmentTotals } from '../types';
+import { IncomeRecord, DepartmentTotals } from '../types';
 import { dataProcessingService } from '../services/dataProcessingService';
+import { useDepartments } from '../contexts/DepartmentContext';
 import { DepartmentCard } from './DepartmentCard';
 import { DepartmentModal } from './DepartmentModal';
 import styles from './DepartmentsSection.module.css';
@@ -46,14 +47,12 @@ export const DepartmentsSection: React.FC<DepartmentsSectionProps> = ({ data })
   // State for modal
   const [selectedDepartment, setSelectedDepartment] = useState<string | null>(null);
   const [modalTotals, setModalTotals] = useState<DepartmentTotals | null>(null);
+  const { departments, registry } = useDepartments();
 
   // Handle department card click
   const handleDepartmentClick = (departmentName: string) => {
-    // Use main department totals calculation for departments with sub-sections
-    const isMainDepartment = ['Gaushala', 'Kitchen', 'Hundi', 'Other Donations'].includes(departmentName);
-    const totals = isMainDepartment 
-      ? dataProcessingService.calculateMainDepartmentTotals(data, departmentName)
-      : dataProcessingService.calculateDepartmentTotals(data, departmentName);
+    // Main department totals include every sub-section from the registry
+    const totals = dataProcessingService.calculateMainDepartmentTotals(data, departmentName);
     
     setSelectedDepartment(departmentName);
     setModalTotals(totals);
@@ -72,18 +71,17 @@ export const DepartmentsSection: React.FC<DepartmentsSectionProps> = ({ data })
         </div>
         <div className={styles.cardBody}>
           <div className={styles.departmentsGrid}>
-            {ALL_DEPARTMENTS.map((departmentName, index) => {
-              // Use main department totals calculation for departments with sub-sections
-              const isMainDepartment = ['Gaushala', 'Kitchen', 'Hundi', 'Other Donations'].includes(departmentName);
-              const totals = isMainDepartment 
-                ? dataProcessingService.calculateMainDepartmentTotals(data, departmentName)
-                : dataProcessingService.calculateDepartmentTotals(data, departmentName);
+            {departments.map((department, index) => {
+              // Main department totals include every sub-section from the registry
+              const totals = dataProcessingService.calculateMainDepartmentTotals(data, department.name);
               
               return (
                 <DepartmentCard
-                  key={departmentName}
-                  name={departmentName}
+                  key={department.name}
+                  name={department.name}
                   totals={totals}
+                  icon={department.icon}
+                  hasSubSections={registry.hasSubSections(department.name)}
                   index={index}
                   onClick={handleDepartmentClick}
                 />
@@ -0,0 +1,267 @@
+/**
+ * INCOME IMPORT SECTION COMPONENT
+ * ===============================
+ *
+ * Lets departments that keep their own CSV or Excel statements drop them onto
+ * the dashboard. Columns are detected the same way as on the income sheet;
+ * the user can correct the mapping against a preview of the first rows before
+ * the records are merged into the dashboard, tagged with the file name.
+ * Imports last for the browser session and can be removed again.
+ *
+ * @author Temple Management System
+ * @lastUpdated 2025
+ */
+
+import React, { useRef, useState } from 'react';
+import { IncomeColumnMapping, IncomeField } from '../types';
+import { fileImportService, ImportedTable } from '../services/fileImportService';
+import { dataProcessingService } from '../services/dataProcessingService';
+import { useMessages } from '../hooks/useMessages';
+import { useAppData, selectIncome } from '../contexts/AppDataContext';
+import { INCOME_FIELDS, REQUIRED_INCOME_FIELDS, INCOME_FIELD_LABELS } from '../config/incomeSheetConfig';
+import styles from './IncomeImportSection.module.css';
+
+const PREVIEW_ROWS = 10;
+
+/**
+ * Spreadsheet column letter for a zero-based index (0 → A, 26 → AA)
+ */
+const columnLetter = (index: number): string => {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+};
+
+export const IncomeImportSection: React.FC = () => {
+  const { imports, addImport, removeImport } = useAppData(selectIncome);
+  const { addMessage } = useMessages();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [table, setTable] = useState<ImportedTable | null>(null);
+  const [mapping, setMapping] = useState<IncomeColumnMapping | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [reading, setReading] = useState(false);
+
+  // Preview of the whole file under the current mapping, so the counts match what will be imported
+  const preview = React.useMemo(() => {
+    if (!table || !mapping) return null;
+    try {
+      return { ...fileImportService.buildImport(table, mapping), error: null };
+    } catch (error) {
+      return { importData: null, skippedRows: 0, error: error instanceof Error ? error.message : 'Invalid mapping' };
+    }
+  }, [table, mapping]);
+
+  const handleFile = async (file: File) => {
+    setReading(true);
+    try {
+      const nextTable = await fileImportService.readFile(file);
+      setTable(nextTable);
+      setMapping(fileImportService.detectColumns(nextTable));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Could not read file';
+      addMessage(errorMessage, 'error');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+    const file = event.dataTransfer.files[0];
+    if (file) {
+      handleFile(file);
+    }
+  };
+
+  const handleFileInput = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      handleFile(file);
+    }
+    // Allow choosing the same file again
+    event.target.value = '';
+  };
+
+  const handleMappingChange = (key: IncomeField, value: string) => {
+    setMapping(prev => (prev ? { ...prev, [key]: parseInt(value, 10) } : prev));
+  };
+
+  const handleCancel = () => {
+    setTable(null);
+    setMapping(null);
+  };
+
+  const handleImport = () => {
+    if (!preview?.importData) return;
+
+    if (preview.importData.records.length === 0) {
+      addMessage(`No valid rows found in ${preview.importData.fileName}`, 'error');
+      return;
+    }
+
+    addImport(preview.importData);
+    addMessage(
+      `Imported ${preview.importData.records.length} records from ${preview.importData.fileName}` +
+        (preview.skippedRows > 0 ? ` (${preview.skippedRows} rows skipped)` : ''),
+      'success'
+    );
+    handleCancel();
+  };
+
+  return (
+    <section className={styles.importSection} aria-labelledby="import-heading">
+      <div className={styles.card}>
+        <div className={styles.cardHeader}>
+          <h3 id="import-heading">📥 Import Income File</h3>
+          <p className={styles.summary}>
+            Add a department's CSV or Excel statement to the dashboard. Records stay until the page is reloaded.
+          </p>
+        </div>
+        <div className={styles.cardBody}>
+          {!table && (
+            <div
+              className={`${styles.dropZone} ${isDragging ? styles.dragging : ''}`}
+              onDragOver={event => {
+                event.preventDefault();
+                setIsDragging(true);
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+              onClick={() => fileInputRef.current?.click()}
+              role="button"
+              tabIndex={0}
+              onKeyDown={event => {
+                if (event.key === 'Enter' || event.key === ' ') {
+                  event.preventDefault();
+                  fileInputRef.current?.click();
+                }
+              }}
+              aria-label="Drop a CSV or Excel file here, or press to choose one"
+            >
+              <div className={styles.dropIcon} aria-hidden="true">📄</div>
+              <div>{reading ? 'Reading file...' : 'Drop a .csv or .xlsx file here, or click to choose one'}</div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.xlsx"
+                className={styles.fileInput}
+                onChange={handleFileInput}
+              />
+            </div>
+          )}
+
+          {table && mapping && (
+            <div className={styles.mappingStep}>
+              <div className={styles.fileName}>
+                <strong>{table.fileName}</strong> — {table.dataRowCount} data rows
+              </div>
+
+              <div className={styles.mappingGrid}>
+                {INCOME_FIELDS.map(field => (
+                  <label key={field} className={styles.mappingField}>
+                    <span>
+                      {INCOME_FIELD_LABELS[field]}
+                      {!REQUIRED_INCOME_FIELDS.includes(field) && <span className={styles.optional}> (optional)</span>}
+                    </span>
+                    <select
+                      className={styles.select}
+                      value={mapping[field]}
+                      onChange={event => handleMappingChange(field, event.target.value)}
+                    >
+                      <option value={-1}>
+                        {REQUIRED_INCOME_FIELDS.includes(field) ? '— Choose column —' : '— Not in file —'}
+                      </option>
+                      {table.headers.map((header, index) => (
+                        <option key={index} value={index}>
+                          {columnLetter(index)}: {header || '(no header)'}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+
+              {preview?.error ? (
+                <div className={styles.error} role="alert">{preview.error}</div>
+              ) : preview?.importData && (
+                <>
+                  <div className={styles.previewSummary} aria-live="polite">
+                    {preview.importData.records.length} valid records
+                    {preview.skippedRows > 0 && `, ${preview.skippedRows} rows skipped (no department or unreadable date)`}
+                    {preview.importData.issues.length > 0 &&
+                      `; ${preview.importData.issues.length} issue${preview.importData.issues.length !== 1 ? 's' : ''} will be listed under Data Health`}
+                  </div>
+                  <div className={styles.tableContainer}>
+                    <table className={styles.dataTable} aria-label="Import preview">
+                      <thead>
+                        <tr>
+                          <th scope="col">Date</th>
+                          <th scope="col">Department</th>
+                          <th scope="col">Cash</th>
+                          <th scope="col">Online</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {preview.importData.records.slice(0, PREVIEW_ROWS).map((record, index) => (
+                          <tr key={index}>
+                            <td>{dataProcessingService.formatDate(record.date)}</td>
+                            <td>
+                              {record.department}
+                              {record.rawDepartment && record.rawDepartment !== record.department && (
+                                <span className={styles.rawName}> ("{record.rawDepartment}")</span>
+                              )}
+                            </td>
+                            <td className={styles.currency}>{dataProcessingService.formatCurrency(record.cash)}</td>
+                            <td className={styles.currency}>{dataProcessingService.formatCurrency(record.online)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              )}
+
+              <div className={styles.actions}>
+                <button className={`${styles.btn} ${styles.btnOutline} ${styles.btnSm}`} onClick={handleCancel}>
+                  Cancel
+                </button>
+                <button
+                  className={`${styles.btn} ${styles.btnPrimary} ${styles.btnSm}`}
+                  onClick={handleImport}
+                  disabled={!preview?.importData || preview.importData.records.length === 0}
+                >
+                  Import {preview?.importData ? preview.importData.records.length : 0} records
+                </button>
+              </div>
+            </div>
+          )}
+
+          {imports.length > 0 && (
+            <ul className={styles.importList} aria-label="Imported files">
+              {imports.map(entry => (
+                <li key={entry.id} className={styles.importItem}>
+                  <span>
+                    <strong>{entry.fileName}</strong> — {entry.records.length} records,{' '}
+                    {dataProcessingService.formatCurrency(
+                      entry.records.reduce((sum, record) => sum + record.cash + record.online, 0)
+                    )}
+                  </span>
+                  <button
+                    className={`${styles.btn} ${styles.btnOutline} ${styles.btnSm}`}
+                    onClick={() => removeImport(entry.id)}
+                    aria-label={`Remove records imported from ${entry.fileName}`}
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
@@ -8,10 +8,11 @@ export const KPICard: React.FC<KPICardProps> = ({
   label, 
   secondary, 
   growth, 
-  growthType = 'neutral' 
+  growthType = 'neutral',
+  flag
 }) => {
   return (
-    <div className={styles.kpiCard}>
+    <div className={`${styles.kpiCard} ${flag ? styles[`flag-${flag.tone}`] : ''}`}>
       <div className={styles.cardHeader}>
         <div className={styles.icon} aria-hidden="true">{icon}</div>
         <div className={styles.value}>{value}</div>
@@ -19,6 +20,11 @@ export const KPICard: React.FC<KPICardProps> = ({
       <div className={styles.cardBody}>
         <div className={styles.label}>{label}</div>
         {secondary && <div className={styles.secondary}>{secondary}</div>}
+        {flag?.note && (
+          <div className={`${styles.flagNote} ${styles[flag.tone]}`}>
+            {flag.tone === 'negative' ? '⚠️ ' : ''}{flag.note}
+          </div>
+        )}
         {growth && (
           <div className={`${styles.growth} ${styles[growthType]}`}>
             {growth}
@@ -1,96 +1,106 @@
 import React from 'react';
-import { IncomeRecord, BankDetails } from '../types';
+import { IncomeRecord, BankDetails, PeriodComparison, LocalDate, KpiDefinition } from '../types';
 import { dataProcessingService } from '../services/dataProcessingService';
+import { dateService } from '../services/dateService';
+import { bankHistoryService } from '../services/bankHistoryService';
 import { KPICard } from './KPICard';
-import { formatManualKpiCurrency } from '../config/manualKpiConfig';
-import { useIskconEmpowerPrayagraj } from '../hooks/useIskconEmpowerPrayagraj';
-import { iskconEmpowerPrayagrajConfig } from '../config/iskconEmpowerPrayagrajConfig';
+import { isDemoMode } from '../config/demoConfig';
+import { DemoDataBadge } from './DemoDataBadge';
+import { PAYMENT_CHANNELS, PAYMENT_CHANNEL_LABELS, UNSPLIT_ONLINE_LABEL } from '../config/paymentChannelConfig';
+import { useKpis } from '../contexts/KpiContext';
+import { useAppData, selectIncome, selectValues, selectBankHistory } from '../contexts/AppDataContext';
 import styles from './KPISection.module.css';
 
 interface KPISectionProps {
   data: IncomeRecord[];
   bankDetails?: BankDetails[];
+  // Income totals for the active filter vs. the previous comparable period
+  comparison?: PeriodComparison | null;
+  // Departments with no entry for a day they were due to report (yesterday), across all data
+  pendingEntry?: { date: LocalDate; departments: string[] } | null;
 }
 
-const shouldExcludeAccountFromTotal = (bank: BankDetails): boolean => {
-  const bankDetailsText = bank.bankDetails?.toLowerCase() || '';
-  const mainPurpose = bank.mainPurpose?.toLowerCase() || '';
-  const accountHolder = bank.accountHolderName?.toLowerCase() || '';
-  
-  const hasIskconEmpower = bankDetailsText.includes('iskcon empower') || 
-                          mainPurpose.includes('iskcon empower') ||
-                          accountHolder.includes('iskcon empower');
-  const hasSbi = bankDetailsText.includes('sbi') || bankDetailsText.includes('state bank');
-  const hasBob = bankDetailsText.includes('bob') || bankDetailsText.includes('bank of baroda');
-  const hasIdbi = bankDetailsText.includes('idbi');
-  
-  return hasIskconEmpower || hasSbi || hasBob || hasIdbi;
+const formatShare = (value: number, total: number): string => {
+  return `${total > 0 ? ((value / total) * 100).toFixed(1) : '0.0'}%`;
 };
 
-export const KPISection: React.FC<KPISectionProps> = ({ data, bankDetails = [] }) => {
+export const KPISection: React.FC<KPISectionProps> = ({
+  data,
+  bankDetails = [],
+  comparison,
+  pendingEntry
+}) => {
+  const { rows, registry } = useKpis();
+  const { data: allData } = useAppData(selectIncome);
+  const { values } = useAppData(selectValues);
+  const { snapshots } = useAppData(selectBankHistory);
   const kpis = dataProcessingService.calculateKPIs(data);
-  const { value: iskconEmpowerPrayagrajBalance } = useIskconEmpowerPrayagraj(iskconEmpowerPrayagrajConfig);
-  
-  const bankAccountsBalance = bankDetails.reduce((total, bank) => {
-    const balance = bank.currentBalance;
-    if (balance === undefined || balance === null || isNaN(Number(balance))) {
-      return total;
-    }
-    if (shouldExcludeAccountFromTotal(bank)) {
-      return total;
-    }
-    return total + Number(balance);
-  }, 0);
-  
-  // const iskconEmpowerOtherCentersBalance = 0;
-  const totalCurrentBalance = bankAccountsBalance;
-  const includedAccountsCount = bankDetails.filter(bank => !shouldExcludeAccountFromTotal(bank)).length;
+
+  // Cards from the KPI registry; the top row comes first, the rest after the channel row
+  const [topRow = [], ...otherRows] = rows;
+  const formulaContext = { records: data, allRecords: allData, bankDetails, values };
+  // Balances at the start and end of the active period, for bank balance growth
+  const periodBankDetails = comparison
+    ? bankHistoryService.getPeriodBankDetails(snapshots, bankDetails, comparison.current)
+    : null;
+  const renderCard = (definition: KpiDefinition) => (
+    <KPICard
+      key={definition.id}
+      {...registry.buildCard(definition, formulaContext, { comparison, periodBankDetails })}
+    />
+  );
 
   return (
     <section className={styles.kpiSection} aria-labelledby="kpi-heading">
       <h2 id="kpi-heading" className="sr-only">Key Performance Indicators</h2>
+      {isDemoMode && (
+        <div className={styles.demoNotice}>
+          <DemoDataBadge /> All figures below are generated sample data
+        </div>
+      )}
       
       <div className={styles.kpiGrid}>
-        <KPICard
-          icon="💰"
-          value={dataProcessingService.formatCurrency(kpis.totalRevenue)}
-          label="Total Income"
-        />
-        <KPICard
-          icon="💵"
-          value={dataProcessingService.formatCurrency(kpis.totalCash)}
-          label="Cash Income"
-          secondary={`${kpis.cashPercentage}% of total`}
-        />
-        <KPICard
-          icon="🌐"
-          value={dataProcessingService.formatCurrency(kpis.totalOnline)}
-          label="Online Income"
-          secondary={`${kpis.onlinePercentage}% of total`}
-        />
-        <KPICard
-          icon="🏦"
-          value={dataProcessingService.formatCurrency(totalCurrentBalance)}
-          label="Total Prayagraj Bank Balance"
-          secondary={`${includedAccountsCount} Bank Accounts (excluding ISKCON Empower, SBI, BoB, IDBI)`}
-        />
+        {topRow.map(renderCard)}
+        {pendingEntry && (
+          <KPICard
+            icon="📝"
+            value={String(pendingEntry.departments.length)}
+            label={`Departments Pending Entry for ${dateService.format(pendingEntry.date, { day: 'numeric', month: 'short' })}`}
+            secondary={pendingEntry.departments.length > 0
+              ? pendingEntry.departments.join(', ')
+              : 'All departments due have entered income'}
+          />
+        )}
       </div>
 
-      <div className={styles.kpiGrid}>
-        <KPICard
-          icon="🏛️"
-          // value={dataProcessingService.formatCurrency(iskconEmpowerOtherCentersBalance)}
-          value="Not_Available"
-          label="ISKCON Empower Other Centers Remaining Fund "
-          secondary="Available with us"
-        />
-        <KPICard
-          icon="🕉️"
-          value={formatManualKpiCurrency(iskconEmpowerPrayagrajBalance)}
-          label="ISKCON Empower Fund"
-          secondary="Prayagraj + SJM"
-        />
-      </div>
+      {/* Channel totals only when the sheet has channel columns; older Cash/Online sheets skip this row */}
+      {kpis.hasChannelData && (
+        <div className={styles.kpiGrid}>
+          {PAYMENT_CHANNELS.map(channel => (
+            <KPICard
+              key={channel}
+              icon="💳"
+              value={dataProcessingService.formatCurrency(kpis.channelTotals[channel])}
+              label={`${PAYMENT_CHANNEL_LABELS[channel]} Income`}
+              secondary={`${formatShare(kpis.channelTotals[channel], kpis.totalOnline)} of online`}
+            />
+          ))}
+          {kpis.unsplitOnline > 0 && (
+            <KPICard
+              icon="🌐"
+              value={dataProcessingService.formatCurrency(kpis.unsplitOnline)}
+              label={UNSPLIT_ONLINE_LABEL}
+              secondary={`${formatShare(kpis.unsplitOnline, kpis.totalOnline)} of online, no channel recorded`}
+            />
+          )}
+        </div>
+      )}
+
+      {otherRows.map((row, index) => (
+        <div key={index} className={styles.kpiGrid}>
+          {row.map(renderCard)}
+        </div>
+      ))}
     </section>
   );
 };
@@ -0,0 +1,49 @@
+/**
+ * LOAD ERROR BANNER COMPONENT
+ * ===========================
+ * 
+ * Keeps data loading failures on screen until the next successful load. Toast
+ * messages disappear after a few seconds, which is too easy to miss for
+ * problems that need fixing in the sheet or the configuration, such as a
+ * required income column that cannot be found.
+ * 
+ * @author Temple Management System
+ * @lastUpdated 2025
+ */
+
+import React from 'react';
+import styles from './LoadErrorBanner.module.css';
+
+/**
+ * A data source and its latest load error
+ * 
+ * @interface LoadErrorSource
+ * @property {string} label - Source name shown to the user, e.g. "Income"
+ * @property {string|null} error - Error message, null when the last load succeeded
+ */
+export interface LoadErrorSource {
+  label: string;
+  error: string | null;
+}
+
+interface LoadErrorBannerProps {
+  sources: LoadErrorSource[];
+}
+
+export const LoadErrorBanner: React.FC<LoadErrorBannerProps> = ({ sources }) => {
+  const failedSources = sources.filter(source => source.error);
+  if (failedSources.length === 0) return null;
+
+  return (
+    <div className={styles.banner} role="alert">
+      {failedSources.map(source => (
+        <div key={source.label} className={styles.error}>
+          <span aria-hidden="true">⛔</span>
+          <span>
+            <strong>{source.label} could not be loaded.</strong> {source.error}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+/**
+ * INCOME RECONCILIATION SECTION COMPONENT
+ * =======================================
+ *
+ * Checks that the online income reported in the income sheet reached the
+ * bank. For every account that receives online income (see
+ * src/config/reconciliationConfig.ts) and every month, it compares the
+ * income attributed to the account with the credits of an uploaded bank
+ * statement or, without one, the change in its recorded balances, and flags
+ * differences above the tolerance. Statements are uploaded in the Bank
+ * Statements section.
+ *
+ * @author Temple Management System
+ * @lastUpdated 2025
+ */
+
+import React, { useMemo, useState } from 'react';
+import { reconciliationService } from '../services/reconciliationService';
+import { dataProcessingService } from '../services/dataProcessingService';
+import { dateService } from '../services/dateService';
+import { exportService } from '../services/exportService';
+import { useAppData, selectIncome, selectBankDetails, selectBankHistory, selectBankStatements } from '../contexts/AppDataContext';
+import { useMessages } from '../hooks/useMessages';
+import { reconciliationMonths } from '../config/reconciliationConfig';
+import styles from './ReconciliationSection.module.css';
+
+const BASIS_LABELS = {
+  statement: 'Statement credits',
+  balance: 'Balance change'
+};
+
+export const ReconciliationSection: React.FC = () => {
+  const { data: records } = useAppData(selectIncome);
+  const { data: bankDetails } = useAppData(selectBankDetails);
+  const { snapshots } = useAppData(selectBankHistory);
+  const { statements } = useAppData(selectBankStatements);
+  const { addMessage } = useMessages();
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+
+  const configuredAccounts = reconciliationService.getConfiguredAccounts();
+
+  const result = useMemo(
+    () => reconciliationService.reconcile(records, bankDetails, snapshots, statements, reconciliationMonths),
+    [records, bankDetails, snapshots, statements]
+  );
+
+  if (configuredAccounts.length === 0) {
+    return null;
+  }
+
+  const rows = flaggedOnly ? result.rows.filter(row => row.flagged) : result.rows;
+  const flaggedCount = result.rows.filter(row => row.flagged).length;
+  const formatMonth = (month: string) => dateService.format(`${month}-01`, { month: 'short', year: 'numeric' });
+  const formatSigned = (amount: number) => `${amount >= 0 ? '+' : '−'}${dataProcessingService.formatCurrency(Math.abs(amount))}`;
+
+  const handleExport = () => {
+    try {
+      exportService.exportGenericToCSV(result.rows.map(row => ({
+        'Month': formatMonth(row.month),
+        'Account': row.account,
+        'From': row.period.start,
+        'To': row.period.end,
+        'Online Income': row.onlineIncome,
+        'Bank Movement': row.bankMovement ?? '',
+        'Basis': row.basis ? BASIS_LABELS[row.basis] : '',
+        'Difference': row.difference ?? '',
+        'Tolerance': Math.round(row.tolerance),
+        'Status': row.basis === null ? 'No bank data' : row.flagged ? 'Unexplained' : 'Reconciled'
+      })), exportService.generateFilename('income_reconciliation', 'csv'));
+      addMessage('Reconciliation exported!', 'success');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Export failed';
+      addMessage(errorMessage, 'error');
+    }
+  };
+
+  return (
+    <section className={styles.reconciliationSection} aria-labelledby="reconciliation-heading">
+      <div className={styles.card}>
+        <div className={styles.cardHeader}>
+          <div>
+            <h3 id="reconciliation-heading">🔍 Income Reconciliation</h3>
+            <p className={styles.summary}>
+              Online income against bank deposits for the last {reconciliationMonths} months
+              {flaggedCount > 0 && ` — ${flaggedCount} unexplained difference${flaggedCount !== 1 ? 's' : ''}`}
+            </p>
+          </div>
+          <div className={styles.controls}>
+            <label className={styles.toggle}>
+              <input type="checkbox" checked={flaggedOnly} onChange={event => setFlaggedOnly(event.target.checked)} />
+              Flagged only
+            </label>
+            <button className={`${styles.btn} ${styles.btnOutline} ${styles.btnSm}`} onClick={handleExport} aria-label="Export reconciliation">
+              📊 Export
+            </button>
+          </div>
+        </div>
+        <div className={styles.cardBody}>
+          <div className={styles.tableContainer}>
+            <table className={styles.dataTable} aria-label="Income reconciliation">
+              <thead>
+                <tr>
+                  <th scope="col">Month</th>
+                  <th scope="col">Account</th>
+                  <th scope="col">Online Income</th>
+                  <th scope="col">Bank Movement</th>
+                  <th scope="col">Difference</th>
+                  <th scope="col">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className={styles.emptyState}>
+                      {flaggedOnly ? 'No unexplained differences.' : 'No online income or bank data in these months.'}
+                    </td>
+                  </tr>
+                )}
+                {rows.map(row => (
+                  <tr key={`${row.month}|${row.accountKey}`} className={row.flagged ? styles.flaggedRow : ''}>
+                    <td>
+                      {formatMonth(row.month)}
+                      {row.basis === 'balance' && (
+                        <div className={styles.note}>
+                          {dateService.format(row.period.start, { day: 'numeric', month: 'short' })} to{' '}
+                          {dateService.format(row.period.end, { day: 'numeric', month: 'short' })}
+                        </div>
+                      )}
+                    </td>
+                    <td>{row.account}</td>
+                    <td className={styles.currency}>{dataProcessingService.formatCurrency(row.onlineIncome)}</td>
+                    <td className={styles.currency}>
+                      {row.bankMovement === null ? '—' : formatSigned(row.bankMovement)}
+                      {row.basis && <div className={styles.note}>{BASIS_LABELS[row.basis]}</div>}
+                    </td>
+                    <td className={styles.currency}>{row.difference === null ? '—' : formatSigned(row.difference)}</td>
+                    <td>
+                      {row.basis === null ? (
+                        <span className={`${styles.statusBadge} ${styles.missing}`}>No bank data</span>
+                      ) : row.flagged ? (
+                        <span
+                          className={`${styles.statusBadge} ${styles.flagged}`}
+                          title={`More than ${dataProcessingService.formatCurrency(row.tolerance)} apart`}
+                        >
+                          Unexplained
+                        </span>
+                      ) : (
+                        <span className={`${styles.statusBadge} ${styles.reconciled}`}>Reconciled</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {result.unattributed.length > 0 && (
+            <p className={styles.note}>
+              Online income not attributed to any account:{' '}
+              {result.unattributed
+                .map(entry => `${formatMonth(entry.month)} ${dataProcessingService.formatCurrency(entry.amount)}`)
+                .join(', ')}
+              . Add its departments or payment channels to REACT_APP_INCOME_ACCOUNTS to reconcile it.
+            </p>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,191 @@
+/**
+ * REPORTING COVERAGE SECTION COMPONENT
+ * ====================================
+ *
+ * Grid of departments by day showing whether each department entered its
+ * income on the days it was due to, so a forgotten entry can be told apart
+ * from a day with no income. Due days come from each department's reporting
+ * schedule (daily, weekly or never, with closed weekdays) in the department
+ * registry. The grid ends yesterday, since today's entries may still come in.
+ *
+ * @author Temple Management System
+ * @lastUpdated 2025
+ */
+
+import React from 'react';
+import { CoverageStatus, IncomeRecord, ReportingSchedule, Weekday } from '../types';
+import { reportingCoverageService } from '../services/reportingCoverageService';
+import { dateService } from '../services/dateService';
+import { exportService } from '../services/exportService';
+import { useDepartments } from '../contexts/DepartmentContext';
+import { useMessages } from '../hooks/useMessages';
+import { COVERAGE_GRID_DAY_OPTIONS, DEFAULT_COVERAGE_GRID_DAYS, WEEKDAY_LABELS } from '../config/reportingConfig';
+import styles from './ReportingCoverageSection.module.css';
+
+interface ReportingCoverageSectionProps {
+  data: IncomeRecord[];
+}
+
+const STATUS_SYMBOLS: Record<CoverageStatus, string> = {
+  reported: '✓',
+  missing: '✗',
+  'not-expected': '·'
+};
+
+const STATUS_LABELS: Record<CoverageStatus, string> = {
+  reported: 'Entered',
+  missing: 'Missing',
+  'not-expected': 'Not due'
+};
+
+const describeSchedule = (schedule: ReportingSchedule): string => {
+  switch (schedule.frequency) {
+    case 'weekly':
+      return `Weekly, due ${WEEKDAY_LABELS[schedule.dueDay]}`;
+    case 'none':
+      return 'Not expected';
+    default:
+      return schedule.closedDays.length > 0
+        ? `Daily, closed ${schedule.closedDays.map(day => WEEKDAY_LABELS[day]).join(', ')}`
+        : 'Daily';
+  }
+};
+
+export const ReportingCoverageSection: React.FC<ReportingCoverageSectionProps> = ({ data }) => {
+  const { registry } = useDepartments();
+  const { addMessage } = useMessages();
+  const [days, setDays] = React.useState(DEFAULT_COVERAGE_GRID_DAYS);
+
+  const end = dateService.addDays(dateService.today(), -1);
+  const start = dateService.addDays(end, -(days - 1));
+
+  const coverage = React.useMemo(
+    () => reportingCoverageService.buildCoverage(data, start, end, registry),
+    [data, registry, start, end]
+  );
+
+  if (data.length === 0 || coverage.length === 0) return null;
+
+  const dates = coverage[0].cells.map(cell => cell.date);
+  const missingTotal = coverage.reduce((sum, row) => sum + row.missingCount, 0);
+  const departmentsMissing = coverage.filter(row => row.missingCount > 0).length;
+
+  const handleExport = () => {
+    try {
+      const rows = coverage.reduce<Record<string, string | number>[]>((list, row) => list.concat(
+        row.cells
+          .filter(cell => cell.status === 'missing')
+          .map(cell => ({
+            'Department': row.department,
+            'Date': cell.date,
+            'Weekday': WEEKDAY_LABELS[dateService.toDate(cell.date).getDay() as Weekday],
+            'Reporting Schedule': describeSchedule(row.schedule)
+          }))
+      ), []);
+      exportService.exportGenericToCSV(rows, exportService.generateFilename('missing_income_entries', 'csv'));
+      addMessage('Missing entries report exported!', 'success');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Export failed';
+      addMessage(errorMessage, 'error');
+    }
+  };
+
+  return (
+    <section className={styles.coverageSection} aria-labelledby="coverage-heading">
+      <div className={styles.card}>
+        <div className={styles.cardHeader}>
+          <div>
+            <h3 id="coverage-heading">📅 Reporting Coverage</h3>
+            <p className={styles.summary}>
+              {missingTotal === 0 ? (
+                <>Every department entered its income on the days it was due, {dateService.formatShort(start)} to {dateService.formatShort(end)}.</>
+              ) : (
+                <>
+                  <strong>{missingTotal}</strong> missing entr{missingTotal !== 1 ? 'ies' : 'y'} across{' '}
+                  <strong>{departmentsMissing}</strong> department{departmentsMissing !== 1 ? 's' : ''},{' '}
+                  {dateService.formatShort(start)} to {dateService.formatShort(end)}. A day with no income should
+                  still be entered as a zero row.
+                </>
+              )}
+            </p>
+          </div>
+          <div className={styles.headerActions}>
+            <div className={styles.rangeButtons} role="group" aria-label="Days shown">
+              {COVERAGE_GRID_DAY_OPTIONS.map(option => (
+                <button
+                  key={option}
+                  className={`${styles.rangeBtn} ${days === option ? styles.rangeBtnActive : ''}`}
+                  onClick={() => setDays(option)}
+                  aria-pressed={days === option}
+                >
+                  {option} days
+                </button>
+              ))}
+            </div>
+            {missingTotal > 0 && (
+              <button
+                className={`${styles.btn} ${styles.btnOutline} ${styles.btnSm}`}
+                onClick={handleExport}
+                aria-label="Export missing income entries to CSV"
+              >
+                📋 Export Missing
+              </button>
+            )}
+          </div>
+        </div>
+        <div className={styles.cardBody}>
+          <div className={styles.tableContainer}>
+            <table className={styles.grid} aria-label="Income entries by department and day">
+              <thead>
+                <tr>
+                  <th scope="col" className={styles.departmentColumn}>Department</th>
+                  {dates.map(date => (
+                    <th scope="col" key={date} className={styles.dateColumn}>
+                      <span className={styles.weekday}>
+                        {WEEKDAY_LABELS[dateService.toDate(date).getDay() as Weekday]}
+                      </span>
+                      {dateService.getParts(date).day}
+                    </th>
+                  ))}
+                  <th scope="col">Missing</th>
+                </tr>
+              </thead>
+              <tbody>
+                {coverage.map(row => (
+                  <tr key={row.department}>
+                    <th scope="row" className={styles.departmentColumn}>
+                      {row.department}
+                      <span className={styles.schedule}>{describeSchedule(row.schedule)}</span>
+                    </th>
+                    {row.cells.map(cell => (
+                      <td
+                        key={cell.date}
+                        className={`${styles.cell} ${styles[cell.status]}`}
+                        title={`${row.department}, ${dateService.format(cell.date)}: ${STATUS_LABELS[cell.status]}` +
+                          (cell.recordCount > 0 ? ` (${cell.recordCount} record${cell.recordCount !== 1 ? 's' : ''})` : '')}
+                      >
+                        <span aria-hidden="true">{STATUS_SYMBOLS[cell.status]}</span>
+                        <span className="sr-only">{STATUS_LABELS[cell.status]}</span>
+                      </td>
+                    ))}
+                    <td className={row.missingCount > 0 ? styles.missingCount : undefined}>{row.missingCount}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className={styles.legend}>
+            {(Object.keys(STATUS_LABELS) as CoverageStatus[]).map(status => (
+              <span key={status} className={styles.legendItem}>
+                <span className={`${styles.cell} ${styles[status]} ${styles.legendSwatch}`} aria-hidden="true">
+                  {STATUS_SYMBOLS[status]}
+                </span>
+                {STATUS_LABELS[status]}
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
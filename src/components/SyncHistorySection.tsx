@@ -0,0 +1,108 @@
+/**
+ * SYNC HISTORY SECTION COMPONENT
+ * ==============================
+ *
+ * Log of this session's syncs with the data source, newest first: when each
+ * ran, whether it was started from the Sync button or by the refresh
+ * interval, and what changed (rows added, edited and removed, and the change
+ * in income per department). Select a sync to see every department's change.
+ *
+ * @author Temple Management System
+ * @lastUpdated 2025
+ */
+
+import React from 'react';
+import { SyncHistoryEntry } from '../types';
+import { syncDiffService } from '../services/syncDiffService';
+import { useAppData, selectConnection } from '../contexts/AppDataContext';
+import styles from './SyncHistorySection.module.css';
+
+const STATUS_LABELS: Record<SyncHistoryEntry['status'], string> = {
+  changed: 'Updated',
+  unchanged: 'No changes',
+  failed: 'Failed'
+};
+
+export const SyncHistorySection: React.FC = () => {
+  const { syncHistory: history } = useAppData(selectConnection);
+  const [expandedId, setExpandedId] = React.useState<string | null>(null);
+
+  if (history.length === 0) return null;
+
+  const changedCount = history.filter(entry => entry.status === 'changed').length;
+
+  return (
+    <section className={styles.historySection} aria-labelledby="sync-history-heading">
+      <div className={styles.card}>
+        <div className={styles.cardHeader}>
+          <h3 id="sync-history-heading">🔄 Sync History</h3>
+          <p className={styles.summary}>
+            {history.length} sync{history.length !== 1 ? 's' : ''} this session, {changedCount} with changes
+          </p>
+        </div>
+        <div className={styles.cardBody}>
+          <div className={styles.tableContainer}>
+            <table className={styles.dataTable} aria-label="Sync history">
+              <thead>
+                <tr>
+                  <th scope="col">Time</th>
+                  <th scope="col">Started By</th>
+                  <th scope="col">Result</th>
+                  <th scope="col">Rows Added</th>
+                  <th scope="col">Rows Edited</th>
+                  <th scope="col">Rows Removed</th>
+                  <th scope="col">Income Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {history.map(entry => {
+                  const isExpanded = expandedId === entry.id;
+                  const canExpand = !!entry.summary && entry.summary.departmentDeltas.length > 0;
+                  return (
+                    <React.Fragment key={entry.id}>
+                      <tr
+                        className={canExpand ? styles.expandableRow : undefined}
+                        onClick={canExpand ? () => setExpandedId(isExpanded ? null : entry.id) : undefined}
+                        aria-expanded={canExpand ? isExpanded : undefined}
+                      >
+                        <td>{new Date(entry.syncedAt).toLocaleTimeString('en-IN')}</td>
+                        <td>{entry.trigger === 'manual' ? 'Sync button' : 'Auto-sync'}</td>
+                        <td>
+                          <span className={styles[entry.status]}>{STATUS_LABELS[entry.status]}</span>
+                          {entry.error && <div className={styles.error}>{entry.error}</div>}
+                        </td>
+                        <td>{entry.summary ? entry.summary.added : '—'}</td>
+                        <td>{entry.summary ? entry.summary.edited : '—'}</td>
+                        <td>{entry.summary ? entry.summary.removed : '—'}</td>
+                        <td className={styles.currency}>
+                          {entry.summary?.hasChanges ? syncDiffService.formatDelta(entry.summary.totalDelta) : '—'}
+                          {canExpand && <span className={styles.expandHint}>{isExpanded ? ' ▲' : ' ▼'}</span>}
+                        </td>
+                      </tr>
+                      {isExpanded && entry.summary && (
+                        <tr className={styles.detailRow}>
+                          <td colSpan={7}>
+                            <ul className={styles.deltaList} aria-label="Income change by department">
+                              {entry.summary.departmentDeltas.map(delta => (
+                                <li key={delta.department}>
+                                  {delta.department}{' '}
+                                  <span className={`${styles.currency} ${delta.delta >= 0 ? styles.positive : styles.negative}`}>
+                                    {syncDiffService.formatDelta(delta.delta)}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          </td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,112 @@
+/**
+ * UNMAPPED DEPARTMENTS SECTION COMPONENT
+ * ======================================
+ * 
+ * Lists department names from the income sheet that could not be matched to
+ * any department in the registry (by exact name, alias or fuzzy matching),
+ * together with the income they carry. That income does not appear on any
+ * department card until the sheet or the alias table is fixed.
+ * 
+ * @author Temple Management System
+ * @lastUpdated 2025
+ */
+
+import React from 'react';
+import { IncomeRecord } from '../types';
+import { dataProcessingService } from '../services/dataProcessingService';
+import { exportService } from '../services/exportService';
+import { useDepartments } from '../contexts/DepartmentContext';
+import { useMessages } from '../hooks/useMessages';
+import styles from './UnmappedDepartmentsSection.module.css';
+
+interface UnmappedDepartmentsSectionProps {
+  data: IncomeRecord[];
+}
+
+export const UnmappedDepartmentsSection: React.FC<UnmappedDepartmentsSectionProps> = ({ data }) => {
+  const { registry } = useDepartments();
+  const { addMessage } = useMessages();
+
+  const unmappedDepartments = React.useMemo(
+    () => dataProcessingService.getUnmappedDepartments(data, registry),
+    [data, registry]
+  );
+
+  if (unmappedDepartments.length === 0) return null;
+
+  const unmappedTotal = unmappedDepartments.reduce((sum, department) => sum + department.total, 0);
+
+  const handleExport = () => {
+    try {
+      const filename = exportService.generateFilename('unmapped_departments', 'csv');
+      exportService.exportGenericToCSV(unmappedDepartments.map(department => ({
+        'Sheet Department Name': department.rawName,
+        'Records': department.recordCount,
+        'Cash Income': department.cash,
+        'Online Income': department.online,
+        'Total Income': department.total
+      })), filename);
+      addMessage('Unmapped departments report exported!', 'success');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Export failed';
+      addMessage(errorMessage, 'error');
+    }
+  };
+
+  return (
+    <section className={styles.unmappedSection} aria-labelledby="unmapped-heading">
+      <div className={styles.card}>
+        <div className={styles.cardHeader}>
+          <div>
+            <h3 id="unmapped-heading">⚠️ Unmapped Departments</h3>
+            <p className={styles.summary}>
+              {unmappedDepartments.length} department name{unmappedDepartments.length !== 1 ? 's' : ''} in the sheet
+              {' '}did not match any department, carrying{' '}
+              <strong>{dataProcessingService.formatCurrency(unmappedTotal)}</strong> not shown on the department cards.
+              Correct the names in the sheet or add them as aliases.
+            </p>
+          </div>
+          <button
+            className={`${styles.btn} ${styles.btnOutline} ${styles.btnSm}`}
+            onClick={handleExport}
+            aria-label="Export unmapped departments report to CSV"
+          >
+            📋 Export Report
+          </button>
+        </div>
+        <div className={styles.cardBody}>
+          <div className={styles.tableContainer}>
+            <table className={styles.dataTable} aria-label="Unmapped departments">
+              <thead>
+                <tr>
+                  <th scope="col">Sheet Department Name</th>
+                  <th scope="col">Records</th>
+                  <th scope="col">Cash Income</th>
+                  <th scope="col">Online Income</th>
+                  <th scope="col">Total Income</th>
+                </tr>
+              </thead>
+              <tbody>
+                {unmappedDepartments.map(department => (
+                  <tr key={department.rawName}>
+                    <td><code>"{department.rawName}"</code></td>
+                    <td>{department.recordCount}</td>
+                    <td className={styles.currency}>
+                      {dataProcessingService.formatCurrency(department.cash)}
+                    </td>
+                    <td className={styles.currency}>
+                      {dataProcessingService.formatCurrency(department.online)}
+                    </td>
+                    <td className={styles.currency}>
+                      <strong>{dataProcessingService.formatCurrency(department.total)}</strong>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,122 @@
+/**
+ * BANK BALANCE TREND CHART - LINE CHART
+ * =====================================
+ *
+ * Plots bank balances over time, one line per account or account group plus
+ * the total. Balances only change on dates with a snapshot, so the lines are
+ * drawn as steps; a line starts at its account's first snapshot.
+ *
+ * @author Temple Management System
+ * @lastUpdated 2025
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { Chart, registerables } from 'chart.js';
+import { BalanceTrend } from '../../types';
+import { dataProcessingService } from '../../services/dataProcessingService';
+import { dateService } from '../../services/dateService';
+import styles from './BankBalanceTrendChart.module.css';
+
+Chart.register(...registerables);
+
+const SERIES_COLORS = ['#1FB8CD', '#FFC185', '#B4413C', '#5D878F', '#DB4545', '#D2BA4C', '#964325', '#944454'];
+const TOTAL_COLOR = '#13343B';
+
+interface BankBalanceTrendChartProps {
+  trend: BalanceTrend;
+}
+
+export const BankBalanceTrendChart: React.FC<BankBalanceTrendChartProps> = ({ trend }) => {
+  const chartRef = useRef<HTMLCanvasElement>(null);
+  const chartInstanceRef = useRef<Chart | null>(null);
+
+  useEffect(() => {
+    if (!chartRef.current || trend.dates.length === 0) return;
+
+    chartInstanceRef.current?.destroy();
+    chartInstanceRef.current = new Chart(chartRef.current, {
+      type: 'line',
+      data: {
+        labels: trend.dates.map(date => dateService.format(date, { day: 'numeric', month: 'short', year: '2-digit' })),
+        datasets: [
+          ...trend.series.map((line, index) => ({
+            label: line.label,
+            data: line.values,
+            borderColor: SERIES_COLORS[index % SERIES_COLORS.length],
+            backgroundColor: SERIES_COLORS[index % SERIES_COLORS.length],
+            borderWidth: 2,
+            pointRadius: trend.dates.length > 60 ? 0 : 3,
+            stepped: true,
+            spanGaps: false
+          })),
+          {
+            label: 'Total',
+            data: trend.total,
+            borderColor: TOTAL_COLOR,
+            backgroundColor: TOTAL_COLOR,
+            borderWidth: 3,
+            borderDash: [6, 4],
+            pointRadius: 0,
+            stepped: true
+          }
+        ]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        interaction: {
+          intersect: false,
+          mode: 'index'
+        },
+        plugins: {
+          legend: {
+            position: 'top',
+            labels: { usePointStyle: true, boxWidth: 8, font: { size: 11 } }
+          },
+          tooltip: {
+            callbacks: {
+              label: (context: any) => context.parsed.y === null
+                ? `${context.dataset.label}: no balance yet`
+                : `${context.dataset.label}: ${dataProcessingService.formatCurrency(context.parsed.y)}`
+            }
+          }
+        },
+        scales: {
+          x: {
+            ticks: { maxTicksLimit: 10, maxRotation: 0, font: { size: 10 } }
+          },
+          y: {
+            ticks: {
+              font: { size: 11 },
+              callback: (value: any) => {
+                const amount = Number(value);
+                if (Math.abs(amount) >= 10000000) {
+                  return `₹${(amount / 10000000).toFixed(1)}Cr`;
+                }
+                if (Math.abs(amount) >= 100000) {
+                  return `₹${(amount / 100000).toFixed(1)}L`;
+                }
+                return `₹${(amount / 1000).toFixed(0)}K`;
+              }
+            }
+          }
+        }
+      }
+    });
+
+    return () => {
+      chartInstanceRef.current?.destroy();
+      chartInstanceRef.current = null;
+    };
+  }, [trend]);
+
+  if (trend.dates.length === 0) {
+    return <div className={styles.emptyState}>No balances recorded in this period.</div>;
+  }
+
+  return (
+    <div className={styles.chartContainer}>
+      <canvas ref={chartRef} aria-label="Bank balances over time" role="img" />
+    </div>
+  );
+};
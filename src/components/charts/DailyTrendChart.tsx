@@ -8,6 +8,8 @@
  * Features:
  * - Daily income trend line chart with smooth curves
  * - Department and date range filtering
+ * - Compare with the same window last year or last month (by date or weekday)
+ * - Festival/event bands from the events calendar
  * - Interactive chart with hover effects
  * - Fixed size layout with proper spacing
  * - Export functionality
@@ -17,25 +19,39 @@
  */
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { IncomeRecord, ALL_DEPARTMENTS } from '../../types';
+import { IncomeRecord, DateRange, TrendComparison, TrendAlignment } from '../../types';
 import { dataProcessingService } from '../../services/dataProcessingService';
+import { dateService } from '../../services/dateService';
+import { useDepartments } from '../../contexts/DepartmentContext';
+import { useEvents } from '../../contexts/EventContext';
 import { Chart, registerables } from 'chart.js';
 import styles from './DailyTrendChart.module.css';
 
 // Register Chart.js components
 Chart.register(...registerables);
 
+const COMPARISON_OPTIONS: { value: TrendComparison; label: string }[] = [
+  { value: 'none', label: 'No Comparison' },
+  { value: 'previousYear', label: 'Last Year' },
+  { value: 'previousMonth', label: 'Last Month' }
+];
+
 interface DailyTrendChartProps {
   data: IncomeRecord[];
+  // Unfiltered records used for the comparison overlay (defaults to data)
+  comparisonData?: IncomeRecord[];
 }
 
-export const DailyTrendChart: React.FC<DailyTrendChartProps> = ({ data }) => {
+export const DailyTrendChart: React.FC<DailyTrendChartProps> = ({ data, comparisonData }) => {
   const chartRef = useRef<HTMLCanvasElement>(null);
   const chartInstanceRef = useRef<any>(null);
   const [selectedDepartments, setSelectedDepartments] = useState<string[]>([]);
+  const { departments, registry } = useDepartments();
+  const { calendar } = useEvents();
+  const departmentNames = departments.map(department => department.name);
   
   // Initialize default date range to October of current year
-  const getDefaultDateRange = (): { start: string; end: string } => {
+  const getDefaultDateRange = (): DateRange => {
     const now = new Date();
     const currentYear = now.getFullYear();
     
@@ -43,56 +59,50 @@ export const DailyTrendChart: React.FC<DailyTrendChartProps> = ({ data }) => {
     const startOfOctober = new Date(currentYear, 9, 1); // October 1st
     const endOfOctober = new Date(currentYear, 9 + 1, 0); // Last day of October
     
-    const formatDate = (date: Date): string => {
-      const year = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const day = String(date.getDate()).padStart(2, '0');
-      return `${year}-${month}-${day}`;
-    };
-    
     return {
-      start: formatDate(startOfOctober),
-      end: formatDate(endOfOctober)
+      start: dateService.fromDate(startOfOctober),
+      end: dateService.fromDate(endOfOctober)
     };
   };
   
-  const [dateRange, setDateRange] = useState<{ start: string; end: string } | null>(getDefaultDateRange());
+  const [dateRange, setDateRange] = useState<DateRange | null>(getDefaultDateRange());
   const [showFilters, setShowFilters] = useState(false);
   const [selectedPeriod, setSelectedPeriod] = useState<string>('');
+  const [compareWith, setCompareWith] = useState<TrendComparison>('none');
+  const [alignment, setAlignment] = useState<TrendAlignment>('dayOfPeriod');
 
   /**
    * Get date range for different periods
    */
-  const getDateRangeForPeriod = (period: string): { start: string; end: string } | null => {
+  const getDateRangeForPeriod = (period: string): DateRange | null => {
     const now = new Date();
-    
-    const formatDate = (date: Date): string => {
-      const year = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const day = String(date.getDate()).padStart(2, '0');
-      return `${year}-${month}-${day}`;
-    };
 
     switch (period) {
       case 'current-month':
         const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
         const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-        return { start: formatDate(startOfMonth), end: formatDate(endOfMonth) };
+        return { start: dateService.fromDate(startOfMonth), end: dateService.fromDate(endOfMonth) };
       
       case 'current-year':
         const startOfYear = new Date(now.getFullYear(), 0, 1);
         const endOfYear = new Date(now.getFullYear(), 11, 31);
-        return { start: formatDate(startOfYear), end: formatDate(endOfYear) };
+        return { start: dateService.fromDate(startOfYear), end: dateService.fromDate(endOfYear) };
       
       case 'last-month':
         const lastMonthStart = new Date(now.getFullYear(), now.getMonth() - 1, 1);
         const lastMonthEnd = new Date(now.getFullYear(), now.getMonth(), 0);
-        return { start: formatDate(lastMonthStart), end: formatDate(lastMonthEnd) };
+        return { start: dateService.fromDate(lastMonthStart), end: dateService.fromDate(lastMonthEnd) };
       
       case 'last-year':
         const lastYearStart = new Date(now.getFullYear() - 1, 0, 1);
         const lastYearEnd = new Date(now.getFullYear() - 1, 11, 31);
-        return { start: formatDate(lastYearStart), end: formatDate(lastYearEnd) };
+        return { start: dateService.fromDate(lastYearStart), end: dateService.fromDate(lastYearEnd) };
+      
+      case 'current-fy':
+        return dateService.getFinancialYearRange(dateService.getFinancialYear(dateService.today()));
+      
+      case 'last-fy':
+        return dateService.getFinancialYearRange(dateService.getFinancialYear(dateService.today()) - 1);
       
       default:
         return null;
@@ -103,89 +113,74 @@ export const DailyTrendChart: React.FC<DailyTrendChartProps> = ({ data }) => {
    * Process data based on selected filters
    */
   const processData = useCallback(() => {
-    let filteredData = [...data];
+    // Apply department filter (including sub-sections) - if no departments selected, show all
+    const expandedDepartments = selectedDepartments.length > 0 ? registry.expandDepartments(selectedDepartments) : null;
+    const matchesDepartment = (record: IncomeRecord) => !expandedDepartments || expandedDepartments.has(record.department);
 
-    // Apply date range filter
-    if (dateRange) {
-      filteredData = filteredData.filter(record => {
-        // Parse record date using the same method as dataProcessingService
-        const [month, day, year] = record.date.split('/').map(num => parseInt(num, 10));
-        const recordDate = new Date(year, month - 1, day);
-        
-        // Parse filter dates
-        const startDate = new Date(dateRange.start);
-        const endDate = new Date(dateRange.end);
-        
-        // Set time to start of day for accurate comparison
-        startDate.setHours(0, 0, 0, 0);
-        endDate.setHours(23, 59, 59, 999);
-        recordDate.setHours(0, 0, 0, 0);
-        
-        return recordDate >= startDate && recordDate <= endDate;
+    // Group records by date
+    const groupByDate = (records: IncomeRecord[]) => {
+      const dailyData: Record<string, { cash: number; online: number; total: number }> = {};
+      records.filter(matchesDepartment).forEach(record => {
+        if (!dailyData[record.date]) {
+          dailyData[record.date] = { cash: 0, online: 0, total: 0 };
+        }
+        dailyData[record.date].cash += record.cash;
+        dailyData[record.date].online += record.online;
+        dailyData[record.date].total += record.cash + record.online;
       });
-    }
+      return dailyData;
+    };
 
-    // Apply department filter - if no departments selected, show all
-    if (selectedDepartments.length > 0) {
-      filteredData = filteredData.filter(record => 
-        selectedDepartments.includes(record.department)
-      );
-    }
-    // If no departments selected, show all departments (no filtering)
+    // Apply date range filter
+    const dailyData = groupByDate(dateRange
+      ? data.filter(record => dateService.isWithinRange(record.date, dateRange.start, dateRange.end))
+      : data);
+
+    // Dates are YYYY-MM-DD, so string order is chronological
+    let sortedDates = Object.keys(dailyData).sort();
 
-    // Group data by date
-    const dailyData: Record<string, { cash: number; online: number; total: number }> = {};
-    filteredData.forEach(record => {
-      if (!dailyData[record.date]) {
-        dailyData[record.date] = { cash: 0, online: 0, total: 0 };
+    // When comparing, plot every day of the window so both series stay aligned
+    const isComparing = compareWith !== 'none';
+    if (isComparing) {
+      const hasRange = dateRange && dateRange.start && dateRange.end && dateRange.start <= dateRange.end;
+      const start = hasRange ? dateRange!.start : sortedDates[0];
+      const end = hasRange ? dateRange!.end : sortedDates[sortedDates.length - 1];
+      sortedDates = [];
+      for (let date = start; date && end && date <= end; date = dateService.addDays(date, 1)) {
+        sortedDates.push(date);
       }
-      dailyData[record.date].cash += record.cash;
-      dailyData[record.date].online += record.online;
-      dailyData[record.date].total += record.cash + record.online;
-    });
+    }
 
-    // Sort dates chronologically instead of alphabetically
-    const sortedDates = Object.keys(dailyData).sort((a, b) => {
-      // Parse dates in M/D/YY format
-      const parseDate = (dateStr: string): Date => {
-        const [month, day, year] = dateStr.split('/').map(num => parseInt(num, 10));
-        // Convert 2-digit year to 4-digit year (assuming 20xx for years < 50, 19xx otherwise)
-        const fullYear = year < 50 ? 2000 + year : 1900 + year;
-        return new Date(fullYear, month - 1, day);
-      };
-      
-      const dateA = parseDate(a);
-      const dateB = parseDate(b);
-      return dateA.getTime() - dateB.getTime();
-    });
+    const previousDaily = isComparing ? groupByDate(comparisonData || data) : {};
+    const previousDates = sortedDates.map(date =>
+      dataProcessingService.getAlignedComparisonDate(date, compareWith, alignment)
+    );
+    const valueOf = (daily: typeof dailyData, date: string, key: 'cash' | 'online' | 'total') =>
+      Number((daily[date]?.[key] || 0).toFixed(2));
     
     // Check if dates span multiple years
-    const parseDateForLabel = (dateStr: string): Date => {
-      const [month, day, year] = dateStr.split('/').map(num => parseInt(num, 10));
-      const fullYear = year < 50 ? 2000 + year : 1900 + year;
-      return new Date(fullYear, month - 1, day);
-    };
-    
-    const firstDate = sortedDates.length > 0 ? parseDateForLabel(sortedDates[0]) : null;
-    const lastDate = sortedDates.length > 0 ? parseDateForLabel(sortedDates[sortedDates.length - 1]) : null;
-    const spansMultipleYears = firstDate && lastDate && firstDate.getFullYear() !== lastDate.getFullYear();
+    const spansMultipleYears = sortedDates.length > 0 &&
+      sortedDates[0].slice(0, 4) !== sortedDates[sortedDates.length - 1].slice(0, 4);
     
     return {
       labels: sortedDates.map(date => {
-        // Format date: include year if dates span multiple years, otherwise just MM/DD
-        const [month, day, year] = date.split('/');
+        // Format date: include year if dates span multiple years, otherwise just M/D
+        const { year, month, day } = dateService.getParts(date);
         if (spansMultipleYears) {
-          const fullYear = parseInt(year) < 50 ? 2000 + parseInt(year) : 1900 + parseInt(year);
-          return `${month}/${day}/${fullYear.toString().slice(-2)}`;
+          return `${month}/${day}/${year.toString().slice(-2)}`;
         }
         return `${month}/${day}`;
       }),
-      cashData: sortedDates.map(date => Number(dailyData[date].cash.toFixed(2))),
-      onlineData: sortedDates.map(date => Number(dailyData[date].online.toFixed(2))),
-      totalData: sortedDates.map(date => Number(dailyData[date].total.toFixed(2))),
-      rawDates: sortedDates
+      cashData: sortedDates.map(date => valueOf(dailyData, date, 'cash')),
+      onlineData: sortedDates.map(date => valueOf(dailyData, date, 'online')),
+      totalData: sortedDates.map(date => valueOf(dailyData, date, 'total')),
+      rawDates: sortedDates,
+      previousCashData: previousDates.map(date => valueOf(previousDaily, date, 'cash')),
+      previousOnlineData: previousDates.map(date => valueOf(previousDaily, date, 'online')),
+      previousTotalData: previousDates.map(date => valueOf(previousDaily, date, 'total')),
+      previousDates
     };
-  }, [data, selectedDepartments, dateRange]);
+  }, [data, comparisonData, selectedDepartments, dateRange, registry, compareWith, alignment]);
 
   /**
    * Create the line chart
@@ -202,6 +197,42 @@ export const DailyTrendChart: React.FC<DailyTrendChartProps> = ({ data }) => {
     }
 
     const chartData = processData();
+    const isComparing = compareWith !== 'none';
+    const comparisonLabel = compareWith === 'previousYear' ? 'last year' : 'last month';
+
+    // Festival/event bands: index range of the plotted days each event covers
+    const eventBands = chartData.rawDates.length === 0 ? [] : calendar
+      .getEventsInRange({ start: chartData.rawDates[0], end: chartData.rawDates[chartData.rawDates.length - 1] })
+      .map(event => ({
+        event,
+        startIndex: chartData.rawDates.findIndex(date => date >= event.start),
+        endIndex: chartData.rawDates.reduce((last, date, index) => (date <= event.end ? index : last), -1)
+      }))
+      .filter(band => band.startIndex !== -1 && band.startIndex <= band.endIndex);
+
+    const eventBandsPlugin = {
+      id: 'eventBands',
+      beforeDatasetsDraw(chart: any) {
+        const { ctx: context, chartArea, scales } = chart;
+        const xScale = scales.x;
+        const halfStep = chartData.rawDates.length > 1
+          ? (xScale.getPixelForValue(1) - xScale.getPixelForValue(0)) / 2
+          : 10;
+
+        context.save();
+        eventBands.forEach(band => {
+          const left = Math.max(chartArea.left, xScale.getPixelForValue(band.startIndex) - halfStep);
+          const right = Math.min(chartArea.right, xScale.getPixelForValue(band.endIndex) + halfStep);
+          context.fillStyle = calendar.getEventColor(band.event);
+          context.fillRect(left, chartArea.top, right - left, chartArea.bottom - chartArea.top);
+          context.fillStyle = '#666';
+          context.font = '10px sans-serif';
+          context.textBaseline = 'top';
+          context.fillText(band.event.name, left + 2, chartArea.top + 2, Math.max(right - left - 4, 40));
+        });
+        context.restore();
+      }
+    };
     
     if (chartData.labels.length === 0) {
       // Show empty state
@@ -212,6 +243,7 @@ export const DailyTrendChart: React.FC<DailyTrendChartProps> = ({ data }) => {
 
     chartInstanceRef.current = new Chart(ctx, {
       type: 'line',
+      plugins: [eventBandsPlugin],
       data: {
         labels: chartData.labels,
         datasets: [
@@ -242,7 +274,33 @@ export const DailyTrendChart: React.FC<DailyTrendChartProps> = ({ data }) => {
             pointBorderWidth: 2,
             tension: 0.4,
             fill: true
-          }
+          },
+          ...(isComparing ? [
+            {
+              label: `Cash Income (${comparisonLabel})`,
+              data: chartData.previousCashData,
+              borderColor: 'rgba(31, 184, 205, 0.6)',
+              backgroundColor: 'transparent',
+              borderWidth: 2,
+              borderDash: [6, 4],
+              pointRadius: 0,
+              pointHoverRadius: 4,
+              tension: 0.4,
+              fill: false
+            },
+            {
+              label: `Online Income (${comparisonLabel})`,
+              data: chartData.previousOnlineData,
+              borderColor: 'rgba(255, 193, 133, 0.8)',
+              backgroundColor: 'transparent',
+              borderWidth: 2,
+              borderDash: [6, 4],
+              pointRadius: 0,
+              pointHoverRadius: 4,
+              tension: 0.4,
+              fill: false
+            }
+          ] : [])
         ]
       },
       options: {
@@ -278,8 +336,33 @@ export const DailyTrendChart: React.FC<DailyTrendChartProps> = ({ data }) => {
             cornerRadius: 8,
             displayColors: true,
             callbacks: {
+              afterTitle: function(items: any[]) {
+                if (items.length === 0) {
+                  return '';
+                }
+                const events = calendar.getEventsForDate(chartData.rawDates[items[0].dataIndex]);
+                return events.map(event => `🎉 ${event.name}`);
+              },
               label: function(context: any) {
-                return `${context.dataset.label}: ${dataProcessingService.formatCurrency(context.parsed.y)}`;
+                const label = `${context.dataset.label}: ${dataProcessingService.formatCurrency(context.parsed.y)}`;
+                // Current-window series show their change against the overlaid day
+                if (!isComparing || context.datasetIndex > 1) {
+                  return label;
+                }
+                const previousSeries = context.datasetIndex === 0 ? chartData.previousCashData : chartData.previousOnlineData;
+                const comparison = dataProcessingService.compareMetric(context.parsed.y, previousSeries[context.dataIndex]);
+                return `${label} (${dataProcessingService.formatChange(comparison)})`;
+              },
+              footer: function(items: any[]) {
+                if (!isComparing || items.length === 0) {
+                  return '';
+                }
+                const index = items[0].dataIndex;
+                const comparison = dataProcessingService.compareMetric(chartData.totalData[index], chartData.previousTotalData[index]);
+                return [
+                  `Total: ${dataProcessingService.formatCurrency(comparison.current)} vs ${dataProcessingService.formatCurrency(comparison.previous)}`,
+                  `Change: ${dataProcessingService.formatChange(comparison)} (compared with ${dateService.format(chartData.previousDates[index], { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' })})`
+                ];
               }
             }
           }
@@ -334,7 +417,7 @@ export const DailyTrendChart: React.FC<DailyTrendChartProps> = ({ data }) => {
         }
       }
     });
-  }, [processData]);
+  }, [processData, compareWith, calendar]);
 
   /**
    * Handle date range change
@@ -362,6 +445,7 @@ export const DailyTrendChart: React.FC<DailyTrendChartProps> = ({ data }) => {
     setSelectedDepartments([]);
     setDateRange(getDefaultDateRange()); // Reset to default October range
     setSelectedPeriod('');
+    setCompareWith('none');
   };
 
   // Create chart when data or filters change
@@ -396,7 +480,7 @@ export const DailyTrendChart: React.FC<DailyTrendChartProps> = ({ data }) => {
             <div className={styles.filterGroup}>
               <label className={styles.filterLabel}>Departments:</label>
               <div className={styles.departmentCheckboxes}>
-                {ALL_DEPARTMENTS.map(dept => (
+                {departmentNames.map(dept => (
                   <label key={dept} className={styles.checkboxLabel}>
                     <input
                       type="checkbox"
@@ -443,7 +527,55 @@ export const DailyTrendChart: React.FC<DailyTrendChartProps> = ({ data }) => {
                 >
                   Last Year
                 </button>
+                <button
+                  className={`${styles.periodBtn} ${selectedPeriod === 'current-fy' ? styles.periodBtnActive : ''}`}
+                  onClick={() => handlePeriodChange('current-fy')}
+                >
+                  This FY
+                </button>
+                <button
+                  className={`${styles.periodBtn} ${selectedPeriod === 'last-fy' ? styles.periodBtnActive : ''}`}
+                  onClick={() => handlePeriodChange('last-fy')}
+                >
+                  Last FY
+                </button>
+              </div>
+            </div>
+
+            <div className={styles.filterGroup}>
+              <label className={styles.filterLabel}>Compare With:</label>
+              <div className={styles.periodButtons}>
+                {COMPARISON_OPTIONS.map(option => (
+                  <button
+                    key={option.value}
+                    className={`${styles.periodBtn} ${compareWith === option.value ? styles.periodBtnActive : ''}`}
+                    onClick={() => setCompareWith(option.value)}
+                    aria-pressed={compareWith === option.value}
+                  >
+                    {option.label}
+                  </button>
+                ))}
               </div>
+              {compareWith !== 'none' && (
+                <div className={styles.periodButtons} role="group" aria-label="Align comparison by">
+                  <button
+                    className={`${styles.periodBtn} ${alignment === 'dayOfPeriod' ? styles.periodBtnActive : ''}`}
+                    onClick={() => setAlignment('dayOfPeriod')}
+                    aria-pressed={alignment === 'dayOfPeriod'}
+                    title="Match the same calendar date"
+                  >
+                    Same Date
+                  </button>
+                  <button
+                    className={`${styles.periodBtn} ${alignment === 'weekday' ? styles.periodBtnActive : ''}`}
+                    onClick={() => setAlignment('weekday')}
+                    aria-pressed={alignment === 'weekday'}
+                    title="Match the same weekday, whole weeks earlier"
+                  >
+                    Same Weekday
+                  </button>
+                </div>
+              )}
             </div>
 
             <div className={styles.filterGroup}>
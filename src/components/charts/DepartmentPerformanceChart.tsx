@@ -16,9 +16,11 @@
  * @lastUpdated 2025
  */
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { IncomeRecord, ALL_DEPARTMENTS } from '../../types';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { IncomeRecord, DateRange } from '../../types';
 import { dataProcessingService } from '../../services/dataProcessingService';
+import { dateService } from '../../services/dateService';
+import { useDepartments } from '../../contexts/DepartmentContext';
 import { Chart, registerables } from 'chart.js';
 import styles from './DepartmentPerformanceChart.module.css';
 
@@ -33,43 +35,44 @@ export const DepartmentPerformanceChart: React.FC<DepartmentPerformanceChartProp
   const chartRef = useRef<HTMLCanvasElement>(null);
   const chartInstanceRef = useRef<any>(null);
   const [selectedDepartments, setSelectedDepartments] = useState<string[]>([]);
-  const [dateRange, setDateRange] = useState<{ start: string; end: string } | null>(null);
+  const { departments, registry } = useDepartments();
+  const departmentNames = useMemo(() => departments.map(department => department.name), [departments]);
+  const [dateRange, setDateRange] = useState<DateRange | null>(null);
   const [showFilters, setShowFilters] = useState(false);
   const [selectedPeriod, setSelectedPeriod] = useState<string>('');
 
   /**
    * Get date range for different periods
    */
-  const getDateRangeForPeriod = (period: string): { start: string; end: string } | null => {
+  const getDateRangeForPeriod = (period: string): DateRange | null => {
     const now = new Date();
-    
-    const formatDate = (date: Date): string => {
-      const year = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const day = String(date.getDate()).padStart(2, '0');
-      return `${year}-${month}-${day}`;
-    };
 
     switch (period) {
       case 'current-month':
         const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
         const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0);
-        return { start: formatDate(startOfMonth), end: formatDate(endOfMonth) };
+        return { start: dateService.fromDate(startOfMonth), end: dateService.fromDate(endOfMonth) };
       
       case 'current-year':
         const startOfYear = new Date(now.getFullYear(), 0, 1);
         const endOfYear = new Date(now.getFullYear(), 11, 31);
-        return { start: formatDate(startOfYear), end: formatDate(endOfYear) };
+        return { start: dateService.fromDate(startOfYear), end: dateService.fromDate(endOfYear) };
       
       case 'last-month':
         const lastMonthStart = new Date(now.getFullYear(), now.getMonth() - 1, 1);
         const lastMonthEnd = new Date(now.getFullYear(), now.getMonth(), 0);
-        return { start: formatDate(lastMonthStart), end: formatDate(lastMonthEnd) };
+        return { start: dateService.fromDate(lastMonthStart), end: dateService.fromDate(lastMonthEnd) };
       
       case 'last-year':
         const lastYearStart = new Date(now.getFullYear() - 1, 0, 1);
         const lastYearEnd = new Date(now.getFullYear() - 1, 11, 31);
-        return { start: formatDate(lastYearStart), end: formatDate(lastYearEnd) };
+        return { start: dateService.fromDate(lastYearStart), end: dateService.fromDate(lastYearEnd) };
+      
+      case 'current-fy':
+        return dateService.getFinancialYearRange(dateService.getFinancialYear(dateService.today()));
+      
+      case 'last-fy':
+        return dateService.getFinancialYearRange(dateService.getFinancialYear(dateService.today()) - 1);
       
       default:
         return null;
@@ -84,42 +87,13 @@ export const DepartmentPerformanceChart: React.FC<DepartmentPerformanceChartProp
 
     // Apply date range filter
     if (dateRange) {
-      filteredData = filteredData.filter(record => {
-        // Parse record date using the same method as dataProcessingService
-        const [month, day, year] = record.date.split('/').map(num => parseInt(num, 10));
-        const recordDate = new Date(year, month - 1, day);
-        
-        // Parse filter dates
-        const startDate = new Date(dateRange.start);
-        const endDate = new Date(dateRange.end);
-        
-        // Set time to start of day for accurate comparison
-        startDate.setHours(0, 0, 0, 0);
-        endDate.setHours(23, 59, 59, 999);
-        recordDate.setHours(0, 0, 0, 0);
-        
-        return recordDate >= startDate && recordDate <= endDate;
-      });
+      filteredData = filteredData.filter(record => dateService.isWithinRange(record.date, dateRange.start, dateRange.end));
     }
 
     // Apply department filter - if no departments selected, show all
     if (selectedDepartments.length > 0) {
-      // Define sub-sections for main departments
-      const subSections: Record<string, string[]> = {
-        'Gaushala': ['Gaushala', 'Gaushala Seva Office', 'Gaushala Hundi'],
-        'Kitchen': ['Kitchen', 'Journey Prasad', 'Kitchen Seva Office', 'Kitchen Hundi', 'Prasadam Coupan', 'Vaishnav Bhoj'],
-        'Hundi': ['Hundi', 'Temple Hundi', 'Yamuna Hundi'],
-        'Other Donations': ['Other Donations', 'General', 'PWS']
-      };
-      
       // Expand selected departments to include their sub-sections
-      const expandedDepartments = new Set<string>();
-      selectedDepartments.forEach(dept => {
-        expandedDepartments.add(dept);
-        if (subSections[dept]) {
-          subSections[dept].forEach(subDept => expandedDepartments.add(subDept));
-        }
-      });
+      const expandedDepartments = registry.expandDepartments(selectedDepartments);
       
       filteredData = filteredData.filter(record => 
         expandedDepartments.has(record.department)
@@ -128,15 +102,12 @@ export const DepartmentPerformanceChart: React.FC<DepartmentPerformanceChartProp
     // If no departments selected, show all departments (no filtering)
 
     // Determine which departments to show based on filter
-    const departmentsToShow = selectedDepartments.length > 0 ? selectedDepartments : ALL_DEPARTMENTS;
+    const departmentsToShow = selectedDepartments.length > 0 ? selectedDepartments : departmentNames;
     
     // Calculate department totals using the same logic as Department Section
     const departmentTotals = departmentsToShow.map(dept => {
-      // Use main department totals calculation for departments with sub-sections
-      const isMainDepartment = ['Gaushala', 'Kitchen', 'Hundi', 'Other Donations'].includes(dept);
-      const totals = isMainDepartment 
-        ? dataProcessingService.calculateMainDepartmentTotals(filteredData, dept)
-        : dataProcessingService.calculateDepartmentTotals(filteredData, dept);
+      // Main department totals include every sub-section from the registry
+      const totals = dataProcessingService.calculateMainDepartmentTotals(filteredData, dept);
       
       return {
         department: dept,
@@ -157,7 +128,7 @@ export const DepartmentPerformanceChart: React.FC<DepartmentPerformanceChartProp
       onlineData: departmentTotals.map(d => d.online),
       departments: departmentTotals
     };
-  }, [data, selectedDepartments, dateRange]);
+  }, [data, selectedDepartments, dateRange, departmentNames, registry]);
 
   /**
    * Create the horizontal bar chart
@@ -315,7 +286,7 @@ export const DepartmentPerformanceChart: React.FC<DepartmentPerformanceChartProp
             <div className={styles.filterGroup}>
               <label className={styles.filterLabel}>Departments:</label>
               <div className={styles.departmentCheckboxes}>
-                {ALL_DEPARTMENTS.map(dept => (
+                {departmentNames.map(dept => (
                   <label key={dept} className={styles.checkboxLabel}>
                     <input
                       type="checkbox"
@@ -362,6 +333,18 @@ export const DepartmentPerformanceChart: React.FC<DepartmentPerformanceChartProp
                 >
                   Last Year
                 </button>
+                <button
+                  className={`${styles.periodBtn} ${selectedPeriod === 'current-fy' ? styles.periodBtnActive : ''}`}
+                  onClick={() => handlePeriodChange('current-fy')}
+                >
+                  This FY
+                </button>
+                <button
+                  className={`${styles.periodBtn} ${selectedPeriod === 'last-fy' ? styles.periodBtnActive : ''}`}
+                  onClick={() => handlePeriodChange('last-fy')}
+                >
+                  Last FY
+                </button>
               </div>
             </div>
 
@@ -0,0 +1,129 @@
+/**
+ * PAYMENT CHANNEL MIX CHART - DOUGHNUT CHART
+ * ==========================================
+ *
+ * Shows how online income splits across payment channels (UPI, card,
+ * NEFT/RTGS, cheque, payment gateway) for the filtered records. Online
+ * income without a channel breakdown, e.g. from sheets that only have Cash
+ * and Online columns, is shown as "Other online".
+ *
+ * @author Temple Management System
+ * @lastUpdated 2025
+ */
+
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Chart, registerables } from 'chart.js';
+import { IncomeRecord } from '../../types';
+import { dataProcessingService } from '../../services/dataProcessingService';
+import { exportService } from '../../services/exportService';
+import { useMessages } from '../../hooks/useMessages';
+import {
+  PAYMENT_CHANNELS,
+  PAYMENT_CHANNEL_LABELS,
+  PAYMENT_CHANNEL_COLORS,
+  UNSPLIT_ONLINE_LABEL,
+  UNSPLIT_ONLINE_COLOR
+} from '../../config/paymentChannelConfig';
+import { ChartCard } from '../ChartCard';
+import styles from './PaymentChannelChart.module.css';
+
+Chart.register(...registerables);
+
+interface PaymentChannelChartProps {
+  data: IncomeRecord[];
+}
+
+export const PaymentChannelChart: React.FC<PaymentChannelChartProps> = ({ data }) => {
+  const chartRef = useRef<HTMLCanvasElement>(null);
+  const chartInstanceRef = useRef<Chart | null>(null);
+  const { addMessage } = useMessages();
+
+  const channelMix = useMemo(() => {
+    const { channelTotals, unsplitOnline, hasChannelData } = dataProcessingService.calculateChannelTotals(data);
+    const slices = PAYMENT_CHANNELS.map(channel => ({
+      label: PAYMENT_CHANNEL_LABELS[channel],
+      value: channelTotals[channel],
+      color: PAYMENT_CHANNEL_COLORS[channel]
+    }));
+    slices.push({ label: UNSPLIT_ONLINE_LABEL, value: unsplitOnline, color: UNSPLIT_ONLINE_COLOR });
+
+    return {
+      hasChannelData,
+      total: slices.reduce((sum, slice) => sum + slice.value, 0),
+      slices: slices.filter(slice => slice.value > 0)
+    };
+  }, [data]);
+
+  useEffect(() => {
+    if (!chartRef.current || !channelMix.hasChannelData) return;
+
+    chartInstanceRef.current?.destroy();
+    chartInstanceRef.current = new Chart(chartRef.current, {
+      type: 'doughnut',
+      data: {
+        labels: channelMix.slices.map(slice => slice.label),
+        datasets: [{
+          data: channelMix.slices.map(slice => slice.value),
+          backgroundColor: channelMix.slices.map(slice => slice.color),
+          borderWidth: 2,
+          borderColor: '#fff'
+        }]
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: {
+            position: 'bottom',
+            labels: { usePointStyle: true, boxWidth: 8, font: { size: 11 } }
+          },
+          datalabels: {
+            display: false
+          },
+          tooltip: {
+            callbacks: {
+              label: (context: any) => {
+                const percentage = channelMix.total > 0 ? ((context.parsed / channelMix.total) * 100).toFixed(1) : '0.0';
+                return `${context.label}: ${dataProcessingService.formatCurrency(context.parsed)} (${percentage}%)`;
+              }
+            }
+          }
+        }
+      }
+    });
+
+    return () => {
+      chartInstanceRef.current?.destroy();
+      chartInstanceRef.current = null;
+    };
+  }, [channelMix]);
+
+  const handleExport = () => {
+    try {
+      exportService.exportGenericToCSV(channelMix.slices.map(slice => ({
+        'Channel': slice.label,
+        'Online Income': slice.value,
+        'Share %': channelMix.total > 0 ? Number(((slice.value / channelMix.total) * 100).toFixed(1)) : 0
+      })), exportService.generateFilename('payment_channel_mix', 'csv'));
+      addMessage('Payment channel mix exported!', 'success');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Export failed';
+      addMessage(errorMessage, 'error');
+    }
+  };
+
+  return (
+    <ChartCard title="Online Payment Channel Mix" onExport={channelMix.hasChannelData ? handleExport : undefined}>
+      {channelMix.hasChannelData ? (
+        <div className={styles.chartContainer}>
+          <canvas ref={chartRef} aria-label="Online income by payment channel" role="img" />
+        </div>
+      ) : (
+        <div className={styles.emptyState}>
+          No payment channel breakdown in the selected records. Add UPI, Card, NEFT/RTGS, Cheque or
+          Payment Gateway columns to the income sheet to see the mix.
+        </div>
+      )}
+    </ChartCard>
+  );
+};
@@ -0,0 +1,91 @@
+import { AccountGroup } from '../types';
+
+/**
+ * Bank Account Group Configuration
+ *
+ * Every bank account belongs to exactly one group, and every balance on the
+ * dashboard (the KPI cards, the bankBalance() formula function and the
+ * totals in the bank details table) is worked out from these groups, so the
+ * figures always agree. An account's group is, in order of preference:
+ *
+ * 1. Its account number in REACT_APP_ACCOUNT_GROUP_ACCOUNTS, as
+ *    group=number,number pairs separated by semicolons:
+ *      REACT_APP_ACCOUNT_GROUP_ACCOUNTS=restricted=1234567890; empower=5550001111,5550002222
+ * 2. The bank sheet's Account Group column (column K), holding a group's id,
+ *    label or one of its aliases (e.g. "Corpus")
+ * 3. A group's nameMatches found as whole words in the account's Bank
+ *    Details, Main Purpose or Account Holder Name
+ * 4. REACT_APP_DEFAULT_ACCOUNT_GROUP (operational unless set)
+ *
+ * The nameMatches reproduce the accounts the dashboard always kept out of
+ * the headline balance: ISKCON Empower accounts count as ISKCON Empower,
+ * and SBI, Bank of Baroda and IDBI accounts are Unassigned. Both groups are
+ * shown in the bank details but left out of every total (ISKCON Empower
+ * has its own balance card); Unassigned accounts stay out until they are
+ * given a group by number or in the sheet.
+ *
+ * Environment Variables (all optional):
+ * - REACT_APP_ACCOUNT_GROUP_ACCOUNTS
+ * - REACT_APP_DEFAULT_ACCOUNT_GROUP
+ */
+
+export const ACCOUNT_GROUPS: AccountGroup[] = [
+  {
+    id: 'operational',
+    label: 'Operational',
+    icon: '🏦',
+    aliases: ['operating', 'prayagraj']
+  },
+  {
+    id: 'restricted',
+    label: 'Restricted / Corpus',
+    icon: '🔒',
+    aliases: ['restricted/corpus', 'corpus', 'fixed deposit']
+  },
+  {
+    id: 'empower',
+    label: 'ISKCON Empower',
+    icon: '🕉️',
+    aliases: ['iskcon empower', 'iskconempower'],
+    nameMatches: ['iskcon empower'],
+    excludeFromTotal: true
+  },
+  {
+    id: 'projects',
+    label: 'Project Funds',
+    icon: '🏗️',
+    aliases: ['project', 'project funds', 'project fund']
+  },
+  {
+    id: 'unassigned',
+    label: 'Unassigned',
+    icon: '❔',
+    aliases: ['none'],
+    nameMatches: ['sbi', 'state bank', 'bob', 'bank of baroda', 'idbi'],
+    excludeFromTotal: true
+  }
+];
+
+export const defaultAccountGroup = process.env.REACT_APP_DEFAULT_ACCOUNT_GROUP || 'operational';
+
+/**
+ * Account numbers assigned to a group in REACT_APP_ACCOUNT_GROUP_ACCOUNTS,
+ * as written there (group names are resolved by the account group service)
+ */
+export const accountGroupAssignments: Record<string, string> = (() => {
+  const assignments: Record<string, string> = {};
+  (process.env.REACT_APP_ACCOUNT_GROUP_ACCOUNTS || '').split(';').forEach(entry => {
+    if (!entry.trim()) return;
+    const separator = entry.indexOf('=');
+    const group = entry.slice(0, separator).trim();
+    const numbers = entry.slice(separator + 1).split(',').map(number => number.trim()).filter(Boolean);
+    if (separator === -1 || !group || numbers.length === 0) {
+      console.error(`Ignoring REACT_APP_ACCOUNT_GROUP_ACCOUNTS entry "${entry.trim()}" (expected group=number,number)`);
+      return;
+    }
+    numbers.forEach(number => {
+      assignments[number] = group;
+    });
+  });
+  return assignments;
+})();
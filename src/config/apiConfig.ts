@@ -0,0 +1,17 @@
+/**
+ * Dashboard API Configuration
+ *
+ * The browser never talks to Google Sheets directly. It reads parsed sheet
+ * data from the serverless API under /api (see api/), which holds the Google
+ * Sheets API key and the spreadsheet IDs/ranges in its own environment.
+ *
+ * Environment Variables (optional):
+ * - REACT_APP_API_BASE_URL: origin of the API when it is not served from the
+ *   same origin as the dashboard (default '', i.e. same origin; `npm start`
+ *   proxies /api to the local API server on port 3001)
+ * - REACT_APP_REFRESH_INTERVAL: auto-sync interval in milliseconds
+ */
+
+export const apiBaseUrl = (process.env.REACT_APP_API_BASE_URL || '').replace(/\/$/, '');
+
+export const refreshInterval = parseInt(process.env.REACT_APP_REFRESH_INTERVAL || '0', 10);
@@ -0,0 +1,24 @@
+/**
+ * Bank Balance History Configuration
+ *
+ * Balance history is the union of two sources, so trustees can see the cash
+ * position move rather than one number:
+ *
+ * 1. A history tab in the bank sheet, served by /api/bank-history
+ *    (BANK_HISTORY_SHEET_RANGE in the API's environment) with Date,
+ *    Account Number, Balance and optional Bank Details and Time columns,
+ *    or the data source's own history (see dataSourceConfig.ts)
+ * 2. Snapshots the dashboard records in the browser every time it fetches
+ *    the bank details (one per account per day, kept in IndexedDB)
+ *
+ * When both have a balance for the same account and day, the recorded
+ * snapshot wins, since it was read from the bank details sheet itself.
+ *
+ * Environment Variables (all optional):
+ * - REACT_APP_RECORD_BANK_SNAPSHOTS: 'false' to stop recording snapshots
+ * - REACT_APP_BANK_HISTORY_MONTHS: month-end closings shown (default 12)
+ */
+
+export const recordBankSnapshots = process.env.REACT_APP_RECORD_BANK_SNAPSHOTS !== 'false';
+
+export const bankHistoryMonths = parseInt(process.env.REACT_APP_BANK_HISTORY_MONTHS || '12', 10) || 12;
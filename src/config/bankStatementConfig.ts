@@ -0,0 +1,86 @@
+import { BankStatementLayout } from '../types';
+
+/**
+ * Bank Statement Import Configuration
+ *
+ * Statements are uploaded in the Bank Statements section as CSV or Excel
+ * downloads, or as OFX (.ofx/.qfx). A CSV or Excel file's layout is detected
+ * from its header row; it can also be chosen by hand. Header names are
+ * compared in lower case with punctuation removed, so "Ref No./Cheque No."
+ * is written as "ref no cheque no". Files that fit no bank layout are read
+ * with the generic one.
+ *
+ * Credits are matched to the department income expected in the account
+ * (see reconciliationConfig.ts) with the same amount, recorded up to the
+ * match window's days before or after the credit.
+ *
+ * Environment Variables (all optional):
+ * - REACT_APP_STATEMENT_MATCH_DAYS: match window in days (default 3)
+ * - REACT_APP_STATEMENT_MATCH_TOLERANCE: largest amount difference still matched (default 1)
+ */
+
+export const BANK_STATEMENT_LAYOUTS: BankStatementLayout[] = [
+  {
+    id: 'sbi',
+    label: 'SBI',
+    detect: ['txn date', 'ref no cheque no'],
+    columns: {
+      date: ['txn date'],
+      description: ['description'],
+      reference: ['ref no cheque no'],
+      debit: ['debit'],
+      credit: ['credit'],
+      balance: ['balance']
+    },
+    dateOrder: 'DMY'
+  },
+  {
+    id: 'bob',
+    label: 'Bank of Baroda',
+    detect: ['narration', 'deposit cr'],
+    columns: {
+      date: ['tran date', 'date'],
+      description: ['narration'],
+      reference: ['chqno', 'chq no', 'cheque no'],
+      debit: ['withdrawal dr', 'withdrawal'],
+      credit: ['deposit cr', 'deposit'],
+      balance: ['balance inr', 'balance']
+    },
+    dateOrder: 'DMY'
+  },
+  {
+    id: 'idbi',
+    label: 'IDBI Bank',
+    detect: ['cr dr', 'amount inr'],
+    columns: {
+      date: ['txn date', 'value date'],
+      description: ['description'],
+      reference: ['cheque no'],
+      type: ['cr dr'],
+      amount: ['amount inr'],
+      balance: ['balance inr']
+    },
+    dateOrder: 'DMY'
+  }
+];
+
+export const GENERIC_STATEMENT_LAYOUT: BankStatementLayout = {
+  id: 'generic',
+  label: 'Other bank',
+  detect: [],
+  columns: {
+    date: ['txn date', 'transaction date', 'tran date', 'value date', 'date'],
+    description: ['description', 'narration', 'particulars', 'remarks', 'details'],
+    reference: ['reference', 'ref no', 'cheque no', 'chq no', 'instrument', 'ref', 'chq'],
+    credit: ['credit', 'deposit', 'cr'],
+    debit: ['debit', 'withdrawal', 'dr'],
+    type: ['cr dr', 'dr cr', 'type'],
+    amount: ['amount'],
+    balance: ['balance']
+  },
+  dateOrder: 'DMY'
+};
+
+export const statementMatchDays = parseInt(process.env.REACT_APP_STATEMENT_MATCH_DAYS || '3', 10) || 0;
+
+export const statementMatchTolerance = parseFloat(process.env.REACT_APP_STATEMENT_MATCH_TOLERANCE || '1') || 0;
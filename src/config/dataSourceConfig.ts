@@ -0,0 +1,53 @@
+import { DataSourceType } from '../types';
+
+/**
+ * Data Source Configuration
+ *
+ * Chooses where the dashboard reads income, bank details and single values
+ * (such as the ISKCON Empower fund balance) from. Demo mode (see demoConfig.ts)
+ * overrides all of these.
+ *
+ * Environment Variables (all optional):
+ * - REACT_APP_DATA_SOURCE: 'sheets' (default), 'static', 'rest' or 'memory'
+ *
+ * Static files ('static'), JSON or CSV chosen by the .csv extension:
+ * - REACT_APP_STATIC_INCOME_URL (default '/data/income.json')
+ * - REACT_APP_STATIC_BANK_DETAILS_URL (default '/data/bank-details.json')
+ * - REACT_APP_STATIC_VALUES_URL (default '/data/values.json', an object such
+ *   as { "iskconEmpowerFund": 500000 })
+ * - REACT_APP_STATIC_BANK_HISTORY_URL (optional, balance snapshots; see
+ *   bankHistoryConfig.ts)
+ *
+ * REST endpoint ('rest'):
+ * - REACT_APP_REST_BASE_URL: serves GET {base}/income, {base}/bank-details
+ *   and {base}/values (an object such as { "iskconEmpowerFund": 500000 }),
+ *   as bare JSON or wrapped in { "data": ... }; optionally {base}/bank-history
+ *
+ * 'memory' starts empty; tests and stories pass their own InMemoryDataSource
+ * to DataSourceProvider instead.
+ */
+
+const DATA_SOURCE_TYPES: DataSourceType[] = ['sheets', 'static', 'rest', 'memory'];
+
+const parseDataSourceType = (value: string | undefined): DataSourceType => {
+  const normalized = (value || '').trim().toLowerCase() as DataSourceType;
+  if (!normalized) {
+    return 'sheets';
+  }
+  if (!DATA_SOURCE_TYPES.includes(normalized)) {
+    console.error(`Unknown REACT_APP_DATA_SOURCE "${value}", using Google Sheets`);
+    return 'sheets';
+  }
+  return normalized;
+};
+
+export const dataSourceType: DataSourceType = parseDataSourceType(process.env.REACT_APP_DATA_SOURCE);
+
+export const staticDataUrls = {
+  income: process.env.REACT_APP_STATIC_INCOME_URL || '/data/income.json',
+  bankDetails: process.env.REACT_APP_STATIC_BANK_DETAILS_URL || '/data/bank-details.json',
+  values: process.env.REACT_APP_STATIC_VALUES_URL || '/data/values.json',
+  bankHistory: process.env.REACT_APP_STATIC_BANK_HISTORY_URL || ''
+};
+
+export const restBaseUrl = (process.env.REACT_APP_REST_BASE_URL || '').replace(/\/$/, '');
@@ -0,0 +1,35 @@
+import { DateOrder } from '../types';
+
+/**
+ * Date Format Configuration
+ *
+ * Every sheet date is converted to a LocalDate (YYYY-MM-DD) when it is read.
+ * ISO dates, Google Sheets serial numbers and dates with a day above 12 are
+ * unambiguous; for anything else (e.g. 03/04/2025) these settings decide
+ * whether the first part is the month (MDY) or the day (DMY).
+ *
+ * Environment Variables (optional):
+ * - REACT_APP_INCOME_DATE_ORDER: 'MDY' (default) or 'DMY'
+ * - REACT_APP_BANK_DATE_ORDER: 'DMY' (default) or 'MDY'
+ */
+
+const parseDateOrder = (value: string | undefined, fallback: DateOrder): DateOrder => {
+  const normalized = (value || '').trim().toUpperCase();
+  return normalized === 'MDY' || normalized === 'DMY' ? normalized : fallback;
+};
+
+export const incomeDateOrder: DateOrder = parseDateOrder(process.env.REACT_APP_INCOME_DATE_ORDER, 'MDY');
+
+export const bankDateOrder: DateOrder = parseDateOrder(process.env.REACT_APP_BANK_DATE_ORDER, 'DMY');
+
+/**
+ * First month (1-12) of the financial year. Indian trusts account and audit
+ * from 1 April to 31 March, labelled by both calendar years ("FY 2025-26").
+ */
+export const FINANCIAL_YEAR_START_MONTH = 4;
+
+/**
+ * Time zone "today" is taken in, so the serverless API (which runs in UTC)
+ * and every browser agree on the date at the temple
+ */
+export const DASHBOARD_TIME_ZONE = 'Asia/Kolkata';
@@ -0,0 +1,48 @@
+/**
+ * Demo Mode Configuration
+ *
+ * Demo mode replaces every sheet (income, bank details, fund balance) with a
+ * generated dataset so the dashboard can be shown or developed without access
+ * to the temple's Google Sheets. It is never switched on automatically: a
+ * missing sheet configuration shows an error, not invented figures.
+ *
+ * Turn it on with either:
+ * - REACT_APP_DEMO_MODE=true at build time
+ * - ?demo=1 (or ?demo=true) in the page URL
+ *
+ * Environment Variables (optional):
+ * - REACT_APP_DEMO_MODE: 'true' to always run in demo mode
+ * - REACT_APP_DEMO_SEED: generator seed (default 108); the same seed always
+ *   produces the same figures
+ */
+
+const isTruthy = (value: string | null | undefined): boolean => {
+  const normalized = (value || '').trim().toLowerCase();
+  return normalized === '1' || normalized === 'true' || normalized === 'yes';
+};
+
+const isDemoRequestedByUrl = (): boolean => {
+  if (typeof window === 'undefined') {
+    return false;
+  }
+  const params = new URLSearchParams(window.location.search);
+  // A bare "?demo" counts as a request too
+  return params.has('demo') && (params.get('demo') === '' || isTruthy(params.get('demo')));
+};
+
+export const isDemoMode: boolean = isTruthy(process.env.REACT_APP_DEMO_MODE) || isDemoRequestedByUrl();
+
+export const DEMO_SEED: number = parseInt(process.env.REACT_APP_DEMO_SEED || '108', 10) || 108;
+
+/**
+ * Number of whole financial years generated before the current one, so
+ * year-on-year and FY comparisons always have data to work with
+ */
+export const DEMO_HISTORY_YEARS = 2;
+
+/**
+ * Label shown on every screen and export while demo mode is on
+ */
+export const DEMO_WATERMARK = 'DEMO DATA';
+
+export const DEMO_DESCRIPTION = 'Generated sample figures, not real temple income or balances';
@@ -0,0 +1,153 @@
+import { DepartmentDefinition } from '../types';
+
+/**
+ * Department Registry Configuration
+ *
+ * The department hierarchy (top-level departments, their sub-sections, display
+ * order, icons and active/retired flags) is loaded at startup from one of these
+ * sources, in order of preference:
+ *
+ * 1. A "Departments" tab in Google Sheets, served by /api/departments
+ *    (DEPARTMENTS_SHEET_RANGE in the API's environment)
+ * 2. A JSON file (REACT_APP_DEPARTMENTS_CONFIG_URL, e.g. '/departments.json')
+ * 3. The built-in DEFAULT_DEPARTMENTS below
+ *
+ * Environment Variables (all optional):
+ * - REACT_APP_DEPARTMENTS_CONFIG_URL
+ */
+
+export const departmentConfigUrl = process.env.REACT_APP_DEPARTMENTS_CONFIG_URL || '';
+
+/**
+ * Built-in department hierarchy
+ *
+ * Used when no sheet tab or JSON file is configured, or when loading one fails.
+ * A department's own name always counts towards its total, so sub-sections only
+ * list the additional names that roll up into it.
+ */
+export const DEFAULT_DEPARTMENTS: DepartmentDefinition[] = [
+  { name: 'Guest House', order: 1, active: true },
+  { name: 'Govindas', order: 2, aliases: ['Govindas Res', 'Govindas Restaurant'], active: true },
+  { name: 'Gift Shop', order: 3, active: true },
+  { name: 'Kitchen', order: 4, title: 'Kitchen Operations', active: true },
+  { name: 'Nitya Seva', order: 5, active: true },
+  { name: "Gopal's Sweet Shop", order: 6, active: true },
+  { name: 'Gaushala', order: 7, title: 'Gaushala Details', active: true },
+  { name: 'Railway BBT', order: 8, aliases: ['Railway Book Stall', 'Railway Shop'], active: true },
+  { name: "Vrinda's Food Court", order: 9, active: true },
+  { name: 'Hundi', order: 10, title: 'Hundi Collections', active: true },
+  { name: 'Boat', order: 11, active: true },
+  { name: 'Other Donations', order: 12, title: 'Other Donations', active: true },
+
+  // Gaushala sub-sections
+  {
+    name: 'Gaushala Seva Office',
+    parent: 'Gaushala',
+    order: 1,
+    description: 'Administrative office managing Gaushala operations and services.',
+    active: true
+  },
+  {
+    name: 'Gaushala Hundi',
+    parent: 'Gaushala',
+    order: 2,
+    description: 'Donation collections specifically for Gaushala operations and maintenance.',
+    active: true
+  },
+
+  // Kitchen sub-sections
+  {
+    name: 'Journey Prasad',
+    parent: 'Kitchen',
+    order: 1,
+    description: "Special prasad preparation and distribution for devotees' spiritual journeys.",
+    active: true
+  },
+  {
+    name: 'Prasadam Coupan',
+    parent: 'Kitchen',
+    order: 2,
+    description: 'Prasadam coupon sales and collections for temple prasadam distribution.',
+    active: true
+  },
+  {
+    name: 'Vaishnav Bhoj',
+    parent: 'Kitchen',
+    order: 3,
+    description: 'Collections for Vaishnav Bhoj (devotee meal services) and related kitchen services.',
+    active: true
+  },
+  {
+    name: 'Kitchen Seva Office',
+    parent: 'Kitchen',
+    order: 4,
+    description: 'Administrative office managing Kitchen operations and food services.',
+    styleKey: 'kitchenSevaOffice',
+    active: true
+  },
+  {
+    name: 'Kitchen Hundi',
+    parent: 'Kitchen',
+    order: 5,
+    description: 'Donation collections specifically for Kitchen operations and food services.',
+    styleKey: 'kitchenHundi',
+    active: true
+  },
+
+  // Hundi sub-sections
+  {
+    name: 'Temple Hundi',
+    parent: 'Hundi',
+    order: 1,
+    description: 'General donation collections for temple maintenance and daily operations.',
+    active: true
+  },
+  {
+    name: 'Yamuna Hundi',
+    parent: 'Hundi',
+    order: 2,
+    description: 'Special donation collections for Yamuna River related activities and conservation.',
+    active: true
+  },
+
+  // Other Donations sub-sections
+  {
+    name: 'General',
+    parent: 'Other Donations',
+    order: 1,
+    description: 'General donation collections for various temple activities and maintenance.',
+    active: true
+  },
+  {
+    name: 'PWS',
+    parent: 'Other Donations',
+    order: 2,
+    description: 'Special donation collections for PWS (Prabhu Wala Seva) related activities and services.',
+    active: true
+  }
+];
+
+/**
+ * Departments Sheet Structure
+ *
+ * Expected columns in the departments tab (header names are matched loosely):
+ * A: Department (exact name used in the income sheet)
+ * B: Parent (blank for top-level departments)
+ * C: Order (number, lower first)
+ * D: Icon (optional emoji)
+ * E: Title (optional modal heading)
+ * F: Description (optional)
+ * G: Active (TRUE/FALSE, Yes/No or Active/Retired; blank means active)
+ * H: Aliases (optional, comma-separated other spellings used in the income sheet)
+ * I: Reporting (optional: daily, weekly, "weekly Mon" or none; blank means daily)
+ * J: Closed On (optional, comma-separated weekdays with no entry expected, e.g. "Tue, Wed")
+ *
+ * The JSON file may contain the same fields as a flat array, or nest
+ * sub-sections under a "children" array at any depth.
+ */
+
+/**
+ * Minimum similarity (0-1) for a raw department name to be fuzzy-matched to a
+ * registry name after case, whitespace and punctuation have been normalized.
+ */
+export const DEPARTMENT_FUZZY_MATCH_THRESHOLD = 0.85;
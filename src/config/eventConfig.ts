@@ -0,0 +1,52 @@
+import { TempleEvent } from '../types';
+
+/**
+ * Events Calendar Configuration
+ *
+ * Festivals and events (Janmashtami, Radhashtami, Kartik, Gaura Purnima,
+ * Magh Mela, ...) are loaded at startup from one of these sources, in order
+ * of preference:
+ *
+ * 1. An "Events" tab in Google Sheets, served by /api/events
+ *    (EVENTS_SHEET_RANGE in the API's environment)
+ * 2. A JSON file (REACT_APP_EVENTS_CONFIG_URL, e.g. '/events.json')
+ * 3. The built-in DEFAULT_EVENTS below
+ *
+ * Environment Variables (all optional):
+ * - REACT_APP_EVENTS_CONFIG_URL
+ */
+
+export const eventConfigUrl = process.env.REACT_APP_EVENTS_CONFIG_URL || '';
+
+/**
+ * Built-in events
+ *
+ * Festival dates follow the lunar calendar and change every year, so there
+ * are no built-in events; maintain them in the sheet tab or JSON file.
+ */
+export const DEFAULT_EVENTS: TempleEvent[] = [];
+
+/**
+ * Fallback colours for event categories without an explicit colour
+ */
+export const EVENT_CATEGORY_COLORS: Record<string, string> = {
+  festival: 'rgba(255, 152, 0, 0.15)',
+  mela: 'rgba(156, 39, 176, 0.12)',
+  month: 'rgba(76, 175, 80, 0.10)'
+};
+
+export const DEFAULT_EVENT_COLOR = 'rgba(33, 150, 243, 0.12)';
+
+/**
+ * Events Sheet Structure
+ *
+ * Expected columns in the events tab (header names are matched loosely):
+ * A: Event (name shown on charts and tags)
+ * B: Start Date (any date format the income sheet accepts)
+ * C: End Date (optional, blank for single-day events)
+ * D: Category (optional, e.g. Festival, Mela, Month)
+ * E: Color (optional CSS colour for the chart band)
+ *
+ * The JSON file may be an array of { name, start, end, category, color }
+ * objects or an object with an "events" array.
+ */
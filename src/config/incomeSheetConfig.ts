@@ -0,0 +1,89 @@
+import { IncomeField, IncomeColumnSchema } from '../types';
+import { PAYMENT_CHANNELS, PAYMENT_CHANNEL_LABELS } from './paymentChannelConfig';
+
+/**
+ * Income Sheet Column Configuration
+ *
+ * Declares which column of the income sheet holds each field. A column is
+ * referenced either by its header text (matched ignoring case and surrounding
+ * spaces) or by its column letter ("A", "B", ... "AA"); a field can list
+ * several references and the first one present in the sheet is used. A
+ * header with the same name as a column letter (e.g. "UPI") takes precedence.
+ *
+ * Date, department, cash and online are required. If any of them cannot be
+ * found the income sheet fails to load with an error naming the missing
+ * columns; columns are never guessed from their position. Receipt number,
+ * payment mode, counter and remarks are read only when present.
+ *
+ * The same schema applies wherever the income sheet layout is parsed: the
+ * serverless API, static CSV files and the defaults offered for file imports.
+ *
+ * Environment Variables (optional):
+ * - REACT_APP_INCOME_COLUMNS (or INCOME_COLUMNS on the server): overrides for
+ *   some or all fields, separated by ";", with alternatives separated by "|",
+ *   e.g. "date=A; cash=Cash Amount|Cash; receiptNo=Receipt No"
+ */
+
+export const INCOME_FIELDS: IncomeField[] = [
+  'date',
+  'department',
+  'cash',
+  'online',
+  'receiptNo',
+  'paymentMode',
+  'counter',
+  'remarks',
+  ...PAYMENT_CHANNELS
+];
+
+export const REQUIRED_INCOME_FIELDS: IncomeField[] = ['date', 'department', 'cash', 'online'];
+
+export const INCOME_FIELD_LABELS: Record<IncomeField, string> = {
+  date: 'Date',
+  department: 'Department',
+  cash: 'Cash',
+  online: 'Online',
+  receiptNo: 'Receipt No',
+  paymentMode: 'Payment Mode',
+  counter: 'Counter',
+  remarks: 'Remarks',
+  ...PAYMENT_CHANNEL_LABELS
+};
+
+const DEFAULT_INCOME_COLUMNS: IncomeColumnSchema = {
+  date: ['Date'],
+  department: ['Department', 'Dept'],
+  cash: ['Cash', 'Cash Amount'],
+  online: ['Online', 'Online Amount'],
+  receiptNo: ['Receipt No', 'Receipt No.', 'Receipt Number'],
+  paymentMode: ['Payment Mode', 'Mode'],
+  counter: ['Counter'],
+  remarks: ['Remarks', 'Remark', 'Notes'],
+  upi: ['UPI'],
+  card: ['Card'],
+  neftRtgs: ['NEFT/RTGS', 'NEFT', 'RTGS'],
+  cheque: ['Cheque', 'Check'],
+  gateway: ['Payment Gateway', 'Gateway']
+};
+
+const parseIncomeColumns = (value: string | undefined): IncomeColumnSchema => {
+  const schema: IncomeColumnSchema = { ...DEFAULT_INCOME_COLUMNS };
+
+  (value || '').split(';').forEach(entry => {
+    if (!entry.trim()) return;
+
+    const [field, columns = ''] = entry.split('=').map(part => part.trim());
+    const references = columns.split('|').map(column => column.trim()).filter(Boolean);
+    if (!INCOME_FIELDS.includes(field as IncomeField) || references.length === 0) {
+      console.error(`Ignoring invalid income column setting "${entry.trim()}"`);
+      return;
+    }
+    schema[field as IncomeField] = references;
+  });
+
+  return schema;
+};
+
+export const incomeColumnSchema: IncomeColumnSchema = parseIncomeColumns(
+  process.env.INCOME_COLUMNS || process.env.REACT_APP_INCOME_COLUMNS
+);
@@ -0,0 +1,183 @@
+import { KpiDefinition } from '../types';
+
+/**
+ * KPI Registry Configuration
+ *
+ * The KPI cards at the top of the dashboard are loaded at startup from one
+ * of these sources, in order of preference:
+ *
+ * 1. A "KPIs" tab in Google Sheets, served by /api/kpis
+ *    (KPIS_SHEET_RANGE in the API's environment)
+ * 2. A JSON file (REACT_APP_KPI_CONFIG_URL, e.g. '/kpis.json')
+ * 3. The built-in DEFAULT_KPIS below
+ *
+ * Each KPI has a label, an icon, a value (a formula, or a cell: the key of a
+ * single value in the API's range registry, see SHEET_VALUE_RANGES), a
+ * format (currency, number or percent), optional secondary text, thresholds
+ * and a period comparison. Sheet columns: Label, Icon, Formula, Cell,
+ * Format, Secondary, Thresholds, Compare, Row, Order, Active.
+ *
+ * Formulas combine numbers and these functions with + - * / and brackets:
+ * - income, cash, online, entries: income (or number of rows) in the active
+ *   date filter; optionally for a department (with its sub-sections) and/or
+ *   a period: income("Annadan", month), cash(financialYear)
+ * - channel("upi"): online income of a payment channel, optionally for a
+ *   period
+ * - bankBalance, accounts: total balance and number of bank accounts,
+ *   optionally of an account group (see accountGroupConfig.ts):
+ *   bankBalance("restricted")
+ * - value("key"): a single value from the range registry
+ *
+ * Periods: filter (the active date filter, the default), all, yesterday,
+ * week, month, year, financialYear, lastFinancialYear, fyQ1 to fyQ4.
+ * A function takes at most one period. Division by zero shows "—"; a
+ * missing single value shows "Not available".
+ *
+ * Compare is totalRevenue, totalCash or totalOnline (growth against the
+ * previous comparable period) or bankBalance (change since the active period
+ * began, from the bank balance history; see bankHistoryConfig.ts).
+ *
+ * Secondary text fills in {formula} and {formula:format} placeholders, e.g.
+ * "{cash / income * 100:percent} of total". Thresholds are written as
+ * "< 100000 negative: Low balance; >= 500000 positive" (first match wins).
+ *
+ * Environment Variables (all optional):
+ * - REACT_APP_KPI_CONFIG_URL
+ */
+
+export const kpiConfigUrl = process.env.REACT_APP_KPI_CONFIG_URL || '';
+
+/**
+ * Built-in KPI cards
+ *
+ * Used when no sheet tab or JSON file is configured, or when loading one fails.
+ */
+export const DEFAULT_KPIS: KpiDefinition[] = [
+  {
+    id: 'total-income',
+    label: 'Total Income',
+    icon: '💰',
+    formula: 'income',
+    format: 'currency',
+    thresholds: [],
+    compare: 'totalRevenue',
+    row: 1,
+    order: 1,
+    active: true
+  },
+  {
+    id: 'cash-income',
+    label: 'Cash Income',
+    icon: '💵',
+    formula: 'cash',
+    format: 'currency',
+    secondary: '{cash / income * 100:percent} of total',
+    thresholds: [],
+    compare: 'totalCash',
+    row: 1,
+    order: 2,
+    active: true
+  },
+  {
+    id: 'online-income',
+    label: 'Online Income',
+    icon: '🌐',
+    formula: 'online',
+    format: 'currency',
+    secondary: '{online / income * 100:percent} of total',
+    thresholds: [],
+    compare: 'totalOnline',
+    row: 1,
+    order: 3,
+    active: true
+  },
+  {
+    id: 'operational-bank-balance',
+    label: 'Operational Bank Balance',
+    icon: '🏦',
+    formula: 'bankBalance("operational")',
+    format: 'currency',
+    secondary: '{accounts("operational")} of {accounts} Bank Accounts',
+    thresholds: [],
+    compare: 'bankBalance',
+    row: 1,
+    order: 4,
+    active: true
+  },
+  {
+    id: 'iskcon-empower-other-centers',
+    label: 'ISKCON Empower Other Centers Remaining Fund',
+    icon: '🏛️',
+    cell: 'iskconEmpowerOtherCenters',
+    format: 'currency',
+    secondary: 'Available with us',
+    thresholds: [],
+    row: 2,
+    order: 1,
+    active: true
+  },
+  {
+    id: 'iskcon-empower-fund',
+    label: 'ISKCON Empower Fund',
+    icon: '🕉️',
+    cell: 'iskconEmpowerFund',
+    format: 'currency',
+    secondary: 'Prayagraj + SJM',
+    thresholds: [],
+    row: 2,
+    order: 2,
+    active: true
+  },
+  {
+    id: 'restricted-bank-balance',
+    label: 'Restricted / Corpus Balance',
+    icon: '🔒',
+    formula: 'bankBalance("restricted")',
+    format: 'currency',
+    secondary: '{accounts("restricted")} Bank Accounts',
+    thresholds: [],
+    compare: 'bankBalance',
+    row: 3,
+    order: 1,
+    active: true
+  },
+  {
+    id: 'empower-bank-balance',
+    label: 'ISKCON Empower Accounts Balance',
+    icon: '🕉️',
+    formula: 'bankBalance("empower")',
+    format: 'currency',
+    secondary: '{accounts("empower")} Bank Accounts',
+    thresholds: [],
+    compare: 'bankBalance',
+    row: 3,
+    order: 2,
+    active: true
+  },
+  {
+    id: 'project-funds-bank-balance',
+    label: 'Project Funds Balance',
+    icon: '🏗️',
+    formula: 'bankBalance("projects")',
+    format: 'currency',
+    secondary: '{accounts("projects")} Bank Accounts',
+    thresholds: [],
+    compare: 'bankBalance',
+    row: 3,
+    order: 3,
+    active: true
+  },
+  {
+    id: 'total-bank-balance',
+    label: 'Total Bank Balance',
+    icon: '💼',
+    formula: 'bankBalance',
+    format: 'currency',
+    secondary: '{accounts} Bank Accounts (excluding ISKCON Empower and Unassigned)',
+    thresholds: [],
+    compare: 'bankBalance',
+    row: 3,
+    order: 4,
+    active: true
+  }
+];
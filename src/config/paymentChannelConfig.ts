@@ -0,0 +1,36 @@
+import { PaymentChannel } from '../types';
+
+/**
+ * Payment Channel Configuration
+ *
+ * Online income can be broken down by payment channel when the income sheet
+ * has a column per channel (see incomeSheetConfig.ts for the header names).
+ * Sheets with only Cash and Online columns keep working; their online income
+ * has no breakdown and is shown as "Other online".
+ */
+
+export const PAYMENT_CHANNELS: PaymentChannel[] = ['upi', 'card', 'neftRtgs', 'cheque', 'gateway'];
+
+export const PAYMENT_CHANNEL_LABELS: Record<PaymentChannel, string> = {
+  upi: 'UPI',
+  card: 'Card',
+  neftRtgs: 'NEFT/RTGS',
+  cheque: 'Cheque',
+  gateway: 'Payment Gateway'
+};
+
+export const PAYMENT_CHANNEL_COLORS: Record<PaymentChannel, string> = {
+  upi: '#1FB8CD',
+  card: '#FFC185',
+  neftRtgs: '#A8E6CF',
+  cheque: '#DDA0DD',
+  gateway: '#FFA07A'
+};
+
+/**
+ * Online income not attributed to any channel: records from sheets without
+ * channel columns, or the part of a record's online total its channels do not cover
+ */
+export const UNSPLIT_ONLINE_LABEL = 'Other online';
+
+export const UNSPLIT_ONLINE_COLOR = '#C0C0C0';
@@ -0,0 +1,53 @@
+/**
+ * Income Reconciliation Configuration
+ *
+ * Online income should turn up as deposits in the bank. Each account's
+ * online income for a month is compared with the bank's movement for that
+ * month: the credits of an uploaded statement covering the whole month, or
+ * else the change in its recorded balances (see bankHistoryConfig.ts).
+ * Differences above the tolerance are flagged as unexplained.
+ *
+ * Online income is attributed to accounts by department (with its
+ * sub-sections) or by payment channel, as account=target,target pairs
+ * separated by semicolons. Department rules win over channel rules; online
+ * income neither matches goes to the default account, if one is set.
+ *
+ *   REACT_APP_INCOME_ACCOUNTS=000011112222=upi,card,gateway; 000033334444=Guest House
+ *
+ * Environment Variables (all optional):
+ * - REACT_APP_INCOME_ACCOUNTS
+ * - REACT_APP_DEFAULT_INCOME_ACCOUNT: account number receiving all other online income
+ * - REACT_APP_RECONCILIATION_TOLERANCE: amount accepted as explained (default 1000)
+ * - REACT_APP_RECONCILIATION_TOLERANCE_PERCENT: or this share of the online income, when larger (default 2)
+ * - REACT_APP_RECONCILIATION_MONTHS: months reconciled (default 6)
+ */
+
+export interface IncomeAccountRule {
+  accountNumber: string;
+  // Department names or payment channels (ids such as "upi" or labels such as "NEFT/RTGS")
+  targets: string[];
+}
+
+export const incomeAccountRules: IncomeAccountRule[] = (process.env.REACT_APP_INCOME_ACCOUNTS || '')
+  .split(';')
+  .filter(entry => entry.trim())
+  .map(entry => {
+    const separator = entry.indexOf('=');
+    const accountNumber = entry.slice(0, separator).trim();
+    const targets = entry.slice(separator + 1).split(',').map(target => target.trim()).filter(Boolean);
+    if (separator === -1 || !accountNumber || targets.length === 0) {
+      console.error(`Ignoring REACT_APP_INCOME_ACCOUNTS entry "${entry.trim()}" (expected account=department or channel, ...)`);
+      return null;
+    }
+    return { accountNumber, targets };
+  })
+  .filter((rule): rule is IncomeAccountRule => rule !== null);
+
+export const defaultIncomeAccount = (process.env.REACT_APP_DEFAULT_INCOME_ACCOUNT || '').trim();
+
+export const reconciliationTolerance = {
+  amount: parseFloat(process.env.REACT_APP_RECONCILIATION_TOLERANCE || '1000') || 0,
+  percent: parseFloat(process.env.REACT_APP_RECONCILIATION_TOLERANCE_PERCENT || '2') || 0
+};
+
+export const reconciliationMonths = parseInt(process.env.REACT_APP_RECONCILIATION_MONTHS || '6', 10) || 6;
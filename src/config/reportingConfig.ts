@@ -0,0 +1,37 @@
+import { ReportingSchedule, Weekday } from '../types';
+
+/**
+ * Reporting Schedule Configuration
+ *
+ * Each department can say when it is expected to enter a row in the income
+ * sheet, so the dashboard can flag days with no entry instead of treating
+ * them as days with no income. Schedules are part of the department registry
+ * (see departmentConfig.ts): a "Reporting" and a "Closed On" column in the
+ * departments tab, or "reporting" and "closedOn" fields in the JSON file.
+ *
+ * - Reporting: "daily", "weekly" (due on Sunday), "weekly Mon" (due on
+ *   Monday) or "none" (never expected, e.g. occasional collections)
+ * - Closed On: weekdays a daily department is closed, e.g. "Tue, Wed"
+ *
+ * Departments without a schedule are expected every day.
+ */
+
+export const DEFAULT_REPORTING_SCHEDULE: ReportingSchedule = {
+  frequency: 'daily',
+  closedDays: [],
+  dueDay: 0
+};
+
+// Day ranges offered by the coverage grid, ending yesterday
+export const COVERAGE_GRID_DAY_OPTIONS = [7, 14, 30];
+export const DEFAULT_COVERAGE_GRID_DAYS = 14;
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  0: 'Sun',
+  1: 'Mon',
+  2: 'Tue',
+  3: 'Wed',
+  4: 'Thu',
+  5: 'Fri',
+  6: 'Sat'
+};
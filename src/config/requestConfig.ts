@@ -0,0 +1,51 @@
+/**
+ * Request Configuration
+ *
+ * Timeouts and retries for every request to Google Sheets (in the serverless
+ * API) and to the dashboard's data sources (in the browser), and when
+ * auto-sync pauses after repeated failures.
+ *
+ * Requests that time out, fail to connect, or get 429 or a 5xx status are
+ * retried with exponential backoff and random jitter: the n-th retry waits a
+ * random time up to REQUEST_RETRY_BASE_DELAY_MS * 2^(n-1), capped at
+ * REQUEST_RETRY_MAX_DELAY_MS, or as long as the server asks in Retry-After.
+ *
+ * The API and the browser have separate budgets. The API makes one short
+ * retry, so a sheet request with its retry (about 9 seconds at most) ends
+ * well inside the browser's timeout and the serverless function's time
+ * limit. The browser retries when it cannot reach the API, but not the
+ * failures the API reports, which the API has already retried.
+ *
+ * Environment Variables (all optional):
+ * - REQUEST_TIMEOUT_MS, REQUEST_RETRIES: the API's time to wait for each
+ *   attempt (default 4000) and retries after the first attempt (default 1)
+ * - REACT_APP_REQUEST_TIMEOUT_MS, REACT_APP_REQUEST_RETRIES: the same in the
+ *   browser (defaults 15000 and 3)
+ * - REACT_APP_SYNC_FAILURE_THRESHOLD: failed syncs in a row before auto-sync
+ *   pauses (default 3)
+ * - REACT_APP_SYNC_PAUSE_MS: how long auto-sync pauses before trying again
+ *   (default 300000, 5 minutes)
+ */
+
+const parseSetting = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value || '', 10);
+  return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+};
+
+// The serverless API and the local dev server run without a window
+const isServer = typeof window === 'undefined';
+
+export const requestTimeoutMs = isServer
+  ? parseSetting(process.env.REQUEST_TIMEOUT_MS, 4000)
+  : parseSetting(process.env.REACT_APP_REQUEST_TIMEOUT_MS, 15000);
+
+export const requestRetries = isServer
+  ? parseSetting(process.env.REQUEST_RETRIES, 1)
+  : parseSetting(process.env.REACT_APP_REQUEST_RETRIES, 3);
+
+export const REQUEST_RETRY_BASE_DELAY_MS = 500;
+export const REQUEST_RETRY_MAX_DELAY_MS = isServer ? 1000 : 8000;
+
+export const syncFailureThreshold = Math.max(1, parseSetting(process.env.REACT_APP_SYNC_FAILURE_THRESHOLD, 3));
+
+export const syncPauseMs = parseSetting(process.env.REACT_APP_SYNC_PAUSE_MS, 5 * 60 * 1000);
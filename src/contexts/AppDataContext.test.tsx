@@ -0,0 +1,86 @@
+import React, { act } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { AppDataState, AppDataStoreProvider, selectBankStatements, selectIncome, useAppData } from './AppDataContext';
+
+const createState = (): AppDataState => ({
+  income: {
+    data: [],
+    loading: false,
+    error: null,
+    cachedAt: null,
+    refresh: jest.fn(),
+    load: jest.fn(),
+    imports: [],
+    addImport: jest.fn(),
+    removeImport: jest.fn(),
+    issues: [],
+    applyDataset: jest.fn()
+  },
+  bankDetails: { data: [], loading: false, error: null, cachedAt: null, refresh: jest.fn() },
+  bankHistory: { snapshots: [], loading: false, error: null, refresh: jest.fn() },
+  bankStatements: { statements: [], addStatement: jest.fn(), removeStatement: jest.fn() },
+  values: { values: {}, loading: false, error: null, cachedAt: null, refresh: jest.fn() },
+  connection: {
+    connectionState: { status: 'disconnected', message: '' },
+    connect: jest.fn(),
+    disconnect: jest.fn(),
+    sync: jest.fn(),
+    syncHistory: []
+  },
+  messages: { messages: [], addMessage: jest.fn(), removeMessage: jest.fn(), clearMessages: jest.fn() },
+  status: { loading: false, blocking: false, lastSync: null, errors: [], cached: [] },
+  refreshAll: jest.fn()
+});
+
+describe('useAppData', () => {
+  let container: HTMLDivElement;
+  let root: Root;
+  const update = (element: React.ReactElement) => root.render(element);
+  const show = (element: React.ReactElement) => act(() => update(element));
+
+  beforeAll(() => {
+    (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+  });
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+  });
+
+  it('re-renders a component only when the slice it selects changes', () => {
+    const renders = { income: 0, statements: 0 };
+    const IncomeCount = () => {
+      renders.income += 1;
+      return <span id="income">{useAppData(selectIncome).data.length}</span>;
+    };
+    const StatementCount = () => {
+      renders.statements += 1;
+      return <span id="statements">{useAppData(selectBankStatements).statements.length}</span>;
+    };
+    // Created once, like the app under AppDataProvider, so only the store re-renders them
+    const children = <><IncomeCount /><StatementCount /></>;
+    const initial = createState();
+
+    show(<AppDataStoreProvider value={initial}>{children}</AppDataStoreProvider>);
+    show(
+      <AppDataStoreProvider value={{ ...initial, income: { ...initial.income, data: [{ date: '2025-09-01', department: 'Kitchen', cash: 100, online: 0 }] } }}>
+        {children}
+      </AppDataStoreProvider>
+    );
+
+    expect(container.querySelector('#income')?.textContent).toBe('1');
+    expect(renders).toEqual({ income: 2, statements: 1 });
+  });
+
+  it('requires a provider', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const Orphan = () => <>{useAppData(selectIncome).data.length}</>;
+
+    expect(() => show(<Orphan />)).toThrow('useAppData must be used within an AppDataProvider');
+    jest.restoreAllMocks();
+  });
+});
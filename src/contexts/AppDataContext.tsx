@@ -0,0 +1,240 @@
+import React, { createContext, useContext, useCallback, useEffect, useLayoutEffect, useMemo, useState, useSyncExternalStore, ReactNode } from 'react';
+import { FetchOptions, UseConnectionReturn, UseIncomeDataReturn } from '../types';
+import { useIncomeData } from '../hooks/useIncomeData';
+import { useBankDetails, UseBankDetailsReturn } from '../hooks/useBankDetails';
+import { useSheetValues, UseSheetValuesReturn } from '../hooks/useSheetValues';
+import { useBankHistory, UseBankHistoryReturn } from '../hooks/useBankHistory';
+import { useBankStatements, UseBankStatementsReturn } from '../hooks/useBankStatements';
+import { useConnection } from '../hooks/useConnection';
+import { useMessageQueue, UseMessageQueueReturn } from '../hooks/useMessageQueue';
+import { useDataSource } from './DataSourceContext';
+import { syncDiffService } from '../services/syncDiffService';
+import { LoadErrorSource } from '../components/LoadErrorBanner';
+import { CachedSource } from '../components/CachedDataBanner';
+import { isDemoMode } from '../config/demoConfig';
+import { refreshInterval } from '../config/apiConfig';
+
+/**
+ * Loading, freshness and errors across every data source
+ *
+ * @property {boolean} loading - Whether any source is fetching
+ * @property {boolean} blocking - Whether a fetch is running with nothing (not even cached data) to show yet
+ * @property {string|null} lastSync - Time of the last successful sync, null before the first
+ * @property {LoadErrorSource[]} errors - Latest load error of each source (null when it loaded)
+ * @property {CachedSource[]} cached - Fetch time of cached data still shown for each source
+ */
+export interface LoadStatus {
+  loading: boolean;
+  blocking: boolean;
+  lastSync: string | null;
+  errors: LoadErrorSource[];
+  cached: CachedSource[];
+}
+
+/**
+ * Everything the dashboard shows, owned in one place so every source is
+ * fetched once and syncs, refreshes and toasts reach every component
+ */
+export interface AppDataState {
+  income: UseIncomeDataReturn;
+  bankDetails: UseBankDetailsReturn;
+  bankHistory: UseBankHistoryReturn;
+  bankStatements: UseBankStatementsReturn;
+  values: UseSheetValuesReturn;
+  connection: UseConnectionReturn;
+  messages: UseMessageQueueReturn;
+  status: LoadStatus;
+  // Refetch every source (the header's Refresh button)
+  refreshAll: () => Promise<void>;
+}
+
+/**
+ * Holds the latest app data for useAppData. The context value never changes,
+ * so a change only re-renders the components whose selected slice changed.
+ */
+interface AppDataStore {
+  getState: () => AppDataState;
+  setState: (state: AppDataState) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+const createAppDataStore = (initial: AppDataState): AppDataStore => {
+  let state = initial;
+  const listeners = new Set<() => void>();
+
+  return {
+    getState: () => state,
+    setState: next => {
+      state = next;
+      listeners.forEach(listener => listener());
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
+
+const AppDataContext = createContext<AppDataStore | undefined>(undefined);
+
+interface AppDataProviderProps {
+  children: ReactNode;
+}
+
+interface AppDataStoreProviderProps {
+  value: AppDataState;
+  children: ReactNode;
+}
+
+/**
+ * Publish app data to useAppData. AppDataProvider builds the data; tests can
+ * pass their own.
+ */
+export const AppDataStoreProvider: React.FC<AppDataStoreProviderProps> = ({ value, children }) => {
+  const [store] = useState(() => createAppDataStore(value));
+
+  useLayoutEffect(() => {
+    if (store.getState() !== value) {
+      store.setState(value);
+    }
+  }, [store, value]);
+
+  return (
+    <AppDataContext.Provider value={store}>
+      {children}
+    </AppDataContext.Provider>
+  );
+};
+
+export const AppDataProvider: React.FC<AppDataProviderProps> = ({ children }) => {
+  const dataSource = useDataSource();
+  const messages = useMessageQueue();
+  const income = useIncomeData();
+  const bankDetails = useBankDetails();
+  const bankHistory = useBankHistory(bankDetails.data, bankDetails.cachedAt === null);
+  const bankStatements = useBankStatements();
+  const values = useSheetValues();
+  const { addMessage } = messages;
+  const { applyDataset, refresh: refreshIncome, load: loadIncome } = income;
+  const { refresh: refreshBankDetails } = bankDetails;
+  const { refresh: refreshBankHistory } = bankHistory;
+  const { refresh: refreshValues } = values;
+
+  // Syncs refetch every source; only the income data is diffed
+  const syncSources = useCallback(async (options: FetchOptions) => {
+    const [summary] = await Promise.all([
+      dataSource.fetchIncome(options).then(applyDataset),
+      refreshBankDetails(options),
+      refreshBankHistory(options),
+      refreshValues(options)
+    ]);
+    return summary;
+  }, [dataSource, applyDataset, refreshBankDetails, refreshBankHistory, refreshValues]);
+
+  const connection = useConnection(syncSources, loadIncome);
+  const { connect, syncHistory, connectionState } = connection;
+
+  // The Refresh button reads the sheets again rather than the API's cached copy
+  const refreshAll = useCallback(async () => {
+    const options = { fresh: true };
+    await Promise.all([refreshIncome(options), refreshBankDetails(options), refreshBankHistory(options), refreshValues(options)]);
+  }, [refreshIncome, refreshBankDetails, refreshBankHistory, refreshValues]);
+
+  // Auto-connect to the data source on load; demo mode never talks to it
+  useEffect(() => {
+    if (isDemoMode) return;
+    if (refreshInterval <= 0) {
+      console.error('Missing required environment variable: REACT_APP_REFRESH_INTERVAL');
+      // Without a connection nothing else loads the income data
+      refreshIncome();
+      return;
+    }
+    connect(refreshInterval).catch(error => {
+      console.error('Auto-connect failed:', error);
+    });
+  }, [connect, refreshIncome]);
+
+  // Surface load failures (including a missing sheet configuration) instead of an empty dashboard
+  useEffect(() => {
+    if (income.error) {
+      addMessage(income.error, 'error');
+    }
+  }, [income.error, addMessage]);
+
+  // Announce background syncs that brought new data; manual syncs are reported by their caller
+  useEffect(() => {
+    const latest = syncHistory[0];
+    if (latest && latest.trigger === 'auto' && latest.status === 'changed' && latest.summary) {
+      addMessage(`Data updated: ${syncDiffService.describe(latest.summary)}`, 'info');
+    }
+  }, [syncHistory, addMessage]);
+
+  // Tell the user once when repeated failures pause auto-sync, with the reason
+  useEffect(() => {
+    if (connectionState.status === 'paused') {
+      addMessage(connectionState.message, 'warning');
+    }
+  }, [connectionState.status, connectionState.message, addMessage]);
+
+  const status = useMemo<LoadStatus>(() => ({
+    loading: income.loading || bankDetails.loading || bankHistory.loading || values.loading,
+    // Cached data stays usable while the background refresh runs
+    blocking: (income.loading && !income.cachedAt) || (bankDetails.loading && !bankDetails.cachedAt),
+    lastSync: connectionState.lastSync || null,
+    errors: [
+      { label: 'Income data', error: income.error },
+      { label: 'Bank details', error: bankDetails.error },
+      { label: 'Bank balance history', error: bankHistory.error },
+      { label: 'Sheet values', error: values.error }
+    ],
+    cached: [
+      { label: 'income', cachedAt: income.cachedAt },
+      { label: 'bank details', cachedAt: bankDetails.cachedAt },
+      { label: 'sheet values', cachedAt: values.cachedAt }
+    ]
+  }), [
+    income.loading, income.cachedAt, income.error,
+    bankDetails.loading, bankDetails.cachedAt, bankDetails.error,
+    bankHistory.loading, bankHistory.error,
+    values.loading, values.cachedAt, values.error,
+    connectionState.lastSync
+  ]);
+
+  // Each slice is memoised by its hook, so a slice is a new object only when its own state changed
+  const value = useMemo<AppDataState>(
+    () => ({ income, bankDetails, bankHistory, bankStatements, values, connection, messages, status, refreshAll }),
+    [income, bankDetails, bankHistory, bankStatements, values, connection, messages, status, refreshAll]
+  );
+
+  return (
+    <AppDataStoreProvider value={value}>
+      {children}
+    </AppDataStoreProvider>
+  );
+};
+
+/**
+ * Read part of the app data store, e.g. useAppData(selectIncome). The
+ * component re-renders only when the selected value changes, so selectors
+ * must return a part of the state rather than build a new object.
+ */
+export const useAppData = <T,>(selector: (state: AppDataState) => T): T => {
+  const store = useContext(AppDataContext);
+  if (store === undefined) {
+    throw new Error('useAppData must be used within an AppDataProvider');
+  }
+  return useSyncExternalStore(store.subscribe, () => selector(store.getState()));
+};
+
+// Selectors
+export const selectIncome = (state: AppDataState) => state.income;
+export const selectBankDetails = (state: AppDataState) => state.bankDetails;
+export const selectBankHistory = (state: AppDataState) => state.bankHistory;
+export const selectBankStatements = (state: AppDataState) => state.bankStatements;
+export const selectValues = (state: AppDataState) => state.values;
+export const selectConnection = (state: AppDataState) => state.connection;
+export const selectMessages = (state: AppDataState) => state.messages;
+export const selectLoadStatus = (state: AppDataState) => state.status;
+export const selectRefreshAll = (state: AppDataState) => state.refreshAll;
@@ -0,0 +1,50 @@
+import React, { createContext, useContext, useMemo, ReactNode } from 'react';
+import { DataSource, DataSourceType } from '../types';
+import { sheetsApiService } from '../services/sheetsApiService';
+import { StaticFileDataSource } from '../services/staticFileDataSource';
+import { RestDataSource } from '../services/restDataSource';
+import { InMemoryDataSource } from '../services/inMemoryDataSource';
+import { dataSourceType, staticDataUrls, restBaseUrl } from '../config/dataSourceConfig';
+
+const DataSourceContext = createContext<DataSource | undefined>(undefined);
+
+interface DataSourceProviderProps {
+  // Overrides the configured source, e.g. an InMemoryDataSource in tests
+  source?: DataSource;
+  children: ReactNode;
+}
+
+/**
+ * Build the data source selected by REACT_APP_DATA_SOURCE
+ */
+export const createDataSource = (type: DataSourceType): DataSource => {
+  switch (type) {
+    case 'static':
+      return new StaticFileDataSource(staticDataUrls);
+    case 'rest':
+      return new RestDataSource(restBaseUrl);
+    case 'memory':
+      return new InMemoryDataSource();
+    case 'sheets':
+    default:
+      return sheetsApiService;
+  }
+};
+
+export const DataSourceProvider: React.FC<DataSourceProviderProps> = ({ source, children }) => {
+  const value = useMemo(() => source || createDataSource(dataSourceType), [source]);
+
+  return (
+    <DataSourceContext.Provider value={value}>
+      {children}
+    </DataSourceContext.Provider>
+  );
+};
+
+export const useDataSource = (): DataSource => {
+  const context = useContext(DataSourceContext);
+  if (context === undefined) {
+    throw new Error('useDataSource must be used within a DataSourceProvider');
+  }
+  return context;
+};
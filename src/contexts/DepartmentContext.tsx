@@ -0,0 +1,102 @@
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
+import { DepartmentDefinition, DepartmentNode, DataSource } from '../types';
+import { departmentRegistryService, DepartmentRegistryService } from '../services/departmentRegistryService';
+import { departmentConfigUrl } from '../config/departmentConfig';
+import { isDemoMode } from '../config/demoConfig';
+import { useDataSource } from './DataSourceContext';
+
+interface DepartmentContextType {
+  departments: DepartmentNode[];
+  // The registry as last loaded (a new object after each reload, so hooks can depend on it)
+  registry: DepartmentRegistryService;
+  loading: boolean;
+  error: string | null;
+}
+
+const DepartmentContext = createContext<DepartmentContextType | undefined>(undefined);
+
+interface DepartmentProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Load department definitions from the configured sheet tab or JSON file.
+ * Resolves to null when neither source is configured.
+ */
+const loadDefinitions = async (dataSource: DataSource): Promise<DepartmentDefinition[] | null> => {
+  // Sources answer null when they have no such sheet (e.g. no tab configured on the server)
+  const fromSheet = isDemoMode || !dataSource.fetchDepartmentDefinitions
+    ? null
+    : await dataSource.fetchDepartmentDefinitions().catch(error => {
+      console.warn(`Could not load the departments from ${dataSource.label}, trying the JSON file:`, error);
+      return null;
+    });
+  if (fromSheet) {
+    return fromSheet;
+  }
+  if (departmentConfigUrl) {
+    return departmentRegistryService.fetchDefinitionsFromUrl(departmentConfigUrl);
+  }
+  return null;
+};
+
+export const DepartmentProvider: React.FC<DepartmentProviderProps> = ({ children }) => {
+  const dataSource = useDataSource();
+  // Snapshot of the shared registry, replaced whenever it is reloaded so consumers re-render
+  const [registry, setRegistry] = useState(() => departmentRegistryService.snapshot());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const definitions = await loadDefinitions(dataSource);
+        if (cancelled || !definitions) return;
+
+        if (definitions.length === 0) {
+          console.warn('Department configuration is empty, keeping built-in departments');
+          return;
+        }
+
+        departmentRegistryService.load(definitions);
+        setRegistry(departmentRegistryService.snapshot());
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to load department configuration';
+        console.error('Error loading department configuration, using built-in departments:', err);
+        if (!cancelled) setError(errorMessage);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dataSource]);
+
+  const value = useMemo(() => ({
+    departments: registry.getDepartments(),
+    registry,
+    loading,
+    error
+  }), [registry, loading, error]);
+
+  return (
+    <DepartmentContext.Provider value={value}>
+      {children}
+    </DepartmentContext.Provider>
+  );
+};
+
+export const useDepartments = (): DepartmentContextType => {
+  const context = useContext(DepartmentContext);
+  if (context === undefined) {
+    throw new Error('useDepartments must be used within a DepartmentProvider');
+  }
+  return context;
+};
@@ -0,0 +1,97 @@
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
+import { TempleEvent, DataSource } from '../types';
+import { eventCalendarService, EventCalendarService } from '../services/eventCalendarService';
+import { eventConfigUrl } from '../config/eventConfig';
+import { isDemoMode } from '../config/demoConfig';
+import { useDataSource } from './DataSourceContext';
+
+interface EventContextType {
+  events: TempleEvent[];
+  // The calendar as last loaded (a new object after each reload, so hooks can depend on it)
+  calendar: EventCalendarService;
+  loading: boolean;
+  error: string | null;
+}
+
+const EventContext = createContext<EventContextType | undefined>(undefined);
+
+interface EventProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Load events from the configured sheet tab or JSON file.
+ * Resolves to null when neither source is configured.
+ */
+const loadEvents = async (dataSource: DataSource): Promise<TempleEvent[] | null> => {
+  // Sources answer null when they have no such sheet (e.g. no tab configured on the server)
+  const fromSheet = isDemoMode || !dataSource.fetchEvents
+    ? null
+    : await dataSource.fetchEvents().catch(error => {
+      console.warn(`Could not load the events calendar from ${dataSource.label}, trying the JSON file:`, error);
+      return null;
+    });
+  if (fromSheet) {
+    return fromSheet;
+  }
+  if (eventConfigUrl) {
+    return eventCalendarService.fetchEventsFromUrl(eventConfigUrl);
+  }
+  return null;
+};
+
+export const EventProvider: React.FC<EventProviderProps> = ({ children }) => {
+  const dataSource = useDataSource();
+  // Snapshot of the shared calendar, replaced whenever it is reloaded so consumers re-render
+  const [calendar, setCalendar] = useState(() => eventCalendarService.snapshot());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const events = await loadEvents(dataSource);
+        if (cancelled || !events) return;
+
+        eventCalendarService.load(events);
+        setCalendar(eventCalendarService.snapshot());
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to load events calendar';
+        console.error('Error loading events calendar:', err);
+        if (!cancelled) setError(errorMessage);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dataSource]);
+
+  const value = useMemo(() => ({
+    events: calendar.getEvents(),
+    calendar,
+    loading,
+    error
+  }), [calendar, loading, error]);
+
+  return (
+    <EventContext.Provider value={value}>
+      {children}
+    </EventContext.Provider>
+  );
+};
+
+export const useEvents = (): EventContextType => {
+  const context = useContext(EventContext);
+  if (context === undefined) {
+    throw new Error('useEvents must be used within an EventProvider');
+  }
+  return context;
+};
@@ -0,0 +1,103 @@
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
+import { KpiDefinition, DataSource } from '../types';
+import { kpiRegistryService, KpiRegistryService } from '../services/kpiRegistryService';
+import { kpiConfigUrl } from '../config/kpiConfig';
+import { isDemoMode } from '../config/demoConfig';
+import { useDataSource } from './DataSourceContext';
+
+interface KpiContextType {
+  // Active KPI cards by row, top row first
+  rows: KpiDefinition[][];
+  // The registry as last loaded (a new object after each reload, so hooks can depend on it)
+  registry: KpiRegistryService;
+  loading: boolean;
+  error: string | null;
+}
+
+const KpiContext = createContext<KpiContextType | undefined>(undefined);
+
+interface KpiProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Load KPI definitions from the configured sheet tab or JSON file.
+ * Resolves to null when neither source is configured.
+ */
+const loadDefinitions = async (dataSource: DataSource): Promise<KpiDefinition[] | null> => {
+  // Sources answer null when they have no such sheet (e.g. no tab configured on the server)
+  const fromSheet = isDemoMode || !dataSource.fetchKpiDefinitions
+    ? null
+    : await dataSource.fetchKpiDefinitions().catch(error => {
+      console.warn(`Could not load the KPIs from ${dataSource.label}, trying the JSON file:`, error);
+      return null;
+    });
+  if (fromSheet) {
+    return fromSheet;
+  }
+  if (kpiConfigUrl) {
+    return kpiRegistryService.fetchDefinitionsFromUrl(kpiConfigUrl);
+  }
+  return null;
+};
+
+export const KpiProvider: React.FC<KpiProviderProps> = ({ children }) => {
+  const dataSource = useDataSource();
+  // Snapshot of the shared registry, replaced whenever it is reloaded so consumers re-render
+  const [registry, setRegistry] = useState(() => kpiRegistryService.snapshot());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const definitions = await loadDefinitions(dataSource);
+        if (cancelled || !definitions) return;
+
+        if (definitions.length === 0) {
+          console.warn('KPI configuration is empty, keeping built-in KPIs');
+          return;
+        }
+
+        kpiRegistryService.load(definitions);
+        setRegistry(kpiRegistryService.snapshot());
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to load KPI configuration';
+        console.error('Error loading KPI configuration, using built-in KPIs:', err);
+        if (!cancelled) setError(errorMessage);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dataSource]);
+
+  const value = useMemo(() => ({
+    rows: registry.getRows(),
+    registry,
+    loading,
+    error
+  }), [registry, loading, error]);
+
+  return (
+    <KpiContext.Provider value={value}>
+      {children}
+    </KpiContext.Provider>
+  );
+};
+
+export const useKpis = (): KpiContextType => {
+  const context = useContext(KpiContext);
+  if (context === undefined) {
+    throw new Error('useKpis must be used within a KpiProvider');
+  }
+  return context;
+};
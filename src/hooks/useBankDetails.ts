@@ -1,25 +1,31 @@
-import { useState, useEffect, useCallback } from 'react';
-import { BankDetails, BankDetailsConfig } from '../types';
-import { googleSheetsService } from '../services/googleSheetsService';
-import { useMessages } from './useMessages';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { BankDetails, FetchOptions } from '../types';
+import { offlineCacheService } from '../services/offlineCacheService';
+import { useDataSource } from '../contexts/DataSourceContext';
+import { demoDataService } from '../services/demoDataService';
+import { isDemoMode } from '../config/demoConfig';
 
 export interface UseBankDetailsReturn {
   data: BankDetails[];
   loading: boolean;
   error: string | null;
-  refresh: () => Promise<void>;
-  testConnection: (config: BankDetailsConfig) => Promise<boolean>;
+  // Fetch time of cached data currently shown, null once live data has loaded
+  cachedAt: string | null;
+  refresh: (options?: FetchOptions) => Promise<void>;
 }
 
-export const useBankDetails = (config: BankDetailsConfig | null): UseBankDetailsReturn => {
+export const useBankDetails = (): UseBankDetailsReturn => {
   const [data, setData] = useState<BankDetails[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { addMessage } = useMessages();
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const hasLiveData = useRef(false);
+  const dataSource = useDataSource();
+  const cacheKey = `${dataSource.id}/bank-details`;
 
-  const fetchData = useCallback(async () => {
-    if (!config) {
-      setData([]);
+  const fetchData = useCallback(async (options?: FetchOptions) => {
+    if (isDemoMode) {
+      setData(demoDataService.generateBankDetails());
       return;
     }
 
@@ -27,43 +33,48 @@ export const useBankDetails = (config: BankDetailsConfig | null): UseBankDetails
     setError(null);
 
     try {
-      const bankDetails = await googleSheetsService.fetchBankDetails(config);
+      const bankDetails = await dataSource.fetchBankDetails(options);
+      hasLiveData.current = true;
       setData(bankDetails);
-      addMessage(`Loaded ${bankDetails.length} bank details`, 'success');
+      setCachedAt(null);
+      await offlineCacheService.set(cacheKey, bankDetails);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to fetch bank details';
       setError(errorMessage);
-      addMessage(`Error loading bank details: ${errorMessage}`, 'error');
+      console.error('Error fetching bank details:', err);
     } finally {
       setLoading(false);
     }
-  }, [config, addMessage]);
+  }, [dataSource, cacheKey]);
 
-  const refresh = useCallback(async () => {
-    await fetchData();
+  const refresh = useCallback(async (options?: FetchOptions) => {
+    await fetchData(options);
   }, [fetchData]);
 
-  const testConnection = useCallback(async (testConfig: BankDetailsConfig): Promise<boolean> => {
-    try {
-      // Test with a small range to verify connection
-      const testConfigWithRange = { ...testConfig, range: `${testConfig.range.split('!')[0]}!A1:F1` };
-      await googleSheetsService.fetchBankDetails(testConfigWithRange);
-      return true;
-    } catch (err) {
-      console.error('Bank details connection test failed:', err);
-      return false;
+  // Show the last cached payload immediately, then refresh in the background
+  useEffect(() => {
+    let cancelled = false;
+
+    if (!isDemoMode) {
+      offlineCacheService.get<BankDetails[]>(cacheKey).then(cached => {
+        if (cancelled || !cached || hasLiveData.current) return;
+        setData(cached.data);
+        setCachedAt(cached.fetchedAt);
+      });
     }
-  }, []);
 
-  useEffect(() => {
     fetchData();
-  }, [fetchData]);
 
-  return {
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchData, cacheKey]);
+
+  return useMemo(() => ({
     data,
     loading,
     error,
-    refresh,
-    testConnection
-  };
+    cachedAt,
+    refresh
+  }), [data, loading, error, cachedAt, refresh]);
 };
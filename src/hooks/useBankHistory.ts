@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { BalanceSnapshot, BankDetails, FetchOptions } from '../types';
+import { bankHistoryService } from '../services/bankHistoryService';
+import { offlineCacheService } from '../services/offlineCacheService';
+import { demoDataService } from '../services/demoDataService';
+import { useDataSource } from '../contexts/DataSourceContext';
+import { isDemoMode } from '../config/demoConfig';
+import { recordBankSnapshots } from '../config/bankHistoryConfig';
+
+export interface UseBankHistoryReturn {
+  // Every balance snapshot, one per account per day, oldest first
+  snapshots: BalanceSnapshot[];
+  loading: boolean;
+  error: string | null;
+  refresh: (options?: FetchOptions) => Promise<void>;
+}
+
+/**
+ * Bank balance history: the data source's history (e.g. the bank sheet's
+ * history tab) merged with the snapshots recorded in the browser each time
+ * live bank details arrive. Cached bank details are never recorded again.
+ */
+export const useBankHistory = (bankDetails: BankDetails[], isLive: boolean): UseBankHistoryReturn => {
+  const [sourceHistory, setSourceHistory] = useState<BalanceSnapshot[]>([]);
+  const [recorded, setRecorded] = useState<BalanceSnapshot[]>([]);
+  // Recording waits for the stored snapshots, so it never overwrites them
+  const [recordedLoaded, setRecordedLoaded] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const recordedRef = useRef<BalanceSnapshot[]>([]);
+  const dataSource = useDataSource();
+  const cacheKey = `${dataSource.id}/bank-snapshots`;
+
+  const fetchData = useCallback(async (options?: FetchOptions) => {
+    if (isDemoMode || !dataSource.fetchBankHistory) {
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      setSourceHistory((await dataSource.fetchBankHistory(options)) || []);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch bank balance history';
+      setError(errorMessage);
+      console.error('Error fetching bank balance history:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [dataSource]);
+
+  const refresh = useCallback(async (options?: FetchOptions) => {
+    await fetchData(options);
+  }, [fetchData]);
+
+  // Load the recorded snapshots, then the source's history
+  useEffect(() => {
+    let cancelled = false;
+    setRecordedLoaded(false);
+
+    if (!isDemoMode) {
+      offlineCacheService.get<BalanceSnapshot[]>(cacheKey).then(cached => {
+        if (cancelled) return;
+        recordedRef.current = cached ? cached.data : [];
+        setRecorded(recordedRef.current);
+        setRecordedLoaded(true);
+      });
+    }
+
+    fetchData();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchData, cacheKey]);
+
+  // Record a snapshot of every live fetch of the bank details
+  useEffect(() => {
+    if (!recordedLoaded || !recordBankSnapshots || !isLive || bankDetails.length === 0) return;
+
+    recordedRef.current = bankHistoryService.merge(recordedRef.current, bankHistoryService.fromBankDetails(bankDetails));
+    setRecorded(recordedRef.current);
+    offlineCacheService.set(cacheKey, recordedRef.current);
+  }, [bankDetails, isLive, recordedLoaded, cacheKey]);
+
+  const snapshots = useMemo(() => {
+    if (isDemoMode) {
+      return bankHistoryService.merge(demoDataService.generateBankHistory(bankDetails), bankHistoryService.fromBankDetails(bankDetails));
+    }
+    // Recorded snapshots were read from the bank details sheet itself, so they win
+    return bankHistoryService.merge(sourceHistory, recorded);
+  }, [bankDetails, sourceHistory, recorded]);
+
+  return useMemo(() => ({
+    snapshots,
+    loading,
+    error,
+    refresh
+  }), [snapshots, loading, error, refresh]);
+};
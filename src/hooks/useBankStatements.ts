@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { BankStatement } from '../types';
+import { offlineCacheService } from '../services/offlineCacheService';
+import { useDataSource } from '../contexts/DataSourceContext';
+
+export interface UseBankStatementsReturn {
+  // Uploaded statements, in upload order
+  statements: BankStatement[];
+  addStatement: (statement: BankStatement) => void;
+  removeStatement: (id: string) => void;
+}
+
+/**
+ * Bank statements uploaded for reconciliation. Unlike income imports they
+ * are kept in the browser (IndexedDB) between visits, since a month is
+ * only reconciled once its statements are in.
+ */
+export const useBankStatements = (): UseBankStatementsReturn => {
+  const [statements, setStatements] = useState<BankStatement[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const dataSource = useDataSource();
+  const cacheKey = `${dataSource.id}/bank-statements`;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoaded(false);
+
+    offlineCacheService.get<BankStatement[]>(cacheKey).then(cached => {
+      if (cancelled) return;
+      // Keep anything uploaded while the stored statements were loading
+      setStatements(prev => (cached ? cached.data : []).concat(prev));
+      setLoaded(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cacheKey]);
+
+  // Store every change once the stored statements are in, so they are never overwritten
+  useEffect(() => {
+    if (!loaded) return;
+    offlineCacheService.set(cacheKey, statements);
+  }, [statements, loaded, cacheKey]);
+
+  const addStatement = useCallback((statement: BankStatement) => {
+    setStatements(prev => [...prev, statement]);
+  }, []);
+
+  const removeStatement = useCallback((id: string) => {
+    setStatements(prev => prev.filter(statement => statement.id !== id));
+  }, []);
+
+  return useMemo(() => ({
+    statements,
+    addStatement,
+    removeStatement
+  }), [statements, addStatement, removeStatement]);
+};
@@ -1,16 +1,38 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
-import { GoogleSheetsConfig, ConnectionState, UseConnectionReturn } from '../types';
-import { googleSheetsService } from '../services/googleSheetsService';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { ConnectionState, FetchOptions, IncomeChangeSummary, SyncHistoryEntry, UseConnectionReturn } from '../types';
+import { useDataSource } from '../contexts/DataSourceContext';
 import { dataProcessingService } from '../services/dataProcessingService';
+import { CircuitBreaker } from '../services/circuitBreaker';
+import { syncFailureThreshold, syncPauseMs } from '../config/requestConfig';
 
-export const useConnection = (): UseConnectionReturn => {
+// Oldest syncs drop out of the history log beyond this
+const SYNC_HISTORY_LIMIT = 50;
+
+/**
+ * Connection to the active data source with periodic sync. After
+ * syncFailureThreshold failed syncs in a row auto-sync pauses for
+ * syncPauseMs (status 'paused') instead of retrying on every tick; the Sync
+ * button still works and a successful sync resumes it. The Sync button
+ * asks for fresh data, bypassing the API's cache; auto-sync may be served
+ * from it.
+ *
+ * @param syncSources - Refetches every source into the app data store and reports what changed in the income data
+ * @param loadIncome - Fetches the income data into the app data store; connecting uses it as the first load
+ */
+export const useConnection = (
+  syncSources: (options: FetchOptions) => Promise<IncomeChangeSummary>,
+  loadIncome: () => Promise<IncomeChangeSummary>
+): UseConnectionReturn => {
+  const dataSource = useDataSource();
   const [connectionState, setConnectionState] = useState<ConnectionState>({
     status: 'disconnected',
     message: 'Not Connected'
   });
+  const [syncHistory, setSyncHistory] = useState<SyncHistoryEntry[]>([]);
   
   const autoSyncIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const configRef = useRef<GoogleSheetsConfig | null>(null);
+  const refreshIntervalRef = useRef<number | null>(null);
+  const breakerRef = useRef(new CircuitBreaker(syncFailureThreshold, syncPauseMs));
 
   const stopAutoSync = useCallback(() => {
     if (autoSyncIntervalRef.current) {
@@ -19,9 +41,14 @@ export const useConnection = (): UseConnectionReturn => {
     }
   }, []);
 
-  const sync = useCallback(async () => {
-    if (!configRef.current) {
-      throw new Error('Not connected to Google Sheets');
+  const recordSync = useCallback((entry: Omit<SyncHistoryEntry, 'id' | 'syncedAt'>) => {
+    const syncedAt = new Date().toISOString();
+    setSyncHistory(prev => [{ ...entry, id: `${syncedAt}-${prev.length}`, syncedAt }, ...prev].slice(0, SYNC_HISTORY_LIMIT));
+  }, []);
+
+  const runSync = useCallback(async (trigger: SyncHistoryEntry['trigger']): Promise<IncomeChangeSummary> => {
+    if (!refreshIntervalRef.current) {
+      throw new Error(`Not connected to ${dataSource.label}`);
     }
 
     try {
@@ -31,67 +58,82 @@ export const useConnection = (): UseConnectionReturn => {
         message: 'Syncing...'
       }));
 
-      // Fetch fresh data from Google Sheets
-      await googleSheetsService.fetchData(configRef.current);
+      // Fresh data is applied only where it differs from what is shown
+      const summary = await syncSources({ fresh: trigger === 'manual' });
+      breakerRef.current.recordSuccess();
+      recordSync({ trigger, status: summary.hasChanges ? 'changed' : 'unchanged', summary });
       
       setConnectionState(prev => ({
         status: 'connected',
-        message: 'Synced successfully',
+        message: summary.hasChanges ? 'Synced, data updated' : 'Synced, no changes',
         lastSync: dataProcessingService.getCurrentTime()
       }));
+      return summary;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Sync failed';
-      setConnectionState({
-        status: 'disconnected',
-        message: errorMessage
-      });
+      recordSync({ trigger, status: 'failed', error: errorMessage });
+
+      const breaker = breakerRef.current;
+      if (breaker.recordFailure() && breaker.resumeAt) {
+        const resumeTime = breaker.resumeAt.toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' });
+        setConnectionState({
+          status: 'paused',
+          message: `Auto-sync paused after ${breaker.failureCount} failed sync${breaker.failureCount !== 1 ? 's' : ''}; retrying at ${resumeTime}. ${errorMessage}`
+        });
+      } else {
+        setConnectionState({
+          status: 'disconnected',
+          message: errorMessage
+        });
+      }
       throw error;
     }
-  }, []);
+  }, [dataSource, syncSources, recordSync]);
+
+  const sync = useCallback(() => runSync('manual'), [runSync]);
 
   const startAutoSync = useCallback(() => {
     if (autoSyncIntervalRef.current) {
       clearInterval(autoSyncIntervalRef.current);
     }
 
-    if (configRef.current) {
+    if (refreshIntervalRef.current) {
       autoSyncIntervalRef.current = setInterval(async () => {
+        // Leave a failing source alone until the pause is over
+        if (breakerRef.current.isOpen()) {
+          return;
+        }
         try {
-          await sync();
+          await runSync('auto');
         } catch (error) {
           console.error('Auto-sync failed:', error);
         }
-      }, configRef.current.refreshInterval);
+      }, refreshIntervalRef.current);
     }
-  }, [sync]);
+  }, [runSync]);
 
-  const connect = useCallback(async (config: GoogleSheetsConfig): Promise<boolean> => {
+  const connect = useCallback(async (refreshInterval: number): Promise<boolean> => {
     setConnectionState({
       status: 'connecting',
       message: 'Testing connection...'
     });
 
     try {
-      const isConnected = await googleSheetsService.testConnection(config);
+      // Loading the income data succeeds only when the source is reachable and
+      // configured, and is kept as the first load rather than fetched again
+      await loadIncome();
+
+      refreshIntervalRef.current = refreshInterval;
+      breakerRef.current.reset();
+      setConnectionState({
+        status: 'connected',
+        message: `Connected to ${dataSource.label}`,
+        lastSync: dataProcessingService.getCurrentTime()
+      });
       
-      if (isConnected) {
-        configRef.current = config;
-        setConnectionState({
-          status: 'connected',
-          message: 'Connected to Google Sheets',
-          lastSync: dataProcessingService.getCurrentTime()
-        });
-        
-        // Start auto-sync
-        startAutoSync();
-        return true;
-      } else {
-        setConnectionState({
-          status: 'disconnected',
-          message: 'Connection failed'
-        });
-        return false;
-      }
+      // Start auto-sync
+      startAutoSync();
+      return true;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Connection failed';
       setConnectionState({
@@ -100,11 +142,12 @@ export const useConnection = (): UseConnectionReturn => {
       });
       return false;
     }
-  }, [startAutoSync]);
+  }, [dataSource, loadIncome, startAutoSync]);
 
   const disconnect = useCallback(() => {
     stopAutoSync();
-    configRef.current = null;
+    refreshIntervalRef.current = null;
+    breakerRef.current.reset();
     setConnectionState({
       status: 'disconnected',
       message: 'Disconnected'
@@ -118,10 +161,11 @@ export const useConnection = (): UseConnectionReturn => {
     };
   }, [stopAutoSync]);
 
-  return {
+  return useMemo(() => ({
     connectionState,
     connect,
     disconnect,
-    sync
-  };
+    sync,
+    syncHistory
+  }), [connectionState, connect, disconnect, sync, syncHistory]);
 };
\ No newline at end of file
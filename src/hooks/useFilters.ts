@@ -10,16 +10,16 @@
  */
 
 import { useState, useMemo } from 'react';
-import { IncomeRecord, DateFilter, UseFiltersReturn } from '../types';
+import { IncomeRecord, DateFilter, LocalDate, UseFiltersReturn } from '../types';
 import { dataProcessingService } from '../services/dataProcessingService';
 
 /**
  * Enhanced UseFiltersReturn interface with date range support
  */
 interface UseFiltersReturnEnhanced extends UseFiltersReturn {
-  setDateRange: (startDate: string, endDate: string) => void;
-  startDate: string;
-  endDate: string;
+  setDateRange: (startDate: LocalDate, endDate: LocalDate) => void;
+  startDate: LocalDate;
+  endDate: LocalDate;
 }
 
 /**
@@ -30,17 +30,17 @@ interface UseFiltersReturnEnhanced extends UseFiltersReturn {
  */
 export const useFilters = (data: IncomeRecord[]): UseFiltersReturnEnhanced => {
   const [currentFilter, setCurrentFilter] = useState<DateFilter>('all');
-  const [specificDate, setSpecificDate] = useState<string>('');
-  const [startDate, setStartDate] = useState<string>('');
-  const [endDate, setEndDate] = useState<string>('');
+  const [specificDate, setSpecificDate] = useState<LocalDate>('');
+  const [startDate, setStartDate] = useState<LocalDate>('');
+  const [endDate, setEndDate] = useState<LocalDate>('');
 
   /**
    * Set filter type and optional specific date
    * 
    * @param {DateFilter} filter - Filter type to apply
-   * @param {string} date - Optional specific date
+   * @param {LocalDate} date - Optional specific date in YYYY-MM-DD format
    */
-  const setFilter = (filter: DateFilter, date?: string) => {
+  const setFilter = (filter: DateFilter, date?: LocalDate) => {
     setCurrentFilter(filter);
     if (date) {
       setSpecificDate(date);
@@ -57,10 +57,10 @@ export const useFilters = (data: IncomeRecord[]): UseFiltersReturnEnhanced => {
   /**
    * Set custom date range
    * 
-   * @param {string} start - Start date in M/D/YYYY format
-   * @param {string} end - End date in M/D/YYYY format
+   * @param {LocalDate} start - Start date in YYYY-MM-DD format
+   * @param {LocalDate} end - End date in YYYY-MM-DD format
    */
-  const setDateRange = (start: string, end: string) => {
+  const setDateRange = (start: LocalDate, end: LocalDate) => {
     setStartDate(start);
     setEndDate(end);
     setCurrentFilter('specific');
@@ -1,63 +1,131 @@
-import { useState, useCallback, useEffect } from 'react';
-import { IncomeRecord, UseIncomeDataReturn } from '../types';
-import { googleSheetsService } from '../services/googleSheetsService';
-import { GoogleSheetsConfig } from '../types';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { IncomeRecord, IncomeImport, IncomeDataset, IncomeChangeSummary, DataQualityIssue, FetchOptions, UseIncomeDataReturn } from '../types';
+import { offlineCacheService } from '../services/offlineCacheService';
+import { syncDiffService } from '../services/syncDiffService';
+import { useDepartments } from '../contexts/DepartmentContext';
+import { useDataSource } from '../contexts/DataSourceContext';
+import { demoDataService } from '../services/demoDataService';
+import { isDemoMode } from '../config/demoConfig';
 
 export const useIncomeData = (): UseIncomeDataReturn => {
-  const [data, setData] = useState<IncomeRecord[]>([]);
-  const [filteredData, setFilteredData] = useState<IncomeRecord[]>([]);
+  const [rawData, setData] = useState<IncomeRecord[]>([]);
+  const { departments, registry } = useDepartments();
+  const dataSource = useDataSource();
+  const cacheKey = `${dataSource.id}/income`;
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const [sourceIssues, setSourceIssues] = useState<DataQualityIssue[]>([]);
+  // Files imported this session; kept apart from the fetched data so a refresh never drops them
+  const [imports, setImports] = useState<IncomeImport[]>([]);
+  // Set once live data arrives so a slow cache read never overwrites it
+  const hasLiveData = useRef(false);
+  // Fetched records currently shown, for diffing the next fetch against
+  const rawDataRef = useRef<IncomeRecord[]>([]);
 
-  const refresh = useCallback(async () => {
+  const applyDataset = useCallback((dataset: IncomeDataset): IncomeChangeSummary => {
+    const summary = syncDiffService.diffIncome(rawDataRef.current, dataset.records);
+    // Unchanged data keeps the same arrays, so charts and tables do not re-render
+    if (summary.hasChanges || !hasLiveData.current) {
+      rawDataRef.current = dataset.records;
+      setData(dataset.records);
+      setSourceIssues(dataset.issues);
+    }
+    hasLiveData.current = true;
+    setCachedAt(null);
+    setError(null);
+    offlineCacheService.set(cacheKey, dataset);
+    return summary;
+  }, [cacheKey]);
+
+  const load = useCallback(async (options?: FetchOptions): Promise<IncomeChangeSummary> => {
     setLoading(true);
     setError(null);
     
     try {
-      // Use environment variables (required)
-      const config: GoogleSheetsConfig = {
-        apiKey: process.env.REACT_APP_GOOGLE_SHEETS_API_KEY || '',
-        spreadsheetId: process.env.REACT_APP_INCOME_SPREADSHEET_ID || '',
-        range: process.env.REACT_APP_INCOME_SHEET_RANGE || '',
-        refreshInterval: parseInt(process.env.REACT_APP_REFRESH_INTERVAL || '0', 10)
-      };
-      
-      // Validate required environment variables
-      if (!config.apiKey || !config.spreadsheetId || !config.range || config.refreshInterval <= 0) {
-        console.warn('Missing required environment variables. Using sample data.');
-        // Return sample data instead of throwing error
-        const sampleData: IncomeRecord[] = [
-          { date: '01/01/25', department: 'Temple', cash: 1000, online: 500 },
-          { date: '02/01/25', department: 'Donation', cash: 800, online: 300 },
-          { date: '03/01/25', department: 'Events', cash: 1200, online: 400 }
-        ];
-        setData(sampleData);
-        setFilteredData(sampleData);
-        return;
-      }
-      
-      const newData = await googleSheetsService.fetchData(config);
-      setData(newData);
-      setFilteredData(newData);
+      // A missing sheet configuration is reported as an error, never as sample data
+      return applyDataset(await dataSource.fetchIncome(options));
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to fetch data';
       setError(errorMessage);
       console.error('Error fetching income data:', err);
+      throw err;
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [dataSource, applyDataset]);
+
+  const refresh = useCallback(async (options?: FetchOptions) => {
+    // Demo data is generated from the department registry below, never fetched
+    if (isDemoMode) return;
 
-  // Load initial data
+    // The error is kept in state for the caller to show
+    await load(options).catch(() => undefined);
+  }, [load]);
+
+  // Show the last cached payload immediately; the live data is fetched by the
+  // connection test (see useConnection), which doubles as the first load
   useEffect(() => {
-    refresh();
-  }, [refresh]);
+    if (isDemoMode) return;
+
+    let cancelled = false;
+    
+    offlineCacheService.get<IncomeDataset | IncomeRecord[]>(cacheKey).then(cached => {
+      if (cancelled || !cached || hasLiveData.current) return;
+      // Caches written before data quality checks hold a bare record array
+      const dataset = Array.isArray(cached.data) ? { records: cached.data, issues: [] } : cached.data;
+      rawDataRef.current = dataset.records;
+      setData(dataset.records);
+      setSourceIssues(dataset.issues);
+      setCachedAt(cached.fetchedAt);
+    });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [cacheKey]);
+
+  // Demo mode covers whichever departments the registry holds, so regenerate when it reloads
+  const demoData = useMemo(
+    () => (isDemoMode ? demoDataService.generateIncomeData(departments) : null),
+    [departments]
+  );
+
+  const importedData = useMemo(
+    () => imports.reduce<IncomeRecord[]>((records, entry) => records.concat(entry.records), []),
+    [imports]
+  );
+
+  // Re-resolve department names if the registry (and its aliases) loads after the data
+  const data = useMemo(
+    () => (demoData || registry.resolveRecords(rawData)).concat(registry.resolveRecords(importedData)),
+    [demoData, rawData, importedData, registry]
+  );
+
+  const issues = useMemo(
+    () => imports.reduce<DataQualityIssue[]>((all, entry) => all.concat(entry.issues), isDemoMode ? [] : sourceIssues),
+    [imports, sourceIssues]
+  );
+
+  const addImport = useCallback((entry: IncomeImport) => {
+    setImports(prev => [...prev, entry]);
+  }, []);
+
+  const removeImport = useCallback((id: string) => {
+    setImports(prev => prev.filter(entry => entry.id !== id));
+  }, []);
 
-  return {
+  return useMemo(() => ({
     data,
-    filteredData,
     loading,
     error,
-    refresh
-  };
+    cachedAt,
+    refresh,
+    load,
+    imports,
+    addImport,
+    removeImport,
+    issues,
+    applyDataset
+  }), [data, loading, error, cachedAt, refresh, load, imports, addImport, removeImport, issues, applyDataset]);
 };
@@ -0,0 +1,49 @@
+import { useState, useCallback, useRef, useMemo } from 'react';
+import { Message, MessageType } from '../types';
+
+export interface UseMessageQueueReturn {
+  messages: Message[];
+  addMessage: (text: string, type?: MessageType) => void;
+  removeMessage: (id: string) => void;
+  clearMessages: () => void;
+}
+
+/**
+ * Toast message queue. Owned once by AppDataProvider; components post to it
+ * through useMessages.
+ */
+export const useMessageQueue = (): UseMessageQueueReturn => {
+  const [messages, setMessages] = useState<Message[]>([]);
+  // Messages posted in the same millisecond still need distinct ids
+  const nextId = useRef(0);
+
+  const removeMessage = useCallback((id: string) => {
+    setMessages(prev => prev.filter(msg => msg.id !== id));
+  }, []);
+
+  const addMessage = useCallback((text: string, type: MessageType = 'info') => {
+    const message: Message = {
+      id: `${Date.now()}-${nextId.current++}`,
+      text,
+      type
+    };
+    
+    setMessages(prev => [...prev, message]);
+    
+    // Auto-remove message after 5 seconds
+    setTimeout(() => {
+      removeMessage(message.id);
+    }, 5000);
+  }, [removeMessage]);
+
+  const clearMessages = useCallback(() => {
+    setMessages([]);
+  }, []);
+
+  return useMemo(() => ({
+    messages,
+    addMessage,
+    removeMessage,
+    clearMessages
+  }), [messages, addMessage, removeMessage, clearMessages]);
+};
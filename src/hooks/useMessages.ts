@@ -1,36 +1,7 @@
-import { useState, useCallback } from 'react';
-import { Message, MessageType } from '../types';
+import { useAppData, selectMessages } from '../contexts/AppDataContext';
+import { UseMessageQueueReturn } from './useMessageQueue';
 
-export const useMessages = () => {
-  const [messages, setMessages] = useState<Message[]>([]);
-
-  const removeMessage = useCallback((id: string) => {
-    setMessages(prev => prev.filter(msg => msg.id !== id));
-  }, []);
-
-  const addMessage = useCallback((text: string, type: MessageType = 'info') => {
-    const message: Message = {
-      id: Date.now().toString(),
-      text,
-      type
-    };
-    
-    setMessages(prev => [...prev, message]);
-    
-    // Auto-remove message after 5 seconds
-    setTimeout(() => {
-      removeMessage(message.id);
-    }, 5000);
-  }, [removeMessage]);
-
-  const clearMessages = useCallback(() => {
-    setMessages([]);
-  }, []);
-
-  return {
-    messages,
-    addMessage,
-    removeMessage,
-    clearMessages
-  };
-};
\ No newline at end of file
+/**
+ * The app-wide toast queue shown by MessageContainer
+ */
+export const useMessages = (): UseMessageQueueReturn => useAppData(selectMessages);
@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { offlineCacheService } from '../services/offlineCacheService';
+import { demoDataService } from '../services/demoDataService';
+import { isDemoMode } from '../config/demoConfig';
+import { useDataSource } from '../contexts/DataSourceContext';
+import { FetchOptions, SheetValues } from '../types';
+
+export interface UseSheetValuesReturn {
+  // By key, e.g. values.iskconEmpowerFund; a key is missing when the source has no such value
+  values: SheetValues;
+  loading: boolean;
+  error: string | null;
+  // Fetch time of the cached values currently shown, null once the live values have loaded
+  cachedAt: string | null;
+  refresh: (options?: FetchOptions) => Promise<void>;
+}
+
+/**
+ * Custom hook to fetch the single values (KPI cells such as the ISKCON
+ * Empower Prayagraj fund balance) from the active data source. Which values
+ * exist is configured with the source, e.g. the API's range registry, so a
+ * new value needs no new hook.
+ */
+export const useSheetValues = (): UseSheetValuesReturn => {
+  const [values, setValues] = useState<SheetValues>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const hasLiveData = useRef(false);
+  const dataSource = useDataSource();
+  const cacheKey = `${dataSource.id}/values`;
+
+  const fetchData = useCallback(async (options?: FetchOptions) => {
+    if (isDemoMode) {
+      setValues({ iskconEmpowerFund: demoDataService.generateFundBalance() });
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const fetched = await dataSource.fetchValues(options);
+      hasLiveData.current = true;
+      setValues(fetched);
+      setCachedAt(null);
+      await offlineCacheService.set(cacheKey, fetched);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch sheet values';
+      setError(errorMessage);
+      console.error('Error fetching sheet values:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [dataSource, cacheKey]);
+
+  const refresh = useCallback(async (options?: FetchOptions) => {
+    await fetchData(options);
+  }, [fetchData]);
+
+  // Show the last cached values immediately, then refresh in the background
+  useEffect(() => {
+    let cancelled = false;
+
+    if (!isDemoMode) {
+      offlineCacheService.get<SheetValues>(cacheKey).then(cached => {
+        if (cancelled || !cached || hasLiveData.current) return;
+        setValues(cached.data);
+        setCachedAt(cached.fetchedAt);
+      });
+    }
+
+    fetchData();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchData, cacheKey]);
+
+  return useMemo(() => ({
+    values,
+    loading,
+    error,
+    cachedAt,
+    refresh
+  }), [values, loading, error, cachedAt, refresh]);
+};
+
@@ -1,6 +1,11 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { DataSourceProvider } from './contexts/DataSourceContext';
+import { DepartmentProvider } from './contexts/DepartmentContext';
+import { EventProvider } from './contexts/EventContext';
+import { KpiProvider } from './contexts/KpiContext';
+import { AppDataProvider } from './contexts/AppDataContext';
 import './index.css';
 
 const root = ReactDOM.createRoot(
@@ -9,6 +14,16 @@ const root = ReactDOM.createRoot(
 
 root.render(
   <React.StrictMode>
-    <App />
+    <DataSourceProvider>
+      <DepartmentProvider>
+        <EventProvider>
+          <KpiProvider>
+            <AppDataProvider>
+              <App />
+            </AppDataProvider>
+          </KpiProvider>
+        </EventProvider>
+      </DepartmentProvider>
+    </DataSourceProvider>
   </React.StrictMode>
 );
@@ -0,0 +1,107 @@
+import { BankDetails } from '../types';
+import { ACCOUNT_GROUPS } from '../config/accountGroupConfig';
+import { AccountGroupService } from './accountGroupService';
+
+const bank = (fields: Partial<BankDetails>): BankDetails => ({
+  bankDetails: 'HDFC Bank',
+  ifscCode: '',
+  upiIds: [],
+  accountHolderName: 'Temple Trust',
+  mainPurpose: '',
+  currentBalance: 0,
+  accountNumber: '',
+  bankName: 'HDFC Bank',
+  ...fields
+});
+
+const createService = () => new AccountGroupService(
+  ACCOUNT_GROUPS,
+  { '1234 5678 90': 'restricted', '5550001111': 'project funds' },
+  'operational'
+);
+
+describe('AccountGroupService.getGroup', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('prefers the account number, then the Account Group column, then name matches, then the default', () => {
+    const service = createService();
+
+    expect(service.getGroup(bank({ accountNumber: '5550-001-111', group: 'Corpus' })).id).toBe('projects');
+    expect(service.getGroup(bank({ accountNumber: '1234567890', bankDetails: 'SBI Savings' })).id).toBe('restricted');
+    expect(service.getGroup(bank({ bankDetails: 'SBI Savings', group: 'Corpus' })).id).toBe('restricted');
+    expect(service.getGroup(bank({ bankDetails: 'Axis Bank', mainPurpose: 'ISKCON Empower donations' })).id).toBe('empower');
+    expect(service.getGroup(bank({ bankDetails: 'Bank of Baroda Current' })).id).toBe('unassigned');
+    expect(service.getGroup(bank({})).id).toBe('operational');
+  });
+
+  it('matches names as whole words only', () => {
+    const service = createService();
+
+    expect(service.getGroup(bank({ bankDetails: 'Bobby Trust Current', accountHolderName: 'Hasbi Foundation' })).id).toBe('operational');
+    expect(service.getGroup(bank({ bankDetails: 'IDBIxyz Savings' })).id).toBe('operational');
+    expect(service.getGroup(bank({ bankDetails: 'BoB - Current' })).id).toBe('unassigned');
+    expect(service.getGroup(bank({ mainPurpose: 'Donations (ISKCON  Empower)' })).id).toBe('empower');
+  });
+
+  it('falls back past an unknown Account Group value and reports it once', () => {
+    const service = createService();
+
+    expect(service.getGroup(bank({ group: 'Savings' })).id).toBe('operational');
+    service.getGroup(bank({ group: 'Savings' }));
+
+    expect(console.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores assignments to unknown groups', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const service = new AccountGroupService(ACCOUNT_GROUPS, { '42424242': 'savings' }, 'operational');
+
+    expect(service.getGroup(bank({ accountNumber: '42424242' })).id).toBe('operational');
+    expect(console.error).toHaveBeenCalled();
+  });
+});
+
+describe('AccountGroupService totals', () => {
+  const accounts = [
+    bank({ bankDetails: 'HDFC Bank', currentBalance: 100000 }),
+    bank({ bankDetails: 'HDFC Bank Corpus', group: 'restricted', currentBalance: 400000 }),
+    bank({ bankDetails: 'SBI Savings', currentBalance: 30000 }),
+    bank({ bankDetails: 'IDBI Current', currentBalance: NaN }),
+    bank({ bankDetails: 'Axis Bank', group: 'ISKCON Empower', currentBalance: 250000 })
+  ];
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('leaves ISKCON Empower and unassigned accounts out of the total of all accounts', () => {
+    const service = createService();
+
+    expect(service.getAccounts(accounts)).toHaveLength(2);
+    expect(service.getBalance(service.getAccounts(accounts))).toBe(500000);
+    expect(service.getBalance(service.getAccounts(accounts, 'Restricted / Corpus'))).toBe(400000);
+    expect(service.getBalance(service.getAccounts(accounts, 'empower'))).toBe(250000);
+    expect(service.getAccounts(accounts, 'savings')).toEqual([]);
+  });
+
+  it('summarizes every group with accounts in configured order, skipping unreadable balances', () => {
+    const service = createService();
+
+    expect(service.summarize(accounts).map(summary => [summary.group.id, summary.accounts.length, summary.balance])).toEqual([
+      ['operational', 1, 100000],
+      ['restricted', 1, 400000],
+      ['empower', 1, 250000],
+      ['unassigned', 2, 30000]
+    ]);
+  });
+});
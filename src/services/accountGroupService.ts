@@ -0,0 +1,161 @@
+import { AccountGroup, AccountGroupBalance, BankDetails } from '../types';
+import { ACCOUNT_GROUPS, accountGroupAssignments, defaultAccountGroup } from '../config/accountGroupConfig';
+
+// Name that stands for every account counted in totals, in formulas
+export const ALL_ACCOUNTS = 'all';
+
+// Fields of an account its group is decided by
+type GroupedAccount = Pick<BankDetails, 'accountNumber' | 'bankDetails' | 'group'> & Partial<Pick<BankDetails, 'mainPurpose' | 'accountHolderName'>>;
+
+/**
+ * Sorts bank accounts into the groups of src/config/accountGroupConfig.ts.
+ * The single place that decides which accounts a balance covers.
+ */
+export class AccountGroupService {
+  private groups: AccountGroup[];
+  private defaultGroup: AccountGroup;
+  private assignments: Record<string, AccountGroup> = {};
+  // Account Group column values already reported as unknown
+  private unknownNames: Set<string> = new Set();
+  // Accounts already reported as left out of the totals
+  private reportedExcluded: Set<string> = new Set();
+
+  constructor(groups: AccountGroup[], assignments: Record<string, string>, defaultGroupName: string) {
+    this.groups = [...groups];
+
+    const defaultGroup = this.findGroup(defaultGroupName);
+    if (!defaultGroup) {
+      console.error(`Unknown default account group "${defaultGroupName}", using ${groups[0].id}`);
+    }
+    this.defaultGroup = defaultGroup || groups[0];
+
+    Object.keys(assignments).forEach(accountNumber => {
+      const group = this.findGroup(assignments[accountNumber]);
+      if (!group) {
+        console.error(`Ignoring account ${accountNumber}: unknown account group "${assignments[accountNumber]}" (one of ${this.getGroupIds().join(', ')})`);
+        return;
+      }
+      this.assignments[this.normalizeAccountNumber(accountNumber)] = group;
+    });
+  }
+
+  getGroups(): AccountGroup[] {
+    return [...this.groups];
+  }
+
+  getGroupIds(): string[] {
+    return this.groups.map(group => group.id);
+  }
+
+  /**
+   * Group with this id, label or alias (case-insensitive)
+   */
+  findGroup(name: string): AccountGroup | undefined {
+    const key = name.trim().toLowerCase();
+    return this.groups.find(group =>
+      group.id.toLowerCase() === key ||
+      group.label.toLowerCase() === key ||
+      group.aliases.some(alias => alias.toLowerCase() === key)
+    );
+  }
+
+  /**
+   * Whether a formula may name this account group ('all' included)
+   */
+  isKnownGroup(name: string): boolean {
+    return name === ALL_ACCOUNTS || this.findGroup(name) !== undefined;
+  }
+
+  /**
+   * Whether a group's accounts count towards bank totals
+   */
+  isCounted(group: AccountGroup): boolean {
+    return !group.excludeFromTotal;
+  }
+
+  /**
+   * Group of an account: by account number, then the Account Group column,
+   * then a group's name matches (whole words), then the default group
+   */
+  getGroup(bank: GroupedAccount): AccountGroup {
+    const assigned = this.assignments[this.normalizeAccountNumber(bank.accountNumber || '')];
+    if (assigned) {
+      return assigned;
+    }
+
+    const name = bank.group?.trim();
+    if (name) {
+      const group = this.findGroup(name);
+      if (group) {
+        return group;
+      }
+      if (!this.unknownNames.has(name)) {
+        this.unknownNames.add(name);
+        console.warn(`Unknown account group "${name}" for ${bank.bankDetails}, counting it as ${this.matchName(bank)?.label || this.defaultGroup.label}`);
+      }
+    }
+
+    const matched = this.matchName(bank);
+    if (matched && !this.isCounted(matched) && !this.reportedExcluded.has(bank.bankDetails)) {
+      this.reportedExcluded.add(bank.bankDetails);
+      console.warn(`${bank.bankDetails} was put in ${matched.label} by its name, so it is left out of bank totals; set its group in REACT_APP_ACCOUNT_GROUP_ACCOUNTS or the Account Group column`);
+    }
+    return matched || this.defaultGroup;
+  }
+
+  /**
+   * Accounts of a group, or for 'all' every account counted in totals
+   */
+  getAccounts(bankDetails: BankDetails[], name: string = ALL_ACCOUNTS): BankDetails[] {
+    if (name === ALL_ACCOUNTS) {
+      return bankDetails.filter(bank => this.isCounted(this.getGroup(bank)));
+    }
+    const group = this.findGroup(name);
+    return group ? bankDetails.filter(bank => this.getGroup(bank) === group) : [];
+  }
+
+  /**
+   * Total current balance of some accounts
+   */
+  getBalance(accounts: BankDetails[]): number {
+    return accounts.reduce((total, bank) => {
+      const balance = Number(bank.currentBalance);
+      return isNaN(balance) ? total : total + balance;
+    }, 0);
+  }
+
+  /**
+   * Accounts and balance of every group that has accounts, in configured order
+   */
+  summarize(bankDetails: BankDetails[]): AccountGroupBalance[] {
+    return this.groups
+      .map(group => {
+        const accounts = bankDetails.filter(bank => this.getGroup(bank) === group);
+        return { group, accounts, balance: this.getBalance(accounts) };
+      })
+      .filter(summary => summary.accounts.length > 0);
+  }
+
+  /**
+   * First group with a name match, as whole words, in the account's name,
+   * purpose or holder ("SBI" matches "SBI Savings" but not "Hasbi Trust")
+   */
+  private matchName(bank: GroupedAccount): AccountGroup | undefined {
+    const words = this.toWords([bank.bankDetails, bank.mainPurpose, bank.accountHolderName].join(' '));
+    return this.groups.find(group => (group.nameMatches || []).some(match => words.indexOf(this.toWords(match)) !== -1));
+  }
+
+  /**
+   * Lower-case words separated (and surrounded) by single spaces
+   */
+  private toWords(text: string): string {
+    return ` ${text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).join(' ')} `;
+  }
+
+  private normalizeAccountNumber(accountNumber: string): string {
+    return accountNumber.replace(/[\s-]/g, '');
+  }
+}
+
+// Export singleton instance
+export const accountGroupService = new AccountGroupService(ACCOUNT_GROUPS, accountGroupAssignments, defaultAccountGroup);
@@ -0,0 +1,88 @@
+import { BalanceSnapshot, BankDetails } from '../types';
+import { bankHistoryService } from './bankHistoryService';
+
+const bank = (accountNumber: string, bankDetails: string, currentBalance: number): BankDetails => ({
+  bankDetails,
+  ifscCode: '',
+  upiIds: [],
+  accountHolderName: 'Temple Trust',
+  mainPurpose: '',
+  currentBalance,
+  accountNumber,
+  bankName: bankDetails
+});
+
+const snapshot = (date: string, accountNumber: string, balance: number, bankDetails: string = ''): BalanceSnapshot => ({
+  date,
+  accountNumber,
+  bankDetails,
+  balance
+});
+
+describe('BankHistoryService.parseSnapshots', () => {
+  it('reads entries with a date, an account and a balance, and skips the rest', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(bankHistoryService.parseSnapshots({
+      snapshots: [
+        { date: '2025-09-01', account: 'Main Account', balance: '₹1,000' },
+        { date: '2025-09-01', accountNumber: '', balance: 5 },
+        { date: 'soon', accountNumber: '1234567890', balance: 5 }
+      ]
+    })).toEqual([{ date: '2025-09-01', time: undefined, accountNumber: '', bankDetails: 'Main Account', balance: 1000 }]);
+    expect(console.warn).toHaveBeenCalledWith('Skipped 2 balance history row(s) without a date, an account or a balance');
+    jest.restoreAllMocks();
+  });
+});
+
+describe('BankHistoryService.merge', () => {
+  it('keeps one snapshot per account per day, the later list winning, oldest first', () => {
+    const merged = bankHistoryService.merge(
+      [snapshot('2025-09-02', '1234 567 890', 200), snapshot('2025-09-01', '1234567890', 100)],
+      [snapshot('2025-09-02', '1234567890', 250)]
+    );
+
+    expect(merged.map(entry => [entry.date, entry.balance])).toEqual([['2025-09-01', 100], ['2025-09-02', 250]]);
+  });
+});
+
+describe('BankHistoryService balances on a date', () => {
+  const bankDetails = [bank('1111', 'HDFC Bank', 500), bank('2222', 'Axis Bank', 900)];
+  const snapshots = [
+    snapshot('2025-09-01', '1111', 100),
+    snapshot('2025-09-05', '2222', 700),
+    snapshot('2025-09-10', '1111', 300)
+  ];
+
+  it('takes each account\'s last balance on or before the date', () => {
+    expect(bankHistoryService.getBalancesAsOf(snapshots, '2025-09-09')).toEqual({ 1111: 100, 2222: 700 });
+  });
+
+  it('gives no earlier bank details while any account has no balance that early', () => {
+    expect(bankHistoryService.getBankDetailsAsOf(snapshots, bankDetails, '2025-09-03')).toBeNull();
+    expect(bankHistoryService.getBankDetailsAsOf(snapshots, bankDetails, '2025-09-10')?.map(entry => entry.currentBalance)).toEqual([300, 700]);
+  });
+
+  it('compares a past period from the day before it starts to its end', () => {
+    const { start, end } = bankHistoryService.getPeriodBankDetails(snapshots, bankDetails, { start: '2025-09-06', end: '2025-09-10' });
+
+    expect(start?.map(entry => entry.currentBalance)).toEqual([100, 700]);
+    expect(end?.map(entry => entry.currentBalance)).toEqual([300, 700]);
+  });
+});
+
+describe('BankHistoryService.getMonthEndClosings', () => {
+  it('closes each month with the last balances, newest first, with the change from the month before', () => {
+    const closings = bankHistoryService.getMonthEndClosings(
+      [snapshot('2025-07-15', '1111', 100), snapshot('2025-08-20', '1111', 400)],
+      [bank('1111', 'HDFC Bank', 400)],
+      2,
+      '2025-09-10'
+    );
+
+    expect(closings.map(closing => [closing.month, closing.date, closing.total, closing.change])).toEqual([
+      ['2025-09', '2025-09-10', 400, 0],
+      ['2025-08', '2025-08-31', 400, 300]
+    ]);
+  });
+});
@@ -0,0 +1,259 @@
+import { BalanceSnapshot, BalanceTrend, BankDetails, DateRange, LocalDate, MonthEndClosing } from '../types';
+import { accountGroupService } from './accountGroupService';
+import { dataQualityService } from './dataQualityService';
+import { dateService } from './dateService';
+import { entryParsingService } from './entryParsingService';
+import { bankDateOrder } from '../config/dateConfig';
+
+/**
+ * An account seen in the balance history
+ *
+ * @property {string} key - Account number, or the account name when there is none (see getAccountKey)
+ * @property {string} label - Account name
+ * @property {string} groupId - Account group, from the current bank details when the account is still there
+ */
+export interface HistoryAccount {
+  key: string;
+  label: string;
+  groupId: string;
+}
+
+export type BalanceTrendGrouping = 'account' | 'group';
+
+/**
+ * Bank balances over time: merges snapshots from the sheet's history tab and
+ * those recorded by the dashboard, and works out balance trends and
+ * month-end closing balances from them. An account's balance on a date is
+ * its last snapshot on or before that date.
+ */
+export class BankHistoryService {
+  /**
+   * Convert raw history entries (JSON or sheet rows) into snapshots. Accepts
+   * an array or an object with a "snapshots" array; entries without a date,
+   * an account or a balance are left out.
+   */
+  parseSnapshots(raw: unknown): BalanceSnapshot[] {
+    const entries = entryParsingService.getEntries(raw, 'snapshots', 'Bank balance history');
+    let skipped = 0;
+    const snapshots: BalanceSnapshot[] = [];
+    entries.forEach(entry => {
+      const date = dateService.parse(entry.date, bankDateOrder);
+      const balance = dataQualityService.parseAmount(entry.balance ?? entry.currentBalance);
+      const accountNumber = String(entry.accountNumber ?? '').trim();
+      const bankDetails = String(entry.bankDetails ?? entry.account ?? '').trim();
+
+      if (!date || balance === null || (!accountNumber && !bankDetails)) {
+        skipped++;
+        return;
+      }
+
+      const time = entry.time ? String(entry.time).trim() : '';
+      snapshots.push({ date, time: time || undefined, accountNumber, bankDetails, balance });
+    });
+
+    if (skipped > 0) {
+      console.warn(`Skipped ${skipped} balance history row(s) without a date, an account or a balance`);
+    }
+
+    return snapshots;
+  }
+
+  /**
+   * Snapshots of the current bank details, dated by each account's Last
+   * Updated Date (today when it has none)
+   */
+  fromBankDetails(bankDetails: BankDetails[], today: LocalDate = dateService.today()): BalanceSnapshot[] {
+    return bankDetails.map(bank => ({
+      date: bank.lastUpdatedDate || today,
+      time: bank.lastUpdatedTime || undefined,
+      accountNumber: bank.accountNumber,
+      bankDetails: bank.bankDetails,
+      balance: isNaN(Number(bank.currentBalance)) ? 0 : Number(bank.currentBalance)
+    }));
+  }
+
+  /**
+   * One snapshot per account per day, oldest first. For the same account and
+   * day, snapshots in later lists replace those in earlier ones.
+   */
+  merge(...lists: BalanceSnapshot[][]): BalanceSnapshot[] {
+    const byDay: Record<string, BalanceSnapshot> = {};
+    lists.forEach(list => list.forEach(snapshot => {
+      byDay[`${this.getAccountKey(snapshot)}|${snapshot.date}`] = snapshot;
+    }));
+
+    return Object.keys(byDay)
+      .map(key => byDay[key])
+      .sort((a, b) => a.date.localeCompare(b.date) || this.getAccountKey(a).localeCompare(this.getAccountKey(b)));
+  }
+
+  /**
+   * Account number without spaces and dashes, or the lower-cased account name
+   */
+  getAccountKey(account: Pick<BankDetails, 'accountNumber' | 'bankDetails'>): string {
+    const accountNumber = (account.accountNumber || '').replace(/[\s-]/g, '');
+    return accountNumber || `name:${(account.bankDetails || '').trim().toLowerCase()}`;
+  }
+
+  /**
+   * Current accounts in sheet order, then accounts only found in the history
+   */
+  getAccounts(snapshots: BalanceSnapshot[], bankDetails: BankDetails[]): HistoryAccount[] {
+    const accounts: HistoryAccount[] = [];
+    const seen: Set<string> = new Set();
+    const add = (account: Pick<BankDetails, 'accountNumber' | 'bankDetails' | 'group'>) => {
+      const key = this.getAccountKey(account);
+      if (seen.has(key)) return;
+      seen.add(key);
+      accounts.push({ key, label: account.bankDetails || account.accountNumber, groupId: accountGroupService.getGroup(account).id });
+    };
+
+    bankDetails.forEach(add);
+    // Newest first, so a renamed account is labelled with its latest name
+    snapshots.slice().reverse().forEach(add);
+    return accounts;
+  }
+
+  /**
+   * Each account's last known balance on or before a date, by account key
+   */
+  getBalancesAsOf(snapshots: BalanceSnapshot[], date: LocalDate): Record<string, number> {
+    const balances: Record<string, number> = {};
+    this.sortByDate(snapshots)
+      .filter(snapshot => snapshot.date <= date)
+      .forEach(snapshot => {
+        balances[this.getAccountKey(snapshot)] = snapshot.balance;
+      });
+    return balances;
+  }
+
+  /**
+   * The current accounts with their balances on a date, or null when any of
+   * them has no snapshot that early (a partial total would be misleading)
+   */
+  getBankDetailsAsOf(snapshots: BalanceSnapshot[], bankDetails: BankDetails[], date: LocalDate): BankDetails[] | null {
+    if (bankDetails.length === 0) {
+      return null;
+    }
+
+    const balances = this.getBalancesAsOf(snapshots, date);
+    const earlier = bankDetails.map(bank => {
+      const balance = balances[this.getAccountKey(bank)];
+      return balance === undefined ? null : { ...bank, currentBalance: balance };
+    });
+
+    return earlier.some(bank => bank === null) ? null : earlier as BankDetails[];
+  }
+
+  /**
+   * The accounts with their balances at the close of the day before a period
+   * and at its end (the current balances while the period runs to today)
+   */
+  getPeriodBankDetails(snapshots: BalanceSnapshot[], bankDetails: BankDetails[], range: DateRange): { start: BankDetails[] | null; end: BankDetails[] | null } {
+    return {
+      start: this.getBankDetailsAsOf(snapshots, bankDetails, dateService.addDays(range.start, -1)),
+      end: range.end >= dateService.today() ? bankDetails : this.getBankDetailsAsOf(snapshots, bankDetails, range.end)
+    };
+  }
+
+  /**
+   * Balances on every date with a snapshot, per account or per account group,
+   * optionally limited to a range (balances from before it are carried in)
+   */
+  getTrend(snapshots: BalanceSnapshot[], bankDetails: BankDetails[], grouping: BalanceTrendGrouping, range?: DateRange | null): BalanceTrend {
+    const accounts = this.getAccounts(snapshots, bankDetails);
+    const groups = accountGroupService.getGroups().filter(group => accounts.some(account => account.groupId === group.id));
+    const series = grouping === 'account'
+      ? accounts.map(account => ({ id: account.key, label: account.label, values: [] as (number | null)[] }))
+      : groups.map(group => ({ id: group.id, label: group.label, values: [] as (number | null)[] }));
+
+    const counted = this.getCounted(accounts);
+    const trend: BalanceTrend = { dates: [], series, total: [] };
+    const running: Record<string, number> = {};
+    const sorted = this.sortByDate(snapshots);
+
+    sorted.forEach((snapshot, index) => {
+      running[this.getAccountKey(snapshot)] = snapshot.balance;
+
+      // Plot each date once, after all of its snapshots
+      const next = sorted[index + 1];
+      if ((next && next.date === snapshot.date) || (range && !dateService.isWithinRange(snapshot.date, range.start, range.end))) {
+        return;
+      }
+
+      trend.dates.push(snapshot.date);
+      trend.total.push(this.sumKnown(counted, running));
+      series.forEach(line => {
+        if (grouping === 'account') {
+          line.values.push(running[line.id] ?? null);
+        } else {
+          const members = accounts.filter(account => account.groupId === line.id);
+          line.values.push(members.some(account => running[account.key] !== undefined) ? this.sumKnown(members, running) : null);
+        }
+      });
+    });
+
+    return trend;
+  }
+
+  /**
+   * Closing balances of each month from the first snapshot to this month,
+   * newest first, limited to the last `months` months
+   */
+  getMonthEndClosings(snapshots: BalanceSnapshot[], bankDetails: BankDetails[], months: number, today: LocalDate = dateService.today()): MonthEndClosing[] {
+    if (snapshots.length === 0) {
+      return [];
+    }
+
+    const accounts = this.getAccounts(snapshots, bankDetails);
+    const counted = this.getCounted(accounts);
+    const first = this.sortByDate(snapshots)[0].date;
+    const closings: MonthEndClosing[] = [];
+
+    for (let start = `${first.slice(0, 7)}-01`; start <= today; start = dateService.addMonths(start, 1)) {
+      const { year, month } = dateService.getParts(start);
+      const monthEnd = dateService.fromParts(year, month, dateService.daysInMonth(year, month))!;
+      const date = monthEnd < today ? monthEnd : today;
+      const balances = this.getBalancesAsOf(snapshots, date);
+
+      const closing: MonthEndClosing = { month: start.slice(0, 7), date, accounts: {}, groups: {}, total: 0, change: null };
+      accounts.forEach(account => {
+        const balance = balances[account.key];
+        closing.accounts[account.key] = balance ?? null;
+        if (balance !== undefined) {
+          closing.groups[account.groupId] = (closing.groups[account.groupId] || 0) + balance;
+          if (counted.indexOf(account) !== -1) {
+            closing.total += balance;
+          }
+        }
+      });
+
+      const previous = closings[closings.length - 1];
+      closing.change = previous ? closing.total - previous.total : null;
+      closings.push(closing);
+    }
+
+    return closings.slice(-months).reverse();
+  }
+
+  /**
+   * Accounts whose group counts towards bank totals
+   */
+  private getCounted(accounts: HistoryAccount[]): HistoryAccount[] {
+    return accounts.filter(account => {
+      const group = accountGroupService.findGroup(account.groupId);
+      return !group || accountGroupService.isCounted(group);
+    });
+  }
+
+  private sumKnown(accounts: HistoryAccount[], balances: Record<string, number>): number {
+    return accounts.reduce((total, account) => total + (balances[account.key] ?? 0), 0);
+  }
+
+  private sortByDate(snapshots: BalanceSnapshot[]): BalanceSnapshot[] {
+    return snapshots.slice().sort((a, b) => a.date.localeCompare(b.date) || (a.time || '').localeCompare(b.time || ''));
+  }
+}
+
+// Export singleton instance
+export const bankHistoryService = new BankHistoryService();
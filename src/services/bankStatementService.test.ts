@@ -0,0 +1,159 @@
+import { BankStatement, StatementTransaction } from '../types';
+import { bankStatementService } from './bankStatementService';
+import { ImportedTable } from './fileImportService';
+
+const table = (headers: string[], rows: unknown[][]): ImportedTable => ({
+  fileName: 'statement.csv',
+  headers,
+  rows,
+  firstRowNumber: 2,
+  dataRowCount: rows.length,
+  preamble: []
+});
+
+const statement = (id: string, start: string, end: string, transactions: StatementTransaction[]): BankStatement => ({
+  id,
+  accountKey: '1234567890',
+  fileName: `${id}.csv`,
+  importedAt: '2025-09-20T00:00:00.000Z',
+  period: { start, end },
+  transactions
+});
+
+describe('BankStatementService.parseTable', () => {
+  it('reads an SBI statement, oldest first, leaving out rows without a date', () => {
+    const sbi = table(['Txn Date', 'Value Date', 'Description', 'Ref No./Cheque No.', 'Debit', 'Credit', 'Balance'], [
+      ['05 Sep 2025', '05 Sep 2025', 'UPI/CR/1234', 'UPI1234', '', '1,200.00', '51,200.00'],
+      ['01 Sep 2025', '01 Sep 2025', 'NEFT to vendor', 'N555', '500.00', '', '50,000.00'],
+      ['', '', 'Total', '', '500.00', '1,200.00', '']
+    ]);
+
+    expect(bankStatementService.detectLayout(sbi.headers)?.id).toBe('sbi');
+    expect(bankStatementService.parseTable(sbi)).toEqual([
+      { date: '2025-09-01', description: 'NEFT to vendor', reference: 'N555', credit: 0, debit: 500, balance: 50000 },
+      { date: '2025-09-05', description: 'UPI/CR/1234', reference: 'UPI1234', credit: 1200, debit: 0, balance: 51200 }
+    ]);
+  });
+
+  it('reads the direction from a Cr/Dr column and balances with a Cr suffix (IDBI)', () => {
+    const idbi = table(['Txn Date', 'Description', 'Cheque No', 'CR/DR', 'Amount (INR)', 'Balance (INR)'], [
+      ['02/09/2025', 'UPI credit', '', 'Cr', '1,000.00', '21,000.00 Cr'],
+      ['03/09/2025', 'ATM', '', 'Dr', '200', '20,800.00 Cr']
+    ]);
+
+    expect(bankStatementService.detectLayout(idbi.headers)?.id).toBe('idbi');
+    expect(bankStatementService.parseTable(idbi).map(transaction => [transaction.date, transaction.credit, transaction.debit, transaction.balance]))
+      .toEqual([['2025-09-02', 1000, 0, 21000], ['2025-09-03', 0, 200, 20800]]);
+  });
+
+  it('reads other banks with the generic layout, taking the direction from the sign', () => {
+    const other = table(['Date', 'Narration', 'Amount'], [
+      ['04/09/2025', 'Deposit', '250'],
+      ['05/09/2025', 'Fee', '-15']
+    ]);
+
+    expect(bankStatementService.detectLayout(other.headers)?.id).toBe('generic');
+    expect(bankStatementService.parseTable(other).map(transaction => [transaction.credit, transaction.debit])).toEqual([[250, 0], [0, 15]]);
+  });
+
+  it('rejects headers without a date and amounts', () => {
+    expect(bankStatementService.detectLayout(['Name', 'Notes'])).toBeNull();
+    expect(() => bankStatementService.parseTable(table(['Name', 'Notes'], []))).toThrow(/needs a date column/);
+  });
+});
+
+describe('BankStatementService.parseOfx', () => {
+  it('reads transactions and the account number of an SGML statement', () => {
+    const ofx = [
+      'OFXHEADER:100',
+      '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKACCTFROM><ACCTID>00001234567890</BANKACCTFROM>',
+      '<BANKTRANLIST>',
+      '<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20250905120000[+5.5:IST]<TRNAMT>1500.00<FITID>F1<NAME>UPI settlement</STMTTRN>',
+      '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250903<TRNAMT>-200<CHECKNUM>000123<MEMO>Cheque</STMTTRN>',
+      '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>'
+    ].join('\n');
+
+    expect(bankStatementService.parseOfx(ofx)).toEqual({
+      accountNumber: '00001234567890',
+      transactions: [
+        { date: '2025-09-03', description: 'Cheque', reference: '000123', credit: 0, debit: 200 },
+        { date: '2025-09-05', description: 'UPI settlement', reference: 'F1', credit: 1500, debit: 0 }
+      ]
+    });
+  });
+
+  it('rejects files that are not OFX', () => {
+    expect(() => bankStatementService.parseOfx('Date,Amount\n')).toThrow('Not an OFX statement');
+  });
+});
+
+describe('BankStatementService.findAccount', () => {
+  const accountKeys = ['1234567890', '5555660077', '9999000077'];
+
+  it('finds the account by its number or, for a masked number, its last digits', () => {
+    expect(bankStatementService.findAccount('12345 67890', accountKeys)).toBe('1234567890');
+    expect(bankStatementService.findAccount('XXXXXX7890', accountKeys)).toBe('1234567890');
+  });
+
+  it('gives no account when the last digits are shared or too few', () => {
+    expect(bankStatementService.findAccount('XXXXXX0077', accountKeys)).toBeNull();
+    expect(bankStatementService.findAccount('XX90', ['90'])).toBeNull();
+    expect(bankStatementService.findAccount(null, accountKeys)).toBeNull();
+  });
+});
+
+describe('BankStatementService across overlapping statements', () => {
+  const first = statement('first', '2025-09-01', '2025-09-05', [
+    { date: '2025-09-03', description: 'UPI/R1/Ramesh', reference: 'R1', credit: 500, debit: 0 },
+    { date: '2025-09-03', description: 'UPI/R2/Suresh', reference: 'R2', credit: 500, debit: 0 },
+    { date: '2025-09-05', description: 'Interest', credit: 10, debit: 0 }
+  ]);
+  const second = statement('second', '2025-09-03', '2025-09-08', [
+    { date: '2025-09-03', description: 'UPI/R1/RAMESH K', reference: 'R1', credit: 500, debit: 0 },
+    { date: '2025-09-05', description: 'INTEREST', credit: 10, debit: 0 },
+    { date: '2025-09-07', description: 'Cash deposit', credit: 100, debit: 0 },
+    { date: '2025-09-07', description: 'Cash deposit', credit: 100, debit: 0 }
+  ]);
+
+  it('counts a transaction listed by both statements once, by reference or else by description', () => {
+    const transactions = bankStatementService.getTransactions([first, second], '1234567890');
+
+    expect(transactions.map(transaction => transaction.reference || transaction.description.toLowerCase()))
+      .toEqual(['R1', 'R2', 'interest', 'cash deposit', 'cash deposit']);
+  });
+
+  it('totals credits only for periods the statements cover, allowing a few quiet days at the ends', () => {
+    expect(bankStatementService.covers([first, second], '1234567890', { start: '2025-09-01', end: '2025-09-10' })).toBe(true);
+    expect(bankStatementService.getCredits([first, second], '1234567890', { start: '2025-09-01', end: '2025-09-10' })).toBe(1210);
+    expect(bankStatementService.getCredits([first, second], '1234567890', { start: '2025-09-01', end: '2025-09-12' })).toBeNull();
+    expect(bankStatementService.getCredits([first, second], '5555660077', { start: '2025-09-01', end: '2025-09-05' })).toBeNull();
+  });
+
+  it('does not cover a period with a gap between statements', () => {
+    const later = statement('later', '2025-09-15', '2025-09-20', [{ date: '2025-09-15', description: 'Deposit', credit: 50, debit: 0 }]);
+
+    expect(bankStatementService.covers([first, later], '1234567890', { start: '2025-09-01', end: '2025-09-20' })).toBe(false);
+  });
+});
+
+describe('BankStatementService.createStatement', () => {
+  it('runs the period from the first to the last transaction', () => {
+    const created = bankStatementService.createStatement('1234567890', {
+      fileName: 'sep.csv',
+      layout: 'SBI',
+      accountNumber: null,
+      transactions: [
+        { date: '2025-09-01', description: 'A', credit: 1, debit: 0 },
+        { date: '2025-09-09', description: 'B', credit: 2, debit: 0 }
+      ]
+    });
+
+    expect(created.period).toEqual({ start: '2025-09-01', end: '2025-09-09' });
+    expect(created.layout).toBe('SBI');
+  });
+
+  it('rejects a statement without transactions', () => {
+    expect(() => bankStatementService.createStatement('1234567890', { fileName: 'empty.csv', layout: 'SBI', accountNumber: null, transactions: [] }))
+      .toThrow('No transactions found in empty.csv');
+  });
+});
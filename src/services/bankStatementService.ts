@@ -0,0 +1,386 @@
+import { BankStatement, BankStatementField, BankStatementLayout, DateRange, LocalDate, StatementTransaction } from '../types';
+import { fileImportService, ImportedTable } from './fileImportService';
+import { dataQualityService } from './dataQualityService';
+import { dateService } from './dateService';
+import { BANK_STATEMENT_LAYOUTS, GENERIC_STATEMENT_LAYOUT } from '../config/bankStatementConfig';
+
+/**
+ * A statement file read into transactions, before it is assigned to an account
+ */
+export interface ParsedStatement {
+  fileName: string;
+  // Label of the layout the file was read with
+  layout: string;
+  // Account number found in the file, possibly masked (XXXXXXX1234)
+  accountNumber: string | null;
+  transactions: StatementTransaction[];
+}
+
+type StatementColumns = Record<BankStatementField, number>;
+
+const OFX_EXTENSIONS = ['.ofx', '.qfx'];
+
+// Resolved in this order so a column claimed by one field is not read again
+// (a "Cr/Dr" column is the type, not the credit; "Balance Amount" is the balance)
+const FIELD_ORDER: BankStatementField[] = ['date', 'type', 'credit', 'debit', 'balance', 'amount', 'reference', 'description'];
+
+// Days without transactions at either end of a period a statement may still be taken to cover (weekends, bank holidays)
+const COVERAGE_GRACE_DAYS = 3;
+
+/**
+ * Reads bank statements downloaded as CSV, Excel or OFX into transactions,
+ * and answers which periods the uploaded statements of an account cover and
+ * what was credited in them. CSV and Excel layouts are listed in
+ * bankStatementConfig.ts.
+ */
+export class BankStatementService {
+  /**
+   * Layouts a statement can be read with: every bank's, then the generic one
+   */
+  getLayouts(): BankStatementLayout[] {
+    return BANK_STATEMENT_LAYOUTS.concat(GENERIC_STATEMENT_LAYOUT);
+  }
+
+  /**
+   * Whether a file looks like a CSV, Excel or OFX statement
+   */
+  isSupported(file: File): boolean {
+    return this.isOfx(file) || fileImportService.isSupported(file);
+  }
+
+  /**
+   * Read a statement file. OFX files carry their own structure; CSV and
+   * Excel files are read with the given layout, or the first layout whose
+   * headers they have (the generic one otherwise).
+   */
+  async readStatement(file: File, layoutId?: string): Promise<ParsedStatement> {
+    if (this.isOfx(file)) {
+      return { fileName: file.name, layout: 'OFX', ...this.parseOfx(await file.text()) };
+    }
+    // Old .xls workbooks get their own explanation from the file reader
+    if (!fileImportService.isSupported(file) && !fileImportService.isOldExcel(file)) {
+      throw new Error(`Unsupported file type: ${file.name}. Use a .csv, .xlsx, .ofx or .qfx file`);
+    }
+
+    const chosen = layoutId ? this.getLayouts().find(layout => layout.id === layoutId) : undefined;
+    const table = await fileImportService.readFile(file, cells =>
+      chosen ? this.resolveColumns(cells, chosen) !== null : this.detectLayout(cells) !== null
+    );
+    const layout = chosen || this.detectLayout(table.headers) || GENERIC_STATEMENT_LAYOUT;
+
+    return {
+      fileName: file.name,
+      layout: layout.label,
+      accountNumber: this.findAccountNumber(table.preamble),
+      transactions: this.parseTable(table, layout)
+    };
+  }
+
+  /**
+   * First layout whose identifying headers are all present and whose
+   * columns can be read, else the generic layout when it can read them,
+   * else null (not a statement header)
+   */
+  detectLayout(headers: string[]): BankStatementLayout | null {
+    const names = headers.map(header => this.normalizeHeader(header));
+    const layout = BANK_STATEMENT_LAYOUTS.find(candidate =>
+      candidate.detect.every(name => names.some(header => this.headerMatches(header, name))) &&
+      this.resolveColumns(headers, candidate) !== null
+    );
+    if (layout) {
+      return layout;
+    }
+    return this.resolveColumns(headers, GENERIC_STATEMENT_LAYOUT) ? GENERIC_STATEMENT_LAYOUT : null;
+  }
+
+  /**
+   * Transactions of a statement table, oldest first. Rows without a
+   * readable date or amount, such as opening balance and total lines, are
+   * left out.
+   */
+  parseTable(table: ImportedTable, layout: BankStatementLayout = this.detectLayout(table.headers) || GENERIC_STATEMENT_LAYOUT): StatementTransaction[] {
+    const columns = this.resolveColumns(table.headers, layout);
+    if (!columns) {
+      throw new Error(`${table.fileName} needs a date column and credit and debit (or amount) columns`);
+    }
+
+    const transactions: StatementTransaction[] = [];
+    table.rows.forEach(row => {
+      const cell = (field: BankStatementField) => (columns[field] === -1 ? '' : row[columns[field]]);
+      const date = dateService.parse(cell('date'), layout.dateOrder);
+      if (!date) return;
+
+      let credit: number | null;
+      let debit: number | null;
+      if (columns.credit !== -1 && columns.debit !== -1) {
+        credit = this.parseAmount(cell('credit'));
+        debit = this.parseAmount(cell('debit'));
+      } else {
+        const amount = this.parseAmount(cell('amount'));
+        const type = String(cell('type') ?? '').trim().toLowerCase();
+        // A Cr/Dr column decides the direction; otherwise the sign does
+        const signed = amount === null ? null : type.startsWith('dr') ? -Math.abs(amount) : type.startsWith('cr') ? Math.abs(amount) : amount;
+        credit = signed === null ? null : Math.max(signed, 0);
+        debit = signed === null ? null : Math.max(-signed, 0);
+      }
+      if (credit === null || debit === null || (credit === 0 && debit === 0)) return;
+
+      const reference = String(cell('reference') ?? '').trim();
+      const balanceText = String(cell('balance') ?? '').trim();
+      const balance = balanceText ? this.parseAmount(balanceText) : null;
+      transactions.push({
+        date,
+        description: String(cell('description') ?? '').trim(),
+        reference: reference || undefined,
+        credit: Math.abs(credit),
+        debit: Math.abs(debit),
+        balance: balance === null ? undefined : balance
+      });
+    });
+
+    return this.sortTransactions(transactions);
+  }
+
+  /**
+   * Transactions of an OFX (or QFX) statement, in SGML or XML form, and the
+   * account number it names
+   */
+  parseOfx(text: string): { accountNumber: string | null; transactions: StatementTransaction[] } {
+    const value = (block: string, tag: string) => {
+      const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+      return match ? match[1].trim() : '';
+    };
+
+    const blocks = text.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+    if (blocks.length === 0 && !/<OFX>/i.test(text)) {
+      throw new Error('Not an OFX statement');
+    }
+
+    const transactions: StatementTransaction[] = [];
+    blocks.forEach(block => {
+      // DTPOSTED is YYYYMMDD, optionally followed by a time and zone
+      const posted = value(block, 'DTPOSTED').match(/^(\d{4})(\d{2})(\d{2})/);
+      const date = posted ? dateService.fromParts(Number(posted[1]), Number(posted[2]), Number(posted[3])) : null;
+      const amount = dataQualityService.parseAmount(value(block, 'TRNAMT'));
+      if (!date || amount === null || amount === 0) return;
+
+      const description = [value(block, 'NAME'), value(block, 'MEMO')].filter(Boolean).join(' ');
+      const reference = value(block, 'CHECKNUM') || value(block, 'REFNUM') || value(block, 'FITID');
+      transactions.push({
+        date,
+        description,
+        reference: reference || undefined,
+        credit: Math.max(amount, 0),
+        debit: Math.max(-amount, 0)
+      });
+    });
+
+    return {
+      accountNumber: value(text, 'ACCTID') || null,
+      transactions: this.sortTransactions(transactions)
+    };
+  }
+
+  /**
+   * The account a statement's account number belongs to: the account with
+   * that number, or for a masked number (XXXXXXX1234) the only account
+   * ending in the same digits
+   */
+  findAccount(accountNumber: string | null, accountKeys: string[]): string | null {
+    const digits = (accountNumber || '').replace(/[^0-9]/g, '');
+    if (digits.length < 4) {
+      return null;
+    }
+    if (accountKeys.indexOf(digits) !== -1) {
+      return digits;
+    }
+    const suffix = digits.slice(-4);
+    const candidates = accountKeys.filter(key => key.endsWith(suffix));
+    return candidates.length === 1 ? candidates[0] : null;
+  }
+
+  /**
+   * A statement for an account; the period runs from the first to the last transaction
+   */
+  createStatement(accountKey: string, parsed: ParsedStatement): BankStatement {
+    const { transactions } = parsed;
+    if (transactions.length === 0) {
+      throw new Error(`No transactions found in ${parsed.fileName}`);
+    }
+
+    const importedAt = new Date().toISOString();
+    return {
+      id: `${accountKey}-${parsed.fileName}-${importedAt}`,
+      accountKey,
+      fileName: parsed.fileName,
+      importedAt,
+      period: { start: transactions[0].date, end: transactions[transactions.length - 1].date },
+      transactions,
+      layout: parsed.layout
+    };
+  }
+
+  /**
+   * Transactions of an account across its statements, oldest first.
+   * Overlapping statements list the same transactions, so a transaction
+   * counts as often as the statement listing it most often has it.
+   */
+  getTransactions(statements: BankStatement[], accountKey: string): StatementTransaction[] {
+    const counts: Record<string, { transaction: StatementTransaction; count: number }> = {};
+    statements
+      .filter(statement => statement.accountKey === accountKey)
+      .forEach(statement => {
+        const seen: Record<string, number> = {};
+        statement.transactions.forEach(transaction => {
+          const key = this.getTransactionKey(transaction);
+          seen[key] = (seen[key] || 0) + 1;
+          if (!counts[key] || counts[key].count < seen[key]) {
+            counts[key] = { transaction, count: seen[key] };
+          }
+        });
+      });
+
+    const transactions: StatementTransaction[] = [];
+    Object.keys(counts).forEach(key => {
+      for (let i = 0; i < counts[key].count; i++) {
+        transactions.push(counts[key].transaction);
+      }
+    });
+    return transactions.sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * Whether an account's statements together cover a period, allowing a few
+   * days without transactions at either end
+   */
+  covers(statements: BankStatement[], accountKey: string, range: DateRange): boolean {
+    const periods = statements
+      .filter(statement => statement.accountKey === accountKey)
+      .map(statement => statement.period)
+      .sort((a, b) => a.start.localeCompare(b.start));
+
+    let coveredTo: LocalDate = dateService.addDays(range.start, -1);
+    for (let i = 0; i < periods.length && coveredTo < range.end; i++) {
+      if (dateService.addDays(periods[i].start, -COVERAGE_GRACE_DAYS) > dateService.addDays(coveredTo, 1)) {
+        break;
+      }
+      const end = dateService.addDays(periods[i].end, COVERAGE_GRACE_DAYS);
+      if (end > coveredTo) {
+        coveredTo = end;
+      }
+    }
+    return coveredTo >= range.end;
+  }
+
+  /**
+   * Total credited to an account in a period, or null when its statements
+   * do not cover the period
+   */
+  getCredits(statements: BankStatement[], accountKey: string, range: DateRange): number | null {
+    if (!this.covers(statements, accountKey, range)) {
+      return null;
+    }
+
+    return this.getTransactions(statements, accountKey)
+      .filter(transaction => dateService.isWithinRange(transaction.date, range.start, range.end))
+      .reduce((total, transaction) => total + transaction.credit, 0);
+  }
+
+  /**
+   * Column of each field under a layout, or null when the headers lack a
+   * date or both a credit/debit pair and an amount
+   */
+  private resolveColumns(headers: string[], layout: BankStatementLayout): StatementColumns | null {
+    const names = headers.map(header => this.normalizeHeader(header));
+    const columns = {} as StatementColumns;
+    const taken: number[] = [];
+
+    FIELD_ORDER.forEach(field => {
+      columns[field] = -1;
+      (layout.columns[field] || []).some(name => {
+        const index = names.findIndex((header, column) => taken.indexOf(column) === -1 && this.headerMatches(header, name));
+        if (index === -1) return false;
+        columns[field] = index;
+        taken.push(index);
+        return true;
+      });
+    });
+
+    const hasAmounts = (columns.credit !== -1 && columns.debit !== -1) || columns.amount !== -1;
+    return columns.date !== -1 && hasAmounts ? columns : null;
+  }
+
+  /**
+   * Lower case, punctuation removed: "Ref No./Cheque No." → "ref no cheque no"
+   */
+  private normalizeHeader(header: string): string {
+    return String(header ?? '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  }
+
+  /**
+   * Whether a header contains a name as whole words ("cr" matches "deposit cr", not "description")
+   */
+  private headerMatches(header: string, name: string): boolean {
+    return header !== '' && ` ${header} `.includes(` ${name} `);
+  }
+
+  /**
+   * Amounts may carry a Cr/Dr suffix, as balances often do ("12,500.00 Cr")
+   */
+  private parseAmount(value: unknown): number | null {
+    if (typeof value !== 'string') {
+      return dataQualityService.parseAmount(value);
+    }
+    const match = value.trim().match(/^(.*?)\s*\(?(cr|dr)\)?\.?$/i);
+    if (!match) {
+      return dataQualityService.parseAmount(value);
+    }
+    const amount = dataQualityService.parseAmount(match[1]);
+    return amount === null ? null : match[2].toLowerCase() === 'dr' ? -Math.abs(amount) : Math.abs(amount);
+  }
+
+  /**
+   * Account number from a statement's account details, e.g. "Account Number : 00000012345678"
+   */
+  private findAccountNumber(preamble: unknown[][]): string | null {
+    for (let r = 0; r < preamble.length; r++) {
+      const cells = preamble[r].map(cell => String(cell ?? '').trim());
+      const index = cells.findIndex(cell => /^(a\/c|account)\s*(no|number)/i.test(cell));
+      if (index === -1) continue;
+
+      // The number follows a colon in the same cell or sits in a later cell
+      const candidates = [cells[index].split(':').slice(1).join(':')].concat(cells.slice(index + 1));
+      const found = candidates.map(cell => cell.replace(/[\s_:-]/g, '')).find(cell => /^[0-9Xx*]{6,}$/.test(cell));
+      if (found) {
+        return found;
+      }
+    }
+    return null;
+  }
+
+  private isOfx(file: File): boolean {
+    const name = file.name.toLowerCase();
+    return OFX_EXTENSIONS.some(extension => name.endsWith(extension));
+  }
+
+  // Statements list newest or oldest first depending on the bank
+  private sortTransactions(transactions: StatementTransaction[]): StatementTransaction[] {
+    return transactions
+      .map((transaction, index) => ({ transaction, index }))
+      .sort((a, b) => a.transaction.date.localeCompare(b.transaction.date) || a.index - b.index)
+      .map(entry => entry.transaction);
+  }
+
+  /**
+   * Identity of a transaction across overlapping statements: the reference
+   * where the bank gives one, since banks shorten or reword descriptions
+   * between downloads, and the description otherwise
+   */
+  private getTransactionKey(transaction: StatementTransaction): string {
+    const identity = transaction.reference ? `ref:${transaction.reference}` : `desc:${transaction.description.toLowerCase()}`;
+    return [transaction.date, transaction.credit, transaction.debit, identity].join('|');
+  }
+}
+
+// Export singleton instance
+export const bankStatementService = new BankStatementService();
@@ -0,0 +1,40 @@
+import { CircuitBreaker } from './circuitBreaker';
+
+describe('CircuitBreaker', () => {
+  const start = Date.parse('2025-09-01T10:00:00Z');
+
+  it('opens after the threshold of failures in a row, for the pause', () => {
+    const breaker = new CircuitBreaker(3, 60000);
+
+    expect(breaker.recordFailure(start)).toBe(false);
+    expect(breaker.recordFailure(start)).toBe(false);
+    expect(breaker.isOpen(start)).toBe(false);
+    expect(breaker.recordFailure(start)).toBe(true);
+
+    expect(breaker.isOpen(start + 59999)).toBe(true);
+    expect(breaker.resumeAt).toEqual(new Date(start + 60000));
+    expect(breaker.isOpen(start + 60000)).toBe(false);
+  });
+
+  it('starts the count again after a success', () => {
+    const breaker = new CircuitBreaker(2, 60000);
+
+    breaker.recordFailure(start);
+    breaker.recordSuccess();
+
+    expect(breaker.recordFailure(start)).toBe(false);
+    expect(breaker.failureCount).toBe(1);
+  });
+
+  it('opens for another pause when the trial call fails, and closes when it succeeds', () => {
+    const breaker = new CircuitBreaker(1, 60000);
+    breaker.recordFailure(start);
+
+    expect(breaker.recordFailure(start + 60000)).toBe(true);
+    expect(breaker.isOpen(start + 60001)).toBe(true);
+
+    breaker.recordSuccess();
+    expect(breaker.isOpen(start + 60001)).toBe(false);
+    expect(breaker.resumeAt).toBeNull();
+  });
+});
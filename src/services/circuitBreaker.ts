@@ -0,0 +1,55 @@
+/**
+ * Stops calling a failing data source for a while. After failureThreshold
+ * failures in a row the breaker opens for pauseMs; once that has passed one
+ * trial call is let through, and the breaker closes again if it succeeds or
+ * opens for another pause if it fails.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+
+  constructor(
+    private failureThreshold: number,
+    private pauseMs: number
+  ) {}
+
+  /**
+   * Whether calls should be skipped right now
+   */
+  isOpen(now: number = Date.now()): boolean {
+    return this.openedAt !== null && now < this.openedAt + this.pauseMs;
+  }
+
+  /**
+   * When the next trial call is allowed, while open
+   */
+  get resumeAt(): Date | null {
+    return this.openedAt === null ? null : new Date(this.openedAt + this.pauseMs);
+  }
+
+  get failureCount(): number {
+    return this.failures;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+  }
+
+  /**
+   * Count a failure; returns true when it opened the breaker
+   */
+  recordFailure(now: number = Date.now()): boolean {
+    this.failures++;
+    // A failed trial call (or reaching the threshold) starts a new pause
+    if (this.openedAt !== null || this.failures >= this.failureThreshold) {
+      this.openedAt = now;
+      return true;
+    }
+    return false;
+  }
+
+  reset(): void {
+    this.recordSuccess();
+  }
+}
@@ -0,0 +1,76 @@
+import { dataProcessingService } from './dataProcessingService';
+import { dateService } from './dateService';
+
+describe('DataProcessingService.getAlignedComparisonDate', () => {
+  it('pairs the same calendar day a year or a month earlier', () => {
+    expect(dataProcessingService.getAlignedComparisonDate('2025-08-16', 'previousYear', 'dayOfPeriod')).toBe('2024-08-16');
+    expect(dataProcessingService.getAlignedComparisonDate('2025-03-31', 'previousMonth', 'dayOfPeriod')).toBe('2025-02-28');
+  });
+
+  it('pairs the same weekday whole weeks earlier', () => {
+    const date = '2025-08-16';
+    const lastYear = dataProcessingService.getAlignedComparisonDate(date, 'previousYear', 'weekday');
+    const lastMonth = dataProcessingService.getAlignedComparisonDate(date, 'previousMonth', 'weekday');
+
+    expect(lastYear).toBe('2024-08-17');
+    expect(lastMonth).toBe('2025-07-19');
+    expect(dateService.toDate(lastYear).getDay()).toBe(dateService.toDate(date).getDay());
+    expect(dateService.toDate(lastMonth).getDay()).toBe(dateService.toDate(date).getDay());
+  });
+
+  it('leaves the date alone without a comparison', () => {
+    expect(dataProcessingService.getAlignedComparisonDate('2025-08-16', 'none', 'weekday')).toBe('2025-08-16');
+  });
+});
+
+describe('DataProcessingService.formatChange', () => {
+  it('shows the change as a percentage, or as an amount when the earlier value is zero', () => {
+    expect(dataProcessingService.formatChange(dataProcessingService.compareMetric(1250, 1000))).toBe('▲ 25.0%');
+    expect(dataProcessingService.formatChange(dataProcessingService.compareMetric(750, 1000))).toBe('▼ 25.0%');
+    expect(dataProcessingService.formatChange(dataProcessingService.compareMetric(500, 0)))
+      .toBe(`▲ ${dataProcessingService.formatCurrency(500)}`);
+    expect(dataProcessingService.formatChange(dataProcessingService.compareMetric(1000, 1000))).toBe('no change');
+  });
+});
+
+describe('DataProcessingService.calculateEventAnalytics', () => {
+  it('totals income per event and compares daily averages on and off event days', () => {
+    const analytics = dataProcessingService.calculateEventAnalytics([
+      { date: '2025-08-15', department: 'Gift Shop', cash: 1000, online: 0 },
+      { date: '2025-08-16', department: 'Gift Shop', cash: 4000, online: 2000 },
+      { date: '2025-08-16', department: 'Kitchen', cash: 2000, online: 0 },
+      { date: '2025-08-20', department: 'Gift Shop', cash: 3000, online: 0 }
+    ], [
+      { name: 'Janmashtami', start: '2025-08-16', end: '2025-08-16', category: 'Festival' },
+      { name: 'Ratha Yatra', start: '2025-06-27', end: '2025-06-27', category: 'Festival' }
+    ]);
+
+    expect(analytics.events.map(income => [income.event.name, income.total, income.daysWithData])).toEqual([['Janmashtami', 8000, 1]]);
+    expect(analytics.festivalAvgDailyRevenue).toBe(8000);
+    expect(analytics.nonFestivalAvgDailyRevenue).toBe(2000);
+    expect([analytics.festivalDays, analytics.nonFestivalDays]).toEqual([1, 2]);
+  });
+});
+
+describe('DataProcessingService.calculateChannelTotals', () => {
+  it('totals each payment channel and counts online income no channel covers as unsplit', () => {
+    const { channelTotals, unsplitOnline, hasChannelData } = dataProcessingService.calculateChannelTotals([
+      { date: '2025-09-01', department: 'Gift Shop', cash: 0, online: 1000, channels: { upi: 600, card: 300 } },
+      { date: '2025-09-01', department: 'Kitchen', cash: 0, online: 500, channels: { upi: 500, cheque: 200 } },
+      { date: '2025-09-02', department: 'Guest House', cash: 100, online: 250 }
+    ]);
+
+    expect(channelTotals).toEqual({ upi: 1100, card: 300, neftRtgs: 0, cheque: 200, gateway: 0 });
+    expect(unsplitOnline).toBe(350);
+    expect(hasChannelData).toBe(true);
+  });
+
+  it('reports no channel data for old two-column sheets', () => {
+    const { unsplitOnline, hasChannelData } = dataProcessingService.calculateChannelTotals([
+      { date: '2025-09-01', department: 'Kitchen', cash: 50, online: 75 }
+    ]);
+
+    expect(unsplitOnline).toBe(75);
+    expect(hasChannelData).toBe(false);
+  });
+});
@@ -4,8 +4,23 @@ import {
   AnalyticsData, 
   DepartmentTotals, 
   DateFilter,
-  ALL_DEPARTMENTS 
+  DateRange,
+  EventAnalytics,
+  EventIncome,
+  FinancialYearRevenue,
+  LocalDate,
+  MetricComparison,
+  PaymentChannel,
+  PaymentChannelBreakdown,
+  PeriodComparison,
+  TempleEvent,
+  TrendAlignment,
+  TrendComparison,
+  UnmappedDepartment
 } from '../types';
+import { departmentRegistryService, DepartmentRegistryService } from './departmentRegistryService';
+import { dateService } from './dateService';
+import { PAYMENT_CHANNELS } from '../config/paymentChannelConfig';
 
 export class DataProcessingService {
   /**
@@ -21,6 +36,7 @@ export class DataProcessingService {
     
     const cashPercentage = totalRevenue > 0 ? Number(((totalCash / totalRevenue) * 100).toFixed(1)) : 0;
     const onlinePercentage = totalRevenue > 0 ? Number(((totalOnline / totalRevenue) * 100).toFixed(1)) : 0;
+    const { channelTotals, unsplitOnline, hasChannelData } = this.calculateChannelTotals(data);
     
     return {
       totalRevenue,
@@ -29,10 +45,53 @@ export class DataProcessingService {
       cashPercentage,
       onlinePercentage,
       activeDepartments,
-      totalDepartments: ALL_DEPARTMENTS.length
+      totalDepartments: departmentRegistryService.getDepartments().length,
+      channelTotals,
+      unsplitOnline,
+      hasChannelData
     };
   }
 
+  /**
+   * Online income per payment channel. Online income that no channel covers
+   * (records without a breakdown, or channels adding up to less than the
+   * online total) is counted as unsplit.
+   */
+  calculateChannelTotals(data: IncomeRecord[]): {
+    channelTotals: Record<PaymentChannel, number>;
+    unsplitOnline: number;
+    hasChannelData: boolean;
+  } {
+    const channelTotals = {} as Record<PaymentChannel, number>;
+    PAYMENT_CHANNELS.forEach(channel => {
+      channelTotals[channel] = 0;
+    });
+    let unsplitOnline = 0;
+    let hasChannelData = false;
+    
+    data.forEach(record => {
+      if (!record.channels) {
+        unsplitOnline += record.online;
+        return;
+      }
+      
+      hasChannelData = true;
+      PAYMENT_CHANNELS.forEach(channel => {
+        channelTotals[channel] += record.channels![channel] || 0;
+      });
+      unsplitOnline += Math.max(0, record.online - this.sumChannels(record.channels));
+    });
+    
+    return { channelTotals, unsplitOnline, hasChannelData };
+  }
+
+  /**
+   * Total of a channel breakdown
+   */
+  sumChannels(channels: PaymentChannelBreakdown): number {
+    return PAYMENT_CHANNELS.reduce((sum, channel) => sum + (channels[channel] || 0), 0);
+  }
+
   /**
    * Calculate analytics insights from income data
    */
@@ -44,7 +103,8 @@ export class DataProcessingService {
         cashOnlineRatio: '--',
         avgDailyRevenue: 0,
         avgMonthlyRevenue: 0,
-        avgYearlyRevenue: 0
+        avgYearlyRevenue: 0,
+        financialYears: []
       };
     }
     
@@ -88,11 +148,10 @@ export class DataProcessingService {
     const avgDaily = uniqueDates.length > 0 ? 
       (totalCash + totalOnline) / uniqueDates.length : 0;
     
-    // Calculate average monthly revenue
+    // Calculate average monthly revenue (dates are YYYY-MM-DD)
     const monthlyRevenue: Record<string, number> = {};
     data.forEach(record => {
-      const [month, , year] = record.date.split('/').map(num => parseInt(num, 10));
-      const monthKey = `${year}-${month.toString().padStart(2, '0')}`;
+      const monthKey = record.date.slice(0, 7);
       if (!monthlyRevenue[monthKey]) {
         monthlyRevenue[monthKey] = 0;
       }
@@ -102,18 +161,25 @@ export class DataProcessingService {
     const uniqueMonths = Object.keys(monthlyRevenue).length;
     const avgMonthly = uniqueMonths > 0 ? (totalCash + totalOnline) / uniqueMonths : 0;
 
-    // Calculate average yearly revenue
-    const yearlyRevenue: Record<string, number> = {};
+    // Calculate average yearly revenue per financial year (April-March)
+    const yearlyRevenue: Record<number, number> = {};
     data.forEach(record => {
-      const [, , year] = record.date.split('/').map(num => parseInt(num, 10));
-      if (!yearlyRevenue[year.toString()]) {
-        yearlyRevenue[year.toString()] = 0;
+      const financialYear = dateService.getFinancialYear(record.date);
+      if (!yearlyRevenue[financialYear]) {
+        yearlyRevenue[financialYear] = 0;
       }
-      yearlyRevenue[year.toString()] += record.cash + record.online;
+      yearlyRevenue[financialYear] += record.cash + record.online;
     });
     
-    const uniqueYears = Object.keys(yearlyRevenue).length;
-    const avgYearly = uniqueYears > 0 ? (totalCash + totalOnline) / uniqueYears : 0;
+    const financialYears: FinancialYearRevenue[] = Object.keys(yearlyRevenue)
+      .map(Number)
+      .sort((a, b) => a - b)
+      .map(financialYear => ({
+        financialYear,
+        label: dateService.formatFinancialYear(financialYear),
+        total: yearlyRevenue[financialYear]
+      }));
+    const avgYearly = financialYears.length > 0 ? (totalCash + totalOnline) / financialYears.length : 0;
 
     return {
       bestDay: bestDayFormatted,
@@ -121,7 +187,48 @@ export class DataProcessingService {
       cashOnlineRatio: ratioFormatted,
       avgDailyRevenue: avgDaily,
       avgMonthlyRevenue: avgMonthly,
-      avgYearlyRevenue: avgYearly
+      avgYearlyRevenue: avgYearly,
+      financialYears
+    };
+  }
+
+  /**
+   * Calculate income per event and average daily income on event days vs. other days.
+   * Averages are per day with income records, like avgDailyRevenue.
+   */
+  calculateEventAnalytics(data: IncomeRecord[], events: TempleEvent[]): EventAnalytics {
+    const dailyRevenue: Record<string, number> = {};
+    data.forEach(record => {
+      dailyRevenue[record.date] = (dailyRevenue[record.date] || 0) + record.cash + record.online;
+    });
+    const dates = Object.keys(dailyRevenue);
+
+    const eventIncome: EventIncome[] = events
+      .map(event => {
+        const eventDates = dates.filter(date => dateService.isWithinRange(date, event.start, event.end));
+        const total = eventDates.reduce((sum, date) => sum + dailyRevenue[date], 0);
+        return {
+          event,
+          total,
+          daysWithData: eventDates.length,
+          avgDailyRevenue: eventDates.length > 0 ? total / eventDates.length : 0
+        };
+      })
+      .filter(income => income.daysWithData > 0);
+
+    const isEventDay = (date: LocalDate) => events.some(event => dateService.isWithinRange(date, event.start, event.end));
+    const festivalDates = dates.filter(isEventDay);
+    const otherDates = dates.filter(date => !isEventDay(date));
+    const average = (list: string[]) => list.length > 0
+      ? list.reduce((sum, date) => sum + dailyRevenue[date], 0) / list.length
+      : 0;
+
+    return {
+      events: eventIncome,
+      festivalAvgDailyRevenue: average(festivalDates),
+      nonFestivalAvgDailyRevenue: average(otherDates),
+      festivalDays: festivalDates.length,
+      nonFestivalDays: otherDates.length
     };
   }
 
@@ -147,40 +254,20 @@ export class DataProcessingService {
 
   /**
    * Calculate totals for main departments by aggregating their sub-sections
+   * (at every nesting level) as defined in the department registry
    */
   calculateMainDepartmentTotals(data: IncomeRecord[], mainDepartmentName: string): DepartmentTotals {
-    let totalCash = 0;
-    let totalOnline = 0;
-    let hasData = false;
-
-    // Define sub-sections for each main department
-    const subSections: Record<string, string[]> = {
-      'Gaushala': ['Gaushala', 'Gaushala Seva Office', 'Gaushala Hundi'],
-      'Kitchen': ['Kitchen', 'Journey Prasad', 'Kitchen Seva Office', 'Kitchen Hundi', 'Prasadam Coupan', 'Vaishnav Bhoj'],
-      'Hundi': ['Hundi', 'Temple Hundi', 'Yamuna Hundi'],
-      'Other Donations': ['Other Donations', 'General', 'PWS']
-    };
-
-    // Get sub-sections for this main department, or just the department itself if no sub-sections
-    const departmentsToSum = subSections[mainDepartmentName] || [mainDepartmentName];
-
-    // Sum up all sub-sections
-    departmentsToSum.forEach(deptName => {
-      const deptData = data.filter(record => record.department === deptName);
-      const deptCash = deptData.reduce((sum, record) => sum + record.cash, 0);
-      const deptOnline = deptData.reduce((sum, record) => sum + record.online, 0);
-      
-      totalCash += deptCash;
-      totalOnline += deptOnline;
-      
-      // If any sub-section has data, mark as having data
-      if (deptData.length > 0 && (deptCash > 0 || deptOnline > 0)) {
-        hasData = true;
-      }
-    });
+    // The department itself plus all of its sub-sections
+    const departmentsToSum = new Set(departmentRegistryService.getDescendantNames(mainDepartmentName));
 
+    const deptData = data.filter(record => departmentsToSum.has(record.department));
+    const totalCash = deptData.reduce((sum, record) => sum + record.cash, 0);
+    const totalOnline = deptData.reduce((sum, record) => sum + record.online, 0);
     const totalIncome = totalCash + totalOnline;
     
+    // If any sub-section has data, mark as having data
+    const hasData = deptData.some(record => record.cash > 0 || record.online > 0);
+    
     return {
       cash: totalCash,
       online: totalOnline,
@@ -189,24 +276,42 @@ export class DataProcessingService {
     };
   }
 
+  /**
+   * List department names in the data that did not resolve to any registry
+   * department, with the income each one carries (largest first)
+   */
+  getUnmappedDepartments(data: IncomeRecord[], registry: DepartmentRegistryService = departmentRegistryService): UnmappedDepartment[] {
+    const unmapped: Record<string, UnmappedDepartment> = {};
+    data.forEach(record => {
+      if (registry.isKnownDepartment(record.department)) {
+        return;
+      }
+
+      const rawName = record.rawDepartment ?? record.department;
+      if (!unmapped[rawName]) {
+        unmapped[rawName] = { rawName, recordCount: 0, cash: 0, online: 0, total: 0 };
+      }
+      unmapped[rawName].recordCount += 1;
+      unmapped[rawName].cash += record.cash;
+      unmapped[rawName].online += record.online;
+      unmapped[rawName].total += record.cash + record.online;
+    });
+
+    return Object.values(unmapped).sort((a, b) => b.total - a.total);
+  }
+
   /**
    * Filter data by date range
-   * Enhanced to support custom date ranges
+   * Enhanced to support custom date ranges (all dates are YYYY-MM-DD)
    */
-  filterDataByDate(data: IncomeRecord[], filter: DateFilter, specificDate?: string, startDate?: string, endDate?: string): IncomeRecord[] {
+  filterDataByDate(data: IncomeRecord[], filter: DateFilter, specificDate?: LocalDate, startDate?: LocalDate, endDate?: LocalDate): IncomeRecord[] {
     if (filter === 'all') {
       return [...data];
     }
     
     // Handle custom date range
     if (filter === 'specific' && startDate && endDate) {
-      return data.filter(record => {
-        const recordDate = this.parseDateString(record.date);
-        const startDateParsed = this.parseDateString(startDate);
-        const endDateParsed = this.parseDateString(endDate);
-        
-        return recordDate >= startDateParsed && recordDate <= endDateParsed;
-      });
+      return data.filter(record => dateService.isWithinRange(record.date, startDate, endDate));
     }
     
     // Handle single specific date (legacy support)
@@ -219,75 +324,201 @@ export class DataProcessingService {
       return [...data];
     }
     
-    const startStr = this.formatDateForComparison(range.start);
-    const endStr = this.formatDateForComparison(range.end);
-    
-    return data.filter(record => {
-      // Parse the record date (M/D/YYYY format)
-      const recordDate = this.parseDateString(record.date);
-      const startDate = this.parseDateString(startStr);
-      const endDate = this.parseDateString(endStr);
-      
-      return recordDate >= startDate && recordDate <= endDate;
-    });
+    return data.filter(record => dateService.isWithinRange(record.date, range.start, range.end));
   }
 
   /**
    * Get date range for filter
+   * Financial-year filters follow the April-March year; quarters are of the current FY
    */
-  private getDateRange(filter: DateFilter): { start: Date; end: Date } | null {
-    // Get current IST date - use local time instead of manual offset
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const yesterday = new Date(today);
-    yesterday.setDate(yesterday.getDate() - 1);
+  getDateRange(filter: DateFilter): DateRange | null {
+    // Current local (IST) date
+    const today = dateService.today();
+    const { year, month } = dateService.getParts(today);
+    const financialYear = dateService.getFinancialYear(today);
     
-    const startOfWeek = new Date(today);
     // Calculate Monday as start of week (0 = Sunday, 1 = Monday, etc.)
-    const dayOfWeek = today.getDay();
+    const dayOfWeek = dateService.toDate(today).getDay();
     const daysToMonday = dayOfWeek === 0 ? -6 : 1 - dayOfWeek; // If Sunday (0), go back 6 days to Monday
-    startOfWeek.setDate(today.getDate() + daysToMonday);
-    
-    const startOfMonth = new Date(today.getFullYear(), today.getMonth(), 1);
-    const startOfYear = new Date(today.getFullYear(), 0, 1);
+    const startOfWeek = dateService.addDays(today, daysToMonday);
     
     switch (filter) {
-      case 'yesterday':
+      case 'yesterday': {
+        const yesterday = dateService.addDays(today, -1);
         return { start: yesterday, end: yesterday };
+      }
       case 'week':
         // End of week is Sunday (6 days after Monday)
-        const endOfWeek = new Date(startOfWeek);
-        endOfWeek.setDate(startOfWeek.getDate() + 6);
-        return { start: startOfWeek, end: endOfWeek };
+        return { start: startOfWeek, end: dateService.addDays(startOfWeek, 6) };
       case 'month':
-        // Get the last day of the current month
-        const endOfMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0);
-        return { start: startOfMonth, end: endOfMonth };
+        return {
+          start: dateService.fromParts(year, month, 1)!,
+          end: dateService.fromParts(year, month, dateService.daysInMonth(year, month))!
+        };
       case 'year':
-        // Get the last day of the current year
-        const endOfYear = new Date(today.getFullYear(), 11, 31);
-        return { start: startOfYear, end: endOfYear };
+        return { start: `${year}-01-01`, end: `${year}-12-31` };
+      case 'financialYear':
+        return dateService.getFinancialYearRange(financialYear);
+      case 'lastFinancialYear':
+        return dateService.getFinancialYearRange(financialYear - 1);
+      case 'fyQ1':
+        return dateService.getFinancialQuarterRange(financialYear, 1);
+      case 'fyQ2':
+        return dateService.getFinancialQuarterRange(financialYear, 2);
+      case 'fyQ3':
+        return dateService.getFinancialQuarterRange(financialYear, 3);
+      case 'fyQ4':
+        return dateService.getFinancialQuarterRange(financialYear, 4);
       default:
         return null;
     }
   }
 
   /**
-   * Format date for comparison (M/D/YYYY format to match data)
+   * Get the dates to compare for a filter and the comparable previous period.
+   * Periods still in progress are compared to date (e.g. 1-15 of this month vs
+   * 1-15 of last month); custom ranges are compared with the preceding range of
+   * the same length. Returns null for 'all' or a period that has not started.
    */
-  private formatDateForComparison(date: Date): string {
-    const month = date.getMonth() + 1;
-    const day = date.getDate();
-    const year = date.getFullYear();
-    return `${month}/${day}/${year}`;
+  getComparisonRanges(filter: DateFilter, startDate?: LocalDate, endDate?: LocalDate): { current: DateRange; previous: DateRange; label: string } | null {
+    if (filter === 'specific') {
+      if (!startDate || !endDate) {
+        return null;
+      }
+      const length = dateService.daysBetween(startDate, endDate) + 1;
+      return {
+        current: { start: startDate, end: endDate },
+        previous: { start: dateService.addDays(startDate, -length), end: dateService.addDays(startDate, -1) },
+        label: length === 1 ? 'vs previous day' : `vs previous ${length} days`
+      };
+    }
+
+    const range = this.getDateRange(filter);
+    if (!range) {
+      return null;
+    }
+
+    const today = dateService.today();
+    if (range.start > today) {
+      return null;
+    }
+    const current = { start: range.start, end: range.end < today ? range.end : today };
+    const isPartial = current.end !== range.end;
+
+    // Complete periods shift by whole periods so month ends line up (30 Jun -> 31 Mar)
+    const shiftBy = (months: number, days: number = 0): DateRange => ({
+      start: dateService.addDays(dateService.addMonths(current.start, months), days),
+      end: isPartial
+        ? dateService.addDays(dateService.addMonths(current.end, months), days)
+        : dateService.addDays(dateService.addMonths(dateService.addDays(current.end, 1), months), days - 1)
+    });
+    const periodLabel = (unit: string) => isPartial ? `vs same days last ${unit}` : `vs last ${unit}`;
+
+    switch (filter) {
+      case 'yesterday':
+        return { current, previous: shiftBy(0, -1), label: 'vs day before' };
+      case 'week':
+        return { current, previous: shiftBy(0, -7), label: periodLabel('week') };
+      case 'month':
+        return { current, previous: shiftBy(-1), label: periodLabel('month') };
+      case 'year':
+        return { current, previous: shiftBy(-12), label: periodLabel('year') };
+      case 'financialYear':
+        return { current, previous: shiftBy(-12), label: periodLabel('FY') };
+      case 'lastFinancialYear': {
+        const previous = shiftBy(-12);
+        return { current, previous, label: `vs ${dateService.formatFinancialYear(dateService.getFinancialYear(previous.start))}` };
+      }
+      case 'fyQ1':
+      case 'fyQ2':
+      case 'fyQ3':
+      case 'fyQ4':
+        return { current, previous: shiftBy(-3), label: periodLabel('quarter') };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Compare income totals for the active filter with the previous comparable period
+   */
+  calculatePeriodComparison(data: IncomeRecord[], filter: DateFilter, startDate?: LocalDate, endDate?: LocalDate): PeriodComparison | null {
+    const ranges = this.getComparisonRanges(filter, startDate, endDate);
+    if (!ranges) {
+      return null;
+    }
+
+    const sumRange = (range: DateRange) => data
+      .filter(record => dateService.isWithinRange(record.date, range.start, range.end))
+      .reduce((totals, record) => ({
+        cash: totals.cash + record.cash,
+        online: totals.online + record.online
+      }), { cash: 0, online: 0 });
+
+    const current = sumRange(ranges.current);
+    const previous = sumRange(ranges.previous);
+
+    return {
+      ...ranges,
+      totalRevenue: this.compareMetric(current.cash + current.online, previous.cash + previous.online),
+      totalCash: this.compareMetric(current.cash, previous.cash),
+      totalOnline: this.compareMetric(current.online, previous.online)
+    };
+  }
+
+  /**
+   * Compare a current value with a previous one
+   */
+  compareMetric(current: number, previous: number): MetricComparison {
+    const change = current - previous;
+    return {
+      current,
+      previous,
+      change,
+      changePercent: previous !== 0 ? (change / Math.abs(previous)) * 100 : null
+    };
+  }
+
+  /**
+   * Format a comparison for a KPI card, e.g. "▲ 12.5% vs last week"
+   */
+  formatGrowth(comparison: MetricComparison, label: string): { growth: string; growthType: 'positive' | 'negative' | 'neutral' } {
+    if (comparison.change === 0) {
+      return { growth: `No change ${label}`, growthType: 'neutral' };
+    }
+
+    return {
+      growth: `${this.formatChange(comparison)} ${label}`,
+      growthType: comparison.change > 0 ? 'positive' : 'negative'
+    };
+  }
+
+  /**
+   * Get the day in an earlier window that a date is compared with.
+   * Weekday alignment steps back whole weeks (52 for a year, 4 for a month)
+   * so festivals that fall on the same weekday line up.
+   */
+  getAlignedComparisonDate(date: LocalDate, comparison: TrendComparison, alignment: TrendAlignment): LocalDate {
+    if (comparison === 'none') {
+      return date;
+    }
+    if (alignment === 'weekday') {
+      return dateService.addDays(date, comparison === 'previousYear' ? -364 : -28);
+    }
+    return dateService.addMonths(date, comparison === 'previousYear' ? -12 : -1);
   }
 
   /**
-   * Parse date string (M/D/YYYY format) to Date object for comparison
+   * Format the change from a comparison value, e.g. "▲ 12.5%" (or an amount when the comparison is 0)
    */
-  parseDateString(dateStr: string): Date {
-    const [month, day, year] = dateStr.split('/').map(num => parseInt(num, 10));
-    return new Date(year, month - 1, day);
+  formatChange(comparison: MetricComparison): string {
+    if (comparison.change === 0) {
+      return 'no change';
+    }
+    const arrow = comparison.change > 0 ? '▲' : '▼';
+    return comparison.changePercent !== null
+      ? `${arrow} ${Math.abs(comparison.changePercent).toFixed(1)}%`
+      : `${arrow} ${this.formatCurrency(Math.abs(comparison.change))}`;
   }
 
   /**
@@ -305,13 +536,8 @@ export class DataProcessingService {
   /**
    * Format date for display
    */
-  formatDate(dateString: string): string {
-    const date = new Date(dateString);
-    return date.toLocaleDateString('en-IN', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric'
-    });
+  formatDate(date: LocalDate): string {
+    return dateService.format(date);
   }
 
   /**
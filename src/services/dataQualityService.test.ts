@@ -0,0 +1,76 @@
+import { IncomeColumnMapping } from '../types';
+import { googleSheetsService } from './googleSheetsService';
+import { dataQualityService } from './dataQualityService';
+
+const HEADERS = ['Date', 'Department', 'Cash', 'Online', 'Receipt No', 'UPI'];
+const mapping: IncomeColumnMapping = googleSheetsService.resolveIncomeColumns(HEADERS).mapping;
+
+describe('DataQualityService.validateIncomeRows', () => {
+  const check = (rows: string[][]) => dataQualityService
+    .validateIncomeRows(rows, mapping, 2, '2025-09-30')
+    .map(issue => [issue.row, issue.type, issue.severity, issue.rawValue]);
+
+  it('reports rows left out for their date or department, with the value as entered', () => {
+    expect(check([
+      ['', 'Kitchen', '10', '0'],
+      ['31/02/2025', 'Kitchen', '10', '0'],
+      ['2025-09-01', '', '10', '0'],
+      ['2025-09-01', '1,200', '10', '0']
+    ])).toEqual([
+      [2, 'missing-date', 'error', ''],
+      [3, 'invalid-date', 'error', '31/02/2025'],
+      [4, 'missing-department', 'error', ''],
+      [5, 'invalid-department', 'error', '1,200']
+    ]);
+  });
+
+  it('reports amounts and dates that are included but look wrong', () => {
+    expect(check([
+      ['2025-10-02', 'Kitchen', 'ten', '-5'],
+      ['2025-09-01', 'Gift Shop', '₹1,000', '100', '', '150']
+    ])).toEqual([
+      [2, 'future-date', 'warning', '2025-10-02'],
+      [2, 'non-numeric-amount', 'warning', 'ten'],
+      [2, 'negative-amount', 'warning', '-5'],
+      [3, 'channel-mismatch', 'warning', '100']
+    ]);
+  });
+
+  it('reports repeated date and department rows unless their receipt numbers differ, skipping blank rows', () => {
+    expect(check([
+      ['2025-09-01', 'Kitchen', '10', '0', 'R1'],
+      ['', '', '', ''],
+      ['2025-09-01', 'kitchen', '20', '0', 'R1'],
+      ['2025-09-01', 'Kitchen', '30', '0', 'R2']
+    ])).toEqual([[4, 'duplicate-row', 'warning', '2025-09-01 / kitchen']]);
+  });
+});
+
+describe('DataQualityService.parseAmount', () => {
+  it('reads amounts with separators and currency marks, blanks as 0 and text as null', () => {
+    expect(dataQualityService.parseAmount('1,200.50')).toBe(1200.5);
+    expect(dataQualityService.parseAmount('Rs. 500')).toBe(500);
+    expect(dataQualityService.parseAmount('₹1,00,000')).toBe(100000);
+    expect(dataQualityService.parseAmount('')).toBe(0);
+    expect(dataQualityService.parseAmount('12a')).toBeNull();
+    expect(dataQualityService.parseAmount(Infinity)).toBeNull();
+  });
+});
+
+describe('DataQualityService report', () => {
+  it('counts issues by type and lays them out for the accounts team', () => {
+    const issues = dataQualityService.validateIncomeRows([['', 'Kitchen', 'ten', '0']], mapping, 2, '2025-09-30');
+
+    expect(dataQualityService.countByType(issues)['missing-date']).toBe(1);
+    expect(dataQualityService.countByType(issues)['duplicate-row']).toBe(0);
+    expect(dataQualityService.toReportRows(issues)[0]).toEqual({
+      'Source': 'Income sheet',
+      'Row': 2,
+      'Field': 'Date',
+      'Problem': 'Missing date',
+      'Severity': 'Row left out',
+      'Details': 'No date; the row is left out',
+      'Value As Entered': ''
+    });
+  });
+});
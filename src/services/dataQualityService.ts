@@ -0,0 +1,174 @@
+import { DataIssueType, DataQualityIssue, IncomeColumnMapping, IncomeField, LocalDate } from '../types';
+import { dateService } from './dateService';
+import { incomeDateOrder } from '../config/dateConfig';
+import { INCOME_FIELD_LABELS } from '../config/incomeSheetConfig';
+import { PAYMENT_CHANNELS } from '../config/paymentChannelConfig';
+
+const AMOUNT_FIELDS: IncomeField[] = ['cash', 'online', ...PAYMENT_CHANNELS];
+
+export const DATA_ISSUE_LABELS: Record<DataIssueType, string> = {
+  'missing-date': 'Missing date',
+  'invalid-date': 'Unreadable date',
+  'missing-department': 'Missing department',
+  'invalid-department': 'Invalid department',
+  'non-numeric-amount': 'Non-numeric amount',
+  'negative-amount': 'Negative amount',
+  'future-date': 'Future date',
+  'duplicate-row': 'Duplicate row',
+  'channel-mismatch': 'Channels exceed online'
+};
+
+// Problems that leave the row out of the dashboard; everything else is included as entered
+const EXCLUDING_ISSUES: DataIssueType[] = ['missing-date', 'invalid-date', 'missing-department', 'invalid-department'];
+
+// A department that is only a number, usually an amount typed in the wrong column
+const NUMERIC_DEPARTMENT_PATTERN = /^-?[\d,]*\.?\d+$/;
+
+/**
+ * Checks income rows as they are read, before anything is dropped or
+ * defaulted, and reports every problem with the row number and the value as
+ * entered so the accounts team can correct the sheet. Parsing itself stays
+ * lenient; this only reports.
+ */
+export class DataQualityService {
+  /**
+   * Check data rows read with a column mapping
+   *
+   * @param firstRowNumber - Row number of rows[0] as the user sees it (2 below a header row)
+   * @param today - Dates after this are reported as future dates (today in India by default)
+   */
+  validateIncomeRows(
+    rows: any[][],
+    mapping: IncomeColumnMapping,
+    firstRowNumber: number = 2,
+    today: LocalDate = dateService.today()
+  ): DataQualityIssue[] {
+    const issues: DataQualityIssue[] = [];
+    // First row number for each date + department (+ receipt number) seen so far
+    const seenRows = new Map<string, number>();
+
+    rows.forEach((row, index) => {
+      const rowNumber = firstRowNumber + index;
+      const cell = (field: IncomeField): string => (mapping[field] === -1 ? '' : String(row[mapping[field]] ?? '').trim());
+      const report = (type: DataIssueType, field: IncomeField | null, message: string, rawValue: string) => {
+        issues.push({
+          row: rowNumber,
+          field,
+          type,
+          severity: EXCLUDING_ISSUES.includes(type) ? 'error' : 'warning',
+          message,
+          rawValue
+        });
+      };
+
+      // Blank rows between entries are not worth reporting
+      if (!row || row.every(value => String(value ?? '').trim() === '')) {
+        return;
+      }
+
+      const rawDate = cell('date');
+      const date = rawDate ? dateService.parse(row[mapping.date], incomeDateOrder) : null;
+      if (!rawDate) {
+        report('missing-date', 'date', 'No date; the row is left out', rawDate);
+      } else if (!date) {
+        report('invalid-date', 'date', 'Date could not be read; the row is left out', rawDate);
+      } else if (date > today) {
+        report('future-date', 'date', `Date is after today (${dateService.format(today)})`, rawDate);
+      }
+
+      const department = cell('department');
+      if (!department) {
+        report('missing-department', 'department', 'No department; the row is left out', department);
+      } else if (this.isInvalidDepartment(department)) {
+        report('invalid-department', 'department', 'Department is a number, not a name; the row is left out', department);
+      }
+
+      AMOUNT_FIELDS.forEach(field => {
+        const rawAmount = cell(field);
+        if (!rawAmount) return;
+
+        const amount = this.parseAmount(row[mapping[field]]);
+        if (amount === null) {
+          report('non-numeric-amount', field, `${INCOME_FIELD_LABELS[field]} is not a number; counted as 0`, rawAmount);
+        } else if (amount < 0) {
+          report('negative-amount', field, `${INCOME_FIELD_LABELS[field]} is negative`, rawAmount);
+        }
+      });
+
+      const online = cell('online');
+      const channelTotal = PAYMENT_CHANNELS.reduce((sum, channel) => sum + (this.parseAmount(cell(channel)) || 0), 0);
+      if (online && channelTotal > 0 && channelTotal > (this.parseAmount(online) || 0)) {
+        report('channel-mismatch', 'online', `Payment channels add up to ${channelTotal}, more than the Online amount`, online);
+      }
+
+      if (date && department) {
+        // Rows with different receipt numbers are separate entries on the same day
+        const key = `${date}|${department.toLowerCase()}|${cell('receiptNo').toLowerCase()}`;
+        const firstRow = seenRows.get(key);
+        if (firstRow === undefined) {
+          seenRows.set(key, rowNumber);
+        } else {
+          report('duplicate-row', null, `Same date and department as row ${firstRow}`, `${rawDate} / ${department}`);
+        }
+      }
+    });
+
+    return issues;
+  }
+
+  /**
+   * Whether a department cell cannot name a department (it holds a number)
+   */
+  isInvalidDepartment(value: unknown): boolean {
+    return NUMERIC_DEPARTMENT_PATTERN.test(String(value ?? '').trim());
+  }
+
+  /**
+   * Read an amount such as 1200, "1,200.50", "₹1,200" or "Rs. 500". Blank cells are 0;
+   * anything that is not a number is null.
+   */
+  parseAmount(value: unknown): number | null {
+    if (typeof value === 'number') {
+      return isFinite(value) ? value : null;
+    }
+
+    // Drop thousands separators and currency marks (₹, Rs., INR)
+    const text = String(value ?? '').replace(/[₹,\s]/g, '').replace(/^(rs\.?|inr)|inr$/i, '');
+    if (text === '') {
+      return 0;
+    }
+    return /^-?(\d+\.?\d*|\.\d+)$/.test(text) ? parseFloat(text) : null;
+  }
+
+  /**
+   * Number of issues of each type
+   */
+  countByType(issues: DataQualityIssue[]): Record<DataIssueType, number> {
+    const counts = {} as Record<DataIssueType, number>;
+    (Object.keys(DATA_ISSUE_LABELS) as DataIssueType[]).forEach(type => {
+      counts[type] = 0;
+    });
+    issues.forEach(issue => {
+      counts[issue.type]++;
+    });
+    return counts;
+  }
+
+  /**
+   * Issues as rows of the downloadable report
+   */
+  toReportRows(issues: DataQualityIssue[]): Record<string, string | number>[] {
+    return issues.map(issue => ({
+      'Source': issue.source || 'Income sheet',
+      'Row': issue.row,
+      'Field': issue.field ? INCOME_FIELD_LABELS[issue.field] : 'Whole row',
+      'Problem': DATA_ISSUE_LABELS[issue.type],
+      'Severity': issue.severity === 'error' ? 'Row left out' : 'Row included',
+      'Details': issue.message,
+      'Value As Entered': issue.rawValue
+    }));
+  }
+}
+
+// Export singleton instance
+export const dataQualityService = new DataQualityService();
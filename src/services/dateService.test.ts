@@ -0,0 +1,63 @@
+import { dateService } from './dateService';
+
+describe('DateService.parse', () => {
+  it('reads ISO dates, with or without a time', () => {
+    expect(dateService.parse('2025-09-24')).toBe('2025-09-24');
+    expect(dateService.parse('2025/9/4')).toBe('2025-09-04');
+    expect(dateService.parse('2025-09-24T10:00:00')).toBe('2025-09-24');
+  });
+
+  it('uses the order hint only when both parts could be the month', () => {
+    expect(dateService.parse('04/05/2025', 'MDY')).toBe('2025-04-05');
+    expect(dateService.parse('04/05/2025', 'DMY')).toBe('2025-05-04');
+    expect(dateService.parse('24/09/2025', 'MDY')).toBe('2025-09-24');
+    expect(dateService.parse('9/24/2025', 'DMY')).toBe('2025-09-24');
+  });
+
+  it('expands two-digit years', () => {
+    expect(dateService.parse('24-09-25', 'DMY')).toBe('2025-09-24');
+    expect(dateService.parse('1.1.99', 'DMY')).toBe('1999-01-01');
+  });
+
+  it('reads month names as bank statements write them', () => {
+    expect(dateService.parse('24 Sep 2025')).toBe('2025-09-24');
+    expect(dateService.parse('1-Apr-25')).toBe('2025-04-01');
+    expect(dateService.parse('3 September, 2025')).toBe('2025-09-03');
+    expect(dateService.parse('3 Foo 2025')).toBeNull();
+  });
+
+  it('reads Google Sheets serial day numbers within the supported range', () => {
+    expect(dateService.parse(45924)).toBe('2025-09-24');
+    expect(dateService.parse('45924')).toBe('2025-09-24');
+    expect(dateService.parse(12)).toBeNull();
+  });
+
+  it('rejects blanks and impossible dates', () => {
+    expect(dateService.parse('')).toBeNull();
+    expect(dateService.parse(null)).toBeNull();
+    expect(dateService.parse('2025-02-29')).toBeNull();
+    expect(dateService.parse('31/04/2025', 'DMY')).toBeNull();
+    expect(dateService.parse('not a date')).toBeNull();
+  });
+});
+
+describe('DateService.addMonths', () => {
+  it('moves across year boundaries', () => {
+    expect(dateService.addMonths('2025-11-15', 3)).toBe('2026-02-15');
+    expect(dateService.addMonths('2025-01-15', -1)).toBe('2024-12-15');
+    expect(dateService.addMonths('2025-03-10', -15)).toBe('2023-12-10');
+  });
+
+  it('clamps the day to the end of a shorter month', () => {
+    expect(dateService.addMonths('2025-01-31', 1)).toBe('2025-02-28');
+    expect(dateService.addMonths('2024-01-31', 1)).toBe('2024-02-29');
+    expect(dateService.addMonths('2025-05-31', -1)).toBe('2025-04-30');
+  });
+});
+
+describe('DateService.today', () => {
+  it('takes the date in India, not in the runtime time zone', () => {
+    expect(dateService.today(new Date('2025-09-24T20:00:00Z'))).toBe('2025-09-25');
+    expect(dateService.today(new Date('2025-09-24T18:00:00Z'))).toBe('2025-09-24');
+  });
+});
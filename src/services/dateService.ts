@@ -0,0 +1,261 @@
+import { LocalDate, DateOrder, DateRange, FinancialQuarter } from '../types';
+import { FINANCIAL_YEAR_START_MONTH, DASHBOARD_TIME_ZONE } from '../config/dateConfig';
+
+// Google Sheets serial day 0 is 30 Dec 1899 (Lotus 1-2-3 leap year bug included)
+const SHEETS_EPOCH_UTC = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Serial numbers outside this range (1 Jan 1950 - 31 Dec 2099) are not treated as dates
+const MIN_SERIAL = 18264;
+const MAX_SERIAL = 73415;
+
+const ISO_PATTERN = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/;
+const DAY_MONTH_YEAR_PATTERN = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})(?:\s.*)?$/;
+const SERIAL_PATTERN = /^\d+(\.\d+)?$/;
+// Bank statements write the month as a name: 01 Apr 2025, 1-Apr-25
+const DAY_MONTH_NAME_PATTERN = /^(\d{1,2})[-/.\s]+([a-z]{3,9})[-/.,\s]+(\d{2}|\d{4})(?:\s.*)?$/i;
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+export class DateService {
+  /**
+   * Parse a date from the sheet into a LocalDate (YYYY-MM-DD).
+   *
+   * Supported inputs:
+   * - ISO dates: 2025-09-24, 2025/09/24, 2025-09-24T10:00:00
+   * - Slash/dash/dot dates with 4 or 2-digit years: 9/24/2025, 24-09-25
+   * - Day and month name, as on bank statements: 24 Sep 2025, 24-Sep-25
+   * - Google Sheets serial day numbers: 45924 (or '45924')
+   *
+   * The order hint decides between M/D/Y and D/M/Y when both parts are 12 or
+   * less; a part above 12 always identifies itself as the day.
+   * Returns null when the value is blank or not a valid calendar date.
+   */
+  parse(value: unknown, order: DateOrder = 'MDY'): LocalDate | null {
+    if (value === undefined || value === null) {
+      return null;
+    }
+
+    if (typeof value === 'number') {
+      return this.fromSerial(value);
+    }
+
+    if (value instanceof Date) {
+      return isNaN(value.getTime()) ? null : this.fromDate(value);
+    }
+
+    const text = String(value).trim();
+    if (text === '') {
+      return null;
+    }
+
+    const isoMatch = text.match(ISO_PATTERN);
+    if (isoMatch) {
+      return this.fromParts(Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3]));
+    }
+
+    const dmyMatch = text.match(DAY_MONTH_YEAR_PATTERN);
+    if (dmyMatch) {
+      const first = Number(dmyMatch[1]);
+      const second = Number(dmyMatch[2]);
+      const year = this.expandYear(dmyMatch[3]);
+
+      let month: number;
+      let day: number;
+      if (first > 12 && second <= 12) {
+        [day, month] = [first, second];
+      } else if (second > 12 && first <= 12) {
+        [month, day] = [first, second];
+      } else if (order === 'DMY') {
+        [day, month] = [first, second];
+      } else {
+        [month, day] = [first, second];
+      }
+
+      return this.fromParts(year, month, day);
+    }
+
+    const monthNameMatch = text.match(DAY_MONTH_NAME_PATTERN);
+    if (monthNameMatch) {
+      const month = MONTH_NAMES.indexOf(monthNameMatch[2].slice(0, 3).toLowerCase()) + 1;
+      return month > 0
+        ? this.fromParts(this.expandYear(monthNameMatch[3]), month, Number(monthNameMatch[1]))
+        : null;
+    }
+
+    if (SERIAL_PATTERN.test(text)) {
+      return this.fromSerial(Number(text));
+    }
+
+    return null;
+  }
+
+  /**
+   * Convert a Google Sheets serial day number to a LocalDate
+   */
+  fromSerial(serial: number): LocalDate | null {
+    if (!isFinite(serial) || serial < MIN_SERIAL || serial > MAX_SERIAL) {
+      return null;
+    }
+    const date = new Date(SHEETS_EPOCH_UTC + Math.floor(serial) * MS_PER_DAY);
+    return this.fromParts(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+  }
+
+  /**
+   * Build a LocalDate from year, month (1-12) and day, or null if invalid
+   */
+  fromParts(year: number, month: number, day: number): LocalDate | null {
+    if (!Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day)) {
+      return null;
+    }
+    if (month < 1 || month > 12 || day < 1 || day > this.daysInMonth(year, month)) {
+      return null;
+    }
+    return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  }
+
+  /**
+   * LocalDate for a JavaScript Date in local time
+   */
+  fromDate(date: Date): LocalDate {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+
+  /**
+   * JavaScript Date at local midnight for a LocalDate
+   */
+  toDate(date: LocalDate): Date {
+    const { year, month, day } = this.getParts(date);
+    return new Date(year, month - 1, day);
+  }
+
+  /**
+   * Split a LocalDate into numeric year, month (1-12) and day
+   */
+  getParts(date: LocalDate): { year: number; month: number; day: number } {
+    const [year, month, day] = date.split('-').map(part => parseInt(part, 10));
+    return { year, month, day };
+  }
+
+  /**
+   * Today's date in DASHBOARD_TIME_ZONE, wherever the code runs (in UTC it
+   * is still yesterday until 05:30 in India)
+   *
+   * @param now - The moment to take the date of
+   */
+  today(now: Date = new Date()): LocalDate {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: DASHBOARD_TIME_ZONE,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    }).formatToParts(now);
+    const part = (type: string) => parts.find(candidate => candidate.type === type)?.value || '';
+    return `${part('year')}-${part('month')}-${part('day')}`;
+  }
+
+  /**
+   * Add (or subtract) days
+   */
+  addDays(date: LocalDate, days: number): LocalDate {
+    const result = this.toDate(date);
+    result.setDate(result.getDate() + days);
+    return this.fromDate(result);
+  }
+
+  /**
+   * Number of days from start to end (0 when equal, negative when end is earlier)
+   */
+  daysBetween(start: LocalDate, end: LocalDate): number {
+    const startParts = this.getParts(start);
+    const endParts = this.getParts(end);
+    const startUtc = Date.UTC(startParts.year, startParts.month - 1, startParts.day);
+    const endUtc = Date.UTC(endParts.year, endParts.month - 1, endParts.day);
+    return Math.round((endUtc - startUtc) / MS_PER_DAY);
+  }
+
+  /**
+   * Whether a date falls within an inclusive range
+   */
+  isWithinRange(date: LocalDate, start: LocalDate, end: LocalDate): boolean {
+    return date >= start && date <= end;
+  }
+
+  /**
+   * Number of days in a month (month is 1-12)
+   */
+  daysInMonth(year: number, month: number): number {
+    return new Date(year, month, 0).getDate();
+  }
+
+  /**
+   * Format a LocalDate for display, e.g. "24 Sept 2025"
+   */
+  format(date: LocalDate, options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' }): string {
+    return this.toDate(date).toLocaleDateString('en-IN', options);
+  }
+
+  /**
+   * Format a LocalDate as D/M/YYYY for compact display
+   */
+  formatShort(date: LocalDate): string {
+    const { year, month, day } = this.getParts(date);
+    return `${day}/${month}/${year}`;
+  }
+
+  /**
+   * Financial year a date falls in, identified by the calendar year it starts in
+   * (e.g. 2025 for FY 2025-26, which runs 1 Apr 2025 - 31 Mar 2026)
+   */
+  getFinancialYear(date: LocalDate): number {
+    const { year, month } = this.getParts(date);
+    return month >= FINANCIAL_YEAR_START_MONTH ? year : year - 1;
+  }
+
+  /**
+   * First and last day of a financial year
+   */
+  getFinancialYearRange(financialYear: number): DateRange {
+    const start = this.fromParts(financialYear, FINANCIAL_YEAR_START_MONTH, 1)!;
+    return { start, end: this.addDays(this.addMonths(start, 12), -1) };
+  }
+
+  /**
+   * First and last day of a quarter (1-4) of a financial year
+   */
+  getFinancialQuarterRange(financialYear: number, quarter: FinancialQuarter): DateRange {
+    const start = this.addMonths(this.getFinancialYearRange(financialYear).start, (quarter - 1) * 3);
+    return { start, end: this.addDays(this.addMonths(start, 3), -1) };
+  }
+
+  /**
+   * Display label for a financial year, e.g. "FY 2025-26"
+   */
+  formatFinancialYear(financialYear: number): string {
+    return `FY ${financialYear}-${String((financialYear + 1) % 100).padStart(2, '0')}`;
+  }
+
+  /**
+   * Add (or subtract) whole months, clamping the day to the end of the month
+   */
+  addMonths(date: LocalDate, months: number): LocalDate {
+    const { year, month, day } = this.getParts(date);
+    const monthIndex = year * 12 + (month - 1) + months;
+    const newYear = Math.floor(monthIndex / 12);
+    const newMonth = (monthIndex % 12) + 1;
+    return this.fromParts(newYear, newMonth, Math.min(day, this.daysInMonth(newYear, newMonth)))!;
+  }
+
+  /**
+   * Two-digit years below 50 are 20xx, the rest 19xx
+   */
+  private expandYear(year: string): number {
+    const value = Number(year);
+    if (year.length === 4) {
+      return value;
+    }
+    return value < 50 ? 2000 + value : 1900 + value;
+  }
+}
+
+// Export singleton instance
+export const dateService = new DateService();
@@ -0,0 +1,56 @@
+import { DEMO_HISTORY_YEARS } from '../config/demoConfig';
+import { PAYMENT_CHANNELS } from '../config/paymentChannelConfig';
+import { DemoDataService } from './demoDataService';
+import { DepartmentRegistryService } from './departmentRegistryService';
+import { dateService } from './dateService';
+
+const departments = new DepartmentRegistryService([
+  { name: 'Guest House', order: 1, active: true },
+  { name: 'Seva Office', order: 2, active: true },
+  { name: 'Deity Seva', parent: 'Seva Office', order: 1, active: true },
+  { name: 'Old Canteen', order: 3, active: false }
+]).getDepartments();
+
+const END_DATE = '2025-09-30';
+
+describe('DemoDataService.generateIncomeData', () => {
+  const records = new DemoDataService(108).generateIncomeData(departments, END_DATE);
+
+  it('generates the same figures for the same seed and different ones for another seed', () => {
+    expect(new DemoDataService(108).generateIncomeData(departments, END_DATE)).toEqual(records);
+    expect(new DemoDataService(109).generateIncomeData(departments, END_DATE)).not.toEqual(records);
+  });
+
+  it('covers every active department and sub-section from the start of an earlier financial year', () => {
+    const firstYear = dateService.getFinancialYear(END_DATE) - DEMO_HISTORY_YEARS;
+
+    expect(Array.from(new Set(records.map(record => record.department))).sort()).toEqual(['Deity Seva', 'Guest House', 'Seva Office']);
+    expect(records[0].date).toBe(dateService.getFinancialYearRange(firstYear).start);
+    expect(records[records.length - 1].date).toBe(END_DATE);
+  });
+
+  it('splits online income over the payment channels without losing any', () => {
+    records.slice(0, 50).forEach(record => {
+      const channelTotal = PAYMENT_CHANNELS.reduce((sum, channel) => sum + (record.channels?.[channel] || 0), 0);
+      expect(channelTotal).toBe(record.online);
+    });
+  });
+
+  it('leaves earlier days unchanged as later days are added', () => {
+    const nextDay = new DemoDataService(108).generateIncomeData(departments, dateService.addDays(END_DATE, 1));
+
+    expect(nextDay.filter(record => record.date <= END_DATE)).toEqual(records);
+  });
+});
+
+describe('DemoDataService bank data', () => {
+  it('marks every account as a demo account and records weekly history for a year', () => {
+    const service = new DemoDataService(108);
+    const bankDetails = service.generateBankDetails(END_DATE);
+    const history = service.generateBankHistory(bankDetails, END_DATE);
+
+    expect(bankDetails.every(bank => bank.bankDetails.endsWith('(demo account)'))).toBe(true);
+    expect(history).toHaveLength(bankDetails.length * 52);
+    expect(history[0].date).toBe(dateService.addDays(END_DATE, -7));
+  });
+});
@@ -0,0 +1,193 @@
+import { IncomeRecord, BankDetails, BalanceSnapshot, DepartmentNode, LocalDate, PaymentChannel, PaymentChannelBreakdown } from '../types';
+import { DEMO_SEED, DEMO_HISTORY_YEARS } from '../config/demoConfig';
+import { dateService } from './dateService';
+import { PAYMENT_CHANNELS } from '../config/paymentChannelConfig';
+
+/**
+ * Generates the demo dataset shown when demo mode is switched on.
+ *
+ * Every value is derived from the seed plus the date and department it
+ * belongs to, so the same seed always produces the same figures and earlier
+ * days never change as new days are added.
+ */
+export class DemoDataService {
+  constructor(private seed: number) {}
+
+  /**
+   * Daily income for every department and sub-section, from the start of the
+   * financial year DEMO_HISTORY_YEARS before the current one up to today
+   */
+  generateIncomeData(departments: DepartmentNode[], endDate: LocalDate = dateService.today()): IncomeRecord[] {
+    const names = this.flattenNames(departments);
+    const firstYear = dateService.getFinancialYear(endDate) - DEMO_HISTORY_YEARS;
+    const startDate = dateService.getFinancialYearRange(firstYear).start;
+    const records: IncomeRecord[] = [];
+
+    for (let date = startDate; date <= endDate; date = dateService.addDays(date, 1)) {
+      const yearsElapsed = dateService.daysBetween(startDate, date) / 365;
+      const weekday = dateService.toDate(date).getDay();
+      // Weekends bring more visitors
+      const weekdayFactor = weekday === 0 ? 1.5 : weekday === 6 ? 1.25 : 1;
+
+      names.forEach(name => {
+        const departmentRandom = this.createRandom(name);
+        const baseAmount = 2000 + Math.floor(departmentRandom() * 38000);
+        const entryRate = 0.8 + departmentRandom() * 0.2;
+
+        const random = this.createRandom(`${date}|${name}`);
+        if (random() > entryRate) {
+          return;
+        }
+
+        // ~8% growth a year, with day-to-day noise
+        const total = baseAmount * weekdayFactor * Math.pow(1.08, yearsElapsed) * (0.6 + random() * 0.8);
+        // Online payments take a growing share over time
+        const onlineShare = Math.min(0.85, 0.25 + 0.1 * yearsElapsed + random() * 0.2);
+
+        const online = this.roundAmount(total * onlineShare);
+        records.push({
+          date,
+          department: name,
+          cash: this.roundAmount(total * (1 - onlineShare)),
+          online,
+          channels: this.splitOnline(online, this.createRandom(`${date}|${name}|channels`))
+        });
+      });
+    }
+
+    return records;
+  }
+
+  /**
+   * Spread an online amount over the payment channels, mostly UPI. Shares are
+   * rounded down and the last channel takes the remainder, so the channels
+   * always add up to the total
+   */
+  private splitOnline(online: number, random: () => number): PaymentChannelBreakdown {
+    const weights: Record<PaymentChannel, number> = {
+      upi: 6 + random() * 4,
+      card: 1 + random(),
+      neftRtgs: random() * 1.5,
+      cheque: random() * 0.5,
+      gateway: 0.5 + random()
+    };
+    const totalWeight = PAYMENT_CHANNELS.reduce((sum, channel) => sum + weights[channel], 0);
+    const channels: PaymentChannelBreakdown = {};
+    let assigned = 0;
+
+    PAYMENT_CHANNELS.forEach((channel, index) => {
+      const amount = index === PAYMENT_CHANNELS.length - 1
+        ? online - assigned
+        : Math.floor((online * weights[channel]) / totalWeight / 10) * 10;
+      channels[channel] = amount;
+      assigned += amount;
+    });
+
+    return channels;
+  }
+
+  /**
+   * A fixed set of fictitious bank accounts, updated as of today
+   */
+  generateBankDetails(today: LocalDate = dateService.today()): BankDetails[] {
+    const random = this.createRandom('bank');
+    const accounts = [
+      { bankName: 'Demo Bank', purpose: 'Daily collections', upi: ['demo.temple@upi'] },
+      { bankName: 'Sample Co-operative Bank', purpose: 'Guest House and Govindas', upi: ['demo.guesthouse@upi'] },
+      { bankName: 'Example Gramin Bank', purpose: 'Gaushala seva', upi: [] },
+      { bankName: 'Test National Bank', purpose: 'Festival expenses', upi: ['demo.festival@upi', 'demo.seva@upi'] }
+    ];
+
+    return accounts.map((account, index) => ({
+      bankDetails: `${account.bankName} (demo account)`,
+      ifscCode: `DEMO000${index + 1}00`,
+      upiIds: account.upi,
+      accountHolderName: 'Demo Temple Trust',
+      mainPurpose: account.purpose,
+      currentBalance: this.roundAmount(200000 + random() * 2800000),
+      accountNumber: `0000${String(1000 + index * 1111).padStart(8, '0')}`,
+      lastUpdatedDate: today,
+      lastUpdatedTime: '09:00',
+      bankName: account.bankName
+    }));
+  }
+
+  /**
+   * Weekly balances of the demo accounts over the last year, drifting
+   * towards each account's current balance
+   */
+  generateBankHistory(bankDetails: BankDetails[], today: LocalDate = dateService.today()): BalanceSnapshot[] {
+    const snapshots: BalanceSnapshot[] = [];
+
+    bankDetails.forEach(bank => {
+      const random = this.createRandom(`history|${bank.accountNumber}`);
+      let balance = bank.currentBalance;
+      for (let week = 1; week <= 52; week++) {
+        // Walk backwards from today: earlier balances were mostly a little lower
+        balance = Math.max(0, balance - bank.currentBalance * (random() * 0.05 - 0.015));
+        snapshots.push({
+          date: dateService.addDays(today, -7 * week),
+          time: '09:00',
+          accountNumber: bank.accountNumber,
+          bankDetails: bank.bankDetails,
+          balance: this.roundAmount(balance)
+        });
+      }
+    });
+
+    return snapshots;
+  }
+
+  /**
+   * Fictitious ISKCON Empower fund balance
+   */
+  generateFundBalance(): number {
+    return this.roundAmount(500000 + this.createRandom('fund')() * 1500000);
+  }
+
+  /**
+   * Every active department and sub-section name, parents before children
+   */
+  private flattenNames(departments: DepartmentNode[]): string[] {
+    const names: string[] = [];
+    const visit = (node: DepartmentNode) => {
+      if (!node.active) return;
+      names.push(node.name);
+      node.children.forEach(visit);
+    };
+    departments.forEach(visit);
+    return names;
+  }
+
+  private roundAmount(amount: number): number {
+    return Math.round(amount / 10) * 10;
+  }
+
+  /**
+   * Seeded pseudo-random generator (mulberry32) for a stream key
+   */
+  private createRandom(key: string): () => number {
+    let state = this.hash(`${this.seed}|${key}`);
+    return () => {
+      state = (state + 0x6d2b79f5) | 0;
+      let t = Math.imul(state ^ (state >>> 15), 1 | state);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  /**
+   * FNV-1a hash of a string
+   */
+  private hash(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+// Export singleton instance
+export const demoDataService = new DemoDataService(DEMO_SEED);
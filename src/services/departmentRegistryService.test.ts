@@ -0,0 +1,101 @@
+import { DepartmentRegistryService } from './departmentRegistryService';
+
+const createRegistry = () => new DepartmentRegistryService([
+  { name: 'Guest House', order: 1, active: true },
+  { name: 'Gift Shop', order: 2, active: true },
+  { name: 'Govindas Restaurant', order: 3, active: true, aliases: ['Govindas Res'] },
+  { name: 'Seva Office', order: 4, active: true },
+  { name: 'Deity Seva', parent: 'Seva Office', order: 1, active: true },
+  { name: 'Kitchen 1', order: 5, active: true },
+  { name: 'Kitchen 2', order: 6, active: true }
+]);
+
+describe('DepartmentRegistryService.resolveDepartment', () => {
+  it('matches exact names, then case and punctuation variants, then aliases', () => {
+    const registry = createRegistry();
+
+    expect(registry.resolveDepartment('Guest House')).toEqual({ name: 'Guest House', matchType: 'exact' });
+    expect(registry.resolveDepartment('  guest-house ')).toEqual({ name: 'Guest House', matchType: 'normalized' });
+    expect(registry.resolveDepartment('GOVINDAS RES')).toEqual({ name: 'Govindas Restaurant', matchType: 'alias' });
+  });
+
+  it('fuzzy matches small typos to the closest department', () => {
+    const registry = createRegistry();
+
+    expect(registry.resolveDepartment('Guest Hous')).toEqual({ name: 'Guest House', matchType: 'fuzzy' });
+    expect(registry.resolveDepartment('Giftshop')).toEqual({ name: 'Gift Shop', matchType: 'fuzzy' });
+    expect(registry.resolveDepartment('Deity Sevaa')).toEqual({ name: 'Deity Seva', matchType: 'fuzzy' });
+  });
+
+  it('leaves names unmapped when nothing is close or two departments are equally close', () => {
+    const registry = createRegistry();
+
+    expect(registry.resolveDepartment(' Railway  Book Stall ')).toEqual({ name: 'Railway Book Stall', matchType: 'unmapped' });
+    expect(registry.resolveDepartment('Kitchen 3')).toEqual({ name: 'Kitchen 3', matchType: 'unmapped' });
+  });
+
+  it('matches numbers read from a configuration file as their text', () => {
+    const registry = createRegistry();
+    const raw: unknown = [{ name: 1200, aliases: [1201] }];
+
+    registry.load(registry.parseDefinitions(raw));
+
+    expect(registry.resolveDepartment('1200')).toEqual({ name: '1200', matchType: 'exact' });
+    expect(registry.resolveDepartment('1201')).toEqual({ name: '1200', matchType: 'alias' });
+  });
+
+  it('forgets earlier matches when the registry reloads', () => {
+    const registry = createRegistry();
+    expect(registry.resolveDepartment('Guest Hous').name).toBe('Guest House');
+
+    registry.load([{ name: 'Guest Hostel', order: 1, active: true }]);
+
+    expect(registry.resolveDepartment('Guest Hous')).toEqual({ name: 'Guest Hous', matchType: 'unmapped' });
+  });
+});
+
+describe('DepartmentRegistryService.parseDefinitions', () => {
+  it('reads nested sub-sections, skipping entries without a name', () => {
+    const registry = createRegistry();
+
+    const definitions = registry.parseDefinitions({
+      departments: [
+        { name: 'Temple Hall', order: '2', children: [{ name: 'Sound', active: 'retired' }, 'Lights'] },
+        null,
+        { department: 'Book Stall', status: 'yes' },
+        { order: 3 }
+      ]
+    });
+
+    expect(definitions.map(definition => [definition.name, definition.parent, definition.order, definition.active])).toEqual([
+      ['Temple Hall', undefined, 2, true],
+      ['Sound', 'Temple Hall', 1, false],
+      ['Book Stall', undefined, 3, true]
+    ]);
+  });
+
+  it('rejects configuration without a departments list', () => {
+    expect(() => createRegistry().parseDefinitions({ depts: [] })).toThrow(/"departments" array/);
+  });
+});
+
+describe('DepartmentRegistryService hierarchy', () => {
+  it('rolls sub-sections up to their top-level department', () => {
+    const registry = createRegistry();
+
+    expect(registry.getDepartmentNames()).toEqual(['Guest House', 'Gift Shop', 'Govindas Restaurant', 'Seva Office', 'Kitchen 1', 'Kitchen 2']);
+    expect(registry.getTopLevelDepartment('Deity Seva')).toBe('Seva Office');
+    expect(Array.from(registry.expandDepartments(['Seva Office']))).toEqual(['Seva Office', 'Deity Seva']);
+  });
+
+  it('keeps a snapshot unchanged when the registry reloads', () => {
+    const registry = createRegistry();
+    const snapshot = registry.snapshot();
+
+    registry.load([{ name: 'Guest Hostel', order: 1, active: true }]);
+
+    expect(snapshot.getTopLevelDepartment('Deity Seva')).toBe('Seva Office');
+    expect(snapshot.isKnownDepartment('Guest Hostel')).toBe(false);
+    expect(registry.getDepartmentNames()).toEqual(['Guest Hostel']);
+  });
+});
@@ -0,0 +1,394 @@
+import { DepartmentDefinition, DepartmentNode, DepartmentMatch, IncomeRecord, ReportingSchedule, Weekday } from '../types';
+import { DEFAULT_DEPARTMENTS, DEPARTMENT_FUZZY_MATCH_THRESHOLD } from '../config/departmentConfig';
+import { DEFAULT_REPORTING_SCHEDULE, WEEKDAY_LABELS } from '../config/reportingConfig';
+import { requestService } from './requestService';
+import { entryParsingService } from './entryParsingService';
+
+const REPORTING_FREQUENCIES: ReportingSchedule['frequency'][] = ['daily', 'weekly', 'none'];
+
+export class DepartmentRegistryService {
+  private nodes: Map<string, DepartmentNode> = new Map();
+  private roots: DepartmentNode[] = [];
+  // Normalized name/alias -> canonical department name
+  private lookup: Map<string, string> = new Map();
+  // Raw sheet name -> resolved match (cleared whenever the registry reloads)
+  private matchCache: Map<string, DepartmentMatch> = new Map();
+
+  constructor(definitions: DepartmentDefinition[]) {
+    this.load(definitions);
+  }
+
+  /**
+   * Replace the registry contents with a new set of definitions
+   */
+  load(definitions: DepartmentDefinition[]): void {
+    const nodes = new Map<string, DepartmentNode>();
+
+    definitions.forEach(definition => {
+      if (nodes.has(definition.name)) {
+        console.warn(`Duplicate department "${definition.name}" in registry, keeping the first entry`);
+        return;
+      }
+      nodes.set(definition.name, { ...definition, children: [], depth: 0 });
+    });
+
+    const roots: DepartmentNode[] = [];
+    nodes.forEach(node => {
+      const parent = node.parent ? nodes.get(node.parent) : undefined;
+      if (node.parent && !parent) {
+        console.warn(`Unknown parent "${node.parent}" for department "${node.name}", treating it as top-level`);
+      }
+      if (parent && !this.isAncestor(node, parent, nodes)) {
+        parent.children.push(node);
+      } else {
+        if (parent) {
+          console.warn(`Circular parent reference for department "${node.name}", treating it as top-level`);
+        }
+        roots.push(node);
+      }
+    });
+
+    const sortAndSetDepth = (list: DepartmentNode[], depth: number) => {
+      list.sort((a, b) => a.order - b.order);
+      list.forEach(node => {
+        node.depth = depth;
+        sortAndSetDepth(node.children, depth + 1);
+      });
+    };
+    sortAndSetDepth(roots, 0);
+
+    const lookup = new Map<string, string>();
+    nodes.forEach(node => {
+      [node.name, ...(node.aliases || [])].forEach(candidate => {
+        const key = this.normalizeName(candidate);
+        const existing = lookup.get(key);
+        if (existing && existing !== node.name) {
+          console.warn(`Department name/alias "${candidate}" is ambiguous between "${existing}" and "${node.name}"`);
+          return;
+        }
+        lookup.set(key, node.name);
+      });
+    });
+
+    this.nodes = nodes;
+    this.roots = roots;
+    this.lookup = lookup;
+    this.matchCache = new Map();
+  }
+
+  /**
+   * A copy of the registry as loaded now, which later reloads leave unchanged
+   */
+  snapshot(): DepartmentRegistryService {
+    const copy = new DepartmentRegistryService([]);
+    // load() replaces these rather than changing them, so the copy can share them
+    copy.nodes = this.nodes;
+    copy.roots = this.roots;
+    copy.lookup = this.lookup;
+    return copy;
+  }
+
+  /**
+   * Get top-level departments in display order
+   */
+  getDepartments(includeRetired: boolean = false): DepartmentNode[] {
+    return includeRetired ? [...this.roots] : this.roots.filter(node => node.active);
+  }
+
+  /**
+   * Get top-level department names in display order
+   */
+  getDepartmentNames(includeRetired: boolean = false): string[] {
+    return this.getDepartments(includeRetired).map(node => node.name);
+  }
+
+  /**
+   * Look up a department (at any level) by name
+   */
+  getDepartment(name: string): DepartmentNode | undefined {
+    return this.nodes.get(name);
+  }
+
+  /**
+   * Get the direct sub-sections of a department in display order
+   */
+  getChildren(name: string, includeRetired: boolean = false): DepartmentNode[] {
+    const children = this.nodes.get(name)?.children || [];
+    return includeRetired ? [...children] : children.filter(child => child.active);
+  }
+
+  /**
+   * Whether a department has any active sub-sections
+   */
+  hasSubSections(name: string): boolean {
+    return this.getChildren(name).length > 0;
+  }
+
+  /**
+   * Get a department's name together with every descendant name.
+   * Retired sub-sections are included so historical income still rolls up.
+   */
+  getDescendantNames(name: string): string[] {
+    const node = this.nodes.get(name);
+    if (!node) {
+      return [name];
+    }
+
+    const names: string[] = [];
+    const collect = (current: DepartmentNode) => {
+      names.push(current.name);
+      current.children.forEach(collect);
+    };
+    collect(node);
+    return names;
+  }
+
+  /**
+   * Expand a list of selected departments to include all their sub-sections
+   */
+  expandDepartments(names: string[]): Set<string> {
+    const expanded = new Set<string>();
+    names.forEach(name => {
+      this.getDescendantNames(name).forEach(descendant => expanded.add(descendant));
+    });
+    return expanded;
+  }
+
+  /**
+   * Get the top-level department a (sub-)department belongs to
+   */
+  getTopLevelDepartment(name: string): string | undefined {
+    let node = this.nodes.get(name);
+    while (node && node.parent && this.nodes.has(node.parent) && node.depth > 0) {
+      node = this.nodes.get(node.parent);
+    }
+    return node?.name;
+  }
+
+  /**
+   * Resolve a raw department name from the income sheet to a registry name.
+   * Tries, in order: exact name, alias, case/whitespace/punctuation-insensitive
+   * match, then fuzzy match. Unresolved names come back trimmed as 'unmapped'.
+   * Values that are not text (a number read from a spreadsheet cell) are
+   * matched as their text.
+   */
+  resolveDepartment(rawName: string): DepartmentMatch {
+    const name = String(rawName ?? '');
+    const cached = this.matchCache.get(name);
+    if (cached) {
+      return cached;
+    }
+
+    const match = this.matchDepartment(name);
+    this.matchCache.set(name, match);
+    return match;
+  }
+
+  /**
+   * Resolve the department of every record, keeping the sheet spelling in rawDepartment
+   */
+  resolveRecords(records: IncomeRecord[]): IncomeRecord[] {
+    return records.map(record => {
+      const rawDepartment = record.rawDepartment ?? record.department;
+      return {
+        ...record,
+        department: this.resolveDepartment(rawDepartment).name,
+        rawDepartment
+      };
+    });
+  }
+
+  /**
+   * Whether a department name is known to the registry
+   */
+  isKnownDepartment(name: string): boolean {
+    return this.nodes.has(name);
+  }
+
+  /**
+   * Convert raw config entries (JSON or sheet rows) into department definitions.
+   * Accepts a flat array with parent references, nested "children" arrays,
+   * or an object with a "departments" array.
+   */
+  parseDefinitions(raw: unknown): DepartmentDefinition[] {
+    const entries = entryParsingService.getEntries(raw, 'departments', 'Department configuration');
+    const definitions: DepartmentDefinition[] = [];
+
+    const visit = (entry: Record<string, unknown>, index: number, parentName?: string) => {
+      const name = String(entry.name ?? entry.department ?? '').trim();
+      if (!name) {
+        return;
+      }
+
+      const parent = String(entry.parent ?? parentName ?? '').trim();
+      const order = parseFloat(String(entry.order));
+
+      definitions.push({
+        name,
+        parent: parent || undefined,
+        order: isNaN(order) ? index + 1 : order,
+        icon: entry.icon ? String(entry.icon).trim() : undefined,
+        title: entry.title ? String(entry.title).trim() : undefined,
+        description: entry.description ? String(entry.description).trim() : undefined,
+        styleKey: entry.styleKey ? String(entry.styleKey).trim() : undefined,
+        aliases: this.parseAliases(entry.aliases),
+        active: entryParsingService.parseActiveFlag(entry.active ?? entry.status),
+        reporting: this.parseReporting(name, entry.reporting, entry.closedOn ?? entry.closedDays)
+      });
+
+      if (Array.isArray(entry.children)) {
+        entryParsingService.getEntries(entry.children, 'children', 'Sub-sections').forEach((child, childIndex) => visit(child, childIndex, name));
+      }
+    };
+
+    entries.forEach((entry, index) => visit(entry, index));
+    return definitions;
+  }
+
+  /**
+   * Load department definitions from a JSON file
+   */
+  async fetchDefinitionsFromUrl(url: string): Promise<DepartmentDefinition[]> {
+    return this.parseDefinitions(await requestService.getJson<unknown>(url, { label: `the departments file ${url}` }));
+  }
+
+  private parseAliases(value: unknown): string[] | undefined {
+    const aliases = Array.isArray(value)
+      ? value.map(alias => String(alias).trim())
+      : typeof value === 'string'
+        ? value.split(',').map(alias => alias.trim())
+        : [];
+    const filtered = aliases.filter(alias => alias !== '');
+    return filtered.length > 0 ? filtered : undefined;
+  }
+
+  /**
+   * Read a reporting schedule from config, e.g. "weekly Mon" (or an object with
+   * frequency/dueDay) and closed days "Tue, Wed". Undefined when neither is set.
+   */
+  private parseReporting(name: string, value: unknown, closedValue: unknown): ReportingSchedule | undefined {
+    const closedDays = this.parseWeekdays(name, closedValue);
+    const settings = value && typeof value === 'object' ? value as Record<string, unknown> : null;
+    const words = settings
+      ? [String(settings.frequency ?? ''), String(settings.dueDay ?? '')]
+      : String(value ?? '').toLowerCase().split(/[\s,:()]+/).filter(word => word && word !== 'on');
+
+    if (words.every(word => word.trim() === '') && closedDays.length === 0) {
+      return undefined;
+    }
+
+    const frequency = words[0]?.trim().toLowerCase() || 'daily';
+    if (!REPORTING_FREQUENCIES.includes(frequency as ReportingSchedule['frequency'])) {
+      console.warn(`Unknown reporting frequency "${words[0]}" for department "${name}", expecting daily entries`);
+    }
+    const dueDays = this.parseWeekdays(name, words.slice(1).join(','));
+
+    return {
+      frequency: REPORTING_FREQUENCIES.includes(frequency as ReportingSchedule['frequency'])
+        ? frequency as ReportingSchedule['frequency']
+        : 'daily',
+      closedDays,
+      dueDay: dueDays.length > 0 ? dueDays[0] : DEFAULT_REPORTING_SCHEDULE.dueDay
+    };
+  }
+
+  /**
+   * Read weekday names ("Sunday", "sun", "Tue") from a comma-separated string or an array
+   */
+  private parseWeekdays(name: string, value: unknown): Weekday[] {
+    const entries = Array.isArray(value)
+      ? value.map(day => String(day))
+      : typeof value === 'string'
+        ? value.split(',')
+        : [];
+    const weekdays: Weekday[] = [];
+
+    entries.map(day => day.trim().toLowerCase()).filter(Boolean).forEach(day => {
+      const weekday = (Object.keys(WEEKDAY_LABELS).map(Number) as Weekday[])
+        .find(candidate => day.startsWith(WEEKDAY_LABELS[candidate].toLowerCase()));
+      if (weekday === undefined) {
+        console.warn(`Unknown weekday "${day}" in the reporting schedule of department "${name}"`);
+      } else if (!weekdays.includes(weekday)) {
+        weekdays.push(weekday);
+      }
+    });
+
+    return weekdays;
+  }
+
+  private matchDepartment(rawName: string): DepartmentMatch {
+    const trimmed = rawName.trim().replace(/\s+/g, ' ');
+
+    if (this.nodes.has(rawName)) {
+      return { name: rawName, matchType: 'exact' };
+    }
+
+    const key = this.normalizeName(trimmed);
+    const normalizedMatch = this.lookup.get(key);
+    if (normalizedMatch) {
+      const isAlias = this.normalizeName(normalizedMatch) !== key;
+      return { name: normalizedMatch, matchType: isAlias ? 'alias' : 'normalized' };
+    }
+
+    // Fuzzy match: best similarity above threshold, ignoring ties between departments
+    const candidates = Array.from(this.lookup.entries())
+      .map(([candidate, name]) => ({ name, score: this.similarity(key, candidate) }))
+      .sort((x, y) => y.score - x.score);
+    const best = candidates[0];
+    const tied = candidates.some(candidate => candidate.score === best?.score && candidate.name !== best?.name);
+
+    if (best && !tied && best.score >= DEPARTMENT_FUZZY_MATCH_THRESHOLD) {
+      return { name: best.name, matchType: 'fuzzy' };
+    }
+
+    return { name: trimmed, matchType: 'unmapped' };
+  }
+
+  /**
+   * Lowercase, strip punctuation/apostrophes and collapse whitespace
+   */
+  private normalizeName(name: string): string {
+    return name
+      .toLowerCase()
+      .replace(/[\u2018\u2019'`]/g, '')
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Levenshtein-based similarity between two normalized names (1 = identical)
+   */
+  private similarity(a: string, b: string): number {
+    if (a === b) return 1;
+    const maxLength = Math.max(a.length, b.length);
+    if (maxLength === 0) return 1;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      }
+      previous = current;
+    }
+
+    return 1 - previous[b.length] / maxLength;
+  }
+
+  private isAncestor(candidate: DepartmentNode, node: DepartmentNode, nodes: Map<string, DepartmentNode>): boolean {
+    const visited = new Set<string>();
+    let current: DepartmentNode | undefined = node;
+    while (current && !visited.has(current.name)) {
+      if (current.name === candidate.name) {
+        return true;
+      }
+      visited.add(current.name);
+      current = current.parent ? nodes.get(current.parent) : undefined;
+    }
+    return false;
+  }
+}
+
+// Export singleton instance
+export const departmentRegistryService = new DepartmentRegistryService(DEFAULT_DEPARTMENTS);
@@ -0,0 +1,29 @@
+import { entryParsingService } from './entryParsingService';
+
+describe('EntryParsingService.getEntries', () => {
+  it('reads a bare array or the array under the key, treating other entries as empty', () => {
+    expect(entryParsingService.getEntries([{ name: 'Kitchen' }, 'Hundi'], 'departments', 'Departments'))
+      .toEqual([{ name: 'Kitchen' }, {}]);
+    expect(entryParsingService.getEntries({ departments: [{ name: 'Kitchen' }] }, 'departments', 'Departments'))
+      .toEqual([{ name: 'Kitchen' }]);
+  });
+
+  it('rejects anything else, naming the payload', () => {
+    expect(() => entryParsingService.getEntries({ events: {} }, 'events', 'Events calendar'))
+      .toThrow('Events calendar must be an array or an object with a "events" array');
+  });
+});
+
+describe('EntryParsingService.parseActiveFlag', () => {
+  it('treats a blank flag as active', () => {
+    [undefined, null, '', '  ', true, 'TRUE', 'Yes', 'Active'].forEach(value => {
+      expect(entryParsingService.parseActiveFlag(value)).toBe(true);
+    });
+  });
+
+  it('switches an entry off with the same words for every registry', () => {
+    [false, 0, 'FALSE', 'no', 'N', '0', 'Retired', 'inactive', ' Hidden '].forEach(value => {
+      expect(entryParsingService.parseActiveFlag(value)).toBe(false);
+    });
+  });
+});
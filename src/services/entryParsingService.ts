@@ -0,0 +1,48 @@
+/**
+ * Reads the entries of JSON files and sheet tabs that configure or feed the
+ * dashboard (departments, events, KPIs, balance history), so every source
+ * accepts the same shapes and reads flags the same way.
+ */
+export class EntryParsingService {
+  /**
+   * Entries of an array, or of the array under `key` in an object. Entries
+   * that are not objects come back empty, so callers skip them as incomplete.
+   *
+   * @param label - What the payload is, for the error, e.g. "Events calendar"
+   */
+  getEntries(raw: unknown, key: string, label: string): Record<string, unknown>[] {
+    const list = Array.isArray(raw)
+      ? raw
+      : raw && typeof raw === 'object' && Array.isArray((raw as Record<string, unknown>)[key])
+        ? (raw as Record<string, unknown>)[key] as unknown[]
+        : null;
+
+    if (!list) {
+      throw new Error(`${label} must be an array or an object with a "${key}" array`);
+    }
+
+    return list.map(entry => (entry && typeof entry === 'object' && !Array.isArray(entry) ? entry as Record<string, unknown> : {}));
+  }
+
+  /**
+   * Interpret an active flag from config: blank means active, and false, no,
+   * n, 0, retired, inactive and hidden switch an entry off
+   */
+  parseActiveFlag(value: unknown): boolean {
+    if (value === undefined || value === null) {
+      return true;
+    }
+    if (typeof value === 'boolean') {
+      return value;
+    }
+
+    const normalized = String(value).trim().toLowerCase();
+    if (normalized === '') {
+      return true;
+    }
+    return !['false', 'no', 'n', '0', 'retired', 'inactive', 'hidden'].includes(normalized);
+  }
+}
+
+// Export singleton instance
+export const entryParsingService = new EntryParsingService();
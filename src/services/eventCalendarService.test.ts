@@ -0,0 +1,72 @@
+import { TempleEvent } from '../types';
+import { DEFAULT_EVENT_COLOR, EVENT_CATEGORY_COLORS } from '../config/eventConfig';
+import { EventCalendarService } from './eventCalendarService';
+
+const event = (name: string, start: string, end: string = start, category: string = 'Festival'): TempleEvent => ({
+  name,
+  start,
+  end,
+  category
+});
+
+describe('EventCalendarService.parseEvents', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reads events, ending single-day events on their start', () => {
+    const calendar = new EventCalendarService([]);
+
+    expect(calendar.parseEvents({
+      events: [
+        { name: 'Janmashtami', date: '2025-08-16' },
+        { event: 'Magh Mela', start: '2025-01-13', end: '2025-02-26', type: 'Mela', color: '#9c27b0' }
+      ]
+    })).toEqual([
+      { name: 'Janmashtami', start: '2025-08-16', end: '2025-08-16', category: 'Festival', color: undefined },
+      { name: 'Magh Mela', start: '2025-01-13', end: '2025-02-26', category: 'Mela', color: '#9c27b0' }
+    ]);
+  });
+
+  it('skips events without a name or a readable start, and ignores an end before the start', () => {
+    const calendar = new EventCalendarService([]);
+
+    const events = calendar.parseEvents([
+      { name: 'Kartik', start: '2025-10-08', end: '2025-10-01' },
+      { name: 'Radhashtami' },
+      { start: '2025-08-31' },
+      'Gaura Purnima'
+    ]);
+
+    expect(events.map(parsed => [parsed.name, parsed.start, parsed.end])).toEqual([['Kartik', '2025-10-08', '2025-10-08']]);
+    expect(console.warn).toHaveBeenCalledTimes(3);
+  });
+
+  it('rejects a calendar without an events list', () => {
+    expect(() => new EventCalendarService([]).parseEvents({ festivals: [] })).toThrow(/"events" array/);
+  });
+});
+
+describe('EventCalendarService lookups', () => {
+  const calendar = new EventCalendarService([
+    event('Kartik', '2025-10-08', '2025-11-05', 'Month'),
+    event('Govardhan Puja', '2025-10-22'),
+    event('Gaura Purnima', '2026-03-03', '2026-03-03', 'Custom')
+  ]);
+
+  it('finds the events on a date and overlapping a range', () => {
+    expect(calendar.getEventsForDate('2025-10-22').map(found => found.name)).toEqual(['Kartik', 'Govardhan Puja']);
+    expect(calendar.getEventsInRange({ start: '2025-11-01', end: '2026-02-28' }).map(found => found.name)).toEqual(['Kartik']);
+    expect(calendar.isEventDay('2025-11-06')).toBe(false);
+  });
+
+  it('colours events by their own colour, then their category', () => {
+    expect(calendar.getEventColor({ ...event('Ratha Yatra', '2025-06-27'), color: '#ff0000' })).toBe('#ff0000');
+    expect(calendar.getEventColor(event('Kartik', '2025-10-08', '2025-11-05', 'Month'))).toBe(EVENT_CATEGORY_COLORS.month);
+    expect(calendar.getEventColor(event('Gaura Purnima', '2026-03-03', '2026-03-03', 'Custom'))).toBe(DEFAULT_EVENT_COLOR);
+  });
+});
@@ -0,0 +1,102 @@
+import { TempleEvent, DateRange, LocalDate } from '../types';
+import { DEFAULT_EVENTS, EVENT_CATEGORY_COLORS, DEFAULT_EVENT_COLOR } from '../config/eventConfig';
+import { incomeDateOrder } from '../config/dateConfig';
+import { dateService } from './dateService';
+import { requestService } from './requestService';
+import { entryParsingService } from './entryParsingService';
+
+export class EventCalendarService {
+  private events: TempleEvent[] = [];
+
+  constructor(events: TempleEvent[]) {
+    this.load(events);
+  }
+
+  /**
+   * Replace the calendar contents, sorted by start date
+   */
+  load(events: TempleEvent[]): void {
+    this.events = [...events].sort((a, b) => a.start.localeCompare(b.start) || a.name.localeCompare(b.name));
+  }
+
+  /**
+   * A copy of the calendar as loaded now, which later reloads leave unchanged
+   */
+  snapshot(): EventCalendarService {
+    return new EventCalendarService(this.events);
+  }
+
+  /**
+   * Get all events in date order
+   */
+  getEvents(): TempleEvent[] {
+    return [...this.events];
+  }
+
+  /**
+   * Get the events taking place on a date
+   */
+  getEventsForDate(date: LocalDate): TempleEvent[] {
+    return this.events.filter(event => dateService.isWithinRange(date, event.start, event.end));
+  }
+
+  /**
+   * Get the events overlapping a date range
+   */
+  getEventsInRange(range: DateRange): TempleEvent[] {
+    return this.events.filter(event => event.start <= range.end && event.end >= range.start);
+  }
+
+  /**
+   * Whether any event takes place on a date
+   */
+  isEventDay(date: LocalDate): boolean {
+    return this.events.some(event => dateService.isWithinRange(date, event.start, event.end));
+  }
+
+  /**
+   * Colour for an event's chart band and tag
+   */
+  getEventColor(event: TempleEvent): string {
+    return event.color || EVENT_CATEGORY_COLORS[event.category.toLowerCase()] || DEFAULT_EVENT_COLOR;
+  }
+
+  /**
+   * Convert raw calendar entries (JSON or sheet rows) into events.
+   * Accepts an array or an object with an "events" array; entries without a
+   * name or a readable start date are skipped.
+   */
+  parseEvents(raw: unknown): TempleEvent[] {
+    const entries = entryParsingService.getEntries(raw, 'events', 'Events calendar');
+    const events: TempleEvent[] = [];
+    entries.forEach(entry => {
+      const name = String(entry.name ?? entry.event ?? '').trim();
+      const start = dateService.parse(entry.start ?? entry.startDate ?? entry.date, incomeDateOrder);
+      if (!name || !start) {
+        console.warn('Skipping event without a name or readable start date:', entry);
+        return;
+      }
+
+      const end = dateService.parse(entry.end ?? entry.endDate, incomeDateOrder) || start;
+      events.push({
+        name,
+        start,
+        end: end < start ? start : end,
+        category: String(entry.category ?? entry.type ?? '').trim() || 'Festival',
+        color: entry.color ? String(entry.color).trim() : undefined
+      });
+    });
+
+    return events;
+  }
+
+  /**
+   * Load events from a JSON file
+   */
+  async fetchEventsFromUrl(url: string): Promise<TempleEvent[]> {
+    return this.parseEvents(await requestService.getJson<unknown>(url, { label: `the events file ${url}` }));
+  }
+}
+
+// Export singleton instance
+export const eventCalendarService = new EventCalendarService(DEFAULT_EVENTS);
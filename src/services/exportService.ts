@@ -1,4 +1,6 @@
 import { IncomeRecord } from '../types';
+import { isDemoMode, DEMO_WATERMARK, DEMO_DESCRIPTION } from '../config/demoConfig';
+import { PAYMENT_CHANNELS, PAYMENT_CHANNEL_LABELS } from '../config/paymentChannelConfig';
 
 export class ExportService {
   /**
@@ -9,7 +11,21 @@ export class ExportService {
       throw new Error('No data to export');
     }
     
-    const headers = ['Date', 'Department', 'Cash Income', 'Online Income', 'Total Income'];
+    // Channel columns only when some record has a breakdown, so Cash/Online-only exports keep their layout
+    const channels = data.some(record => record.channels) ? PAYMENT_CHANNELS : [];
+    const headers = [
+      'Date',
+      'Department',
+      'Cash Income',
+      'Online Income',
+      ...channels.map(channel => PAYMENT_CHANNEL_LABELS[channel]),
+      'Total Income',
+      'Source',
+      'Receipt No',
+      'Payment Mode',
+      'Counter',
+      'Remarks'
+    ];
     const csvContent = [
       headers.join(','),
       ...data.map(record => [
@@ -17,11 +33,16 @@ export class ExportService {
         `"${record.department}"`,
         record.cash,
         record.online,
-        record.cash + record.online
+        ...channels.map(channel => record.channels?.[channel] ?? ''),
+        record.cash + record.online,
+        // Imported rows name their file; everything else came from the configured data source
+        `"${(record.source || 'Data source').replace(/"/g, '""')}"`,
+        ...[record.receiptNo, record.paymentMode, record.counter, record.remarks]
+          .map(value => (value ? `"${value.replace(/"/g, '""')}"` : ''))
       ].join(','))
     ].join('\n');
     
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const blob = new Blob([this.addWatermark(csvContent)], { type: 'text/csv;charset=utf-8;' });
     const url = window.URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
@@ -54,7 +75,7 @@ export class ExportService {
       )
     ].join('\n');
     
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+    const blob = new Blob([this.addWatermark(csvContent)], { type: 'text/csv;charset=utf-8;' });
     const url = window.URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
@@ -69,7 +90,7 @@ export class ExportService {
   exportChartAsImage(canvas: HTMLCanvasElement, filename: string): void {
     const link = document.createElement('a');
     link.download = filename;
-    link.href = canvas.toDataURL('image/png');
+    link.href = this.watermarkCanvas(canvas).toDataURL('image/png');
     link.click();
   }
 
@@ -78,7 +99,7 @@ export class ExportService {
    */
   generateFilename(prefix: string, extension: string): string {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
-    return `${prefix}_${timestamp}.${extension}`;
+    return `${isDemoMode ? 'DEMO_' : ''}${prefix}_${timestamp}.${extension}`;
   }
 
   /**
@@ -102,6 +123,42 @@ export class ExportService {
     
     return { isValid: true };
   }
+
+  /**
+   * Put a demo-data notice above the CSV header row while demo mode is on
+   */
+  private addWatermark(csvContent: string): string {
+    return isDemoMode ? `"${DEMO_WATERMARK} - ${DEMO_DESCRIPTION}"\n${csvContent}` : csvContent;
+  }
+
+  /**
+   * Copy of a chart canvas stamped with the demo watermark while demo mode is on
+   */
+  private watermarkCanvas(canvas: HTMLCanvasElement): HTMLCanvasElement {
+    if (!isDemoMode) {
+      return canvas;
+    }
+
+    const copy = document.createElement('canvas');
+    copy.width = canvas.width;
+    copy.height = canvas.height;
+    const context = copy.getContext('2d');
+    if (!context) {
+      return canvas;
+    }
+
+    context.drawImage(canvas, 0, 0);
+    context.save();
+    context.translate(copy.width / 2, copy.height / 2);
+    context.rotate(-Math.PI / 8);
+    context.font = `bold ${Math.round(Math.min(copy.width, copy.height) / 6)}px sans-serif`;
+    context.fillStyle = 'rgba(220, 53, 69, 0.25)';
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(DEMO_WATERMARK, 0, 0);
+    context.restore();
+    return copy;
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,74 @@
+import { fileImportService } from './fileImportService';
+
+// jsdom's File has no text(), so give each test file its own
+const csvFile = (name: string, text: string): File => {
+  const file = new File([text], name, { type: 'text/csv' });
+  Object.defineProperty(file, 'text', { value: () => Promise.resolve(text) });
+  return file;
+};
+
+describe('FileImportService.readFile', () => {
+  it('finds the header below a title, keeping blank rows so row numbers match the file', async () => {
+    const table = await fileImportService.readFile(csvFile('gift-shop.csv', [
+      'Gift Shop statement,September 2025',
+      '',
+      'Txn Date,Category,Cash,Digital',
+      '01/09/2025,Gift Shop,1200,300',
+      '',
+      '02/09/2025,Gift Shop,800,'
+    ].join('\n')));
+
+    expect(table.headers).toEqual(['Txn Date', 'Category', 'Cash', 'Digital']);
+    expect(table.firstRowNumber).toBe(4);
+    expect(table.rows).toHaveLength(3);
+    expect(table.dataRowCount).toBe(2);
+    expect(table.preamble).toEqual([['Gift Shop statement', 'September 2025'], ['']]);
+  });
+
+  it('asks for old Excel workbooks to be saved as .xlsx and rejects other files', async () => {
+    await expect(fileImportService.readFile(csvFile('march.xls', ''))).rejects.toThrow(/save it as \.xlsx or \.csv/);
+    await expect(fileImportService.readFile(csvFile('march.pdf', ''))).rejects.toThrow('Unsupported file type: march.pdf');
+    await expect(fileImportService.readFile(csvFile('empty.csv', ''))).rejects.toThrow('empty.csv has no data');
+  });
+});
+
+describe('FileImportService columns and import', () => {
+  const table = {
+    fileName: 'kitchen.csv',
+    headers: ['Txn Date', 'Category', 'Cash', 'Digital'],
+    rows: [
+      ['2025-09-01', 'Kitchen', '500', '250'],
+      ['', 'Kitchen', '100', '0'],
+      ['2025-09-02', 'Kitchen', 'abc', '10']
+    ],
+    firstRowNumber: 2,
+    dataRowCount: 3,
+    preamble: []
+  };
+
+  it('guesses required columns the sheet schema does not find from similar headers', () => {
+    const mapping = fileImportService.detectColumns(table);
+
+    expect([mapping.date, mapping.department, mapping.cash, mapping.online]).toEqual([0, 1, 2, 3]);
+  });
+
+  it('tags records with their file, counting skipped rows and reporting issues by file row', () => {
+    const { importData, skippedRows } = fileImportService.buildImport(table, fileImportService.detectColumns(table));
+
+    expect(importData.records.map(record => [record.date, record.cash, record.online, record.source])).toEqual([
+      ['2025-09-01', 500, 250, 'kitchen.csv'],
+      ['2025-09-02', 0, 10, 'kitchen.csv']
+    ]);
+    expect(skippedRows).toBe(1);
+    expect(importData.issues.map(issue => [issue.row, issue.field, issue.source])).toEqual([
+      [3, 'date', 'kitchen.csv'],
+      [4, 'cash', 'kitchen.csv']
+    ]);
+  });
+
+  it('needs every required column mapped', () => {
+    const mapping = { ...fileImportService.detectColumns(table), online: -1 };
+
+    expect(() => fileImportService.buildImport(table, mapping)).toThrow('Choose a column for Online');
+  });
+});
@@ -0,0 +1,186 @@
+import { readSheet } from 'read-excel-file/universal';
+import { IncomeColumnMapping, IncomeImport } from '../types';
+import { googleSheetsService } from './googleSheetsService';
+import { payloadParsingService } from './payloadParsingService';
+import { dataQualityService } from './dataQualityService';
+import { INCOME_FIELDS, INCOME_FIELD_LABELS } from '../config/incomeSheetConfig';
+
+/**
+ * Cells read from an uploaded file, before any column mapping
+ */
+export interface ImportedTable {
+  fileName: string;
+  headers: string[];
+  // Rows below the header, blank ones included so positions match the file
+  rows: any[][];
+  // Row number of rows[0] in the file, for the data quality report
+  firstRowNumber: number;
+  // Rows with at least one filled cell
+  dataRowCount: number;
+  // Rows above the header, such as a statement's account details
+  preamble: unknown[][];
+}
+
+const SUPPORTED_EXTENSIONS = ['.csv', '.xlsx'];
+
+// Statements often start with a title or a blank line, so look this far down for the header row
+const HEADER_SEARCH_ROWS = 10;
+
+// Header fragments suggesting a required column when the file does not follow the sheet's schema
+const HEADER_HINTS: Record<string, string[]> = {
+  date: ['date', 'day'],
+  department: ['department', 'dept', 'category', 'location'],
+  cash: ['cash'],
+  online: ['online', 'digital']
+};
+
+/**
+ * Reads department statements uploaded as CSV or Excel files and turns them
+ * into income records. Columns are matched with the income sheet's column
+ * schema, and the caller can override the mapping before importing.
+ */
+export class FileImportService {
+  /**
+   * Whether the file looks like a CSV or Excel workbook
+   */
+  isSupported(file: File): boolean {
+    const name = file.name.toLowerCase();
+    return SUPPORTED_EXTENSIONS.some(extension => name.endsWith(extension));
+  }
+
+  /**
+   * Whether the file is a pre-2007 Excel workbook, which has to be saved as
+   * .xlsx or .csv before it can be read
+   */
+  isOldExcel(file: File): boolean {
+    return file.name.toLowerCase().endsWith('.xls');
+  }
+
+  /**
+   * Read the first worksheet (or the only table of a CSV) into a header row
+   * and data rows. Callers that know their header (such as bank statements,
+   * which start with many lines of account details) can say how to spot it.
+   */
+  async readFile(file: File, isHeaderRow?: (cells: string[]) => boolean): Promise<ImportedTable> {
+    if (this.isOldExcel(file)) {
+      throw new Error(`${file.name} is an old Excel (.xls) workbook. Open it in Excel, save it as .xlsx or .csv and upload that file`);
+    }
+    if (!this.isSupported(file)) {
+      throw new Error(`Unsupported file type: ${file.name}. Use a .csv or .xlsx file`);
+    }
+
+    // One entry per line or worksheet row, blank ones included, so cells[i] is row i + 1
+    const cells = file.name.toLowerCase().endsWith('.csv')
+      ? payloadParsingService.parseCsv(await file.text(), true)
+      : await this.readWorkbook(file);
+
+    const headerIndex = isHeaderRow
+      ? cells.findIndex(row => isHeaderRow(row.map(cell => String(cell ?? '').trim())))
+      : this.findHeaderRow(cells);
+    if (headerIndex === -1) {
+      throw new Error(isHeaderRow ? `${file.name} has no recognizable header row` : `${file.name} has no data`);
+    }
+
+    const rows = cells.slice(headerIndex + 1);
+    return {
+      fileName: file.name,
+      headers: cells[headerIndex].map(cell => String(cell ?? '').trim()),
+      rows,
+      firstRowNumber: headerIndex + 2,
+      dataRowCount: rows.filter(row => !this.isBlankRow(row)).length,
+      preamble: cells.slice(0, headerIndex)
+    };
+  }
+
+  /**
+   * Starting column mapping for a file: the income sheet's column schema,
+   * with any required column it does not find guessed from similar header
+   * names. The user confirms the mapping in the preview before importing.
+   */
+  detectColumns(table: ImportedTable): IncomeColumnMapping {
+    const { mapping, missing } = googleSheetsService.resolveIncomeColumns(table.headers);
+    const names = table.headers.map(header => header.toLowerCase());
+    const taken = INCOME_FIELDS.map(field => mapping[field]);
+
+    missing.forEach(field => {
+      const index = names.findIndex((name, column) =>
+        taken.indexOf(column) === -1 && HEADER_HINTS[field].some(hint => name.includes(hint))
+      );
+      if (index !== -1) {
+        mapping[field] = index;
+        taken.push(index);
+      }
+    });
+
+    return mapping;
+  }
+
+  /**
+   * Build an import from a table and a complete column mapping. Rows without
+   * a department or a readable date are left out and counted as skipped;
+   * these and any other problems are listed in the import's issues.
+   */
+  buildImport(table: ImportedTable, mapping: IncomeColumnMapping): { importData: IncomeImport; skippedRows: number } {
+    const unmapped = googleSheetsService.findMissingIncomeColumns(mapping);
+    if (unmapped.length > 0) {
+      throw new Error(`Choose a column for ${unmapped.map(field => INCOME_FIELD_LABELS[field]).join(', ')}`);
+    }
+
+    const importedAt = new Date().toISOString();
+    const records = googleSheetsService
+      .mapIncomeRows(table.rows, mapping)
+      .map(record => ({ ...record, source: table.fileName }));
+    const issues = dataQualityService
+      .validateIncomeRows(table.rows, mapping, table.firstRowNumber)
+      .map(issue => ({ ...issue, source: table.fileName }));
+
+    return {
+      importData: {
+        id: `${table.fileName}-${importedAt}`,
+        fileName: table.fileName,
+        importedAt,
+        records,
+        issues
+      },
+      skippedRows: table.dataRowCount - records.length
+    };
+  }
+
+  /**
+   * Cells of the first worksheet, from A1 with blank rows kept. Date cells
+   * are turned into ISO dates, which every date parser understands; empty
+   * cells become ''.
+   */
+  private async readWorkbook(file: File): Promise<any[][]> {
+    const rows = await readSheet(file);
+    return rows.map(row => row.map(cell => {
+      if (cell instanceof Date) {
+        // Excel dates carry no time zone; the reader returns them at UTC midnight
+        return cell.toISOString().slice(0, 10);
+      }
+      return cell ?? '';
+    }));
+  }
+
+  private isBlankRow(row: any[]): boolean {
+    return row.every(cell => String(cell ?? '').trim() === '');
+  }
+
+  /**
+   * First row that names a date column, else the first row with at least
+   * two filled cells; -1 for an empty file
+   */
+  private findHeaderRow(cells: any[][]): number {
+    const candidates = cells.slice(0, HEADER_SEARCH_ROWS);
+    const namedHeader = candidates.findIndex(row =>
+      row.some(cell => typeof cell === 'string' && cell.toLowerCase().includes('date'))
+    );
+    if (namedHeader !== -1) {
+      return namedHeader;
+    }
+    return candidates.findIndex(row => row.filter(cell => String(cell ?? '').trim() !== '').length >= 2);
+  }
+}
+
+// Export singleton instance
+export const fileImportService = new FileImportService();
@@ -0,0 +1,70 @@
+import { IncomeColumnSchema } from '../types';
+import { incomeColumnSchema } from '../config/incomeSheetConfig';
+import { googleSheetsService } from './googleSheetsService';
+import { ParseError } from './requestErrors';
+
+describe('GoogleSheetsService.resolveIncomeColumns', () => {
+  it('finds columns by header name, ignoring case and surrounding spaces', () => {
+    const { mapping, missing } = googleSheetsService.resolveIncomeColumns([' date ', 'DEPT', 'Cash Amount', 'Online', 'Remarks']);
+
+    expect([mapping.date, mapping.department, mapping.cash, mapping.online, mapping.remarks, mapping.receiptNo]).toEqual([0, 1, 2, 3, 4, -1]);
+    expect(missing).toEqual([]);
+  });
+
+  it('finds columns by letter, unless a header has that name', () => {
+    const schema: IncomeColumnSchema = { ...incomeColumnSchema, date: ['B'], department: ['A'], cash: ['AB'], online: ['UPI', 'D'] };
+
+    const { mapping, missing } = googleSheetsService.resolveIncomeColumns(['Dept', 'When', 'Cash', 'UPI'], schema);
+
+    expect([mapping.date, mapping.department, mapping.online]).toEqual([1, 0, 3]);
+    expect(missing).toEqual(['cash']);
+  });
+});
+
+describe('GoogleSheetsService.parseIncomeValues', () => {
+  it('fails with the missing columns and the headers found instead of guessing', () => {
+    const values = [['Day', 'Department', 'Cash', 'Digital'], ['2025-09-01', 'Kitchen', '1', '2']];
+
+    expect(() => googleSheetsService.parseIncomeValues(values)).toThrow(ParseError);
+    expect(() => googleSheetsService.parseIncomeValues(values))
+      .toThrow(/missing required columns: Date \(looked for "Date"\); Online .*Sheet headers: "Day", "Department", "Cash", "Digital"/);
+  });
+
+  it('takes Online as the sum of the payment channel columns when the sheet has none', () => {
+    const { records } = googleSheetsService.parseIncomeValues([['Date', 'Department', 'Cash', 'UPI', 'Card'], ['2025-09-01', 'Kitchen', '100', '40', '60']]);
+
+    expect(records[0].online).toBe(100);
+    expect(records[0].channels).toEqual({ upi: 40, card: 60 });
+  });
+
+  it('reads the optional fields when present', () => {
+    const { records } = googleSheetsService.parseIncomeValues([
+      ['Date', 'Department', 'Cash', 'Online', 'Receipt No', 'Counter'],
+      ['2025-09-01', 'Kitchen', '500', '250', 'R-101', '']
+    ]);
+
+    expect(records).toEqual([{ date: '2025-09-01', department: 'Kitchen', rawDepartment: 'Kitchen', cash: 500, online: 250, receiptNo: 'R-101' }]);
+  });
+});
+
+describe('GoogleSheetsService.parseBankHistoryValues', () => {
+  it('reads snapshots by header name, in any column order', () => {
+    expect(googleSheetsService.parseBankHistoryValues([
+      ['Balance', 'Account Number', 'Date', 'Bank Details', 'Time'],
+      ['1,20,000', '50100012345678', '01/09/2025', 'HDFC Bank', '18:00'],
+      ['95000.50', '50100012345678', '02/09/2025', 'HDFC Bank', '']
+    ])).toEqual([
+      { date: '2025-09-01', time: '18:00', accountNumber: '50100012345678', bankDetails: 'HDFC Bank', balance: 120000 },
+      { date: '2025-09-02', time: undefined, accountNumber: '50100012345678', bankDetails: 'HDFC Bank', balance: 95000.5 }
+    ]);
+  });
+
+  it('gives no snapshots for a tab with only a header row', () => {
+    expect(googleSheetsService.parseBankHistoryValues([['Date', 'Account Number', 'Balance']])).toEqual([]);
+  });
+
+  it('does not take a bank name column for the account', () => {
+    expect(() => googleSheetsService.parseBankHistoryValues([['Date', 'Bank', 'Balance'], ['01/09/2025', 'SBI', '100']]))
+      .toThrow(new ParseError('Bank history sheet must have "Date", "Account Number" (or "Bank Details") and "Balance" columns'));
+  });
+});
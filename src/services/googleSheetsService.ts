@@ -1,6 +1,33 @@
-import { GoogleSheetsConfig, IncomeRecord, GoogleSheetsService, BankDetailsConfig, BankDetails } from '../types';
+import { GoogleSheetsConfig, IncomeRecord, GoogleSheetsService, BankDetailsConfig, BankDetails, DepartmentDefinition, TempleEvent, KpiDefinition, BalanceSnapshot, IncomeColumnMapping, IncomeColumnSchema, IncomeField, IncomeDataset, PaymentChannelBreakdown, DashboardBundle, SheetBatchRanges, SheetRange, SheetValues } from '../types';
+import { departmentRegistryService } from './departmentRegistryService';
+import { eventCalendarService } from './eventCalendarService';
+import { kpiRegistryService } from './kpiRegistryService';
+import { bankHistoryService } from './bankHistoryService';
+import { dateService } from './dateService';
+import { dataProcessingService } from './dataProcessingService';
+import { dataQualityService } from './dataQualityService';
+import { requestService } from './requestService';
+import { NotFoundError, ParseError } from './requestErrors';
+import { incomeDateOrder, bankDateOrder } from '../config/dateConfig';
+import { incomeColumnSchema, INCOME_FIELDS, REQUIRED_INCOME_FIELDS, INCOME_FIELD_LABELS } from '../config/incomeSheetConfig';
+import { PAYMENT_CHANNELS } from '../config/paymentChannelConfig';
 
+// References of one to three capital letters ("C", "AB") are column letters unless a header has that name ("UPI")
+const COLUMN_LETTER_PATTERN = /^[A-Z]{1,3}$/;
+
+const OPTIONAL_TEXT_FIELDS: ('receiptNo' | 'paymentMode' | 'counter' | 'remarks')[] = ['receiptNo', 'paymentMode', 'counter', 'remarks'];
+
+/**
+ * Reads and parses the temple's Google Sheets. Runs only in the serverless
+ * API (see api/), which holds the API key; the browser talks to that API
+ * through sheetsApiService instead.
+ */
 export class GoogleSheetsServiceImpl implements GoogleSheetsService {
+  /**
+   * @param baseUrl - Sheets API origin, overridden with SHEETS_API_BASE_URL to run against a local stub
+   */
+  constructor(private baseUrl: string = process.env.SHEETS_API_BASE_URL || 'https://sheets.googleapis.com') {}
+
   /**
    * Test connection to Google Sheets
    */
@@ -10,130 +37,209 @@ export class GoogleSheetsServiceImpl implements GoogleSheetsService {
     }
     
     try {
-      const url = `https://sheets.googleapis.com/v4/spreadsheets/${config.spreadsheetId}/values/${config.range}?key=${config.apiKey}`;
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
+      const values = await this.fetchValues(config, 'the income sheet');
       
       // Check if we got valid data
-      if (!data.values || data.values.length === 0) {
-        throw new Error('No data found in the specified range');
+      if (values.length === 0) {
+        throw new NotFoundError(`No data found in the range "${config.range}". Check the sheet tab name and range.`);
       }
       
       return true;
       
     } catch (error) {
       console.error('Google Sheets connection test failed:', error);
-      throw new Error('Failed to connect to Google Sheets. Please check your credentials.');
+      throw error;
     }
   }
 
   /**
    * Fetch data from Google Sheets
    */
-  async fetchData(config: GoogleSheetsConfig): Promise<IncomeRecord[]> {
+  async fetchData(config: GoogleSheetsConfig): Promise<IncomeDataset> {
     if (!config.apiKey || !config.spreadsheetId) {
       throw new Error('API key and Spreadsheet ID are required');
     }
     
     try {
-      const url = `https://sheets.googleapis.com/v4/spreadsheets/${config.spreadsheetId}/values/${config.range}?key=${config.apiKey}`;
-      
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('API Error Response:', errorText);
-        throw new Error(`HTTP error! status: ${response.status} - ${errorText}`);
-      }
-      
-      const data = await response.json();
-      return this.parseGoogleSheetsData(data);
+      const values = await this.fetchValues(config, 'the income sheet');
+      return this.parseIncomeValues(values);
       
     } catch (error) {
       console.error('Error fetching data from Google Sheets:', error);
-      throw new Error(`Failed to fetch data from Google Sheets: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw error;
     }
   }
 
   /**
-   * Parse Google Sheets API response into IncomeRecord array
+   * Parse sheet rows (header row first) into income records, with the data
+   * quality issues found in them. Also used for CSV files, which have the
+   * same layout as the sheet.
    */
-  private parseGoogleSheetsData(data: any): IncomeRecord[] {
-    if (!data.values || data.values.length < 2) {
+  parseIncomeValues(values: any[][]): IncomeDataset {
+    if (!values || values.length < 2) {
       console.warn('No data or insufficient rows in spreadsheet');
-      return [];
+      return { records: [], issues: [] };
     }
     
-    const [headers, ...rows] = data.values;
+    const [headers, ...rows] = values;
+    const { mapping, missing } = this.resolveIncomeColumns(headers);
     
-    // Find column indices - be more flexible with column names
-    const dateIndex = headers.findIndex((h: string) => 
-      h.toLowerCase().includes('date') || 
-      h.toLowerCase().includes('day') ||
-      h.toLowerCase().includes('time')
-    );
-    const departmentIndex = headers.findIndex((h: string) => 
-      h.toLowerCase().includes('department') || 
-      h.toLowerCase().includes('dept') ||
-      h.toLowerCase().includes('category') ||
-      h.toLowerCase().includes('location')
-    );
-    const cashIndex = headers.findIndex((h: string) => 
-      h.toLowerCase().includes('cash') || 
-      h.toLowerCase().includes('cash amount') ||
-      h.toLowerCase().includes('cash revenue')
-    );
-    const onlineIndex = headers.findIndex((h: string) => 
-      h.toLowerCase().includes('online') || 
-      h.toLowerCase().includes('digital') ||
-      h.toLowerCase().includes('card') ||
-      h.toLowerCase().includes('online amount') ||
-      h.toLowerCase().includes('online revenue')
-    );
+    // A missing required column is a configuration problem; never guess which column holds the data
+    if (missing.length > 0) {
+      throw new ParseError(this.describeMissingColumns(missing, headers));
+    }
     
-    // If we can't find the expected columns, try to use the first 4 columns as fallback
-    if (dateIndex === -1 || departmentIndex === -1 || cashIndex === -1 || onlineIndex === -1) {
-      console.warn('Could not find expected column names, using first 4 columns as fallback');
-      if (headers.length < 4) {
-        throw new Error('Spreadsheet must have at least 4 columns: Date, Department, Cash, Online');
+    return {
+      records: this.mapIncomeRows(rows, mapping),
+      issues: dataQualityService.validateIncomeRows(rows, mapping)
+    };
+  }
+
+  /**
+   * Locate each income field's column using the declared schema (see
+   * incomeSheetConfig.ts). Fields that cannot be found are -1; required ones
+   * are also listed in `missing`.
+   */
+  resolveIncomeColumns(
+    headers: any[],
+    schema: IncomeColumnSchema = incomeColumnSchema
+  ): { mapping: IncomeColumnMapping; missing: IncomeField[] } {
+    const names = headers.map(header => String(header ?? '').trim().toLowerCase());
+    const mapping = {} as IncomeColumnMapping;
+    
+    INCOME_FIELDS.forEach(field => {
+      mapping[field] = -1;
+      schema[field].some(reference => {
+        const headerIndex = names.indexOf(reference.trim().toLowerCase());
+        const index = headerIndex === -1 && COLUMN_LETTER_PATTERN.test(reference)
+          ? this.columnLetterToIndex(reference)
+          : headerIndex;
+        if (index !== -1 && index < headers.length) {
+          mapping[field] = index;
+          return true;
+        }
+        return false;
+      });
+    });
+    
+    return { mapping, missing: this.findMissingIncomeColumns(mapping) };
+  }
+
+  /**
+   * Required fields a mapping leaves without a column
+   */
+  findMissingIncomeColumns(mapping: IncomeColumnMapping): IncomeField[] {
+    // Sheets with channel columns may leave out Online; it becomes the channels' sum
+    const hasChannels = PAYMENT_CHANNELS.some(channel => mapping[channel] !== -1);
+    return REQUIRED_INCOME_FIELDS.filter(field =>
+      mapping[field] === -1 && !(field === 'online' && hasChannels)
+    );
+  }
+
+  /**
+   * Build income records from data rows using a column mapping
+   */
+  mapIncomeRows(rows: any[][], mapping: IncomeColumnMapping): IncomeRecord[] {
+    // Map sheet spellings ("Govindas Res", "govindas ") onto registry department names
+    return departmentRegistryService.resolveRecords(this.normalizeRecordDates(rows.map((row: any[]) => {
+      const record: IncomeRecord = {
+        date: row[mapping.date] || '',
+        // Spreadsheet cells may hold numbers; those rows are left out below
+        department: String(row[mapping.department] ?? ''),
+        // Unreadable amounts count as 0 and are reported by dataQualityService
+        cash: dataQualityService.parseAmount(row[mapping.cash]) ?? 0,
+        online: mapping.online === -1 ? 0 : dataQualityService.parseAmount(row[mapping.online]) ?? 0
+      };
+      
+      const channels = this.readChannels(row, mapping);
+      if (channels) {
+        record.channels = channels;
+        // A blank Online cell next to channel amounts means "the sum of the channels"
+        if (mapping.online === -1 || String(row[mapping.online] ?? '').trim() === '') {
+          record.online = dataProcessingService.sumChannels(channels);
+        }
       }
       
-      return rows.map((row: any[]) => ({
-        date: row[0] || '',
-        department: row[1] || '',
-        cash: parseFloat(row[2]) || 0,
-        online: parseFloat(row[3]) || 0
-      })).filter((record: IncomeRecord) => record.date && record.department);
-    }
+      OPTIONAL_TEXT_FIELDS.forEach(field => {
+        const value = mapping[field] === -1 ? '' : String(row[mapping[field]] ?? '').trim();
+        if (value) {
+          record[field] = value;
+        }
+      });
+      
+      return record;
+    })));
+  }
+
+  /**
+   * Channel amounts of a row, or undefined when the sheet has no channel
+   * columns or the row leaves them all blank
+   */
+  private readChannels(row: any[], mapping: IncomeColumnMapping): PaymentChannelBreakdown | undefined {
+    let channels: PaymentChannelBreakdown | undefined;
     
-    return rows.map((row: any[]) => ({
-      date: row[dateIndex] || '',
-      department: row[departmentIndex] || '',
-      cash: parseFloat(row[cashIndex]) || 0,
-      online: parseFloat(row[onlineIndex]) || 0
-    })).filter((record: IncomeRecord) => record.date && record.department);
+    PAYMENT_CHANNELS.forEach(channel => {
+      if (mapping[channel] === -1 || String(row[mapping[channel]] ?? '').trim() === '') {
+        return;
+      }
+      channels = channels || {};
+      channels[channel] = dataQualityService.parseAmount(row[mapping[channel]]) ?? 0;
+    });
+    
+    return channels;
+  }
+
+  /**
+   * Error message naming the missing columns, what was looked for and what the sheet has
+   */
+  private describeMissingColumns(missing: IncomeField[], headers: any[]): string {
+    const fields = missing
+      .map(field => `${INCOME_FIELD_LABELS[field]} (looked for ${incomeColumnSchema[field].map(name => `"${name}"`).join(', ')})`)
+      .join('; ');
+    const found = headers.map(header => `"${String(header ?? '').trim()}"`).join(', ');
+    return `Income sheet is missing required column${missing.length > 1 ? 's' : ''}: ${fields}. ` +
+      `Sheet headers: ${found || 'none'}. Rename the columns or set INCOME_COLUMNS (see incomeSheetConfig.ts).`;
   }
 
   /**
-   * Get sample data for demonstration
+   * Zero-based index of a column letter ("A" → 0, "AA" → 26)
    */
-  private getSampleData(): IncomeRecord[] {
-    return [
-      { date: "2025-09-24", department: "Guest House", cash: 8000, online: 12000 },
-      { date: "2025-09-24", department: "Seva Office", cash: 5000, online: 8000 },
-      { date: "2025-09-24", department: "Gift Shop", cash: 2800, online: 1200 },
-      { date: "2025-09-23", department: "Govindas Res", cash: 3200, online: 4800 },
-      { date: "2025-09-23", department: "Snacks Shop", cash: 1800, online: 0 },
-      { date: "2025-09-22", department: "Guest House", cash: 12000, online: 18000 },
-      { date: "2025-09-22", department: "Gift Shop", cash: 2100, online: 900 },
-      { date: "2025-09-21", department: "Kitchen", cash: 1500, online: 0 },
-      { date: "2025-09-21", department: "Railway Book Stall", cash: 800, online: 200 }
-    ];
+  private columnLetterToIndex(letters: string): number {
+    return letters
+      .toUpperCase()
+      .split('')
+      .reduce((index, letter) => index * 26 + (letter.charCodeAt(0) - 64), 0) - 1;
+  }
+
+  /**
+   * Convert raw sheet dates (M/D/YYYY, DD/MM/YY, ISO, serial numbers) to
+   * YYYY-MM-DD and drop rows with no department or an unreadable date
+   */
+  normalizeRecordDates(records: IncomeRecord[]): IncomeRecord[] {
+    const normalized: IncomeRecord[] = [];
+    const invalidDates: string[] = [];
+
+    records.forEach(record => {
+      if (!String(record.department).trim() || dataQualityService.isInvalidDepartment(record.department)) {
+        return;
+      }
+
+      const date = dateService.parse(record.date, incomeDateOrder);
+      if (!date) {
+        if (String(record.date).trim()) {
+          invalidDates.push(String(record.date));
+        }
+        return;
+      }
+
+      normalized.push({ ...record, date });
+    });
+
+    if (invalidDates.length > 0) {
+      console.warn(`Skipped ${invalidDates.length} income rows with unrecognised dates:`, invalidDates.slice(0, 10));
+    }
+
+    return normalized;
   }
 
   /**
@@ -154,10 +260,6 @@ export class GoogleSheetsServiceImpl implements GoogleSheetsService {
       errors.push('Sheet range is required');
     }
     
-    if (config.refreshInterval && (config.refreshInterval < 1000 || config.refreshInterval > 300000)) {
-      errors.push('Refresh interval must be between 1 and 300 seconds');
-    }
-    
     return errors;
   }
 
@@ -166,100 +268,332 @@ export class GoogleSheetsServiceImpl implements GoogleSheetsService {
    */
   async fetchBankDetails(config: BankDetailsConfig): Promise<BankDetails[]> {
     try {
-      const url = `https://sheets.googleapis.com/v4/spreadsheets/${config.spreadsheetId}/values/${config.range}?key=${config.apiKey}`;
-      
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      
-      if (!data.values || data.values.length === 0) {
-        return [];
-      }
-      
-      const rows = data.values.slice(1);
-      
-      return rows.map((row: any[]) => {
-        const paddedRow = [...row, '', '', '', '', '', '', '', '', '', ''];
-        const rawBalance = paddedRow[5];
-        const cleanedBalance = (rawBalance || '0').replace(/[^\d.-]/g, '');
-        const parsedBalance = parseFloat(cleanedBalance) || 0;
-        
-        return {
-          bankDetails: paddedRow[0] || '',
-          ifscCode: paddedRow[1] || '',
-          upiIds: paddedRow[2] ? paddedRow[2].split(',').map((id: string) => id.trim()) : [],
-          accountHolderName: paddedRow[3] || '',
-          mainPurpose: paddedRow[4] || '',
-          currentBalance: parsedBalance,
-          accountNumber: paddedRow[6] || '',
-          lastUpdatedDate: paddedRow[7] || '',
-          lastUpdatedTime: paddedRow[8] || '',
-          bankName: paddedRow[9] || paddedRow[0] || ''
-        };
-      });
+      const values = await this.fetchValues(config, 'the bank details sheet');
+      return this.parseBankDetailsValues(values);
     } catch (error) {
       console.error('Error fetching bank details:', error);
       throw error;
     }
   }
 
+  /**
+   * Parse bank details rows (header row first, columns A-K as documented in
+   * api/_lib/sheetSources.ts). Also used for CSV files with the same layout.
+   */
+  parseBankDetailsValues(values: any[][]): BankDetails[] {
+    if (!values || values.length === 0) {
+      return [];
+    }
+    
+    const rows = values.slice(1);
+    
+    return rows.map((row: any[]) => {
+      const paddedRow = [...row, '', '', '', '', '', '', '', '', '', '', ''];
+      const rawBalance = paddedRow[5];
+      const cleanedBalance = (rawBalance || '0').replace(/[^\d.-]/g, '');
+      const parsedBalance = parseFloat(cleanedBalance) || 0;
+      
+      return {
+        bankDetails: paddedRow[0] || '',
+        ifscCode: paddedRow[1] || '',
+        upiIds: paddedRow[2] ? paddedRow[2].split(',').map((id: string) => id.trim()) : [],
+        accountHolderName: paddedRow[3] || '',
+        mainPurpose: paddedRow[4] || '',
+        currentBalance: parsedBalance,
+        accountNumber: paddedRow[6] || '',
+        lastUpdatedDate: dateService.parse(paddedRow[7], bankDateOrder) || '',
+        lastUpdatedTime: paddedRow[8] || '',
+        bankName: paddedRow[9] || paddedRow[0] || '',
+        group: String(paddedRow[10] || '').trim() || undefined
+      };
+    });
+  }
+
   /**
    * Fetch a single numeric value from Google Sheets
    * Used for fetching KPI values from a specific cell or the last value in a column
    */
   async fetchSingleValue(config: BankDetailsConfig): Promise<number> {
     try {
-      const url = `https://sheets.googleapis.com/v4/spreadsheets/${config.spreadsheetId}/values/${config.range}?key=${config.apiKey}`;
-      
-      const response = await fetch(url);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+      const values = await this.fetchValues(config, 'the KPI value range');
+      return this.parseSingleValue(values, config.range);
+    } catch (error) {
+      console.error('Error fetching single value from Google Sheets:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Number in a single-value range: the cell itself, or the last non-empty
+   * cell of a whole-column range such as 'Fund!B:B'. 0 when the range is
+   * empty or not a number.
+   */
+  parseSingleValue(values: any[][], range: string): number {
+    if (values.length === 0) {
+      console.warn('No data found in the specified range, returning 0');
+      return 0;
+    }
+    
+    const isColumnRange = range.includes(':') && range.split('!')[1]?.match(/^[A-Z]+:[A-Z]+$/);
+    let cellValue: string;
+    
+    if (isColumnRange) {
+      let lastValue = '';
+      for (let i = values.length - 1; i >= 0; i--) {
+        const rowValue = values[i]?.[0];
+        if (rowValue !== undefined && rowValue !== null && String(rowValue).trim() !== '') {
+          lastValue = String(rowValue);
+          break;
+        }
       }
+      cellValue = lastValue || '0';
+    } else {
+      cellValue = values[0]?.[0] || '0';
+    }
+    
+    const cleanedValue = String(cellValue).replace(/[₹,\s]/g, '').replace(/[^\d.-]/g, '');
+    const parsedValue = parseFloat(cleanedValue);
+    
+    if (isNaN(parsedValue)) {
+      console.warn(`Invalid numeric value: "${cellValue}", returning 0`);
+      return 0;
+    }
+    
+    return parsedValue;
+  }
+
+  /**
+   * Read the income sheet, the bank details sheet and every registered
+   * single value with one values:batchGet request per spreadsheet (one in
+   * all when they share a spreadsheet)
+   */
+  async fetchBatch(apiKey: string, ranges: SheetBatchRanges): Promise<DashboardBundle> {
+    if (!apiKey) {
+      throw new Error('API key is required');
+    }
+
+    const valueKeys = Object.keys(ranges.values);
+    const requested: SheetRange[] = [ranges.income, ranges.bankDetails, ...valueKeys.map(key => ranges.values[key])];
+
+    // Ranges grouped by spreadsheet, remembering where each goes in the result
+    const bySpreadsheet: Record<string, { ranges: string[]; positions: number[] }> = {};
+    requested.forEach((sheetRange, position) => {
+      const group = bySpreadsheet[sheetRange.spreadsheetId] || (bySpreadsheet[sheetRange.spreadsheetId] = { ranges: [], positions: [] });
+      group.ranges.push(sheetRange.range);
+      group.positions.push(position);
+    });
+
+    const results: any[][][] = [];
+    try {
+      await Promise.all(Object.keys(bySpreadsheet).map(async spreadsheetId => {
+        const group = bySpreadsheet[spreadsheetId];
+        const data = await requestService.getJson<{ valueRanges?: { values?: any[][] }[] }>(
+          this.buildBatchUrl(apiKey, spreadsheetId, group.ranges),
+          { label: 'the dashboard sheets' }
+        );
+        group.positions.forEach((position, index) => {
+          results[position] = data.valueRanges?.[index]?.values || [];
+        });
+      }));
+    } catch (error) {
+      console.error('Error batch fetching from Google Sheets:', error);
+      throw error;
+    }
+
+    const values: SheetValues = {};
+    valueKeys.forEach((key, index) => {
+      values[key] = this.parseSingleValue(results[index + 2], ranges.values[key].range);
+    });
+
+    return {
+      income: this.parseIncomeValues(results[0]),
+      bankDetails: this.parseBankDetailsValues(results[1]),
+      values
+    };
+  }
+
+  /**
+   * Fetch the department registry from a departments tab in Google Sheets
+   * Columns are matched by header name: Department, Parent, Order, Icon, Title, Description, Active, Aliases,
+   * Reporting, Closed On
+   */
+  async fetchDepartmentDefinitions(config: BankDetailsConfig): Promise<DepartmentDefinition[]> {
+    try {
+      const values = await this.fetchValues(config, 'the departments sheet');
       
-      const data = await response.json();
-      
-      if (!data.values || data.values.length === 0) {
-        console.warn('No data found in the specified range, returning 0');
-        return 0;
-      }
+      const entries = this.readEntries(values, findColumn => ({
+        name: findColumn('department', 'name'),
+        parent: findColumn('parent'),
+        order: findColumn('order', 'sort'),
+        icon: findColumn('icon'),
+        title: findColumn('title'),
+        description: findColumn('description'),
+        active: findColumn('active', 'status'),
+        aliases: findColumn('alias'),
+        reporting: findColumn('reporting', 'frequency'),
+        closedOn: findColumn('closed')
+      }), columns => columns.name !== -1, 'Departments sheet must have a "Department" column');
       
-      const isColumnRange = config.range.includes(':') && config.range.split('!')[1]?.match(/^[A-Z]+:[A-Z]+$/);
-      let cellValue: string;
+      return departmentRegistryService.parseDefinitions(entries);
+    } catch (error) {
+      console.error('Error fetching department definitions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch festival/event calendar entries from an events tab
+   */
+  async fetchEvents(config: BankDetailsConfig): Promise<TempleEvent[]> {
+    try {
+      const values = await this.fetchValues(config, 'the events sheet');
       
-      if (isColumnRange) {
-        let lastValue = '';
-        for (let i = data.values.length - 1; i >= 0; i--) {
-          const rowValue = data.values[i]?.[0];
-          if (rowValue !== undefined && rowValue !== null && String(rowValue).trim() !== '') {
-            lastValue = String(rowValue);
-            break;
-          }
-        }
-        cellValue = lastValue || '0';
-      } else {
-        cellValue = data.values[0]?.[0] || '0';
-      }
+      const entries = this.readEntries(values, findColumn => {
+        const startColumn = findColumn('start', 'from');
+        return {
+          name: findColumn('event', 'festival', 'name'),
+          start: startColumn !== -1 ? startColumn : findColumn('date'),
+          end: findColumn('end', 'until'),
+          category: findColumn('category', 'type'),
+          color: findColumn('colo')
+        };
+      }, columns => columns.name !== -1 && columns.start !== -1, 'Events sheet must have "Event" and "Start Date" columns');
       
-      const cleanedValue = String(cellValue).replace(/[₹,\s]/g, '').replace(/[^\d.-]/g, '');
-      const parsedValue = parseFloat(cleanedValue);
+      return eventCalendarService.parseEvents(entries);
+    } catch (error) {
+      console.error('Error fetching events calendar:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Rows of a sheet range. Failures are thrown as typed request errors
+   * (see requestErrors.ts), after retrying quota and server errors.
+   *
+   * @param label - What the range holds, for error messages
+   */
+  private async fetchValues(config: BankDetailsConfig, label: string): Promise<any[][]> {
+    const data = await requestService.getJson<{ values?: any[][] }>(this.buildValuesUrl(config), { label });
+    return data.values || [];
+  }
+
+  /**
+   * Fetch KPI card definitions from a KPIs tab
+   * Columns are matched by header name: Label, Icon, Formula, Cell, Format, Secondary, Thresholds, Compare,
+   * Row, Order, Active
+   */
+  async fetchKpiDefinitions(config: BankDetailsConfig): Promise<KpiDefinition[]> {
+    try {
+      const values = await this.fetchValues(config, 'the KPIs sheet');
       
-      if (isNaN(parsedValue)) {
-        console.warn(`Invalid numeric value: "${cellValue}", returning 0`);
-        return 0;
-      }
+      const entries = this.readEntries(values, findColumn => ({
+        label: findColumn('label', 'kpi', 'name'),
+        icon: findColumn('icon'),
+        formula: findColumn('formula'),
+        cell: findColumn('cell'),
+        format: findColumn('format'),
+        secondary: findColumn('secondary', 'subtitle'),
+        thresholds: findColumn('threshold'),
+        compare: findColumn('compare', 'growth'),
+        row: findColumn('row'),
+        order: findColumn('order', 'sort'),
+        active: findColumn('active', 'status')
+      }), columns => columns.label !== -1 && (columns.formula !== -1 || columns.cell !== -1),
+      'KPIs sheet must have a "Label" column and a "Formula" or "Cell" column');
       
-      return parsedValue;
+      return kpiRegistryService.parseDefinitions(entries);
     } catch (error) {
-      console.error('Error fetching single value from Google Sheets:', error);
+      console.error('Error fetching KPI definitions:', error);
       throw error;
     }
   }
 
+  /**
+   * Fetch bank balance history from a history tab in the bank sheet
+   */
+  async fetchBankHistory(config: BankDetailsConfig): Promise<BalanceSnapshot[]> {
+    try {
+      const values = await this.fetchValues(config, 'the bank history sheet');
+      return this.parseBankHistoryValues(values);
+    } catch (error) {
+      console.error('Error fetching bank balance history:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Parse bank history rows (header row first; Date, Account Number and
+   * Balance columns, optionally Bank Details and Time). Also used for CSV
+   * files with the same layout.
+   */
+  parseBankHistoryValues(values: any[][]): BalanceSnapshot[] {
+    const entries = this.readEntries(values, findColumn => ({
+      date: findColumn('date'),
+      accountNumber: findColumn('account number', 'account no', 'a/c'),
+      bankDetails: findColumn('bank details', 'account name'),
+      balance: findColumn('balance', 'amount'),
+      time: findColumn('time')
+    }), columns => columns.date !== -1 && columns.balance !== -1 && (columns.accountNumber !== -1 || columns.bankDetails !== -1),
+    'Bank history sheet must have "Date", "Account Number" (or "Bank Details") and "Balance" columns');
+
+    return bankHistoryService.parseSnapshots(entries);
+  }
+
+  /**
+   * Rows of a tab with a header row as entries with the keys getColumns
+   * gives, for the registry services to parse. Columns are found by header name: the first
+   * header containing any of the names (case-insensitive); a column that is
+   * not there leaves its key undefined. No rows below the header give no
+   * entries.
+   *
+   * @param getColumns - Index of each key's column, from findColumn
+   * @param hasRequired - Whether the columns the tab cannot do without were found
+   * @param missingMessage - Error when they were not
+   */
+  private readEntries<K extends string>(
+    values: any[][],
+    getColumns: (findColumn: (...names: string[]) => number) => Record<K, number>,
+    hasRequired: (columns: Record<K, number>) => boolean,
+    missingMessage: string
+  ): Record<K, string | undefined>[] {
+    if (values.length < 2) {
+      return [];
+    }
+
+    const [headers, ...rows] = values;
+    const columns = getColumns((...names) => headers.findIndex((header: unknown) =>
+      names.some(name => String(header).toLowerCase().includes(name))
+    ));
+
+    if (!hasRequired(columns)) {
+      throw new ParseError(missingMessage);
+    }
+
+    const keys = Object.keys(columns) as K[];
+    return rows.map(row => {
+      const entry = {} as Record<K, string | undefined>;
+      keys.forEach(key => {
+        entry[key] = columns[key] === -1 ? undefined : row[columns[key]];
+      });
+      return entry;
+    });
+  }
+
+  /**
+   * values:batchGet endpoint URL for several ranges of one spreadsheet
+   */
+  private buildBatchUrl(apiKey: string, spreadsheetId: string, ranges: string[]): string {
+    const rangeParams = ranges.map(range => `ranges=${encodeURIComponent(range)}`).join('&');
+    return `${this.baseUrl}/v4/spreadsheets/${encodeURIComponent(spreadsheetId)}/values:batchGet?${rangeParams}&key=${encodeURIComponent(apiKey)}`;
+  }
+
+  /**
+   * Values endpoint URL for a sheet range
+   */
+  private buildValuesUrl(config: BankDetailsConfig): string {
+    return `${this.baseUrl}/v4/spreadsheets/${encodeURIComponent(config.spreadsheetId)}/values/${encodeURIComponent(config.range)}?key=${encodeURIComponent(config.apiKey)}`;
+  }
+
   /**
    * Extract spreadsheet ID from Google Sheets URL
    */
@@ -0,0 +1,57 @@
+import { IncomeRecord, IncomeDataset, BankDetails, BalanceSnapshot, DepartmentDefinition, TempleEvent, DataSource, SheetValues } from '../types';
+
+export interface InMemoryData {
+  income?: IncomeRecord[];
+  bankDetails?: BankDetails[];
+  bankHistory?: BalanceSnapshot[];
+  values?: SheetValues;
+  departments?: DepartmentDefinition[];
+  events?: TempleEvent[];
+}
+
+/**
+ * Serves data held in memory, so the UI can be developed and tested without
+ * any network. Records are returned as given (dates already YYYY-MM-DD).
+ */
+export class InMemoryDataSource implements DataSource {
+  readonly id: string;
+  readonly label = 'in-memory data';
+
+  constructor(private data: InMemoryData = {}, name: string = 'default') {
+    this.id = `memory:${name}`;
+  }
+
+  /**
+   * Replace some or all of the data; the next fetch returns the new values
+   */
+  setData(data: InMemoryData): void {
+    this.data = { ...this.data, ...data };
+  }
+
+  /**
+   * The records as given; they are assumed clean, so no issues are reported
+   */
+  async fetchIncome(): Promise<IncomeDataset> {
+    return { records: [...(this.data.income || [])], issues: [] };
+  }
+
+  async fetchBankDetails(): Promise<BankDetails[]> {
+    return [...(this.data.bankDetails || [])];
+  }
+
+  async fetchValues(): Promise<SheetValues> {
+    return { ...(this.data.values || {}) };
+  }
+
+  async fetchDepartmentDefinitions(): Promise<DepartmentDefinition[] | null> {
+    return this.data.departments || null;
+  }
+
+  async fetchEvents(): Promise<TempleEvent[] | null> {
+    return this.data.events || null;
+  }
+
+  async fetchBankHistory(): Promise<BalanceSnapshot[] | null> {
+    return this.data.bankHistory ? [...this.data.bankHistory] : null;
+  }
+}
@@ -0,0 +1,88 @@
+import { BankDetails, IncomeRecord } from '../types';
+import { kpiFormulaService, KpiFormulaContext } from './kpiFormulaService';
+
+const bank = (bankDetails: string, currentBalance: number): BankDetails => ({
+  bankDetails,
+  ifscCode: '',
+  upiIds: [],
+  accountHolderName: 'Temple Trust',
+  mainPurpose: '',
+  currentBalance,
+  accountNumber: '',
+  bankName: bankDetails
+});
+
+const records: IncomeRecord[] = [
+  { date: '2025-09-20', department: 'Guest House', cash: 1000, online: 3000 },
+  { date: '2025-09-21', department: 'Gift Shop', cash: 500, online: 500 }
+];
+
+const context: KpiFormulaContext = {
+  records,
+  allRecords: records.concat([{ date: '2024-04-01', department: 'Guest House', cash: 2000, online: 0 }]),
+  bankDetails: [bank('HDFC Bank', 100000), bank('Axis Bank ISKCON Empower', 50000), bank('SBI Savings', 30000)],
+  values: { empowerFund: 25000, zero: 0 }
+};
+
+describe('KpiFormulaService.evaluate', () => {
+  beforeAll(() => {
+    // The SBI and ISKCON Empower accounts are reported as left out of the totals
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('adds up income in the active filter, by department and by period', () => {
+    expect(kpiFormulaService.evaluate('income', context)).toBe(5000);
+    expect(kpiFormulaService.evaluate('cash + online', context)).toBe(5000);
+    expect(kpiFormulaService.evaluate('entries', context)).toBe(2);
+    expect(kpiFormulaService.evaluate('online("Guest House")', context)).toBe(3000);
+    expect(kpiFormulaService.evaluate('cash("Guest House", all)', context)).toBe(3000);
+  });
+
+  it('follows operator precedence and brackets', () => {
+    expect(kpiFormulaService.evaluate('cash / income * 100', context)).toBe(30);
+    expect(kpiFormulaService.evaluate('-(cash - online) / 100', context)).toBe(20);
+  });
+
+  it('totals bank balances of the counted accounts or of one group', () => {
+    expect(kpiFormulaService.evaluate('bankBalance', context)).toBe(100000);
+    expect(kpiFormulaService.evaluate('bankBalance("operational")', context)).toBe(100000);
+    expect(kpiFormulaService.evaluate('bankBalance("empower")', context)).toBe(50000);
+    expect(kpiFormulaService.evaluate('accounts("empower")', context)).toBe(1);
+    expect(kpiFormulaService.evaluate('accounts("unassigned")', context)).toBe(1);
+  });
+
+  it('reads single values, and gives null for a missing value or a division by zero', () => {
+    expect(kpiFormulaService.evaluate('value("empowerFund") * 2', context)).toBe(50000);
+    expect(kpiFormulaService.evaluate('value("missing") + 1', context)).toBeNull();
+    expect(kpiFormulaService.evaluate('income / value("zero")', context)).toBeNull();
+  });
+});
+
+describe('KpiFormulaService.validate', () => {
+  it('accepts the documented forms', () => {
+    ['income("Guest House", month)', 'channel("upi", week)', 'bankBalance("restricted") + value("empowerFund")'].forEach(formula => {
+      expect(() => kpiFormulaService.validate(formula)).not.toThrow();
+    });
+  });
+
+  it('says what is wrong with a formula', () => {
+    expect(() => kpiFormulaService.validate('profit')).toThrow(/profit/);
+    expect(() => kpiFormulaService.validate('value')).toThrow('value() needs one name in quotes');
+    expect(() => kpiFormulaService.validate('channel(week)')).toThrow('channel() needs one name in quotes');
+    expect(() => kpiFormulaService.validate('income(month, week)')).toThrow('income() takes at most one period');
+    expect(() => kpiFormulaService.validate('bankBalance(month)')).toThrow('bankBalance() does not take a period');
+    expect(() => kpiFormulaService.validate('bankBalance("savings")')).toThrow('Unknown account group "savings"');
+    expect(() => kpiFormulaService.validate('income +')).toThrow();
+  });
+});
+
+describe('KpiFormulaService.getValueKeys', () => {
+  it('lists the single values a formula reads', () => {
+    expect(kpiFormulaService.getValueKeys('value("a") / (income - value("b"))')).toEqual(['a', 'b']);
+    expect(kpiFormulaService.getValueKeys('income')).toEqual([]);
+  });
+});
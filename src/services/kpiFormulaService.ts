@@ -0,0 +1,359 @@
+import { IncomeRecord, BankDetails, SheetValues, DateFilter, PaymentChannel } from '../types';
+import { dataProcessingService } from './dataProcessingService';
+import { departmentRegistryService } from './departmentRegistryService';
+import { dateService } from './dateService';
+import { accountGroupService } from './accountGroupService';
+import { PAYMENT_CHANNELS } from '../config/paymentChannelConfig';
+
+/**
+ * What KPI formulas are evaluated over
+ *
+ * @property {IncomeRecord[]} records - Income in the active date filter
+ * @property {IncomeRecord[]} allRecords - All income, for formulas naming their own period
+ * @property {BankDetails[]} bankDetails - Every bank account
+ * @property {SheetValues} values - Single values from the range registry
+ */
+export interface KpiFormulaContext {
+  records: IncomeRecord[];
+  allRecords: IncomeRecord[];
+  bankDetails: BankDetails[];
+  values: SheetValues;
+}
+
+type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'name'; name: string }
+  | { type: 'call'; name: string; args: FormulaNode[] }
+  | { type: 'negate'; operand: FormulaNode }
+  | { type: 'binary'; operator: '+' | '-' | '*' | '/'; left: FormulaNode; right: FormulaNode };
+
+interface Token {
+  kind: 'number' | 'string' | 'name' | 'symbol';
+  text: string;
+  position: number;
+}
+
+const INCOME_FUNCTIONS = ['income', 'cash', 'online', 'entries'];
+const BANK_FUNCTIONS = ['bankBalance', 'accounts'];
+const FUNCTIONS = [...INCOME_FUNCTIONS, ...BANK_FUNCTIONS, 'channel', 'value'];
+// Functions that may be written without brackets; channel and value need a name
+const BARE_FUNCTIONS = [...INCOME_FUNCTIONS, ...BANK_FUNCTIONS];
+const PERIODS: (DateFilter | 'filter')[] = [
+  'filter', 'all', 'yesterday', 'week', 'month', 'year', 'financialYear', 'lastFinancialYear', 'fyQ1', 'fyQ2', 'fyQ3', 'fyQ4'
+];
+
+/**
+ * Parses and evaluates KPI formulas (see src/config/kpiConfig.ts for the
+ * language). Formulas are plain arithmetic over a fixed set of functions;
+ * nothing in them is ever executed as code.
+ */
+export class KpiFormulaService {
+  private parsed: Map<string, FormulaNode> = new Map();
+
+  /**
+   * Check a formula, throwing an error that says what is wrong with it
+   */
+  validate(formula: string): void {
+    this.parse(formula);
+  }
+
+  /**
+   * Value of a formula; null when a single value it uses is not available
+   * or it divides by zero
+   */
+  evaluate(formula: string, context: KpiFormulaContext): number | null {
+    return this.evaluateNode(this.parse(formula), context);
+  }
+
+  /**
+   * Keys of the single values a formula reads with value("key")
+   */
+  getValueKeys(formula: string): string[] {
+    const keys: string[] = [];
+    const visit = (node: FormulaNode) => {
+      if (node.type === 'call' && node.name === 'value') {
+        keys.push((node.args[0] as { value: string }).value);
+      } else if (node.type === 'negate') {
+        visit(node.operand);
+      } else if (node.type === 'binary') {
+        visit(node.left);
+        visit(node.right);
+      }
+    };
+    visit(this.parse(formula));
+    return keys;
+  }
+
+  private parse(formula: string): FormulaNode {
+    const cached = this.parsed.get(formula);
+    if (cached) {
+      return cached;
+    }
+
+    const tokens = this.tokenize(formula);
+    let index = 0;
+
+    const peek = (): Token | undefined => tokens[index];
+    const fail = (message: string, token?: Token): never => {
+      const where = token ? ` at position ${token.position + 1}` : ' at the end';
+      throw new Error(`${message}${where} of formula "${formula}"`);
+    };
+    const expect = (symbol: string) => {
+      const token = tokens[index];
+      if (!token || token.text !== symbol) {
+        fail(`Expected "${symbol}"`, token);
+      }
+      index++;
+    };
+
+    const parseExpression = (): FormulaNode => {
+      let node = parseTerm();
+      while (peek()?.text === '+' || peek()?.text === '-') {
+        const operator = tokens[index++].text as '+' | '-';
+        node = { type: 'binary', operator, left: node, right: parseTerm() };
+      }
+      return node;
+    };
+
+    const parseTerm = (): FormulaNode => {
+      let node = parseFactor();
+      while (peek()?.text === '*' || peek()?.text === '/') {
+        const operator = tokens[index++].text as '*' | '/';
+        node = { type: 'binary', operator, left: node, right: parseFactor() };
+      }
+      return node;
+    };
+
+    const parseFactor = (): FormulaNode => {
+      const token = tokens[index++];
+      if (!token) {
+        return fail('Formula ends too early');
+      }
+      if (token.kind === 'number') {
+        return { type: 'number', value: parseFloat(token.text) };
+      }
+      if (token.kind === 'string') {
+        return { type: 'string', value: token.text };
+      }
+      if (token.text === '-') {
+        return { type: 'negate', operand: parseFactor() };
+      }
+      if (token.text === '(') {
+        const node = parseExpression();
+        expect(')');
+        return node;
+      }
+      if (token.kind === 'name') {
+        if (peek()?.text !== '(') {
+          return { type: 'name', name: token.text };
+        }
+        index++;
+        const args: FormulaNode[] = [];
+        if (peek()?.text !== ')') {
+          args.push(parseExpression());
+          while (peek()?.text === ',') {
+            index++;
+            args.push(parseExpression());
+          }
+        }
+        expect(')');
+        return { type: 'call', name: token.text, args };
+      }
+      return fail(`Unexpected "${token.text}"`, token);
+    };
+
+    const node = parseExpression();
+    if (index < tokens.length) {
+      fail(`Unexpected "${tokens[index].text}"`, tokens[index]);
+    }
+
+    this.check(node, formula);
+    this.parsed.set(formula, node);
+    return node;
+  }
+
+  private tokenize(formula: string): Token[] {
+    const tokens: Token[] = [];
+    let position = 0;
+
+    while (position < formula.length) {
+      const rest = formula.slice(position);
+      const space = rest.match(/^\s+/);
+      if (space) {
+        position += space[0].length;
+        continue;
+      }
+
+      const number = rest.match(/^\d+(\.\d+)?/);
+      const name = rest.match(/^[A-Za-z_]\w*/);
+      const string = rest.match(/^"([^"]*)"|^'([^']*)'/);
+
+      if (number) {
+        tokens.push({ kind: 'number', text: number[0], position });
+        position += number[0].length;
+      } else if (name) {
+        tokens.push({ kind: 'name', text: name[0], position });
+        position += name[0].length;
+      } else if (string) {
+        tokens.push({ kind: 'string', text: string[1] ?? string[2], position });
+        position += string[0].length;
+      } else if ('+-*/(),'.includes(rest[0])) {
+        tokens.push({ kind: 'symbol', text: rest[0], position });
+        position++;
+      } else {
+        throw new Error(`Unexpected "${rest[0]}" at position ${position + 1} of formula "${formula}"`);
+      }
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Reject unknown functions, periods and account groups when the formula is
+   * loaded instead of when a card is shown
+   */
+  private check(node: FormulaNode, formula: string): void {
+    const fail = (message: string): never => {
+      throw new Error(`${message} in formula "${formula}"`);
+    };
+
+    switch (node.type) {
+      case 'string':
+        return fail(`Text "${node.value}" can only be a function argument`);
+      case 'name':
+        if (!FUNCTIONS.includes(node.name)) {
+          fail(PERIODS.includes(node.name as DateFilter) ? `Period ${node.name} can only be a function argument` : `Unknown name ${node.name}`);
+        }
+        if (!BARE_FUNCTIONS.includes(node.name)) {
+          fail(`${node.name}() needs one name in quotes`);
+        }
+        return;
+      case 'negate':
+        return this.check(node.operand, formula);
+      case 'binary':
+        this.check(node.left, formula);
+        return this.check(node.right, formula);
+      case 'call': {
+        if (!FUNCTIONS.includes(node.name)) {
+          fail(`Unknown function ${node.name}`);
+        }
+        node.args.forEach(arg => {
+          if (arg.type === 'name' && PERIODS.includes(arg.name as DateFilter)) {
+            if (!INCOME_FUNCTIONS.includes(node.name) && node.name !== 'channel') {
+              fail(`${node.name}() does not take a period`);
+            }
+          } else if (arg.type !== 'string') {
+            fail(`Arguments of ${node.name}() must be text in quotes or a period`);
+          }
+        });
+        if (node.args.filter(arg => arg.type === 'name').length > 1) {
+          fail(`${node.name}() takes at most one period`);
+        }
+        const text = node.args.filter(arg => arg.type === 'string').map(arg => (arg as { value: string }).value);
+        if ((node.name === 'value' || node.name === 'channel') && text.length !== 1) {
+          fail(`${node.name}() needs one name in quotes`);
+        }
+        if (node.name === 'channel' && !PAYMENT_CHANNELS.includes(text[0] as PaymentChannel)) {
+          fail(`Unknown payment channel "${text[0]}" (one of ${PAYMENT_CHANNELS.join(', ')})`);
+        }
+        if (BANK_FUNCTIONS.includes(node.name) && text.length > 0 && !accountGroupService.isKnownGroup(text[0])) {
+          fail(`Unknown account group "${text[0]}" (all or one of ${accountGroupService.getGroupIds().join(', ')})`);
+        }
+        if (text.length > 1) {
+          fail(`${node.name}() takes at most one name in quotes`);
+        }
+        return;
+      }
+      default:
+        return;
+    }
+  }
+
+  private evaluateNode(node: FormulaNode, context: KpiFormulaContext): number | null {
+    switch (node.type) {
+      case 'number':
+        return node.value;
+      case 'negate': {
+        const operand = this.evaluateNode(node.operand, context);
+        return operand === null ? null : -operand;
+      }
+      case 'binary': {
+        const left = this.evaluateNode(node.left, context);
+        const right = this.evaluateNode(node.right, context);
+        if (left === null || right === null) {
+          return null;
+        }
+        switch (node.operator) {
+          case '+':
+            return left + right;
+          case '-':
+            return left - right;
+          case '*':
+            return left * right;
+          default:
+            return right === 0 ? null : left / right;
+        }
+      }
+      case 'name':
+        return this.callFunction(node.name, [], context);
+      case 'call':
+        return this.callFunction(node.name, node.args, context);
+      default:
+        return 0;
+    }
+  }
+
+  private callFunction(name: string, args: FormulaNode[], context: KpiFormulaContext): number | null {
+    const text = args.filter(arg => arg.type === 'string').map(arg => (arg as { value: string }).value)[0];
+    const periodArg = args.find(arg => arg.type === 'name') as { name: string } | undefined;
+    const period = (periodArg?.name || 'filter') as DateFilter | 'filter';
+
+    if (name === 'value') {
+      const value = context.values[text];
+      return value === undefined ? null : value;
+    }
+
+    if (BANK_FUNCTIONS.includes(name)) {
+      const accounts = accountGroupService.getAccounts(context.bankDetails, text);
+      return name === 'accounts' ? accounts.length : accountGroupService.getBalance(accounts);
+    }
+
+    const records = this.getRecords(context, period, name === 'channel' ? undefined : text);
+    switch (name) {
+      case 'cash':
+        return records.reduce((sum, record) => sum + record.cash, 0);
+      case 'online':
+        return records.reduce((sum, record) => sum + record.online, 0);
+      case 'entries':
+        return records.length;
+      case 'channel':
+        return dataProcessingService.calculateChannelTotals(records).channelTotals[text as PaymentChannel] || 0;
+      default:
+        return records.reduce((sum, record) => sum + record.cash + record.online, 0);
+    }
+  }
+
+  /**
+   * Income records of a period, optionally of one department and its sub-sections
+   */
+  private getRecords(context: KpiFormulaContext, period: DateFilter | 'filter', department?: string): IncomeRecord[] {
+    let records = context.records;
+    if (period !== 'filter') {
+      const range = dataProcessingService.getDateRange(period);
+      records = range
+        ? context.allRecords.filter(record => dateService.isWithinRange(record.date, range.start, range.end))
+        : context.allRecords;
+    }
+
+    if (department) {
+      const names = new Set(departmentRegistryService.getDescendantNames(department));
+      records = records.filter(record => names.has(record.department));
+    }
+
+    return records;
+  }
+}
+
+// Export singleton instance
+export const kpiFormulaService = new KpiFormulaService();
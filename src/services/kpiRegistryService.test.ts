@@ -0,0 +1,91 @@
+import { BalanceSnapshot, BankDetails, IncomeRecord } from '../types';
+import { DEFAULT_KPIS } from '../config/kpiConfig';
+import { kpiRegistryService } from './kpiRegistryService';
+import { bankHistoryService } from './bankHistoryService';
+import { dataProcessingService } from './dataProcessingService';
+import { dateService } from './dateService';
+
+const bank = (accountNumber: string, currentBalance: number): BankDetails => ({
+  bankDetails: 'HDFC Bank Temple Account',
+  ifscCode: 'HDFC0000001',
+  upiIds: [],
+  accountHolderName: 'Temple Trust',
+  mainPurpose: 'Daily collections',
+  currentBalance,
+  accountNumber,
+  bankName: 'HDFC Bank'
+});
+
+const records: IncomeRecord[] = [
+  { date: '2025-09-10', department: 'Guest House', cash: 1000, online: 2000 },
+  { date: '2025-09-20', department: 'Guest House', cash: 1500, online: 2500 }
+];
+
+describe('KpiRegistryService bank balance growth', () => {
+  const definition = DEFAULT_KPIS.find(kpi => kpi.id === 'operational-bank-balance')!;
+  const bankDetails = [bank('50100012345678', 150000)];
+  const context = { records, allRecords: records, bankDetails, values: {} };
+  const comparison = dataProcessingService.calculatePeriodComparison(records, 'specific', '2025-09-15', '2025-09-30');
+
+  const snapshot = (date: string, balance: number): BalanceSnapshot => (
+    { date, accountNumber: '50100012345678', bankDetails: 'HDFC Bank Temple Account', balance }
+  );
+
+  it('compares the balances at the start and at the end of a past period', () => {
+    const snapshots = [snapshot('2025-09-01', 100000), snapshot('2025-09-20', 140000), snapshot('2025-10-05', 90000)];
+    const periodBankDetails = bankHistoryService.getPeriodBankDetails(snapshots, bankDetails, comparison!.current);
+
+    const card = kpiRegistryService.buildCard(definition, context, { comparison, periodBankDetails });
+
+    expect(periodBankDetails.start![0].currentBalance).toBe(100000);
+    expect(periodBankDetails.end![0].currentBalance).toBe(140000);
+    expect(card.value).toBe(dataProcessingService.formatCurrency(150000));
+    expect(card.growth).toBe('▲ 40.0% over the period');
+    expect(card.growthType).toBe('positive');
+  });
+
+  it('compares the current balance with the one before a period running to today', () => {
+    const today = dateService.today();
+    const current = { ...comparison!, current: { start: dateService.addDays(today, -10), end: today } };
+    const snapshots = [snapshot(dateService.addDays(today, -20), 200000)];
+    const periodBankDetails = bankHistoryService.getPeriodBankDetails(snapshots, bankDetails, current.current);
+
+    const card = kpiRegistryService.buildCard(definition, context, { comparison: current, periodBankDetails });
+
+    expect(card.growth).toMatch(/since the period began$/);
+    expect(card.growthType).toBe('negative');
+  });
+
+  it('says so when the history has no balance from before the period', () => {
+    const periodBankDetails = bankHistoryService.getPeriodBankDetails([], bankDetails, comparison!.current);
+
+    const card = kpiRegistryService.buildCard(definition, context, { comparison, periodBankDetails });
+
+    expect(card.growth).toBe('No earlier balance to compare');
+    expect(card.growthType).toBe('neutral');
+  });
+
+  it('shows no growth without a period comparison', () => {
+    const card = kpiRegistryService.buildCard(definition, context);
+
+    expect(card.growth).toBeUndefined();
+  });
+});
+
+describe('KpiRegistryService.parseDefinitions', () => {
+  it('reads the active flag like the department registry', () => {
+    const definitions = kpiRegistryService.parseDefinitions({
+      kpis: [
+        { label: 'Total Income', formula: 'income' },
+        { label: 'Hundi', formula: 'income', active: 'Hidden' },
+        { label: 'Old Fund', formula: 'income', active: 'Retired' }
+      ]
+    });
+
+    expect(definitions.map(definition => [definition.label, definition.active])).toEqual([
+      ['Total Income', true],
+      ['Hundi', false],
+      ['Old Fund', false]
+    ]);
+  });
+});
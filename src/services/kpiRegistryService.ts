@@ -0,0 +1,300 @@
+import { KpiDefinition, KpiFormat, KpiThreshold, KpiTone, KpiComparison, KPICardProps, PeriodComparison, BankDetails } from '../types';
+import { DEFAULT_KPIS } from '../config/kpiConfig';
+import { kpiFormulaService, KpiFormulaContext } from './kpiFormulaService';
+import { dataProcessingService } from './dataProcessingService';
+import { dateService } from './dateService';
+import { requestService } from './requestService';
+import { entryParsingService } from './entryParsingService';
+
+const KPI_FORMATS: KpiFormat[] = ['currency', 'number', 'percent'];
+const KPI_TONES: KpiTone[] = ['positive', 'negative', 'neutral'];
+const KPI_COMPARISONS: KpiComparison[] = ['totalRevenue', 'totalCash', 'totalOnline', 'bankBalance'];
+
+// "< 100000 negative: Low balance"
+const THRESHOLD_PATTERN = /^(<=|>=|<|>)\s*(-?[\d,]+(?:\.\d+)?)\s+(\w+)\s*(?::\s*(.*))?$/;
+
+// "{cash / income * 100:percent}"
+const PLACEHOLDER_PATTERN = /\{([^{}]+?)(?::(currency|number|percent))?\}/g;
+
+const NOT_AVAILABLE = 'Not available';
+// Shown for a value that cannot be worked out, such as a division by zero
+const NO_VALUE = '—';
+
+/**
+ * Period comparison data a KPI card can show growth for
+ *
+ * @property {object} periodBankDetails - Accounts with their balances at the start and at the end of the active period, each null when the history lacks them
+ */
+export interface KpiComparisonContext {
+  comparison?: PeriodComparison | null;
+  periodBankDetails?: { start: BankDetails[] | null; end: BankDetails[] | null } | null;
+}
+
+export class KpiRegistryService {
+  private definitions: KpiDefinition[] = [];
+
+  constructor(definitions: KpiDefinition[]) {
+    this.load(definitions);
+  }
+
+  /**
+   * Replace the KPI cards
+   */
+  load(definitions: KpiDefinition[]): void {
+    this.definitions = [...definitions];
+  }
+
+  /**
+   * A copy of the registry as loaded now, which later reloads leave unchanged
+   */
+  snapshot(): KpiRegistryService {
+    return new KpiRegistryService(this.definitions);
+  }
+
+  /**
+   * Active KPI definitions grouped into rows, top row first, each row in order
+   */
+  getRows(): KpiDefinition[][] {
+    const rows: Record<number, KpiDefinition[]> = {};
+    this.definitions
+      .filter(definition => definition.active)
+      .forEach(definition => {
+        (rows[definition.row] = rows[definition.row] || []).push(definition);
+      });
+
+    return Object.keys(rows)
+      .map(Number)
+      .sort((a, b) => a - b)
+      .map(row => rows[row].sort((a, b) => a.order - b.order));
+  }
+
+  getDefinitions(): KpiDefinition[] {
+    return [...this.definitions];
+  }
+
+  /**
+   * Convert raw config entries (JSON or sheet rows) into KPI definitions.
+   * Accepts an array or an object with a "kpis" array. Entries with an
+   * invalid formula, format or threshold are left out and logged.
+   */
+  parseDefinitions(raw: unknown): KpiDefinition[] {
+    const entries = entryParsingService.getEntries(raw, 'kpis', 'KPI configuration');
+    const definitions: KpiDefinition[] = [];
+
+    entries.forEach((entry, index) => {
+      const label = String(entry.label ?? entry.name ?? '').trim();
+      if (!label) {
+        return;
+      }
+
+      try {
+        definitions.push(this.parseDefinition(entry, label, index));
+      } catch (error) {
+        console.error(`Skipping KPI "${label}":`, error instanceof Error ? error.message : error);
+      }
+    });
+
+    return definitions;
+  }
+
+  /**
+   * Load KPI definitions from a JSON file
+   */
+  async fetchDefinitionsFromUrl(url: string): Promise<KpiDefinition[]> {
+    return this.parseDefinitions(await requestService.getJson<unknown>(url, { label: `the KPI file ${url}` }));
+  }
+
+  /**
+   * Card contents for a KPI: its formatted value, secondary text, threshold
+   * flag and period growth
+   */
+  buildCard(definition: KpiDefinition, context: KpiFormulaContext, comparisonContext: KpiComparisonContext = {}): KPICardProps {
+    const card: KPICardProps = { icon: definition.icon, label: definition.label, value: NOT_AVAILABLE };
+
+    try {
+      const value = definition.formula
+        ? kpiFormulaService.evaluate(definition.formula, context)
+        : context.values[definition.cell || ''] ?? null;
+
+      if (definition.secondary) {
+        card.secondary = this.fillPlaceholders(definition.secondary, context);
+      }
+
+      if (value === null) {
+        card.value = this.describeMissing(definition.formula, context);
+        return card;
+      }
+
+      card.value = this.formatValue(value, definition.format);
+      const threshold = definition.thresholds.find(candidate => this.matchesThreshold(value, candidate));
+      if (threshold) {
+        card.flag = { tone: threshold.tone, note: threshold.note };
+      }
+
+      const growth = this.getGrowth(definition, context, comparisonContext);
+      if (growth) {
+        card.growth = growth.growth;
+        card.growthType = growth.growthType;
+      }
+    } catch (error) {
+      console.error(`Could not calculate KPI "${definition.label}":`, error);
+      card.value = NO_VALUE;
+      card.secondary = 'Could not be calculated, check its formula';
+    }
+
+    return card;
+  }
+
+  formatValue(value: number, format: KpiFormat): string {
+    switch (format) {
+      case 'percent':
+        return `${value.toFixed(1)}%`;
+      case 'number':
+        return new Intl.NumberFormat('en-IN', { maximumFractionDigits: 2 }).format(value);
+      default:
+        return dataProcessingService.formatCurrency(value);
+    }
+  }
+
+  /**
+   * Parse thresholds written as "< 100000 negative: Low balance; >= 500000 positive",
+   * or given as objects
+   */
+  parseThresholds(value: unknown): KpiThreshold[] {
+    if (value === undefined || value === null || value === '') {
+      return [];
+    }
+
+    const items: unknown[] = Array.isArray(value) ? value : String(value).split(';');
+    return items
+      .filter(item => typeof item !== 'string' || item.trim() !== '')
+      .map(item => {
+        if (item && typeof item === 'object') {
+          const threshold = item as Record<string, unknown>;
+          return this.toThreshold(String(threshold.operator ?? ''), String(threshold.value ?? ''), String(threshold.tone ?? ''), threshold.note);
+        }
+
+        const match = String(item).trim().match(THRESHOLD_PATTERN);
+        if (!match) {
+          throw new Error(`Threshold "${String(item).trim()}" should look like "< 100000 negative: Low balance"`);
+        }
+        return this.toThreshold(match[1], match[2], match[3], match[4]);
+      });
+  }
+
+  private parseDefinition(entry: Record<string, unknown>, label: string, index: number): KpiDefinition {
+    const formula = entry.formula ? String(entry.formula).trim() : undefined;
+    const cell = entry.cell ? String(entry.cell).trim() : undefined;
+    if (!formula && !cell) {
+      throw new Error('needs a formula or a cell');
+    }
+    if (formula) {
+      kpiFormulaService.validate(formula);
+    }
+
+    const format = String(entry.format ?? 'currency').trim().toLowerCase() as KpiFormat;
+    if (!KPI_FORMATS.includes(format)) {
+      throw new Error(`unknown format "${entry.format}" (one of ${KPI_FORMATS.join(', ')})`);
+    }
+
+    const compare = entry.compare ? String(entry.compare).trim() as KpiComparison : undefined;
+    if (compare && !KPI_COMPARISONS.includes(compare)) {
+      throw new Error(`unknown comparison "${entry.compare}" (one of ${KPI_COMPARISONS.join(', ')})`);
+    }
+
+    const secondary = entry.secondary ? String(entry.secondary).trim() : undefined;
+    if (secondary) {
+      this.getPlaceholderFormulas(secondary).forEach(placeholder => kpiFormulaService.validate(placeholder));
+    }
+
+    const row = parseFloat(String(entry.row));
+    const order = parseFloat(String(entry.order));
+
+    return {
+      id: String(entry.id ?? label).trim(),
+      label,
+      icon: entry.icon ? String(entry.icon).trim() : '📊',
+      formula,
+      cell,
+      format,
+      secondary,
+      thresholds: this.parseThresholds(entry.thresholds),
+      compare,
+      row: isNaN(row) ? 1 : row,
+      order: isNaN(order) ? index + 1 : order,
+      active: entryParsingService.parseActiveFlag(entry.active)
+    };
+  }
+
+  private toThreshold(operator: string, limit: string, tone: string, note: unknown): KpiThreshold {
+    const value = parseFloat(limit.replace(/,/g, ''));
+    const normalizedTone = tone.trim().toLowerCase() as KpiTone;
+    if (!['<', '<=', '>', '>='].includes(operator) || isNaN(value) || !KPI_TONES.includes(normalizedTone)) {
+      throw new Error(`Threshold "${operator} ${limit} ${tone}" needs an operator (< <= > >=), a number and a tone (${KPI_TONES.join(', ')})`);
+    }
+    const text = note === undefined || note === null ? '' : String(note).trim();
+    return { operator: operator as KpiThreshold['operator'], value, tone: normalizedTone, note: text || undefined };
+  }
+
+  private matchesThreshold(value: number, threshold: KpiThreshold): boolean {
+    switch (threshold.operator) {
+      case '<':
+        return value < threshold.value;
+      case '<=':
+        return value <= threshold.value;
+      case '>':
+        return value > threshold.value;
+      default:
+        return value >= threshold.value;
+    }
+  }
+
+  private getGrowth(definition: KpiDefinition, context: KpiFormulaContext, { comparison, periodBankDetails }: KpiComparisonContext) {
+    const { compare } = definition;
+    if (!compare || !comparison) {
+      return undefined;
+    }
+    if (compare === 'bankBalance') {
+      // The same formula over the balances at the start and at the end of the active period
+      const evaluateAt = (bankDetails: BankDetails[] | null | undefined) => bankDetails && definition.formula
+        ? kpiFormulaService.evaluate(definition.formula, { ...context, bankDetails })
+        : null;
+      const start = evaluateAt(periodBankDetails?.start);
+      const end = evaluateAt(periodBankDetails?.end);
+      const label = comparison.current.end >= dateService.today() ? 'since the period began' : 'over the period';
+      return start !== null && end !== null
+        ? dataProcessingService.formatGrowth(dataProcessingService.compareMetric(end, start), label)
+        : { growth: 'No earlier balance to compare', growthType: 'neutral' as const };
+    }
+    return dataProcessingService.formatGrowth(comparison[compare], comparison.label);
+  }
+
+  private fillPlaceholders(template: string, context: KpiFormulaContext): string {
+    return template.replace(PLACEHOLDER_PATTERN, (_, formula: string, format?: KpiFormat) => {
+      const value = kpiFormulaService.evaluate(formula.trim(), context);
+      return value === null ? this.describeMissing(formula.trim(), context) : this.formatValue(value, format || 'number');
+    });
+  }
+
+  /**
+   * Text for a formula or cell without a value: "Not available" when a
+   * single value is missing, "—" otherwise (a division by zero)
+   */
+  private describeMissing(formula: string | undefined, context: KpiFormulaContext): string {
+    const keys = formula ? kpiFormulaService.getValueKeys(formula) : [];
+    return !formula || keys.some(key => context.values[key] === undefined) ? NOT_AVAILABLE : NO_VALUE;
+  }
+
+  private getPlaceholderFormulas(template: string): string[] {
+    const formulas: string[] = [];
+    template.replace(PLACEHOLDER_PATTERN, (match, formula: string) => {
+      formulas.push(formula.trim());
+      return match;
+    });
+    return formulas;
+  }
+
+}
+
+// Export singleton instance
+export const kpiRegistryService = new KpiRegistryService(DEFAULT_KPIS);
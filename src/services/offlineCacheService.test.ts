@@ -0,0 +1,97 @@
+import { OfflineCacheService } from './offlineCacheService';
+
+interface FakeRequest {
+  result?: unknown;
+  error?: unknown;
+  onsuccess?: () => void;
+  onerror?: () => void;
+  onupgradeneeded?: () => void;
+}
+
+/**
+ * Just enough of IndexedDB for one object store keyed by "key"
+ */
+const createFakeIndexedDB = () => {
+  const entries = new Map<string, unknown>();
+  const respond = (result?: unknown): FakeRequest => {
+    const request: FakeRequest = { result };
+    setTimeout(() => request.onsuccess?.(), 0);
+    return request;
+  };
+  const store = {
+    get: (key: string) => respond(entries.get(key)),
+    put: (entry: { key: string }) => {
+      entries.set(entry.key, entry);
+      return respond(entry.key);
+    },
+    clear: () => {
+      entries.clear();
+      return respond();
+    }
+  };
+  const db = {
+    objectStoreNames: { contains: () => false },
+    createObjectStore: jest.fn(),
+    transaction: () => ({ objectStore: () => store })
+  };
+
+  return {
+    open: () => {
+      const request: FakeRequest = { result: db };
+      setTimeout(() => {
+        request.onupgradeneeded?.();
+        request.onsuccess?.();
+      }, 0);
+      return request;
+    }
+  };
+};
+
+describe('OfflineCacheService', () => {
+  const original = Object.getOwnPropertyDescriptor(window, 'indexedDB');
+
+  afterEach(() => {
+    if (original) {
+      Object.defineProperty(window, 'indexedDB', original);
+    } else {
+      delete (window as { indexedDB?: IDBFactory }).indexedDB;
+    }
+    jest.restoreAllMocks();
+  });
+
+  it('keeps payloads with the time they were fetched', async () => {
+    Object.defineProperty(window, 'indexedDB', { value: createFakeIndexedDB(), configurable: true });
+    const cache = new OfflineCacheService();
+
+    await cache.set('sheets:https://api.example.org/income', [{ date: '2025-09-01' }]);
+    const cached = await cache.get<{ date: string }[]>('sheets:https://api.example.org/income');
+
+    expect(cached?.data).toEqual([{ date: '2025-09-01' }]);
+    expect(Number.isNaN(Date.parse(cached?.fetchedAt || ''))).toBe(false);
+    expect(await cache.get('rest:https://api.example.org/income')).toBeNull();
+
+    await cache.clear();
+    expect(await cache.get('sheets:https://api.example.org/income')).toBeNull();
+  });
+
+  it('reads nothing and skips writes when IndexedDB is unavailable', async () => {
+    Object.defineProperty(window, 'indexedDB', { value: undefined, configurable: true });
+    const cache = new OfflineCacheService();
+
+    await expect(cache.set('sheets:income', [1, 2, 3])).resolves.toBeUndefined();
+    await expect(cache.get('sheets:income')).resolves.toBeNull();
+    await expect(cache.clear()).resolves.toBeUndefined();
+  });
+
+  it('falls back to no cache when the database cannot be opened', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    Object.defineProperty(window, 'indexedDB', {
+      value: { open: () => { throw new Error('SecurityError'); } },
+      configurable: true
+    });
+    const cache = new OfflineCacheService();
+
+    await expect(cache.get('sheets:income')).resolves.toBeNull();
+    expect(console.warn).toHaveBeenCalledWith('Offline cache unavailable:', expect.any(Error));
+  });
+});
@@ -0,0 +1,112 @@
+import { CachedPayload } from '../types';
+
+const DB_NAME = 'temple-dashboard-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'payloads';
+
+/**
+ * Persists the last successful sheet payloads (income, bank details, fund
+ * balance) in IndexedDB so the dashboard can render them immediately on load
+ * and keep working offline. Every method fails soft: when IndexedDB is
+ * unavailable (private browsing, old browsers) reads return null and writes
+ * are skipped.
+ *
+ * Payloads are keyed by the id of the data source they came from and the
+ * payload type (e.g. "sheets:https://api.example.org/income"), so pointing
+ * the dashboard at another source never serves the old source's data.
+ */
+export class OfflineCacheService {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  /**
+   * Read a cached payload, or null if there is none
+   */
+  async get<T>(key: string): Promise<CachedPayload<T> | null> {
+    const db = await this.open();
+    if (!db) {
+      return null;
+    }
+
+    try {
+      const entry = await this.request<CachedPayload<T> | undefined>(
+        db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key)
+      );
+      return entry ?? null;
+    } catch (error) {
+      console.warn(`Failed to read cached "${key}":`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Store a payload with the current time as its fetch timestamp
+   */
+  async set<T>(key: string, data: T): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      return;
+    }
+
+    const entry: CachedPayload<T> = { key, data, fetchedAt: new Date().toISOString() };
+    try {
+      await this.request(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry));
+    } catch (error) {
+      console.warn(`Failed to cache "${key}":`, error);
+    }
+  }
+
+  /**
+   * Remove every cached payload
+   */
+  async clear(): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      return;
+    }
+
+    try {
+      await this.request(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear());
+    } catch (error) {
+      console.warn('Failed to clear offline cache:', error);
+    }
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        try {
+          const request = indexedDB.open(DB_NAME, DB_VERSION);
+          request.onupgradeneeded = () => {
+            if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+              request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+            }
+          };
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => {
+            console.warn('Offline cache unavailable:', request.error);
+            resolve(null);
+          };
+        } catch (error) {
+          console.warn('Offline cache unavailable:', error);
+          resolve(null);
+        }
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// Export singleton instance
+export const offlineCacheService = new OfflineCacheService();
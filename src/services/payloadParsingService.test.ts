@@ -0,0 +1,49 @@
+import { payloadParsingService } from './payloadParsingService';
+
+describe('PayloadParsingService.parseCsv', () => {
+  it('reads quoted cells with commas, quotes and line breaks', () => {
+    expect(payloadParsingService.parseCsv('Date,Remarks\r\n2025-09-01,"Seva, ""special""\nbooking"\n\n2025-09-02,')).toEqual([
+      ['Date', 'Remarks'],
+      ['2025-09-01', 'Seva, "special"\nbooking'],
+      ['2025-09-02', '']
+    ]);
+  });
+
+  it('keeps blank lines when row numbers must match the file', () => {
+    expect(payloadParsingService.parseCsv('a\n\nb', true)).toEqual([['a'], [''], ['b']]);
+  });
+});
+
+describe('PayloadParsingService.toIncomeDataset', () => {
+  it('reads JSON records, bare or wrapped in the API envelope, like sheet rows', () => {
+    const entries = [
+      { date: '2025-09-01', department: 'Govindas Res', cash: '1,200', online: 800, channels: { upi: 800 } },
+      { date: '2025-09-02', department: 'Gift Shop', cash: 'abc', online: 0 }
+    ];
+
+    const dataset = payloadParsingService.toIncomeDataset({ data: entries });
+
+    expect(dataset.records.map(record => [record.date, record.department, record.cash, record.online, record.channels?.upi]))
+      .toEqual([['2025-09-01', 'Govindas', 1200, 800, 800], ['2025-09-02', 'Gift Shop', 0, 0, undefined]]);
+    expect(dataset.issues.map(issue => [issue.row, issue.field])).toEqual([[2, 'cash']]);
+  });
+
+  it('reads CSV with the income sheet columns', () => {
+    const dataset = payloadParsingService.toIncomeDataset('Date,Department,Cash,Online\n2025-09-01,Kitchen,500,250\n');
+
+    expect(dataset.records).toEqual([{ date: '2025-09-01', department: 'Kitchen', rawDepartment: 'Kitchen', cash: 500, online: 250 }]);
+  });
+
+  it('rejects anything else', () => {
+    expect(() => payloadParsingService.toIncomeDataset({ records: [] })).toThrow('Income data must be an array of records or a CSV file');
+  });
+});
+
+describe('PayloadParsingService single values', () => {
+  it('reads numbers, amounts and { value } objects, with blanks as null', () => {
+    expect(payloadParsingService.toSheetValues({ data: { fund: '₹5,00,000', reserve: { value: 1200 }, pending: '' } }))
+      .toEqual({ fund: 500000, reserve: 1200, pending: null });
+    expect(payloadParsingService.toSheetValues(null)).toEqual({});
+    expect(() => payloadParsingService.toSheetValues([1, 2])).toThrow(/object of key → value/);
+  });
+});
@@ -0,0 +1,186 @@
+import { BankDetails, BalanceSnapshot, IncomeColumnMapping, IncomeDataset, PaymentChannel, SheetValues } from '../types';
+import { googleSheetsService } from './googleSheetsService';
+import { bankHistoryService } from './bankHistoryService';
+import { dateService } from './dateService';
+import { dataQualityService } from './dataQualityService';
+import { bankDateOrder } from '../config/dateConfig';
+import { PAYMENT_CHANNELS } from '../config/paymentChannelConfig';
+import { INCOME_FIELDS } from '../config/incomeSheetConfig';
+
+/**
+ * Turns the JSON and CSV payloads of the file and REST data sources into
+ * dashboard records. CSV files use the same columns as the Google Sheets, so
+ * they go through the sheet parsers; JSON records are normalized field by field.
+ */
+export class PayloadParsingService {
+  /**
+   * Accept either a bare payload or the API's { data: ... } envelope
+   */
+  unwrap(raw: unknown): unknown {
+    if (raw && typeof raw === 'object' && !Array.isArray(raw) && 'data' in (raw as Record<string, unknown>)) {
+      return (raw as Record<string, unknown>).data;
+    }
+    return raw;
+  }
+
+  /**
+   * Split CSV text into rows of cells (RFC 4180 quoting, comma separated)
+   */
+  parseCsv(text: string, keepBlankRows: boolean = false): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    if (cell || row.length > 0) {
+      row.push(cell);
+      rows.push(row);
+    }
+
+    // Drop blank lines, unless the caller needs row numbers to match the file
+    return keepBlankRows ? rows : rows.filter(cells => cells.some(value => value.trim() !== ''));
+  }
+
+  /**
+   * Income records and their data quality issues from a JSON array of
+   * objects or CSV text
+   */
+  toIncomeDataset(raw: unknown): IncomeDataset {
+    if (typeof raw === 'string') {
+      // Keep blank lines so issue row numbers match the file
+      return googleSheetsService.parseIncomeValues(this.parseCsv(raw, true));
+    }
+
+    const entries = this.unwrap(raw);
+    if (!Array.isArray(entries)) {
+      throw new Error('Income data must be an array of records or a CSV file');
+    }
+
+    // Lay the objects out as sheet rows (one column per field) so they are read and checked like the sheet
+    const mapping = {} as IncomeColumnMapping;
+    INCOME_FIELDS.forEach((field, index) => {
+      mapping[field] = index;
+    });
+    const rows = entries.map((entry: any) => INCOME_FIELDS.map(field =>
+      PAYMENT_CHANNELS.includes(field as PaymentChannel) ? entry?.channels?.[field] : entry?.[field]
+    ));
+
+    return {
+      records: googleSheetsService.mapIncomeRows(rows, mapping),
+      // Row numbers are entry numbers, counting from 1
+      issues: dataQualityService.validateIncomeRows(rows, mapping, 1)
+    };
+  }
+
+  /**
+   * Bank details from a JSON array of objects or CSV text
+   */
+  toBankDetails(raw: unknown): BankDetails[] {
+    if (typeof raw === 'string') {
+      return googleSheetsService.parseBankDetailsValues(this.parseCsv(raw));
+    }
+
+    const entries = this.unwrap(raw);
+    if (!Array.isArray(entries)) {
+      throw new Error('Bank details must be an array of accounts or a CSV file');
+    }
+
+    return entries.map((entry: any) => ({
+      bankDetails: String(entry?.bankDetails ?? ''),
+      ifscCode: String(entry?.ifscCode ?? ''),
+      upiIds: Array.isArray(entry?.upiIds)
+        ? entry.upiIds.map(String)
+        : String(entry?.upiIds ?? '').split(',').map((id: string) => id.trim()).filter(Boolean),
+      accountHolderName: String(entry?.accountHolderName ?? ''),
+      mainPurpose: String(entry?.mainPurpose ?? ''),
+      currentBalance: this.toAmount(entry?.currentBalance),
+      accountNumber: String(entry?.accountNumber ?? ''),
+      lastUpdatedDate: dateService.parse(entry?.lastUpdatedDate, bankDateOrder) || '',
+      lastUpdatedTime: String(entry?.lastUpdatedTime ?? ''),
+      bankName: String(entry?.bankName || entry?.bankDetails || ''),
+      group: entry?.group ? String(entry.group).trim() : undefined
+    }));
+  }
+
+  /**
+   * Balance snapshots from a JSON array of objects or CSV text; null when absent
+   */
+  toBalanceSnapshots(raw: unknown): BalanceSnapshot[] | null {
+    if (typeof raw === 'string') {
+      return googleSheetsService.parseBankHistoryValues(this.parseCsv(raw));
+    }
+
+    const entries = this.unwrap(raw);
+    return entries === undefined || entries === null ? null : bankHistoryService.parseSnapshots(entries);
+  }
+
+  /**
+   * A single value from a number, a numeric string or { value }; null when absent
+   */
+  toSingleValue(raw: unknown): number | null {
+    const value = this.unwrap(raw);
+    const candidate = value && typeof value === 'object' ? (value as Record<string, unknown>).value : value;
+    if (candidate === undefined || candidate === null || String(candidate).trim() === '') {
+      return null;
+    }
+    return this.toAmount(candidate);
+  }
+
+  /**
+   * Single values from an object of key → value (each as toSingleValue);
+   * empty when absent
+   */
+  toSheetValues(raw: unknown): SheetValues {
+    const entries = this.unwrap(raw);
+    if (entries === undefined || entries === null) {
+      return {};
+    }
+    if (typeof entries !== 'object' || Array.isArray(entries)) {
+      throw new Error('Values must be an object of key → value, e.g. { "iskconEmpowerFund": 500000 }');
+    }
+
+    const values: SheetValues = {};
+    Object.keys(entries as Record<string, unknown>).forEach(key => {
+      values[key] = this.toSingleValue((entries as Record<string, unknown>)[key]);
+    });
+    return values;
+  }
+
+  /**
+   * Parse an amount such as 1200, "1,200.50" or "₹1,200"; 0 when unreadable
+   */
+  toAmount(value: unknown): number {
+    return dataQualityService.parseAmount(value) ?? 0;
+  }
+}
+
+// Export singleton instance
+export const payloadParsingService = new PayloadParsingService();
@@ -0,0 +1,110 @@
+import { BalanceSnapshot, BankDetails, BankStatement, IncomeRecord } from '../types';
+import { ReconciliationService } from './reconciliationService';
+
+const UPI_ACCOUNT = '11112222';
+const GUEST_HOUSE_ACCOUNT = '33334444';
+const DEFAULT_ACCOUNT = '55556666';
+
+const rules = [
+  { accountNumber: '1111 2222', targets: ['upi'] },
+  { accountNumber: '3333-4444', targets: ['Guest House'] }
+];
+
+const records: IncomeRecord[] = [
+  { date: '2025-09-05', department: 'Gift Shop', cash: 0, online: 1500, channels: { upi: 600, card: 400 } },
+  { date: '2025-09-10', department: 'Guest House', cash: 500, online: 2000, channels: { upi: 2000 } },
+  { date: '2025-09-12', department: 'Kitchen', cash: 300, online: 0 }
+];
+
+const bankDetails: BankDetails[] = [{
+  bankDetails: 'HDFC Guest House',
+  ifscCode: '',
+  upiIds: [],
+  accountHolderName: 'Temple Trust',
+  mainPurpose: '',
+  currentBalance: 10500,
+  accountNumber: '3333 4444',
+  bankName: 'HDFC Bank'
+}];
+
+const snapshots: BalanceSnapshot[] = [
+  { date: '2025-08-31', accountNumber: GUEST_HOUSE_ACCOUNT, bankDetails: 'HDFC Guest House', balance: 10000 },
+  { date: '2025-09-18', accountNumber: GUEST_HOUSE_ACCOUNT, bankDetails: 'HDFC Guest House', balance: 10500 }
+];
+
+const statements: BankStatement[] = [{
+  id: 'upi-september',
+  accountKey: UPI_ACCOUNT,
+  fileName: 'upi.csv',
+  importedAt: '2025-09-20T00:00:00.000Z',
+  period: { start: '2025-09-01', end: '2025-09-19' },
+  transactions: [
+    { date: '2025-09-01', description: 'Opening transfer', credit: 0, debit: 100 },
+    { date: '2025-09-05', description: 'UPI settlement', credit: 600, debit: 0 },
+    { date: '2025-09-19', description: 'Charges', credit: 0, debit: 10 }
+  ]
+}];
+
+describe('ReconciliationService.attribute', () => {
+  const service = new ReconciliationService(rules, DEFAULT_ACCOUNT);
+
+  it('gives all online income of a department with a rule to its account', () => {
+    expect(service.attribute(records[1])).toEqual([{ accountKey: GUEST_HOUSE_ACCOUNT, amount: 2000 }]);
+  });
+
+  it('splits other income by payment channel, sending the rest to the default account', () => {
+    expect(service.attribute(records[0])).toEqual([
+      { accountKey: UPI_ACCOUNT, amount: 600 },
+      { accountKey: DEFAULT_ACCOUNT, amount: 400 },
+      { accountKey: DEFAULT_ACCOUNT, amount: 500 }
+    ]);
+    expect(service.attribute(records[2])).toEqual([]);
+  });
+
+  it('lists the accounts of the rules and the default account once each', () => {
+    expect(service.getConfiguredAccounts()).toEqual([UPI_ACCOUNT, GUEST_HOUSE_ACCOUNT, DEFAULT_ACCOUNT]);
+  });
+});
+
+describe('ReconciliationService.reconcile', () => {
+  it('compares income with statement credits, else the balance change, and flags large differences', () => {
+    const service = new ReconciliationService(rules, DEFAULT_ACCOUNT);
+
+    const { rows, unattributed } = service.reconcile(records, bankDetails, snapshots, statements, 2, '2025-09-20');
+
+    expect(rows.map(row => [row.month, row.accountKey, row.basis, row.onlineIncome, row.bankMovement, row.flagged])).toEqual([
+      ['2025-09', UPI_ACCOUNT, 'statement', 600, 600, false],
+      ['2025-09', GUEST_HOUSE_ACCOUNT, 'balance', 2000, 500, true],
+      ['2025-09', DEFAULT_ACCOUNT, null, 900, null, false]
+    ]);
+    expect(rows[0].period).toEqual({ start: '2025-09-01', end: '2025-09-20' });
+    expect(rows[1].period).toEqual({ start: '2025-09-01', end: '2025-09-18' });
+    expect(rows[1].account).toBe('HDFC Guest House');
+    expect(rows[1].difference).toBe(-1500);
+    expect(unattributed).toEqual([]);
+  });
+
+  it('reports online income no rule attributes without a default account', () => {
+    const service = new ReconciliationService(rules, '');
+
+    const { unattributed } = service.reconcile(records, bankDetails, snapshots, statements, 2, '2025-09-20');
+
+    expect(unattributed).toEqual([{ month: '2025-09', amount: 900 }]);
+  });
+});
+
+describe('ReconciliationService.getAccountIncome', () => {
+  it('totals the income expected in an account per department and day', () => {
+    const service = new ReconciliationService(rules, DEFAULT_ACCOUNT);
+
+    expect(service.getAccountIncome(records, DEFAULT_ACCOUNT)).toEqual([
+      { date: '2025-09-05', department: 'Gift Shop', amount: 900 }
+    ]);
+  });
+
+  it('expects any online income in any account without rules', () => {
+    const service = new ReconciliationService([], '');
+
+    expect(service.getAccountIncome(records, UPI_ACCOUNT).map(entry => entry.amount)).toEqual([1500, 2000]);
+  });
+});
@@ -0,0 +1,255 @@
+import { BalanceSnapshot, BankDetails, BankStatement, DateRange, DepartmentIncome, IncomeRecord, LocalDate, PaymentChannel, ReconciliationRow } from '../types';
+import { bankHistoryService } from './bankHistoryService';
+import { bankStatementService } from './bankStatementService';
+import { departmentRegistryService } from './departmentRegistryService';
+import { dateService } from './dateService';
+import { PAYMENT_CHANNELS, PAYMENT_CHANNEL_LABELS } from '../config/paymentChannelConfig';
+import {
+  IncomeAccountRule,
+  incomeAccountRules,
+  defaultIncomeAccount,
+  reconciliationTolerance
+} from '../config/reconciliationConfig';
+
+/**
+ * Online income attributed to an account (null when no rule covers it)
+ */
+interface AttributedAmount {
+  accountKey: string | null;
+  amount: number;
+}
+
+/**
+ * Reconciliation rows per month and account, with the online income no rule
+ * attributes to an account
+ */
+export interface ReconciliationResult {
+  rows: ReconciliationRow[];
+  // Unattributed online income per month (YYYY-MM), newest first
+  unattributed: { month: string; amount: number }[];
+}
+
+/**
+ * Checks that online income reported in the income sheet arrives in the bank.
+ * Each record's online income is attributed to an account by department or
+ * payment channel (see reconciliationConfig.ts), and every account's monthly
+ * total is compared with the credits of its uploaded statements or, without
+ * those, the change in its recorded balances.
+ */
+export class ReconciliationService {
+  private rules: IncomeAccountRule[];
+  private defaultAccount: string;
+
+  constructor(rules: IncomeAccountRule[], defaultAccount: string) {
+    this.rules = rules;
+    this.defaultAccount = defaultAccount;
+  }
+
+  /**
+   * Accounts named by the rules and the default account, by account key
+   */
+  getConfiguredAccounts(): string[] {
+    const keys = this.rules.map(rule => this.toKey(rule.accountNumber));
+    if (this.defaultAccount) {
+      keys.push(this.toKey(this.defaultAccount));
+    }
+    return keys.filter((key, index) => keys.indexOf(key) === index);
+  }
+
+  /**
+   * Split a record's online income between accounts. A department rule (for
+   * the record's department or a parent of it) takes all of it; otherwise
+   * each payment channel goes to its channel rule's account, and whatever is
+   * left goes to the default account.
+   */
+  attribute(record: IncomeRecord): AttributedAmount[] {
+    if (record.online <= 0) {
+      return [];
+    }
+
+    const departmentAccount = this.findDepartmentAccount(record.department);
+    if (departmentAccount) {
+      return [{ accountKey: departmentAccount, amount: record.online }];
+    }
+
+    const fallback = this.defaultAccount ? this.toKey(this.defaultAccount) : null;
+    const amounts: AttributedAmount[] = [];
+    let split = 0;
+    PAYMENT_CHANNELS.forEach(channel => {
+      const amount = record.channels?.[channel] || 0;
+      if (amount <= 0) return;
+      split += amount;
+      amounts.push({ accountKey: this.findChannelAccount(channel) || fallback, amount });
+    });
+
+    // Channels may not add up to the Online column (or the sheet has none)
+    const unsplit = record.online - split;
+    if (unsplit > 0) {
+      amounts.push({ accountKey: fallback, amount: unsplit });
+    }
+    return amounts;
+  }
+
+  /**
+   * Online income expected in an account per department per day, oldest
+   * first. Without any rules every account may receive any online income.
+   */
+  getAccountIncome(records: IncomeRecord[], accountKey: string): DepartmentIncome[] {
+    const hasRules = this.getConfiguredAccounts().length > 0;
+    const byDay: Record<string, DepartmentIncome> = {};
+
+    records.forEach(record => {
+      const amount = hasRules
+        ? this.attribute(record)
+          .filter(attributed => attributed.accountKey === accountKey)
+          .reduce((sum, attributed) => sum + attributed.amount, 0)
+        : Math.max(record.online, 0);
+      if (amount <= 0) return;
+
+      const key = `${record.date}|${record.department}`;
+      byDay[key] = byDay[key] || { date: record.date, department: record.department, amount: 0 };
+      byDay[key].amount += amount;
+    });
+
+    return Object.keys(byDay)
+      .map(key => byDay[key])
+      .sort((a, b) => a.date.localeCompare(b.date) || a.department.localeCompare(b.department));
+  }
+
+  /**
+   * Compare each account's online income with its bank movement, month by
+   * month for the last `months` months (newest first). The current month
+   * runs to today; months with neither online income nor bank data are left out.
+   *
+   * A month uses the account's statement credits when its uploaded
+   * statements cover the whole month. Otherwise it uses the change from the
+   * last recorded balance before the month to the last one in it; the
+   * period then runs between those two snapshots, so consecutive months do
+   * not overlap. Balance changes include withdrawals, so a shortfall there
+   * may be spending rather than missing income.
+   */
+  reconcile(
+    records: IncomeRecord[],
+    bankDetails: BankDetails[],
+    snapshots: BalanceSnapshot[],
+    statements: BankStatement[],
+    months: number,
+    today: LocalDate = dateService.today()
+  ): ReconciliationResult {
+    const attributed = records.map(record => ({ date: record.date, amounts: this.attribute(record) }));
+    const onlineIncome = (accountKey: string | null, range: DateRange) => attributed
+      .filter(entry => dateService.isWithinRange(entry.date, range.start, range.end))
+      .reduce((total, entry) => total + entry.amounts
+        .filter(amount => amount.accountKey === accountKey)
+        .reduce((sum, amount) => sum + amount.amount, 0), 0);
+
+    const names: Record<string, string> = {};
+    bankHistoryService.getAccounts(snapshots, bankDetails).forEach(account => {
+      names[account.key] = account.label;
+    });
+
+    const accountKeys = this.getConfiguredAccounts();
+    const monthStarts: LocalDate[] = [];
+    for (let i = 0; i < months; i++) {
+      monthStarts.push(dateService.addMonths(`${today.slice(0, 7)}-01`, -i));
+    }
+
+    const rows: ReconciliationRow[] = [];
+    monthStarts.forEach(start => {
+      const monthEnd = dateService.addDays(dateService.addMonths(start, 1), -1);
+      const month: DateRange = { start, end: monthEnd < today ? monthEnd : today };
+
+      accountKeys.forEach(accountKey => {
+        let period = month;
+        let basis: ReconciliationRow['basis'] = null;
+        let bankMovement = bankStatementService.getCredits(statements, accountKey, month);
+
+        if (bankMovement !== null) {
+          basis = 'statement';
+        } else {
+          const balanceChange = this.getBalanceChange(snapshots, accountKey, month);
+          if (balanceChange) {
+            basis = 'balance';
+            bankMovement = balanceChange.change;
+            period = balanceChange.period;
+          }
+        }
+
+        const income = onlineIncome(accountKey, period);
+        if (basis === null && income === 0) return;
+
+        const tolerance = Math.max(reconciliationTolerance.amount, (income * reconciliationTolerance.percent) / 100);
+        const difference = bankMovement === null ? null : bankMovement - income;
+        rows.push({
+          accountKey,
+          account: names[accountKey] || accountKey,
+          month: start.slice(0, 7),
+          period,
+          onlineIncome: income,
+          basis,
+          bankMovement,
+          difference,
+          tolerance,
+          flagged: difference !== null && Math.abs(difference) > tolerance
+        });
+      });
+    });
+
+    return {
+      rows,
+      unattributed: monthStarts
+        .map(start => ({
+          month: start.slice(0, 7),
+          amount: onlineIncome(null, { start, end: dateService.addDays(dateService.addMonths(start, 1), -1) })
+        }))
+        .filter(entry => entry.amount > 0)
+    };
+  }
+
+  /**
+   * Change in an account's balance from its last snapshot before a month to
+   * its last snapshot in it, or null without both
+   */
+  private getBalanceChange(snapshots: BalanceSnapshot[], accountKey: string, month: DateRange): { change: number; period: DateRange } | null {
+    const accountSnapshots = snapshots
+      .filter(snapshot => bankHistoryService.getAccountKey(snapshot) === accountKey)
+      .sort((a, b) => a.date.localeCompare(b.date) || (a.time || '').localeCompare(b.time || ''));
+    const opening = accountSnapshots.filter(snapshot => snapshot.date < month.start).pop();
+    const closing = accountSnapshots.filter(snapshot => dateService.isWithinRange(snapshot.date, month.start, month.end)).pop();
+    if (!opening || !closing) {
+      return null;
+    }
+
+    return {
+      change: closing.balance - opening.balance,
+      period: { start: dateService.addDays(opening.date, 1), end: closing.date }
+    };
+  }
+
+  private findDepartmentAccount(department: string): string | null {
+    const rule = this.rules.find(candidate => candidate.targets.some(target =>
+      !this.toChannel(target) && departmentRegistryService.getDescendantNames(target).some(name => name.toLowerCase() === department.toLowerCase())
+    ));
+    return rule ? this.toKey(rule.accountNumber) : null;
+  }
+
+  private findChannelAccount(channel: PaymentChannel): string | null {
+    const rule = this.rules.find(candidate => candidate.targets.some(target => this.toChannel(target) === channel));
+    return rule ? this.toKey(rule.accountNumber) : null;
+  }
+
+  /**
+   * Payment channel named by a rule target, by id ("neftRtgs") or label ("NEFT/RTGS")
+   */
+  private toChannel(target: string): PaymentChannel | null {
+    const name = target.toLowerCase();
+    return PAYMENT_CHANNELS.find(channel => channel.toLowerCase() === name || PAYMENT_CHANNEL_LABELS[channel].toLowerCase() === name) || null;
+  }
+
+  private toKey(accountNumber: string): string {
+    return bankHistoryService.getAccountKey({ accountNumber, bankDetails: accountNumber });
+  }
+}
+
+// Export singleton instance
+export const reconciliationService = new ReconciliationService(incomeAccountRules, defaultIncomeAccount);
@@ -0,0 +1,58 @@
+import { IncomeRecord } from '../types';
+import { DepartmentRegistryService } from './departmentRegistryService';
+import { reportingCoverageService } from './reportingCoverageService';
+
+// 2025-09-01 is a Monday
+const registry = new DepartmentRegistryService([
+  { name: 'Guest House', order: 1, active: true, reporting: { frequency: 'daily', closedDays: [2], dueDay: 0 } },
+  { name: 'Gift Shop', order: 2, active: true, reporting: { frequency: 'weekly', closedDays: [], dueDay: 0 } },
+  { name: 'Seva Office', order: 3, active: true },
+  { name: 'Deity Seva', parent: 'Seva Office', order: 1, active: true },
+  { name: 'Trust Office', order: 4, active: true, reporting: { frequency: 'none', closedDays: [], dueDay: 0 } },
+  { name: 'Old Canteen', order: 5, active: false }
+]);
+
+const record = (date: string, department: string, cash: number = 0): IncomeRecord => ({ date, department, cash, online: 0 });
+
+describe('ReportingCoverageService.buildCoverage', () => {
+  const records = [
+    record('2025-09-01', 'Guest House', 500),
+    record('2025-09-03', 'Guest House'),
+    record('2025-09-04', 'Gift Shop', 2000),
+    record('2025-09-01', 'Deity Seva', 100),
+    record('2025-09-02', 'Seva Office', 100),
+    record('2025-09-02', 'Seva Office', 50)
+  ];
+  const coverage = reportingCoverageService.buildCoverage(records, '2025-09-01', '2025-09-07', registry);
+  const statuses = (department: string) => coverage.find(row => row.department === department)!.cells.map(cell => cell.status);
+
+  it('covers each active top-level department for every date', () => {
+    expect(coverage.map(row => row.department)).toEqual(['Guest House', 'Gift Shop', 'Seva Office', 'Trust Office']);
+    expect(coverage[0].cells.map(cell => cell.date)).toEqual([
+      '2025-09-01', '2025-09-02', '2025-09-03', '2025-09-04', '2025-09-05', '2025-09-06', '2025-09-07'
+    ]);
+  });
+
+  it('expects daily entries except on closed days, counting a zero row as entered', () => {
+    expect(statuses('Guest House')).toEqual(['reported', 'not-expected', 'reported', 'missing', 'missing', 'missing', 'missing']);
+  });
+
+  it('counts a weekly entry anywhere in the seven days up to the due day', () => {
+    expect(statuses('Gift Shop')).toEqual(['not-expected', 'not-expected', 'not-expected', 'reported', 'not-expected', 'not-expected', 'reported']);
+  });
+
+  it('counts sub-section records towards their department and never expects departments that do not report', () => {
+    const seva = coverage.find(row => row.department === 'Seva Office')!;
+
+    expect(seva.cells.slice(0, 3).map(cell => [cell.status, cell.recordCount])).toEqual([['reported', 1], ['reported', 2], ['missing', 0]]);
+    expect(seva.missingCount).toBe(5);
+    expect(statuses('Trust Office').every(status => status === 'not-expected')).toBe(true);
+  });
+});
+
+describe('ReportingCoverageService.getPendingDepartments', () => {
+  it('lists the departments with no entry on a day they were due', () => {
+    expect(reportingCoverageService.getPendingDepartments([record('2025-09-07', 'Deity Seva')], '2025-09-07', registry))
+      .toEqual(['Guest House', 'Gift Shop']);
+  });
+});
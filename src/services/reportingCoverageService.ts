@@ -0,0 +1,104 @@
+import { CoverageCell, DepartmentCoverage, DepartmentNode, IncomeRecord, LocalDate, ReportingSchedule, Weekday } from '../types';
+import { dateService } from './dateService';
+import { departmentRegistryService, DepartmentRegistryService } from './departmentRegistryService';
+import { DEFAULT_REPORTING_SCHEDULE } from '../config/reportingConfig';
+
+/**
+ * Works out which departments have not entered income for days they were
+ * expected to, using each department's reporting schedule. A row with zero
+ * income counts as an entry; only a day with no row at all is missing.
+ */
+export class ReportingCoverageService {
+  /**
+   * Reporting schedule of a department (daily when it has none)
+   */
+  getSchedule(department: DepartmentNode): ReportingSchedule {
+    return department.reporting || DEFAULT_REPORTING_SCHEDULE;
+  }
+
+  /**
+   * Whether an entry is due on a date under a schedule
+   */
+  isExpected(schedule: ReportingSchedule, date: LocalDate): boolean {
+    const weekday = dateService.toDate(date).getDay() as Weekday;
+    switch (schedule.frequency) {
+      case 'daily':
+        return !schedule.closedDays.includes(weekday);
+      case 'weekly':
+        return weekday === schedule.dueDay;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Coverage of each active top-level department for every date from start to
+   * end. Records of sub-sections count towards their top-level department; a
+   * weekly entry is reported when any record falls in the seven days up to
+   * the due day.
+   */
+  buildCoverage(
+    records: IncomeRecord[],
+    start: LocalDate,
+    end: LocalDate,
+    registry: DepartmentRegistryService = departmentRegistryService
+  ): DepartmentCoverage[] {
+    // Top-level department -> date -> number of records
+    const counts = new Map<string, Map<LocalDate, number>>();
+    records.forEach(record => {
+      const department = registry.getTopLevelDepartment(record.department);
+      if (!department) return;
+
+      const byDate = counts.get(department) || new Map<LocalDate, number>();
+      byDate.set(record.date, (byDate.get(record.date) || 0) + 1);
+      counts.set(department, byDate);
+    });
+
+    const dates: LocalDate[] = [];
+    for (let date = start; date <= end; date = dateService.addDays(date, 1)) {
+      dates.push(date);
+    }
+
+    return registry.getDepartments().map(department => {
+      const schedule = this.getSchedule(department);
+      const byDate = counts.get(department.name) || new Map<LocalDate, number>();
+      const countOn = (date: LocalDate) => byDate.get(date) || 0;
+
+      const cells: CoverageCell[] = dates.map(date => {
+        const recordCount = countOn(date);
+        if (recordCount > 0) {
+          return { date, status: 'reported', recordCount };
+        }
+        if (!this.isExpected(schedule, date)) {
+          return { date, status: 'not-expected', recordCount };
+        }
+        const weekReported = schedule.frequency === 'weekly' &&
+          [1, 2, 3, 4, 5, 6].some(daysBefore => countOn(dateService.addDays(date, -daysBefore)) > 0);
+        return { date, status: weekReported ? 'reported' : 'missing', recordCount };
+      });
+
+      return {
+        department: department.name,
+        schedule,
+        cells,
+        missingCount: cells.filter(cell => cell.status === 'missing').length
+      };
+    });
+  }
+
+  /**
+   * Departments with no entry on a date they were expected to report (yesterday by default)
+   */
+  getPendingDepartments(
+    records: IncomeRecord[],
+    date: LocalDate = dateService.addDays(dateService.today(), -1),
+    registry: DepartmentRegistryService = departmentRegistryService
+  ): string[] {
+    return this.buildCoverage(records, date, date, registry)
+      .filter(coverage => coverage.missingCount > 0)
+      .map(coverage => coverage.department);
+  }
+}
+
+// Export singleton instance
+export const reportingCoverageService = new ReportingCoverageService();
@@ -0,0 +1,86 @@
+import { RequestErrorKind } from '../types';
+
+/**
+ * Base class of every failed request. The message says what went wrong and
+ * what to check, so it can be shown to the user as it is.
+ */
+export class RequestError extends Error {
+  constructor(
+    readonly kind: RequestErrorKind,
+    message: string,
+    // HTTP status, when there was a response
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'RequestError';
+    // Keep instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+
+  /**
+   * Whether trying again later can succeed
+   */
+  get retryable(): boolean {
+    return this.kind === 'quota' || this.kind === 'network';
+  }
+}
+
+export class AuthError extends RequestError {
+  constructor(message: string, status?: number) {
+    super('auth', message, status);
+    this.name = 'AuthError';
+  }
+}
+
+export class NotFoundError extends RequestError {
+  constructor(message: string, status?: number) {
+    super('not-found', message, status);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class QuotaError extends RequestError {
+  constructor(
+    message: string,
+    status?: number,
+    // Milliseconds the server asked us to wait (Retry-After), when given
+    readonly retryAfterMs?: number
+  ) {
+    super('quota', message, status);
+    this.name = 'QuotaError';
+  }
+}
+
+export class NetworkError extends RequestError {
+  constructor(message: string, status?: number) {
+    super('network', message, status);
+    this.name = 'NetworkError';
+  }
+}
+
+export class ParseError extends RequestError {
+  constructor(message: string, status?: number) {
+    super('parse', message, status);
+    this.name = 'ParseError';
+  }
+}
+
+/**
+ * Typed error for a kind, e.g. to rebuild an error the API reported
+ */
+export const createRequestError = (kind: RequestErrorKind, message: string, status?: number): RequestError => {
+  switch (kind) {
+    case 'auth':
+      return new AuthError(message, status);
+    case 'not-found':
+      return new NotFoundError(message, status);
+    case 'quota':
+      return new QuotaError(message, status);
+    case 'network':
+      return new NetworkError(message, status);
+    case 'parse':
+      return new ParseError(message, status);
+    default:
+      return new RequestError(kind, message, status);
+  }
+};
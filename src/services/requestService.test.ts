@@ -0,0 +1,113 @@
+import { NetworkError, NotFoundError, ParseError, QuotaError } from './requestErrors';
+import { RequestService } from './requestService';
+
+interface FakeResponse {
+  ok: boolean;
+  status: number;
+  text: () => Promise<string>;
+  headers: { get: (name: string) => string | null };
+}
+
+const respond = (status: number, body: string = '', headers: Record<string, string> = {}): FakeResponse => ({
+  ok: status >= 200 && status < 300,
+  status,
+  text: async () => body,
+  headers: { get: name => headers[name] ?? null }
+});
+
+describe('RequestService.getText', () => {
+  const service = new RequestService();
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    Object.defineProperty(window, 'fetch', { value: fetchMock, configurable: true, writable: true });
+    // No waiting between retries
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('retries server errors until a response succeeds', async () => {
+    fetchMock.mockResolvedValueOnce(respond(503)).mockResolvedValueOnce(respond(200, 'ok'));
+
+    await expect(service.getText('https://api.example.org/income', { label: 'the income sheet' })).resolves.toBe('ok');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Request for the income sheet failed'));
+  });
+
+  it('gives up after the retries with the last error', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+
+    await expect(service.getText('https://api.example.org/income', { label: 'the income sheet', retries: 2 }))
+      .rejects.toThrow(new NetworkError('Could not reach the income sheet. Check the internet connection and try again.'));
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry a missing sheet', async () => {
+    fetchMock.mockResolvedValue(respond(404, JSON.stringify({ error: { message: 'Requested entity was not found.' } })));
+
+    const request = service.getText('https://sheets.example.org/values/Income', { label: 'the income sheet' });
+
+    await expect(request).rejects.toBeInstanceOf(NotFoundError);
+    await expect(request).rejects.toThrow('The income sheet was not found (404) (Requested entity was not found.)');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes on failures the dashboard API reports without retrying them again', async () => {
+    fetchMock.mockResolvedValue(respond(429, JSON.stringify({ error: 'Google Sheets quota exceeded', kind: 'quota' }), { 'Retry-After': '30' }));
+
+    const request = service.getText('https://dashboard.example.org/api/income', { label: 'the income data' });
+
+    await expect(request).rejects.toBeInstanceOf(QuotaError);
+    await expect(request).rejects.toMatchObject({ message: 'Google Sheets quota exceeded', retryAfterMs: 30000 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails an attempt that does not respond in time', async () => {
+    fetchMock.mockImplementation((url: string, init: RequestInit) => new Promise((resolve, reject) => {
+      init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+    }));
+
+    await expect(service.getText('https://api.example.org/income', { label: 'the income sheet', timeoutMs: 10, retries: 0 }))
+      .rejects.toThrow('The income sheet did not respond within 1 seconds');
+  });
+});
+
+describe('RequestService.getJson', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('rejects a response that is not JSON', async () => {
+    const service = new RequestService();
+    jest.spyOn(service, 'getText').mockResolvedValue('<html>Sign in</html>');
+
+    await expect(service.getJson('https://api.example.org/income', { label: 'the income data' }))
+      .rejects.toThrow(new ParseError('The response from the income data is not valid JSON'));
+  });
+});
+
+describe('RequestService.getRetryDelay', () => {
+  const service = new RequestService();
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('waits up to an exponential backoff, capped', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+
+    expect(service.getRetryDelay(0, new NetworkError('down'))).toBe(500);
+    expect(service.getRetryDelay(2, new NetworkError('down'))).toBe(2000);
+    expect(service.getRetryDelay(10, new NetworkError('down'))).toBe(8000);
+  });
+
+  it('waits as long as the server asks, capped', () => {
+    expect(service.getRetryDelay(0, new QuotaError('slow down', 429, 3000))).toBe(3000);
+    expect(service.getRetryDelay(0, new QuotaError('slow down', 429, 60000))).toBe(8000);
+  });
+});
@@ -0,0 +1,207 @@
+import { RequestErrorKind } from '../types';
+import {
+  RequestError,
+  AuthError,
+  NotFoundError,
+  QuotaError,
+  NetworkError,
+  ParseError,
+  createRequestError
+} from './requestErrors';
+import {
+  requestTimeoutMs,
+  requestRetries,
+  REQUEST_RETRY_BASE_DELAY_MS,
+  REQUEST_RETRY_MAX_DELAY_MS
+} from '../config/requestConfig';
+
+/**
+ * @property {string} label - What is being fetched, for error messages, e.g. "the income sheet"
+ * @property {RequestInit} init - Extra fetch options (headers)
+ * @property {number} timeoutMs - Time to wait for each attempt
+ * @property {number} retries - Retries after the first attempt
+ */
+export interface RequestOptions {
+  label: string;
+  init?: RequestInit;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+const KNOWN_KINDS: RequestErrorKind[] = ['auth', 'not-found', 'quota', 'network', 'parse', 'http'];
+
+/**
+ * Every HTTP request of the dashboard and its API goes through here: each
+ * attempt has a timeout, 429 and 5xx responses and network failures are
+ * retried with jittered exponential backoff, and failures are thrown as
+ * typed errors (see requestErrors.ts) with messages fit to show the user.
+ * Failures the dashboard's API reports are not retried again, as the API
+ * has retried them already.
+ */
+export class RequestService {
+  /**
+   * Fetch and parse a JSON response
+   */
+  async getJson<T>(url: string, options: RequestOptions): Promise<T> {
+    const text = await this.getText(url, options);
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      throw new ParseError(`The response from ${options.label} is not valid JSON`);
+    }
+  }
+
+  /**
+   * Fetch a response as text
+   */
+  async getText(url: string, options: RequestOptions): Promise<string> {
+    const retries = options.retries ?? requestRetries;
+
+    for (let attempt = 0; ; attempt++) {
+      let requestError: RequestError;
+      let retryable: boolean;
+      try {
+        const response = await this.fetchWithTimeout(url, options);
+        if (response.ok) {
+          return await response.text();
+        }
+        const failure = await this.toError(response, options.label);
+        requestError = failure.error;
+        // The dashboard API has already retried the request it reports on
+        retryable = requestError.retryable && !failure.reportedByApi;
+      } catch (error) {
+        requestError = error instanceof RequestError
+          ? error
+          : new NetworkError(`Could not reach ${options.label}. Check the internet connection and try again.`);
+        retryable = requestError.retryable;
+      }
+
+      if (!retryable || attempt >= retries) {
+        throw requestError;
+      }
+
+      const delay = this.getRetryDelay(attempt, requestError);
+      console.warn(`Request for ${options.label} failed (${requestError.message}), retrying in ${delay} ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  /**
+   * Wait before retry number attempt + 1: a random time up to the
+   * exponential backoff (full jitter), or what the server asked for
+   */
+  getRetryDelay(attempt: number, error: RequestError): number {
+    if (error instanceof QuotaError && error.retryAfterMs !== undefined) {
+      return Math.min(error.retryAfterMs, REQUEST_RETRY_MAX_DELAY_MS);
+    }
+    const backoff = Math.min(REQUEST_RETRY_MAX_DELAY_MS, REQUEST_RETRY_BASE_DELAY_MS * Math.pow(2, attempt));
+    return Math.round(Math.random() * backoff);
+  }
+
+  private async fetchWithTimeout(url: string, options: RequestOptions): Promise<Response> {
+    const timeoutMs = options.timeoutMs ?? requestTimeoutMs;
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    try {
+      return await fetch(url, { ...options.init, signal: controller.signal });
+    } catch (error) {
+      if (timedOut) {
+        throw new NetworkError(`${this.capitalize(options.label)} did not respond within ${Math.ceil(timeoutMs / 1000)} seconds`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Typed error for an unsuccessful response. Errors reported by the
+   * dashboard's API keep their kind and message, and are marked as
+   * reported by the API; Google's error message is added to the explanation.
+   */
+  private async toError(response: Response, label: string): Promise<{ error: RequestError; reportedByApi: boolean }> {
+    const body = await response.text().catch(() => '');
+    let reported: { message?: string; kind?: RequestErrorKind } = {};
+    try {
+      const parsed = JSON.parse(body);
+      if (typeof parsed?.error === 'string') {
+        // Dashboard API: { error, kind }
+        reported = { message: parsed.error, kind: KNOWN_KINDS.includes(parsed.kind) ? parsed.kind : undefined };
+      } else if (typeof parsed?.error?.message === 'string') {
+        // Google APIs: { error: { code, message, status } }
+        reported = { message: parsed.error.message };
+      }
+    } catch {
+      // Not JSON; the status alone has to do
+    }
+
+    const { status } = response;
+    if (reported.kind && reported.message) {
+      const error = reported.kind === 'quota'
+        ? new QuotaError(reported.message, status, this.parseRetryAfter(response))
+        : createRequestError(reported.kind, reported.message, status);
+      return { error, reportedByApi: true };
+    }
+
+    return { error: this.toStatusError(status, label, reported.message, response), reportedByApi: false };
+  }
+
+  /**
+   * Typed error for the status of a response from anything but the
+   * dashboard's API
+   */
+  private toStatusError(status: number, label: string, message: string | undefined, response: Response): RequestError {
+    const detail = message ? ` (${message})` : '';
+    if (status === 401 || status === 403) {
+      return new AuthError(
+        `Access to ${label} was refused (${status})${detail}. Check the API key and that the spreadsheet is shared with anyone who has the link.`,
+        status
+      );
+    }
+    if (status === 404) {
+      return new NotFoundError(
+        `${this.capitalize(label)} was not found (404)${detail}. Check the spreadsheet ID, the sheet tab name and the URL.`,
+        status
+      );
+    }
+    if (status === 429) {
+      return new QuotaError(
+        `Too many requests for ${label} (429)${detail}. The Google Sheets quota resets every minute; wait a minute and try again.`,
+        status,
+        this.parseRetryAfter(response)
+      );
+    }
+    if (status >= 500) {
+      return new NetworkError(`${this.capitalize(label)} is temporarily unavailable (${status})${detail}. Try again shortly.`, status);
+    }
+    return new RequestError('http', message || `Request for ${label} failed with status ${status}`, status);
+  }
+
+  /**
+   * Retry-After header in milliseconds (seconds or an HTTP date)
+   */
+  private parseRetryAfter(response: Response): number | undefined {
+    const value = response.headers.get('Retry-After');
+    if (!value) {
+      return undefined;
+    }
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  private capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+}
+
+// Export singleton instance
+export const requestService = new RequestService();
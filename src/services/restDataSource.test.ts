@@ -0,0 +1,35 @@
+import { requestService } from './requestService';
+import { NotFoundError, QuotaError } from './requestErrors';
+import { RestDataSource } from './restDataSource';
+
+describe('RestDataSource', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reads each payload from its endpoint under the base URL', async () => {
+    const getJson = jest.spyOn(requestService, 'getJson').mockResolvedValue({ data: { fund: 1000 } });
+
+    await expect(new RestDataSource('https://erp.example.org/temple').fetchValues()).resolves.toEqual({ fund: 1000 });
+    expect(getJson).toHaveBeenCalledWith('https://erp.example.org/temple/values', expect.objectContaining({ label: 'the REST API (values)' }));
+  });
+
+  it('treats a missing values or history endpoint as no data, but not a missing income endpoint', async () => {
+    jest.spyOn(requestService, 'getJson').mockRejectedValue(new NotFoundError('Not found', 404));
+    const source = new RestDataSource('https://erp.example.org/temple');
+
+    await expect(source.fetchValues()).resolves.toEqual({});
+    await expect(source.fetchBankHistory()).resolves.toBeNull();
+    await expect(source.fetchIncome()).rejects.toThrow(NotFoundError);
+  });
+
+  it('passes on other failures', async () => {
+    jest.spyOn(requestService, 'getJson').mockRejectedValue(new QuotaError('Too many requests'));
+
+    await expect(new RestDataSource('https://erp.example.org/temple').fetchValues()).rejects.toThrow(QuotaError);
+  });
+
+  it('needs a base URL', async () => {
+    await expect(new RestDataSource('').fetchIncome()).rejects.toThrow('REACT_APP_REST_BASE_URL is not set');
+  });
+});
@@ -0,0 +1,59 @@
+import { IncomeDataset, BankDetails, BalanceSnapshot, DataSource, SheetValues } from '../types';
+import { payloadParsingService } from './payloadParsingService';
+import { requestService } from './requestService';
+import { NotFoundError } from './requestErrors';
+
+/**
+ * Reads the dashboard data from a REST API serving
+ * GET {base}/income, {base}/bank-details and {base}/values (an object of
+ * key → value) as JSON, either bare or wrapped in { data: ... }, and
+ * optionally {base}/bank-history (balance snapshots).
+ */
+export class RestDataSource implements DataSource {
+  readonly id: string;
+  readonly label = 'REST API';
+
+  constructor(private baseUrl: string) {
+    this.id = `rest:${baseUrl}`;
+  }
+
+  async fetchIncome(): Promise<IncomeDataset> {
+    return payloadParsingService.toIncomeDataset(await this.get('income'));
+  }
+
+  async fetchBankDetails(): Promise<BankDetails[]> {
+    return payloadParsingService.toBankDetails(await this.get('bank-details'));
+  }
+
+  /**
+   * Single values by key; none when the endpoint answers 404
+   */
+  async fetchValues(): Promise<SheetValues> {
+    return payloadParsingService.toSheetValues(await this.get('values', true));
+  }
+
+  /**
+   * Balance snapshots; null when the endpoint answers 404
+   */
+  async fetchBankHistory(): Promise<BalanceSnapshot[] | null> {
+    return payloadParsingService.toBalanceSnapshots(await this.get('bank-history', true));
+  }
+
+  private async get(path: string, allowNotFound: boolean = false): Promise<unknown> {
+    if (!this.baseUrl) {
+      throw new Error('REACT_APP_REST_BASE_URL is not set');
+    }
+
+    try {
+      return await requestService.getJson<unknown>(`${this.baseUrl}/${path}`, {
+        label: `the REST API (${path})`,
+        init: { headers: { Accept: 'application/json' } }
+      });
+    } catch (error) {
+      if (allowNotFound && error instanceof NotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import { requestService } from './requestService';
+import { ParseError } from './requestErrors';
+import { SheetsApiService } from './sheetsApiService';
+
+describe('SheetsApiService requests', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reads each sheet from its API endpoint, cached unless fresh data is asked for', async () => {
+    const getJson = jest.spyOn(requestService, 'getJson').mockResolvedValue({ data: [{ date: '2025-09-01' }] });
+    const api = new SheetsApiService('https://dashboard.example.org');
+
+    await api.fetchBankHistory();
+    await api.fetchBankHistory({ fresh: true });
+
+    expect(getJson).toHaveBeenNthCalledWith(1, 'https://dashboard.example.org/api/bank-history', expect.objectContaining({ init: undefined }));
+    expect(getJson).toHaveBeenNthCalledWith(2, 'https://dashboard.example.org/api/bank-history?fresh=1', expect.objectContaining({ init: { cache: 'no-store' } }));
+  });
+
+  it('passes on a missing tab as null', async () => {
+    jest.spyOn(requestService, 'getJson').mockResolvedValue({ data: null });
+
+    await expect(new SheetsApiService('').fetchEvents()).resolves.toBeNull();
+  });
+
+  it('rejects a response without data', async () => {
+    jest.spyOn(requestService, 'getJson').mockResolvedValue({ error: 'nope' });
+
+    await expect(new SheetsApiService('').fetchDepartmentDefinitions()).rejects.toThrow(ParseError);
+  });
+
+  it('keys its data by the API it talks to', () => {
+    expect(new SheetsApiService('https://dashboard.example.org').id).toBe('sheets:https://dashboard.example.org');
+  });
+});
+
+describe('SheetsApiService dashboard bundle', () => {
+  const bundle = {
+    income: { records: [{ date: '2025-09-01', department: 'Kitchen', cash: 100, online: 0 }], issues: [] },
+    bankDetails: [{
+      bankDetails: 'SBI Civil Lines',
+      ifscCode: 'SBIN0000001',
+      upiIds: [],
+      accountHolderName: 'ISKCON Prayagraj',
+      mainPurpose: 'Operations',
+      currentBalance: 1000,
+      accountNumber: '1234567890',
+      bankName: 'SBI'
+    }],
+    values: { iskconEmpowerFund: 500000 }
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('answers income, bank details and values made together from one request', async () => {
+    const getJson = jest.spyOn(requestService, 'getJson').mockResolvedValue({ data: bundle });
+    const api = new SheetsApiService('https://dashboard.example.org');
+
+    const [income, bankDetails, values] = await Promise.all([api.fetchIncome(), api.fetchBankDetails(), api.fetchValues()]);
+
+    expect(getJson).toHaveBeenCalledTimes(1);
+    expect(getJson).toHaveBeenCalledWith('https://dashboard.example.org/api/dashboard', expect.anything());
+    expect([income, bankDetails, values]).toEqual([bundle.income, bundle.bankDetails, bundle.values]);
+  });
+
+  it('keeps fresh and cached requests apart, and requests again once one has finished', async () => {
+    const getJson = jest.spyOn(requestService, 'getJson').mockResolvedValue({ data: bundle });
+    const api = new SheetsApiService('https://dashboard.example.org');
+
+    await Promise.all([api.fetchIncome(), api.fetchBankDetails({ fresh: true })]);
+    await api.fetchValues();
+
+    expect(getJson.mock.calls.map(([url]) => url)).toEqual([
+      'https://dashboard.example.org/api/dashboard',
+      'https://dashboard.example.org/api/dashboard?fresh=1',
+      'https://dashboard.example.org/api/dashboard'
+    ]);
+  });
+
+  it('lets the next call try again after a failed request', async () => {
+    const getJson = jest.spyOn(requestService, 'getJson')
+      .mockRejectedValueOnce(new ParseError('The response from the dashboard API (dashboard) is not valid JSON'))
+      .mockResolvedValueOnce({ data: bundle });
+    const api = new SheetsApiService('');
+
+    await expect(api.fetchIncome()).rejects.toThrow(ParseError);
+    await expect(api.fetchIncome()).resolves.toEqual(bundle.income);
+    expect(getJson).toHaveBeenCalledTimes(2);
+  });
+});
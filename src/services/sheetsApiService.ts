@@ -0,0 +1,117 @@
+import { IncomeDataset, BankDetails, DepartmentDefinition, TempleEvent, KpiDefinition, BalanceSnapshot, SheetEndpoint, ApiResponse, DataSource, DashboardBundle, SheetValues, FetchOptions } from '../types';
+import { apiBaseUrl } from '../config/apiConfig';
+import { requestService } from './requestService';
+import { ParseError } from './requestErrors';
+
+/**
+ * Browser client for the dashboard's serverless API, which reads and parses
+ * the Google Sheets on the server so the API key never reaches the browser.
+ * This is the default ("sheets") data source.
+ *
+ * Income, bank details and single values come from one /api/dashboard
+ * request (a values:batchGet on the server): calls made while that request
+ * is running share it, so a load or sync that asks for all three costs one
+ * round trip. Fresh fetches (manual syncs) add ?fresh=1, which makes the
+ * API read the sheets again instead of answering from its cache.
+ */
+export class SheetsApiService implements DataSource {
+  readonly id: string;
+  readonly label = 'Google Sheets';
+  // Bundle requests running, one for cached and one for fresh data
+  private pendingBundles: { cached?: Promise<DashboardBundle>; fresh?: Promise<DashboardBundle> } = {};
+
+  constructor(private baseUrl: string) {
+    this.id = `sheets:${baseUrl}`;
+  }
+
+  /**
+   * Income records (department names as entered in the sheet, resolved by the
+   * caller) and the data quality issues found in the sheet
+   */
+  async fetchIncome(options?: FetchOptions): Promise<IncomeDataset> {
+    return (await this.fetchBundle(options)).income;
+  }
+
+  async fetchBankDetails(options?: FetchOptions): Promise<BankDetails[]> {
+    return (await this.fetchBundle(options)).bankDetails;
+  }
+
+  /**
+   * Every value in the server's range registry, such as the ISKCON Empower
+   * Prayagraj fund balance
+   */
+  async fetchValues(options?: FetchOptions): Promise<SheetValues> {
+    return (await this.fetchBundle(options)).values;
+  }
+
+  /**
+   * Department definitions, or null when no departments tab is configured
+   */
+  async fetchDepartmentDefinitions(): Promise<DepartmentDefinition[] | null> {
+    return (await this.request<DepartmentDefinition[] | null>('departments')).data;
+  }
+
+  /**
+   * Events calendar, or null when no events tab is configured
+   */
+  async fetchEvents(): Promise<TempleEvent[] | null> {
+    return (await this.request<TempleEvent[] | null>('events')).data;
+  }
+
+  /**
+   * KPI cards, or null when no KPIs tab is configured
+   */
+  async fetchKpiDefinitions(): Promise<KpiDefinition[] | null> {
+    return (await this.request<KpiDefinition[] | null>('kpis')).data;
+  }
+
+  /**
+   * Bank balance history, or null when no bank history tab is configured
+   */
+  async fetchBankHistory(options?: FetchOptions): Promise<BalanceSnapshot[] | null> {
+    return (await this.request<BalanceSnapshot[] | null>('bank-history', options)).data;
+  }
+
+  /**
+   * URL of an endpoint, asking for fresh data when requested
+   */
+  getUrl(endpoint: SheetEndpoint, options?: FetchOptions): string {
+    return `${this.baseUrl}/api/${endpoint}${options?.fresh ? '?fresh=1' : ''}`;
+  }
+
+  /**
+   * The dashboard bundle, from the request already running if there is one
+   */
+  private fetchBundle(options?: FetchOptions): Promise<DashboardBundle> {
+    const mode = options?.fresh ? 'fresh' : 'cached';
+    let pending = this.pendingBundles[mode];
+    if (!pending) {
+      pending = this.request<DashboardBundle>('dashboard', options)
+        .then(response => response.data)
+        .finally(() => {
+          delete this.pendingBundles[mode];
+        });
+      this.pendingBundles[mode] = pending;
+    }
+    return pending;
+  }
+
+  /**
+   * Errors the API reports keep their kind (see requestErrors.ts) and message
+   */
+  private async request<T>(endpoint: SheetEndpoint, options?: FetchOptions): Promise<ApiResponse<T>> {
+    const body = await requestService.getJson<ApiResponse<T> | null>(this.getUrl(endpoint, options), {
+      label: `the dashboard API (${endpoint})`,
+      init: options?.fresh ? { cache: 'no-store' } : undefined
+    });
+
+    if (!body || !('data' in body)) {
+      throw new ParseError(`The dashboard API (${endpoint}) answered without data`);
+    }
+
+    return body;
+  }
+}
+
+// Export singleton instance
+export const sheetsApiService = new SheetsApiService(apiBaseUrl);
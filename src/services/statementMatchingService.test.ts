@@ -0,0 +1,88 @@
+import { BankStatement, DepartmentIncome, StatementTransaction } from '../types';
+import { StatementMatchingService } from './statementMatchingService';
+
+const ACCOUNT = '1234567890';
+
+const credit = (date: string, amount: number, description: string = 'UPI settlement'): StatementTransaction => ({
+  date,
+  description,
+  credit: amount,
+  debit: 0
+});
+
+const statement = (start: string, end: string, transactions: StatementTransaction[]): BankStatement => ({
+  id: `${start}-${end}`,
+  accountKey: ACCOUNT,
+  fileName: 'statement.csv',
+  importedAt: '2025-09-20T00:00:00.000Z',
+  period: { start, end },
+  transactions
+});
+
+describe('StatementMatchingService.match', () => {
+  const service = new StatementMatchingService(3, 1);
+
+  it('matches each credit to the closest income by date, earlier income first on a tie', () => {
+    const statements = [statement('2025-09-01', '2025-09-15', [
+      credit('2025-09-05', 1000),
+      credit('2025-09-07', 1000.5),
+      { date: '2025-09-08', description: 'ATM', credit: 0, debit: 1000 }
+    ])];
+    const income: DepartmentIncome[] = [
+      { date: '2025-09-04', department: 'Guest House', amount: 1000 },
+      { date: '2025-09-06', department: 'Gift Shop', amount: 1000 }
+    ];
+
+    const result = service.match(statements, ACCOUNT, income);
+
+    expect(result.matches.map(match => [match.transaction.date, match.income.department, match.dayOffset])).toEqual([
+      ['2025-09-05', 'Guest House', 1],
+      ['2025-09-07', 'Gift Shop', 1]
+    ]);
+    expect(result.unmatchedCredits).toEqual([]);
+    expect(result.unmatchedIncome).toEqual([]);
+  });
+
+  it('prefers the closer amount between income on the same day', () => {
+    const statements = [statement('2025-09-01', '2025-09-15', [credit('2025-09-05', 1000)])];
+    const income: DepartmentIncome[] = [
+      { date: '2025-09-05', department: 'Gift Shop', amount: 999.5 },
+      { date: '2025-09-05', department: 'Guest House', amount: 1000 }
+    ];
+
+    expect(service.match(statements, ACCOUNT, income).matches[0].income.department).toBe('Guest House');
+  });
+
+  it('leaves credits unmatched outside the window or the amount tolerance', () => {
+    const statements = [statement('2025-09-01', '2025-09-15', [credit('2025-09-10', 777), credit('2025-09-11', 500)])];
+    const income: DepartmentIncome[] = [
+      { date: '2025-09-02', department: 'Kitchen', amount: 777 },
+      { date: '2025-09-11', department: 'Hundi', amount: 502 }
+    ];
+
+    const result = service.match(statements, ACCOUNT, income);
+
+    expect(result.matches).toEqual([]);
+    expect(result.unmatchedCredits.map(transaction => transaction.credit)).toEqual([777, 500]);
+    expect(result.unmatchedIncome.map(entry => entry.department)).toEqual(['Kitchen', 'Hundi']);
+  });
+
+  it('does not report income too close to the end of the statements, or outside them, as not credited', () => {
+    const statements = [statement('2025-09-01', '2025-09-15', [credit('2025-09-03', 50)])];
+    const income: DepartmentIncome[] = [
+      { date: '2025-08-25', department: 'Gaushala', amount: 300 },
+      { date: '2025-09-12', department: 'Kitchen', amount: 300 },
+      { date: '2025-09-14', department: 'Hundi', amount: 500 }
+    ];
+
+    expect(service.match(statements, ACCOUNT, income).unmatchedIncome.map(entry => entry.department)).toEqual(['Kitchen']);
+  });
+
+  it('only reads the statements of the account being matched', () => {
+    const other = { ...statement('2025-09-01', '2025-09-15', [credit('2025-09-05', 1000)]), accountKey: '5555666677' };
+
+    const result = service.match([other], ACCOUNT, [{ date: '2025-09-05', department: 'Guest House', amount: 1000 }]);
+
+    expect(result).toEqual({ accountKey: ACCOUNT, matches: [], unmatchedCredits: [], unmatchedIncome: [] });
+  });
+});
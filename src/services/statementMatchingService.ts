@@ -0,0 +1,77 @@
+import { BankStatement, DepartmentIncome, StatementMatch, StatementMatchResult } from '../types';
+import { bankStatementService } from './bankStatementService';
+import { dateService } from './dateService';
+import { statementMatchDays, statementMatchTolerance } from '../config/bankStatementConfig';
+
+/**
+ * Matches the credits of an account's bank statements to the department
+ * income expected in that account: a credit matches one department's online
+ * income for one day with the same amount (within the tolerance), recorded
+ * within the match window of the credit. Each credit and each day's income
+ * is matched at most once.
+ */
+export class StatementMatchingService {
+  private windowDays: number;
+  private tolerance: number;
+
+  constructor(windowDays: number, tolerance: number) {
+    this.windowDays = windowDays;
+    this.tolerance = tolerance;
+  }
+
+  /**
+   * Match an account's credits, oldest first, each to the closest income by
+   * date (income recorded before the credit wins a tie, then the closer
+   * amount). Income dated too close to the statements' end to have been
+   * credited within them is not reported as unmatched.
+   */
+  match(statements: BankStatement[], accountKey: string, income: DepartmentIncome[]): StatementMatchResult {
+    const periods = statements
+      .filter(statement => statement.accountKey === accountKey)
+      .map(statement => statement.period);
+    const credits = bankStatementService.getTransactions(statements, accountKey).filter(transaction => transaction.credit > 0);
+    const used: boolean[] = income.map(() => false);
+
+    const matches: StatementMatch[] = [];
+    const unmatchedCredits = credits.filter(transaction => {
+      let best = -1;
+      let bestScore: number[] = [];
+      income.forEach((entry, index) => {
+        const dayOffset = dateService.daysBetween(entry.date, transaction.date);
+        const amountDifference = Math.abs(entry.amount - transaction.credit);
+        if (used[index] || Math.abs(dayOffset) > this.windowDays || amountDifference > this.tolerance) return;
+
+        const score = [Math.abs(dayOffset), dayOffset < 0 ? 1 : 0, amountDifference];
+        if (best === -1 || this.isLower(score, bestScore)) {
+          best = index;
+          bestScore = score;
+        }
+      });
+
+      if (best === -1) {
+        return true;
+      }
+      used[best] = true;
+      matches.push({ transaction, income: income[best], dayOffset: dateService.daysBetween(income[best].date, transaction.date) });
+      return false;
+    });
+
+    const unmatchedIncome = income.filter((entry, index) => !used[index] && periods.some(period =>
+      dateService.isWithinRange(entry.date, period.start, dateService.addDays(period.end, -this.windowDays))
+    ));
+
+    return { accountKey, matches, unmatchedCredits, unmatchedIncome };
+  }
+
+  private isLower(score: number[], than: number[]): boolean {
+    for (let i = 0; i < score.length; i++) {
+      if (score[i] !== than[i]) {
+        return score[i] < than[i];
+      }
+    }
+    return false;
+  }
+}
+
+// Export singleton instance
+export const statementMatchingService = new StatementMatchingService(statementMatchDays, statementMatchTolerance);
@@ -0,0 +1,66 @@
+import { IncomeDataset, BankDetails, BalanceSnapshot, DataSource, SheetValues } from '../types';
+import { payloadParsingService } from './payloadParsingService';
+import { requestService } from './requestService';
+
+interface StaticFileUrls {
+  income: string;
+  bankDetails: string;
+  values: string;
+  // Optional balance history file
+  bankHistory?: string;
+}
+
+/**
+ * Reads the dashboard data from static JSON or CSV files, e.g. exports placed
+ * under public/data. Files ending in .csv use the Google Sheets column layout.
+ */
+export class StaticFileDataSource implements DataSource {
+  readonly id: string;
+  readonly label = 'static files';
+
+  constructor(private urls: StaticFileUrls) {
+    this.id = `static:${urls.income}`;
+  }
+
+  async fetchIncome(): Promise<IncomeDataset> {
+    return payloadParsingService.toIncomeDataset(await this.load(this.urls.income));
+  }
+
+  async fetchBankDetails(): Promise<BankDetails[]> {
+    return payloadParsingService.toBankDetails(await this.load(this.urls.bankDetails));
+  }
+
+  /**
+   * Every value in the values file; none when the file is missing
+   */
+  async fetchValues(): Promise<SheetValues> {
+    let values: unknown;
+    try {
+      values = await this.load(this.urls.values);
+    } catch (error) {
+      console.warn(`No values file at ${this.urls.values}:`, error);
+      return {};
+    }
+    return payloadParsingService.toSheetValues(values);
+  }
+
+  /**
+   * Balance snapshots from the history file; null when none is configured
+   */
+  async fetchBankHistory(): Promise<BalanceSnapshot[] | null> {
+    if (!this.urls.bankHistory) {
+      return null;
+    }
+    return payloadParsingService.toBalanceSnapshots(await this.load(this.urls.bankHistory));
+  }
+
+  /**
+   * Fetch a file as CSV text or parsed JSON
+   */
+  private async load(url: string): Promise<unknown> {
+    const label = `the data file ${url}`;
+    return /\.csv(\?|$)/i.test(url)
+      ? requestService.getText(url, { label })
+      : requestService.getJson<unknown>(url, { label });
+  }
+}
@@ -0,0 +1,67 @@
+import { IncomeRecord } from '../types';
+import { dataProcessingService } from './dataProcessingService';
+import { syncDiffService } from './syncDiffService';
+
+const record = (date: string, department: string, cash: number, fields: Partial<IncomeRecord> = {}): IncomeRecord => ({
+  date,
+  department,
+  cash,
+  online: 0,
+  ...fields
+});
+
+describe('SyncDiffService.diffIncome', () => {
+  it('counts added, edited and removed rows, matching repeated rows in order', () => {
+    const previous = [
+      record('2025-09-01', 'Kitchen', 100),
+      record('2025-09-01', 'Kitchen', 200),
+      record('2025-09-01', 'Gift Shop', 300, { receiptNo: 'R1' }),
+      record('2025-09-02', 'Guest House', 400)
+    ];
+    const next = [
+      record('2025-09-01', 'Kitchen', 100),
+      record('2025-09-01', 'Kitchen', 250),
+      record('2025-09-01', 'Gift Shop', 300, { receiptNo: 'R1' }),
+      record('2025-09-01', 'Gift Shop', 50, { receiptNo: 'R2' })
+    ];
+
+    const summary = syncDiffService.diffIncome(previous, next);
+
+    expect([summary.added, summary.edited, summary.removed, summary.hasChanges]).toEqual([1, 1, 1, true]);
+    expect(summary.departmentDeltas).toEqual([
+      { department: 'Guest House', delta: -400 },
+      { department: 'Kitchen', delta: 50 },
+      { department: 'Gift Shop', delta: 50 }
+    ]);
+    expect(summary.totalDelta).toBe(-300);
+  });
+
+  it('finds no changes between identical fetches', () => {
+    const records = [record('2025-09-01', 'Kitchen', 100)];
+
+    expect(syncDiffService.diffIncome(records, records.map(entry => ({ ...entry }))).hasChanges).toBe(false);
+  });
+});
+
+describe('SyncDiffService.describe', () => {
+  it('names the rows changed and the largest department changes', () => {
+    const summary = {
+      added: 2,
+      edited: 1,
+      removed: 0,
+      departmentDeltas: [
+        { department: 'Kitchen', delta: 1200 },
+        { department: 'Gift Shop', delta: -300 },
+        { department: 'Guest House', delta: 100 }
+      ],
+      totalDelta: 1000,
+      hasChanges: true
+    };
+
+    expect(syncDiffService.describe(summary, 2)).toBe(
+      `3 rows changed (2 added, 1 edited) · Kitchen +${dataProcessingService.formatCurrency(1200)}, ` +
+      `Gift Shop -${dataProcessingService.formatCurrency(300)} and 1 more`
+    );
+    expect(syncDiffService.describe({ ...summary, hasChanges: false })).toBe('no changes since the last sync');
+  });
+});
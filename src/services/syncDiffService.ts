@@ -0,0 +1,140 @@
+import { DepartmentDelta, IncomeChangeSummary, IncomeRecord } from '../types';
+import { departmentRegistryService } from './departmentRegistryService';
+import { dataProcessingService } from './dataProcessingService';
+import { PAYMENT_CHANNELS } from '../config/paymentChannelConfig';
+
+// Departments named in a change toast; the sync history lists them all
+const TOAST_DEPARTMENTS = 3;
+
+/**
+ * Compares two fetches of the income data so a sync can tell whether
+ * anything changed, and what.
+ *
+ * Rows have no id in the sheet, so they are matched by date, department as
+ * entered and receipt number; rows sharing all three are matched in order.
+ */
+export class SyncDiffService {
+  /**
+   * Rows added, edited and removed going from previous to next, with the
+   * change in income per department
+   */
+  diffIncome(previous: IncomeRecord[], next: IncomeRecord[]): IncomeChangeSummary {
+    const previousRows = this.indexRows(previous);
+    const nextRows = this.indexRows(next);
+    let added = 0;
+    let edited = 0;
+    let removed = 0;
+
+    nextRows.forEach((record, key) => {
+      const earlier = previousRows.get(key);
+      if (!earlier) {
+        added++;
+      } else if (this.fingerprint(earlier) !== this.fingerprint(record)) {
+        edited++;
+      }
+    });
+    previousRows.forEach((_, key) => {
+      if (!nextRows.has(key)) {
+        removed++;
+      }
+    });
+
+    const totals = new Map<string, number>();
+    const addTotals = (records: IncomeRecord[], sign: number) => {
+      records.forEach(record => {
+        const department = departmentRegistryService.resolveDepartment(record.rawDepartment ?? record.department).name;
+        totals.set(department, (totals.get(department) || 0) + sign * (record.cash + record.online));
+      });
+    };
+    addTotals(next, 1);
+    addTotals(previous, -1);
+
+    const departmentDeltas: DepartmentDelta[] = [];
+    totals.forEach((delta, department) => {
+      // Ignore floating point noise from summing paise
+      if (Math.abs(delta) >= 0.005) {
+        departmentDeltas.push({ department, delta });
+      }
+    });
+    departmentDeltas.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+    return {
+      added,
+      edited,
+      removed,
+      departmentDeltas,
+      totalDelta: departmentDeltas.reduce((sum, entry) => sum + entry.delta, 0),
+      hasChanges: added + edited + removed > 0
+    };
+  }
+
+  /**
+   * One-line description of a change summary, e.g.
+   * "3 rows changed (2 added, 1 edited) · Kitchen +₹1,200.00, Gift Shop -₹300.00"
+   */
+  describe(summary: IncomeChangeSummary, maxDepartments: number = TOAST_DEPARTMENTS): string {
+    if (!summary.hasChanges) {
+      return 'no changes since the last sync';
+    }
+
+    const counts = [
+      summary.added > 0 ? `${summary.added} added` : '',
+      summary.edited > 0 ? `${summary.edited} edited` : '',
+      summary.removed > 0 ? `${summary.removed} removed` : ''
+    ].filter(Boolean);
+    const rows = summary.added + summary.edited + summary.removed;
+    const text = `${rows} row${rows !== 1 ? 's' : ''} changed (${counts.join(', ')})`;
+
+    if (summary.departmentDeltas.length === 0) {
+      return text;
+    }
+    const departments = summary.departmentDeltas
+      .slice(0, maxDepartments)
+      .map(entry => `${entry.department} ${this.formatDelta(entry.delta)}`);
+    const others = summary.departmentDeltas.length - departments.length;
+    return `${text} · ${departments.join(', ')}${others > 0 ? ` and ${others} more` : ''}`;
+  }
+
+  /**
+   * Signed amount, e.g. "+₹1,200.00" or "-₹300.00"
+   */
+  formatDelta(delta: number): string {
+    return `${delta >= 0 ? '+' : '-'}${dataProcessingService.formatCurrency(Math.abs(delta))}`;
+  }
+
+  /**
+   * Rows keyed by date, department and receipt number, with "#2", "#3", ...
+   * appended for further rows sharing a key
+   */
+  private indexRows(records: IncomeRecord[]): Map<string, IncomeRecord> {
+    const rows = new Map<string, IncomeRecord>();
+    const occurrences = new Map<string, number>();
+
+    records.forEach(record => {
+      const department = (record.rawDepartment ?? record.department).trim().toLowerCase();
+      const baseKey = `${record.date}|${department}|${(record.receiptNo || '').trim().toLowerCase()}`;
+      const occurrence = (occurrences.get(baseKey) || 0) + 1;
+      occurrences.set(baseKey, occurrence);
+      rows.set(occurrence > 1 ? `${baseKey}#${occurrence}` : baseKey, record);
+    });
+
+    return rows;
+  }
+
+  /**
+   * Everything about a row that an edit in the sheet can change
+   */
+  private fingerprint(record: IncomeRecord): string {
+    return JSON.stringify([
+      record.cash,
+      record.online,
+      PAYMENT_CHANNELS.map(channel => record.channels?.[channel] ?? null),
+      record.paymentMode || '',
+      record.counter || '',
+      record.remarks || ''
+    ]);
+  }
+}
+
+// Export singleton instance
+export const syncDiffService = new SyncDiffService();
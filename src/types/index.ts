@@ -26,16 +26,186 @@
  * This is the fundamental data structure used throughout the application.
  * 
  * @interface IncomeRecord
- * @property {string} date - Transaction date in YYYY-MM-DD format
- * @property {string} department - Department name (must match ALL_DEPARTMENTS)
+ * @property {LocalDate} date - Transaction date in YYYY-MM-DD format (normalized at ingestion)
+ * @property {string} department - Department name (resolved against the department registry)
  * @property {number} cash - Cash income amount in INR
  * @property {number} online - Online payment income amount in INR
+ * @property {string} rawDepartment - Department name exactly as entered in the sheet (before alias/fuzzy matching)
+ * @property {string} source - File the record was imported from; absent for records from the data source
+ * @property {string} receiptNo - Receipt number, when the sheet has that column
+ * @property {string} paymentMode - Payment mode as entered (e.g. "UPI"), when the sheet has that column
+ * @property {string} counter - Collection counter, when the sheet has that column
+ * @property {string} remarks - Free-text remarks, when the sheet has that column
+ * @property {PaymentChannelBreakdown} channels - Online income per payment channel, when the sheet has channel columns
  */
 export interface IncomeRecord {
-  date: string;
+  date: LocalDate;
   department: string;
   cash: number;
   online: number;
+  rawDepartment?: string;
+  source?: string;
+  receiptNo?: string;
+  paymentMode?: string;
+  counter?: string;
+  remarks?: string;
+  channels?: PaymentChannelBreakdown;
+}
+
+/**
+ * Payment channels that make up online income
+ */
+export type PaymentChannel = 'upi' | 'card' | 'neftRtgs' | 'cheque' | 'gateway';
+
+/**
+ * Online income per payment channel; channels without a column are absent
+ */
+export type PaymentChannelBreakdown = Partial<Record<PaymentChannel, number>>;
+
+/**
+ * Income sheet fields. Date, department, cash and online are required (online
+ * may be left out when channel columns are present); the rest are read only
+ * when the sheet has the column.
+ */
+export type IncomeField = 'date' | 'department' | 'cash' | 'online' | 'receiptNo' | 'paymentMode' | 'counter' | 'remarks' | PaymentChannel;
+
+/**
+ * Income Column Schema
+ * 
+ * Accepted column references for each income field, tried in order: a header
+ * name (matched ignoring case and surrounding spaces) or a column letter
+ * such as "C".
+ */
+export type IncomeColumnSchema = Record<IncomeField, string[]>;
+
+/**
+ * Income Column Mapping
+ * 
+ * Zero-based column index of each income field in a sheet or imported file,
+ * -1 when the column is not present.
+ */
+export type IncomeColumnMapping = Record<IncomeField, number>;
+
+/**
+ * Income Import Interface
+ * 
+ * Rows merged into the dashboard from a CSV or Excel file.
+ * 
+ * @interface IncomeImport
+ * @property {string} id - Unique id, used to remove the import again
+ * @property {string} fileName - Name of the imported file (also each record's source)
+ * @property {string} importedAt - ISO time of the import
+ * @property {IncomeRecord[]} records - Imported records, tagged with the file name
+ * @property {DataQualityIssue[]} issues - Problems found in the file's rows, tagged with the file name
+ */
+export interface IncomeImport {
+  id: string;
+  fileName: string;
+  importedAt: string;
+  records: IncomeRecord[];
+  issues: DataQualityIssue[];
+}
+
+/**
+ * Income Change Summary Interface
+ * 
+ * What changed in the income data between two fetches. Rows are matched by
+ * date, department (as entered) and receipt number.
+ * 
+ * @interface IncomeChangeSummary
+ * @property {number} added - Rows in the new data only
+ * @property {number} edited - Rows in both whose amounts or details differ
+ * @property {number} removed - Rows in the old data only
+ * @property {DepartmentDelta[]} departmentDeltas - Change in total income per department, largest first (unchanged departments left out)
+ * @property {number} totalDelta - Change in total income across all departments
+ * @property {boolean} hasChanges - Whether any row was added, edited or removed
+ */
+export interface IncomeChangeSummary {
+  added: number;
+  edited: number;
+  removed: number;
+  departmentDeltas: DepartmentDelta[];
+  totalDelta: number;
+  hasChanges: boolean;
+}
+
+export interface DepartmentDelta {
+  department: string;
+  delta: number;
+}
+
+/**
+ * Sync History Entry Interface
+ * 
+ * One sync with the data source, as listed in the sync history log.
+ * 
+ * @interface SyncHistoryEntry
+ * @property {string} syncedAt - ISO time the sync finished
+ * @property {string} trigger - 'manual' for the Sync button, 'auto' for the refresh interval
+ * @property {string} status - 'changed', 'unchanged' or 'failed'
+ * @property {IncomeChangeSummary} summary - What changed (omitted when the sync failed)
+ * @property {string} error - Why the sync failed
+ */
+export interface SyncHistoryEntry {
+  id: string;
+  syncedAt: string;
+  trigger: 'manual' | 'auto';
+  status: 'changed' | 'unchanged' | 'failed';
+  summary?: IncomeChangeSummary;
+  error?: string;
+}
+
+/**
+ * Problems the income data quality check reports
+ * - missing-date / invalid-date / missing-department / invalid-department:
+ *   the row is left out
+ * - non-numeric-amount: the amount is counted as 0
+ * - negative-amount, future-date, duplicate-row, channel-mismatch: the row is
+ *   included as entered but probably needs correcting
+ */
+export type DataIssueType =
+  | 'missing-date'
+  | 'invalid-date'
+  | 'missing-department'
+  | 'invalid-department'
+  | 'non-numeric-amount'
+  | 'negative-amount'
+  | 'future-date'
+  | 'duplicate-row'
+  | 'channel-mismatch';
+
+/**
+ * Data Quality Issue Interface
+ * 
+ * One problem found in one row of the income sheet (or an imported file).
+ * 
+ * @interface DataQualityIssue
+ * @property {number} row - Row number as shown in the sheet (header is row 1), or the entry number for JSON sources
+ * @property {IncomeField|null} field - Field with the problem, null when it concerns the whole row
+ * @property {DataIssueType} type - Kind of problem
+ * @property {'error'|'warning'} severity - error: the row was left out; warning: the row was included
+ * @property {string} message - Description for the accounts team
+ * @property {string} rawValue - Cell value as entered
+ * @property {string} source - Imported file name; absent for the data source
+ */
+export interface DataQualityIssue {
+  row: number;
+  field: IncomeField | null;
+  type: DataIssueType;
+  severity: 'error' | 'warning';
+  message: string;
+  rawValue: string;
+  source?: string;
+}
+
+/**
+ * Income Dataset Interface
+ * 
+ * Income records as loaded, with the data quality issues found while reading them.
+ */
+export interface IncomeDataset {
+  records: IncomeRecord[];
+  issues: DataQualityIssue[];
 }
 
 /**
@@ -52,7 +222,10 @@ export interface IncomeRecord {
  * @property {string} mainPurpose - Main purpose of the account
  * @property {number} currentBalance - Current balance in the account
  * @property {string} accountNumber - Bank account number
+ * @property {LocalDate} lastUpdatedDate - Date the balance was last updated (YYYY-MM-DD)
+ * @property {string} lastUpdatedTime - Time the balance was last updated (HH:MM)
  * @property {string} bankName - Bank name (required field)
+ * @property {string} group - Account group as written in the sheet's Account Group column, when present
  */
 export interface BankDetails {
   bankDetails: string;
@@ -62,9 +235,257 @@ export interface BankDetails {
   mainPurpose: string;
   currentBalance: number;
   accountNumber: string;
-  lastUpdatedDate?: string;
+  lastUpdatedDate?: LocalDate;
   lastUpdatedTime?: string;
   bankName: string;
+  group?: string;
+}
+
+/**
+ * Account Group Interface
+ *
+ * A named group of bank accounts (operational, restricted/corpus, ...) with
+ * a balance card of its own. Accounts join a group by account number or by
+ * the bank sheet's Account Group column.
+ *
+ * @interface AccountGroup
+ * @property {string} id - Identifier used in formulas, e.g. bankBalance("operational")
+ * @property {string} label - Display name
+ * @property {string} icon - Emoji shown on the balance card
+ * @property {string[]} aliases - Other names the Account Group column may use
+ * @property {string[]} nameMatches - Text in an account's name, purpose or holder that puts it in the group when nothing else does
+ * @property {boolean} excludeFromTotal - Whether the group's accounts are left out of every bank total
+ */
+export interface AccountGroup {
+  id: string;
+  label: string;
+  icon: string;
+  aliases: string[];
+  nameMatches?: string[];
+  excludeFromTotal?: boolean;
+}
+
+/**
+ * Account Group Balance Interface
+ *
+ * Accounts and total balance of one account group.
+ */
+export interface AccountGroupBalance {
+  group: AccountGroup;
+  accounts: BankDetails[];
+  balance: number;
+}
+
+/**
+ * Balance Snapshot Interface
+ *
+ * One account's balance on a date, from the bank sheet's history tab or
+ * recorded by the dashboard each time it fetched the bank details.
+ *
+ * @interface BalanceSnapshot
+ * @property {LocalDate} date - Date of the balance (YYYY-MM-DD)
+ * @property {string} time - Time of the balance (HH:MM), when known
+ * @property {string} accountNumber - Bank account number
+ * @property {string} bankDetails - Account name, used when there is no account number
+ * @property {number} balance - Balance on that date
+ */
+export interface BalanceSnapshot {
+  date: LocalDate;
+  time?: string;
+  accountNumber: string;
+  bankDetails: string;
+  balance: number;
+}
+
+/**
+ * Month-End Closing Interface
+ *
+ * Closing balances of a month: each account's last known balance on or
+ * before the month's last day (or today, for the current month).
+ *
+ * @interface MonthEndClosing
+ * @property {string} month - Month as YYYY-MM
+ * @property {LocalDate} date - Date the balances are taken at
+ * @property {Record<string, number|null>} accounts - Balance by account key, null before its first snapshot
+ * @property {Record<string, number>} groups - Balance by account group id
+ * @property {number} total - Balance of every account with a known balance
+ * @property {number|null} change - Change in the total since the previous month, null for the first month
+ */
+export interface MonthEndClosing {
+  month: string;
+  date: LocalDate;
+  accounts: Record<string, number | null>;
+  groups: Record<string, number>;
+  total: number;
+  change: number | null;
+}
+
+/**
+ * Balance Trend Interface
+ *
+ * Balances plotted over time, one series per account or account group. Each
+ * date carries every series' last known balance forward.
+ *
+ * @interface BalanceTrend
+ * @property {LocalDate[]} dates - Dates with at least one snapshot, oldest first
+ * @property {Array} series - Label and balance per date (null before the first snapshot) of each line
+ * @property {number[]} total - Total of the known balances on each date
+ */
+export interface BalanceTrend {
+  dates: LocalDate[];
+  series: { id: string; label: string; values: (number | null)[] }[];
+  total: number[];
+}
+
+/**
+ * Statement Transaction Interface
+ *
+ * One line of an uploaded bank statement.
+ *
+ * @interface StatementTransaction
+ * @property {LocalDate} date - Transaction date (YYYY-MM-DD)
+ * @property {string} description - Narration / particulars
+ * @property {string} reference - Cheque or reference number, when the statement has one
+ * @property {number} credit - Amount deposited (0 for a withdrawal)
+ * @property {number} debit - Amount withdrawn (0 for a deposit)
+ * @property {number} balance - Balance after the transaction, when the statement has one
+ */
+export interface StatementTransaction {
+  date: LocalDate;
+  description: string;
+  reference?: string;
+  credit: number;
+  debit: number;
+  balance?: number;
+}
+
+/**
+ * Bank Statement Interface
+ *
+ * An uploaded bank statement for one account.
+ *
+ * @interface BankStatement
+ * @property {string} id - Identifies the upload
+ * @property {string} accountKey - Account the statement belongs to (see bankHistoryService.getAccountKey)
+ * @property {string} fileName - Uploaded file name
+ * @property {string} importedAt - ISO timestamp of the upload
+ * @property {DateRange} period - First and last transaction dates
+ * @property {StatementTransaction[]} transactions - Statement lines, oldest first
+ * @property {string} layout - Statement layout the file was read with (e.g. "SBI"), absent for older uploads
+ */
+export interface BankStatement {
+  id: string;
+  accountKey: string;
+  fileName: string;
+  importedAt: string;
+  period: DateRange;
+  transactions: StatementTransaction[];
+  layout?: string;
+}
+
+/**
+ * Columns read from a bank statement. A statement has credit and debit
+ * columns, or one amount column with a Cr/Dr type column or a sign.
+ */
+export type BankStatementField = 'date' | 'description' | 'reference' | 'credit' | 'debit' | 'amount' | 'type' | 'balance';
+
+/**
+ * Bank Statement Layout Interface
+ *
+ * How one bank lays out its statement downloads.
+ *
+ * @interface BankStatementLayout
+ * @property {string} id - Layout identifier
+ * @property {string} label - Name shown when choosing a layout
+ * @property {string[]} detect - Headers that identify the layout; all must be present
+ * @property {Partial<Record<BankStatementField, string[]>>} columns - Header names per field, most specific first
+ * @property {DateOrder} dateOrder - Order of ambiguous dates such as 03/04/2025
+ */
+export interface BankStatementLayout {
+  id: string;
+  label: string;
+  detect: string[];
+  columns: Partial<Record<BankStatementField, string[]>>;
+  dateOrder: DateOrder;
+}
+
+/**
+ * Online income of one department on one day, as matched against statement credits
+ */
+export interface DepartmentIncome {
+  date: LocalDate;
+  department: string;
+  amount: number;
+}
+
+/**
+ * A statement credit matched to department income
+ *
+ * @interface StatementMatch
+ * @property {StatementTransaction} transaction - The credit
+ * @property {DepartmentIncome} income - Income it was matched to
+ * @property {number} dayOffset - Days from the income date to the credit (negative when credited earlier)
+ */
+export interface StatementMatch {
+  transaction: StatementTransaction;
+  income: DepartmentIncome;
+  dayOffset: number;
+}
+
+/**
+ * Statement Match Result Interface
+ *
+ * Credits of one account's statements against the department income
+ * expected in that account over the statements' periods.
+ *
+ * @interface StatementMatchResult
+ * @property {string} accountKey - Account (see bankHistoryService.getAccountKey)
+ * @property {StatementMatch[]} matches - Credits matched to income, oldest first
+ * @property {StatementTransaction[]} unmatchedCredits - Credits no income matched
+ * @property {DepartmentIncome[]} unmatchedIncome - Income within the statements' periods no credit matched
+ */
+export interface StatementMatchResult {
+  accountKey: string;
+  matches: StatementMatch[];
+  unmatchedCredits: StatementTransaction[];
+  unmatchedIncome: DepartmentIncome[];
+}
+
+/**
+ * Where a reconciliation's bank movement comes from: the credits of an
+ * uploaded statement, or the change in recorded balances
+ */
+export type ReconciliationBasis = 'statement' | 'balance';
+
+/**
+ * Reconciliation Row Interface
+ *
+ * Online income attributed to one account in one period, against what the
+ * bank shows for that account.
+ *
+ * @interface ReconciliationRow
+ * @property {string} accountKey - Account (see bankHistoryService.getAccountKey)
+ * @property {string} account - Account name
+ * @property {string} month - Period as YYYY-MM
+ * @property {DateRange} period - Dates compared (the current month runs to today)
+ * @property {number} onlineIncome - Online income attributed to the account
+ * @property {ReconciliationBasis|null} basis - Source of the bank movement, null when there is none
+ * @property {number|null} bankMovement - Statement credits or balance change, null without bank data
+ * @property {number|null} difference - Bank movement minus online income
+ * @property {number} tolerance - Largest difference accepted as explained
+ * @property {boolean} flagged - Whether the difference is larger than the tolerance
+ */
+export interface ReconciliationRow {
+  accountKey: string;
+  account: string;
+  month: string;
+  period: DateRange;
+  onlineIncome: number;
+  basis: ReconciliationBasis | null;
+  bankMovement: number | null;
+  difference: number | null;
+  tolerance: number;
+  flagged: boolean;
 }
 
 /**
@@ -86,6 +507,188 @@ export interface DepartmentTotals {
   hasData: boolean;
 }
 
+/**
+ * Department Definition Interface
+ * 
+ * A single entry of the department registry, as read from the departments
+ * sheet tab, a JSON file or the built-in defaults. Sub-sections are regular
+ * departments that name their parent, so nesting can go to any depth.
+ * 
+ * @interface DepartmentDefinition
+ * @property {string} name - Department name exactly as it appears in the income sheet
+ * @property {string} parent - Name of the parent department (omitted for top-level departments)
+ * @property {number} order - Display order among siblings (lower first)
+ * @property {string} icon - Optional emoji/icon shown on cards
+ * @property {string} title - Optional heading used in the department modal
+ * @property {string} description - Optional description shown for sub-sections
+ * @property {string} styleKey - Optional CSS module class applied to the sub-section block
+ * @property {string[]} aliases - Other spellings used in the income sheet that map to this department
+ * @property {boolean} active - False for retired departments (hidden, but their income still rolls up)
+ * @property {ReportingSchedule} reporting - When the department is expected to enter income (daily when omitted)
+ */
+export interface DepartmentDefinition {
+  name: string;
+  parent?: string;
+  order: number;
+  icon?: string;
+  title?: string;
+  description?: string;
+  styleKey?: string;
+  aliases?: string[];
+  active: boolean;
+  reporting?: ReportingSchedule;
+}
+
+/**
+ * Day of the week, 0 = Sunday ... 6 = Saturday (as returned by Date.getDay)
+ */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * Reporting Schedule Interface
+ * 
+ * When a department is expected to enter a row in the income sheet, so a day
+ * without one can be told apart from a day the department was closed.
+ * 
+ * @interface ReportingSchedule
+ * @property {string} frequency - 'daily', 'weekly' (one entry per week, due on dueDay) or 'none' (never expected)
+ * @property {Weekday[]} closedDays - Weekdays a daily department is closed and enters nothing
+ * @property {Weekday} dueDay - Weekday a weekly entry is due; any entry in the seven days up to it counts
+ */
+export interface ReportingSchedule {
+  frequency: 'daily' | 'weekly' | 'none';
+  closedDays: Weekday[];
+  dueDay: Weekday;
+}
+
+/**
+ * Whether a department entered income for a day it was expected to
+ * - reported: at least one record (a zero row counts)
+ * - missing: expected but no record
+ * - not-expected: closed, not the weekly due day, or never expected, and no record
+ */
+export type CoverageStatus = 'reported' | 'missing' | 'not-expected';
+
+export interface CoverageCell {
+  date: LocalDate;
+  status: CoverageStatus;
+  recordCount: number;
+}
+
+/**
+ * One department's row of the coverage grid
+ * 
+ * @interface DepartmentCoverage
+ * @property {string} department - Top-level department name (its sub-sections' records count towards it)
+ * @property {CoverageCell[]} cells - One cell per date of the grid, oldest first
+ * @property {number} missingCount - Number of missing cells
+ */
+export interface DepartmentCoverage {
+  department: string;
+  schedule: ReportingSchedule;
+  cells: CoverageCell[];
+  missingCount: number;
+}
+
+/**
+ * Department Node Interface
+ * 
+ * A department definition resolved into the registry tree.
+ * 
+ * @interface DepartmentNode
+ * @property {DepartmentNode[]} children - Sub-sections sorted by display order
+ * @property {number} depth - Nesting level (0 for top-level departments)
+ */
+export interface DepartmentNode extends DepartmentDefinition {
+  children: DepartmentNode[];
+  depth: number;
+}
+
+/**
+ * How a raw department name from the sheet was resolved against the registry
+ */
+export type DepartmentMatchType = 'exact' | 'alias' | 'normalized' | 'fuzzy' | 'unmapped';
+
+export interface DepartmentMatch {
+  name: string;
+  matchType: DepartmentMatchType;
+}
+
+/**
+ * Unmapped Department Interface
+ * 
+ * A raw department name from the sheet that did not resolve to any
+ * department in the registry, with the income it carries.
+ * 
+ * @interface UnmappedDepartment
+ * @property {string} rawName - Department name as entered in the sheet
+ * @property {number} recordCount - Number of income records using this name
+ * @property {number} cash - Total cash income carried by these records
+ * @property {number} online - Total online income carried by these records
+ * @property {number} total - Combined total income
+ */
+export interface UnmappedDepartment {
+  rawName: string;
+  recordCount: number;
+  cash: number;
+  online: number;
+  total: number;
+}
+
+/**
+ * Temple Event Interface
+ * 
+ * A festival or event from the events calendar. Single-day events have the
+ * same start and end date.
+ * 
+ * @interface TempleEvent
+ * @property {string} name - Event name, e.g. "Janmashtami"
+ * @property {LocalDate} start - First day of the event (inclusive)
+ * @property {LocalDate} end - Last day of the event (inclusive)
+ * @property {string} category - Grouping such as "Festival", "Mela" or "Month"
+ * @property {string} color - Optional band/tag colour (any CSS colour)
+ */
+export interface TempleEvent {
+  name: string;
+  start: LocalDate;
+  end: LocalDate;
+  category: string;
+  color?: string;
+}
+
+/**
+ * Event Income Interface
+ * 
+ * Income recorded during one event from the events calendar.
+ * 
+ * @interface EventIncome
+ * @property {TempleEvent} event - The event
+ * @property {number} total - Total income on the event's days
+ * @property {number} daysWithData - Number of event days that have income records
+ * @property {number} avgDailyRevenue - total / daysWithData
+ */
+export interface EventIncome {
+  event: TempleEvent;
+  total: number;
+  daysWithData: number;
+  avgDailyRevenue: number;
+}
+
+/**
+ * Event Analytics Interface
+ * 
+ * Income per event plus average daily income on event days vs. other days.
+ * 
+ * @interface EventAnalytics
+ */
+export interface EventAnalytics {
+  events: EventIncome[];
+  festivalAvgDailyRevenue: number;
+  nonFestivalAvgDailyRevenue: number;
+  festivalDays: number;
+  nonFestivalDays: number;
+}
+
 export interface KPIData {
   totalRevenue: number;
   totalCash: number;
@@ -94,8 +697,64 @@ export interface KPIData {
   onlinePercentage: number;
   activeDepartments: number;
   totalDepartments: number;
+  // Online income per payment channel, plus what no channel column covers
+  channelTotals: Record<PaymentChannel, number>;
+  unsplitOnline: number;
+  // Whether any record carries a channel breakdown
+  hasChannelData: boolean;
 }
 
+/**
+ * Metric Comparison Interface
+ * 
+ * A value for the active period next to the same value for the comparable
+ * previous period.
+ * 
+ * @interface MetricComparison
+ * @property {number} current - Value in the active period
+ * @property {number} previous - Value in the comparison period
+ * @property {number} change - current - previous
+ * @property {number|null} changePercent - Change as a percentage of previous (null when previous is 0)
+ */
+export interface MetricComparison {
+  current: number;
+  previous: number;
+  change: number;
+  changePercent: number | null;
+}
+
+/**
+ * Period Comparison Interface
+ * 
+ * Income totals for the active date filter compared with the previous
+ * comparable period (e.g. this month to date vs. the same days last month).
+ * 
+ * @interface PeriodComparison
+ * @property {DateRange} current - Dates compared in the active period
+ * @property {DateRange} previous - Dates of the comparison period
+ * @property {string} label - Short description of the comparison period, e.g. "vs last week"
+ */
+export interface PeriodComparison {
+  current: DateRange;
+  previous: DateRange;
+  label: string;
+  totalRevenue: MetricComparison;
+  totalCash: MetricComparison;
+  totalOnline: MetricComparison;
+}
+
+/**
+ * Earlier window overlaid on the Daily Trend chart
+ */
+export type TrendComparison = 'none' | 'previousYear' | 'previousMonth';
+
+/**
+ * How days of the current window are matched to days of the comparison window:
+ * 'dayOfPeriod' pairs the same calendar day (5 Oct with 5 Oct last year),
+ * 'weekday' pairs the same weekday whole weeks earlier (a Sunday with a Sunday)
+ */
+export type TrendAlignment = 'dayOfPeriod' | 'weekday';
+
 export interface AnalyticsData {
   bestDay: string;
   topDepartment: string;
@@ -103,14 +762,28 @@ export interface AnalyticsData {
   avgDailyRevenue: number;
   avgMonthlyRevenue: number;
   avgYearlyRevenue: number;
+  financialYears: FinancialYearRevenue[];
+}
+
+/**
+ * Revenue for one financial year within the analysed data
+ *
+ * @interface FinancialYearRevenue
+ * @property {number} financialYear - Calendar year the financial year starts in
+ * @property {string} label - Display label, e.g. "FY 2025-26"
+ * @property {number} total - Total revenue recorded in that financial year
+ */
+export interface FinancialYearRevenue {
+  financialYear: number;
+  label: string;
+  total: number;
 }
 
-// Google Sheets configuration
+// Google Sheets configuration (server-side only, see api/_lib/sheetSources.ts)
 export interface GoogleSheetsConfig {
   apiKey: string;
   spreadsheetId: string;
   range: string;
-  refreshInterval: number;
 }
 
 // Bank Details Google Sheets configuration
@@ -120,8 +793,61 @@ export interface BankDetailsConfig {
   range: string;
 }
 
-// Connection status
-export type ConnectionStatus = 'connected' | 'disconnected' | 'connecting';
+/**
+ * Sheet endpoints served by the serverless API under /api
+ */
+export type SheetEndpoint = 'dashboard' | 'income' | 'bank-details' | 'bank-history' | 'fund-balance' | 'departments' | 'events' | 'kpis';
+
+/**
+ * A range of a spreadsheet, without the API key
+ */
+export interface SheetRange {
+  spreadsheetId: string;
+  range: string;
+}
+
+/**
+ * Everything the dashboard shows on load, read with one values:batchGet
+ * request per spreadsheet (GET /api/dashboard)
+ *
+ * @property {SheetValues} values - Every single value in the range registry (see api/_lib/sheetSources.ts)
+ */
+export interface DashboardBundle {
+  income: IncomeDataset;
+  bankDetails: BankDetails[];
+  values: SheetValues;
+}
+
+/**
+ * Successful API response
+ * 
+ * @property {T} data - Parsed sheet contents; null for optional sheets that are not configured
+ * @property {string} fetchedAt - ISO time the sheet was read from Google (earlier than now when served from cache)
+ */
+export interface ApiResponse<T> {
+  data: T;
+  fetchedAt: string;
+}
+
+export interface ApiErrorResponse {
+  error: string;
+  // What kind of failure it was, so the client can rebuild the typed error
+  kind?: RequestErrorKind;
+}
+
+/**
+ * Kind of a failed request (see src/services/requestErrors.ts)
+ * - auth: the credentials were refused (401/403)
+ * - not-found: the spreadsheet, range or URL does not exist (404)
+ * - quota: too many requests (429)
+ * - network: no answer, a timeout or a server error (5xx)
+ * - parse: the response or the sheet layout could not be read
+ * - http: any other unsuccessful status
+ */
+export type RequestErrorKind = 'auth' | 'not-found' | 'quota' | 'network' | 'parse' | 'http';
+
+// Connection status; 'paused' when auto-sync has stopped after repeated failures
+export type ConnectionStatus = 'connected' | 'disconnected' | 'connecting' | 'paused';
 
 export interface ConnectionState {
   status: ConnectionStatus;
@@ -129,8 +855,39 @@ export interface ConnectionState {
   lastSync?: string;
 }
 
+/**
+ * Local Date
+ *
+ * A calendar date without time or timezone, always formatted as YYYY-MM-DD.
+ * Every date read from a sheet is converted to this form at ingestion so that
+ * comparison, sorting and grouping can work on the string directly.
+ */
+export type LocalDate = string;
+
+/**
+ * Order of day and month in ambiguous sheet dates such as 03/04/2025
+ */
+export type DateOrder = 'MDY' | 'DMY';
+
 // Filter types
-export type DateFilter = 'all' | 'yesterday' | 'week' | 'month' | 'year' | 'specific';
+export type DateFilter =
+  | 'all'
+  | 'yesterday'
+  | 'week'
+  | 'month'
+  | 'year'
+  | 'financialYear'
+  | 'lastFinancialYear'
+  | 'fyQ1'
+  | 'fyQ2'
+  | 'fyQ3'
+  | 'fyQ4'
+  | 'specific';
+
+/**
+ * Quarter of the financial year (Q1 = Apr-Jun ... Q4 = Jan-Mar)
+ */
+export type FinancialQuarter = 1 | 2 | 3 | 4;
 
 /**
  * Date Range Interface
@@ -138,12 +895,12 @@ export type DateFilter = 'all' | 'yesterday' | 'week' | 'month' | 'year' | 'spec
  * Represents a date range for filtering data
  * 
  * @interface DateRange
- * @property {Date} start - Start date of the range
- * @property {Date} end - End date of the range
+ * @property {LocalDate} start - Start date of the range (inclusive)
+ * @property {LocalDate} end - End date of the range (inclusive)
  */
 export interface DateRange {
-  start: Date;
-  end: Date;
+  start: LocalDate;
+  end: LocalDate;
 }
 
 // Chart data types
@@ -163,6 +920,67 @@ export interface PaymentMethodData {
   data: number[];
 }
 
+/**
+ * How a KPI value is displayed: currency (₹1,23,456.00), number (1,23,456),
+ * or percent (45.2%, the value already being a percentage)
+ */
+export type KpiFormat = 'currency' | 'number' | 'percent';
+
+export type KpiTone = 'positive' | 'negative' | 'neutral';
+
+/**
+ * KPI Threshold Interface
+ *
+ * Flags a KPI card when its value crosses a limit, e.g. "< 100000 negative: Low balance".
+ *
+ * @property {string} operator - How the value is compared with the limit
+ * @property {number} value - The limit
+ * @property {KpiTone} tone - Colour of the flag
+ * @property {string} note - Text of the flag, e.g. "Low balance"
+ */
+export interface KpiThreshold {
+  operator: '<' | '<=' | '>' | '>=';
+  value: number;
+  tone: KpiTone;
+  note?: string;
+}
+
+/**
+ * Period comparison a KPI card shows growth for
+ */
+export type KpiComparison = 'totalRevenue' | 'totalCash' | 'totalOnline' | 'bankBalance';
+
+/**
+ * KPI Definition Interface
+ *
+ * One KPI card from the KPI registry (sheet tab, JSON file or built-ins).
+ * The value is a formula over the income and bank data (see
+ * src/config/kpiConfig.ts for the functions) or a single value from the
+ * range registry.
+ *
+ * @interface KpiDefinition
+ * @property {string} id - Unique key, defaults to the label
+ * @property {string} formula - e.g. 'income("Annadan", month)'
+ * @property {string} cell - Single value key, e.g. "iskconEmpowerOtherCenters"; used when there is no formula
+ * @property {string} secondary - Text under the label; {formula} or {formula:format} placeholders are filled in
+ * @property {number} row - Card row, 1 being the top row (default 1)
+ * @property {number} order - Position within the row
+ */
+export interface KpiDefinition {
+  id: string;
+  label: string;
+  icon: string;
+  formula?: string;
+  cell?: string;
+  format: KpiFormat;
+  secondary?: string;
+  thresholds: KpiThreshold[];
+  compare?: KpiComparison;
+  row: number;
+  order: number;
+  active: boolean;
+}
+
 // Component props types
 export interface KPICardProps {
   icon: string;
@@ -171,11 +989,15 @@ export interface KPICardProps {
   secondary?: string;
   growth?: string;
   growthType?: 'positive' | 'negative' | 'neutral';
+  // Threshold flag shown on the card
+  flag?: { tone: KpiTone; note?: string };
 }
 
 export interface DepartmentCardProps {
   name: string;
   totals: DepartmentTotals;
+  icon?: string;
+  hasSubSections?: boolean;
   index?: number;
   onClick?: (departmentName: string) => void;
 }
@@ -198,25 +1020,120 @@ export interface DataTableProps {
 // Service types
 export interface GoogleSheetsService {
   testConnection: (config: GoogleSheetsConfig) => Promise<boolean>;
-  fetchData: (config: GoogleSheetsConfig) => Promise<IncomeRecord[]>;
+  fetchData: (config: GoogleSheetsConfig) => Promise<IncomeDataset>;
   fetchBankDetails: (config: BankDetailsConfig) => Promise<BankDetails[]>;
   fetchSingleValue: (config: BankDetailsConfig) => Promise<number>;
+  fetchBatch: (apiKey: string, ranges: SheetBatchRanges) => Promise<DashboardBundle>;
+  fetchDepartmentDefinitions: (config: BankDetailsConfig) => Promise<DepartmentDefinition[]>;
+  fetchEvents: (config: BankDetailsConfig) => Promise<TempleEvent[]>;
+  fetchKpiDefinitions: (config: BankDetailsConfig) => Promise<KpiDefinition[]>;
+  fetchBankHistory: (config: BankDetailsConfig) => Promise<BalanceSnapshot[]>;
+}
+
+/**
+ * Single numeric values a data source provides, by key (e.g. the ISKCON
+ * Empower fund balance as "iskconEmpowerFund"); null when a configured
+ * value could not be read as a number
+ */
+export type SheetValues = Record<string, number | null>;
+
+/**
+ * Ranges read together for the dashboard bundle
+ *
+ * @property {Record<string, SheetRange>} values - Range registry: a cell or column per single value key
+ */
+export interface SheetBatchRanges {
+  income: SheetRange;
+  bankDetails: SheetRange;
+  values: Record<string, SheetRange>;
+}
+
+/**
+ * Where the dashboard reads its data from (REACT_APP_DATA_SOURCE)
+ * - sheets: Google Sheets through the serverless API (default)
+ * - static: JSON or CSV files, e.g. under public/data
+ * - rest: any REST endpoint returning JSON
+ * - memory: data held in memory, for tests and offline UI work
+ */
+export type DataSourceType = 'sheets' | 'static' | 'rest' | 'memory';
+
+/**
+ * Data Source Interface
+ * 
+ * Everything the dashboard reads, independent of where it comes from. The
+ * active source is chosen by configuration and provided through
+ * DataSourceContext, so hooks never import a concrete source.
+ * 
+ * @interface DataSource
+ * @property {string} id - Identifies the source and its location; prefixes offline cache keys
+ * @property {string} label - Name shown to users, e.g. "Google Sheets"
+ */
+export interface DataSource {
+  readonly id: string;
+  readonly label: string;
+  fetchIncome: (options?: FetchOptions) => Promise<IncomeDataset>;
+  fetchBankDetails: (options?: FetchOptions) => Promise<BankDetails[]>;
+  // Every single value the source has, by key; empty when it has none
+  fetchValues: (options?: FetchOptions) => Promise<SheetValues>;
+  // Optional registry, calendar and KPI sheets; null when the source has none
+  fetchDepartmentDefinitions?: () => Promise<DepartmentDefinition[] | null>;
+  fetchEvents?: () => Promise<TempleEvent[] | null>;
+  fetchKpiDefinitions?: () => Promise<KpiDefinition[] | null>;
+  // Optional balance history (e.g. a history tab in the bank sheet); null when the source has none
+  fetchBankHistory?: (options?: FetchOptions) => Promise<BalanceSnapshot[] | null>;
+}
+
+/**
+ * Fetch Options Interface
+ *
+ * @interface FetchOptions
+ * @property {boolean} fresh - Read the sheets again, bypassing the API's and the browser's caches (manual syncs)
+ */
+export interface FetchOptions {
+  fresh?: boolean;
 }
 
 export interface DataProcessingService {
   calculateKPIs: (data: IncomeRecord[]) => KPIData;
   calculateAnalytics: (data: IncomeRecord[]) => AnalyticsData;
   calculateDepartmentTotals: (data: IncomeRecord[], department: string) => DepartmentTotals;
-  filterDataByDate: (data: IncomeRecord[], filter: DateFilter, specificDate?: string) => IncomeRecord[];
+  filterDataByDate: (data: IncomeRecord[], filter: DateFilter, specificDate?: LocalDate) => IncomeRecord[];
+}
+
+/**
+ * Cached Payload Interface
+ * 
+ * A sheet payload persisted in the offline cache.
+ * 
+ * @interface CachedPayload
+ * @property {string} key - Cache key (data source id + payload type, e.g. "sheets:<API URL>/income")
+ * @property {T} data - The payload as last fetched
+ * @property {string} fetchedAt - ISO timestamp of the fetch
+ */
+export interface CachedPayload<T> {
+  key: string;
+  data: T;
+  fetchedAt: string;
 }
 
 // Hook types
 export interface UseIncomeDataReturn {
   data: IncomeRecord[];
-  filteredData: IncomeRecord[];
   loading: boolean;
   error: string | null;
-  refresh: () => Promise<void>;
+  // Fetch time of cached data currently shown, null once live data has loaded
+  cachedAt: string | null;
+  refresh: (options?: FetchOptions) => Promise<void>;
+  // Like refresh, but resolves with what changed and rejects when the fetch fails
+  load: (options?: FetchOptions) => Promise<IncomeChangeSummary>;
+  // Files imported from disk, merged into data
+  imports: IncomeImport[];
+  addImport: (entry: IncomeImport) => void;
+  removeImport: (id: string) => void;
+  // Data quality issues of the loaded data and every import
+  issues: DataQualityIssue[];
+  // Replace the fetched data with a newer fetch, only when it differs, and report what changed
+  applyDataset: (dataset: IncomeDataset) => IncomeChangeSummary;
 }
 
 export interface UseFiltersReturn {
@@ -227,9 +1144,12 @@ export interface UseFiltersReturn {
 
 export interface UseConnectionReturn {
   connectionState: ConnectionState;
-  connect: (config: GoogleSheetsConfig) => Promise<boolean>;
+  connect: (refreshInterval: number) => Promise<boolean>;
   disconnect: () => void;
-  sync: () => Promise<void>;
+  // Fetch the income data and apply it; resolves with what changed
+  sync: () => Promise<IncomeChangeSummary>;
+  // Syncs of this session, newest first
+  syncHistory: SyncHistoryEntry[];
 }
 
 // Utility types
@@ -248,23 +1168,3 @@ export interface Message {
   type: MessageType;
   id: string;
 }
-
-// Constants
-// Department order as specified by user:
-// Boat, Guest House, Govindas, Vrinda's Food Court, Gift Shop, Railway Shop, Gaushala, Kitchen, Gopal's Sweet Shop, Hundi, Nitya Seva, Other Donations
-export const ALL_DEPARTMENTS = [
-  "Guest House",                 // Accommodation services
-  "Govindas",                    // Govindas restaurant
-  "Gift Shop",                   // Retail merchandise
-  "Kitchen",                     // Food preparation
-  "Nitya Seva",                  // Nitya Seva department
-  "Gopal's Sweet Shop",          // Sweet shop
-  "Gaushala",                    // Gaushala department
-  "Railway BBT",                // Railway shop services
-  "Vrinda's Food Court",         // Food court
-  "Hundi",                       // Hundi department
-  "Boat",                        // Boat services
-  "Other Donations"              // Other donations including PWS and general donations
-] as const;
-
-export type DepartmentName = typeof ALL_DEPARTMENTS[number];